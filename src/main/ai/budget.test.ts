@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import type { BudgetStatus } from '../../shared/types';
+import { assertWithinBudget, getBudgetWarning, BudgetExceededError } from './budget';
+
+function status(overrides: Partial<BudgetStatus> = {}): BudgetStatus {
+  return { todayUsd: 0, monthUsd: 0, dailyLimitUsd: 0, monthlyLimitUsd: 0, ...overrides };
+}
+
+describe('assertWithinBudget', () => {
+  it('should allow any request without caps', () => {
+    expect(() => assertWithinBudget(status({ todayUsd: 500 }), 10)).not.toThrow();
+  });
+
+  it('should refuse a request that would exceed the daily cap', () => {
+    const current = status({ todayUsd: 4.5, dailyLimitUsd: 5 });
+
+    expect(() => assertWithinBudget(current, 0.6)).toThrow(BudgetExceededError);
+    expect(() => assertWithinBudget(current, 0.6)).toThrow(/Tagesbudget von \$5\.00/);
+    expect(() => assertWithinBudget(current, 0.4)).not.toThrow();
+  });
+
+  it('should check the monthly cap independently', () => {
+    const current = status({ todayUsd: 1, monthUsd: 19.9, dailyLimitUsd: 5, monthlyLimitUsd: 20 });
+
+    expect(() => assertWithinBudget(current, 0.2)).toThrow(/Monatsbudget/);
+  });
+
+  it('should let free requests through once the cap is reached', () => {
+    expect(() => assertWithinBudget(status({ todayUsd: 5, dailyLimitUsd: 5 }), 0)).not.toThrow();
+  });
+});
+
+describe('getBudgetWarning', () => {
+  it('should warn from 80% of a cap including the upcoming request', () => {
+    expect(getBudgetWarning(status({ todayUsd: 3.5, dailyLimitUsd: 5 }))).toBeNull();
+
+    const warning = getBudgetWarning(status({ todayUsd: 3.5, dailyLimitUsd: 5 }), 0.5);
+    expect(warning).toMatchObject({ period: 'daily' });
+    expect(warning?.message).toContain('80%');
+  });
+
+  it('should not warn without caps', () => {
+    expect(getBudgetWarning(status({ todayUsd: 100, monthUsd: 100 }))).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import type { BudgetStatus, BudgetWarning } from '../../shared/types';
+
+// Share of a cap at which the user is warned
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+/**
+ * Thrown when a request would push API spending over a budget cap
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function getPeriods(status: BudgetStatus) {
+  return [
+    { period: 'daily' as const, label: 'Tagesbudget', spent: status.todayUsd, limit: status.dailyLimitUsd },
+    { period: 'monthly' as const, label: 'Monatsbudget', spent: status.monthUsd, limit: status.monthlyLimitUsd },
+  ].filter(p => p.limit > 0);
+}
+
+/**
+ * Refuse a request whose estimated cost would exceed a cap (0 = no cap).
+ * Free requests (e.g. Ollama) always pass.
+ */
+export function assertWithinBudget(status: BudgetStatus, estimatedCostUsd: number): void {
+  if (estimatedCostUsd <= 0) return;
+
+  for (const { label, spent, limit } of getPeriods(status)) {
+    if (spent + estimatedCostUsd > limit) {
+      throw new BudgetExceededError(
+        `${label} von ${formatUsd(limit)} wurde erreicht: bisher ${formatUsd(spent)} ausgegeben, ` +
+        `diese Anfrage kostet geschatzt ${formatUsd(estimatedCostUsd)}. Das Limit kann in den Einstellungen angepasst werden.`
+      );
+    }
+  }
+}
+
+/**
+ * Get a warning once spending plus the upcoming request reaches 80% of a cap
+ */
+export function getBudgetWarning(status: BudgetStatus, estimatedCostUsd: number = 0): BudgetWarning | null {
+  for (const { period, label, spent, limit } of getPeriods(status)) {
+    const projected = spent + estimatedCostUsd;
+    if (projected >= limit * BUDGET_WARNING_THRESHOLD) {
+      return {
+        period,
+        message: `${label} zu ${Math.round((projected / limit) * 100)}% ausgeschopft (${formatUsd(projected)} von ${formatUsd(limit)})`,
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,176 @@
+import { type AIProviderConfig, type UsageData, createAIClient } from './provider';
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const DEFAULT_OLLAMA_EMBEDDING_MODEL = 'nomic-embed-text';
+
+// Embedding Model Pricing (USD per 1M input tokens)
+const EMBEDDING_PRICING: Record<string, number> = {
+  'text-embedding-3-small': 0.02,
+  'text-embedding-3-large': 0.13,
+  'text-embedding-ada-002': 0.10,
+  'default': 0.02,
+};
+
+// OpenAI accepts up to 2048 inputs per request; stay well below to keep requests small
+const OPENAI_BATCH_SIZE = 64;
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  usage: UsageData;
+}
+
+/**
+ * Get the embedding model name for the configured provider
+ */
+export function getEmbeddingModelName(config: AIProviderConfig): string {
+  if (config.provider === 'ollama') {
+    return config.ollamaEmbeddingModel || DEFAULT_OLLAMA_EMBEDDING_MODEL;
+  }
+  if (config.provider === 'openai-compatible' && config.embeddingModel) {
+    return config.embeddingModel;
+  }
+  return config.openaiEmbeddingModel || DEFAULT_OPENAI_EMBEDDING_MODEL;
+}
+
+/**
+ * Calculate embedding cost (returns 0 for Ollama and custom providers)
+ */
+export function calculateEmbeddingCost(config: AIProviderConfig, promptTokens: number): number {
+  if (config.provider !== 'openai') {
+    return 0;
+  }
+  const model = getEmbeddingModelName(config);
+  const price = EMBEDDING_PRICING[model] ?? EMBEDDING_PRICING['default'];
+  return (promptTokens / 1_000_000) * price;
+}
+
+/**
+ * Embed a list of texts with the configured provider.
+ * Ollama uses its native /api/embeddings endpoint, all others the OpenAI embeddings API.
+ */
+export async function embedTexts(
+  config: AIProviderConfig,
+  texts: string[]
+): Promise<EmbeddingResult> {
+  const model = getEmbeddingModelName(config);
+  const vectors: number[][] = [];
+  let promptTokens = 0;
+
+  const estimatedTokens = Math.ceil(texts.reduce((sum, text) => sum + text.length, 0) / 4);
+  config.checkBudget?.(calculateEmbeddingCost(config, estimatedTokens));
+
+  if (config.provider === 'ollama') {
+    const baseUrl = config.ollamaBaseUrl || DEFAULT_OLLAMA_URL;
+
+    for (const text of texts) {
+      const response = await fetch(`${baseUrl}/api/embeddings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, prompt: text }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama Embedding-Fehler (HTTP ${response.status}): ${response.statusText}`);
+      }
+
+      const data = await response.json() as { embedding?: number[] };
+      if (!data.embedding || data.embedding.length === 0) {
+        throw new Error(`Modell "${model}" liefert keine Embeddings`);
+      }
+      vectors.push(data.embedding);
+      // Ollama does not report token counts - estimate ~4 characters per token
+      promptTokens += Math.ceil(text.length / 4);
+    }
+  } else {
+    const client = createAIClient(config);
+
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      const batch = texts.slice(i, i + OPENAI_BATCH_SIZE);
+      const response = await client.embeddings.create({ model, input: batch });
+
+      // Results are not guaranteed to be in input order
+      const sorted = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(...sorted.map(item => item.embedding));
+      promptTokens += response.usage?.prompt_tokens ?? 0;
+    }
+  }
+
+  return {
+    vectors,
+    usage: {
+      model,
+      promptTokens,
+      completionTokens: 0,
+      costUsd: calculateEmbeddingCost(config, promptTokens),
+    },
+  };
+}
+
+/**
+ * Split page text into overlapping chunks for embedding.
+ * Breaks at whitespace where possible so words are not cut in half.
+ */
+export function chunkText(text: string, maxChars: number = 1200, overlap: number = 200): string[] {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) return [];
+  if (normalized.length <= maxChars) return [normalized];
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + maxChars, normalized.length);
+
+    if (end < normalized.length) {
+      const lastSpace = normalized.lastIndexOf(' ', end);
+      if (lastSpace > start + maxChars / 2) {
+        end = lastSpace;
+      }
+    }
+
+    chunks.push(normalized.slice(start, end).trim());
+
+    if (end >= normalized.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Cosine similarity between two vectors (0 if either has zero length)
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Serialize a vector as a Float32 BLOB for SQLite
+ */
+export function vectorToBuffer(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+/**
+ * Deserialize a Float32 BLOB from SQLite
+ */
+export function bufferToVector(buffer: Buffer): Float32Array {
+  // Copy into an aligned buffer - SQLite BLOBs are not guaranteed to be 4-byte aligned
+  const copy = new Uint8Array(buffer.byteLength);
+  copy.set(buffer);
+  return new Float32Array(copy.buffer);
+}
@@ -1,24 +1,35 @@
 import OpenAI from 'openai';
-import type { AIProvider, OpenAIModel } from '../../shared/types';
+import type { AIProvider, AIProviderModel, OpenAIModel } from '../../shared/types';
+import { getModelPricing } from './providers';
 
 const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
-
-// GPT-5 Model Pricing (USD per 1M tokens)
-const OPENAI_PRICING: Record<string, { input: number; output: number }> = {
-  'gpt-5-nano': { input: 0.05, output: 0.40 },
-  'gpt-5-mini': { input: 0.25, output: 2.00 },
-  'gpt-5.2': { input: 1.75, output: 14.00 },
-  'default': { input: 0.25, output: 2.00 },
-};
+const DEFAULT_MAX_TOKENS = 16000;
 
 export interface AIProviderConfig {
   provider: AIProvider;
+  providerId?: string;
+  providerName?: string;
   // OpenAI settings
   openaiApiKey?: string | null;
   openaiModel?: OpenAIModel;
   // Ollama settings
   ollamaModel?: string;
   ollamaBaseUrl?: string;
+  // Embedding models (semantic search)
+  openaiEmbeddingModel?: string;
+  ollamaEmbeddingModel?: string;
+  // OpenAI-compatible endpoint settings (custom providers)
+  baseUrl?: string;
+  apiKey?: string | null;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  models?: AIProviderModel[];
+  model?: string;
+  embeddingModel?: string;
+  // Called with the estimated cost before each request, throws to refuse it
+  checkBudget?: (estimatedCostUsd: number) => void;
+  // Called with the usage of a route attempt that failed but was billed
+  trackFailedUsage?: (usage: UsageData) => void;
 }
 
 export interface ChatMessage {
@@ -28,6 +39,18 @@ export interface ChatMessage {
 
 export interface ChatOptions {
   maxTokens?: number;
+  // Ask for JSON matching this schema (structured outputs)
+  jsonSchema?: {
+    name: string;
+    schema: Record<string, unknown>;
+  };
+  // Abort the request (rejects with ChatCancelledError)
+  signal?: AbortSignal;
+}
+
+export interface ChatStreamOptions {
+  onDelta: (delta: string) => void;
+  signal?: AbortSignal;
 }
 
 export interface ChatResult {
@@ -43,10 +66,34 @@ export interface UsageData {
   promptTokens: number;
   completionTokens: number;
   costUsd: number;
+  provider?: string;
+  fallback?: boolean;     // Served by a fallback model of the route
+}
+
+/**
+ * Thrown when a streamed completion is aborted.
+ * Carries the usage of the partial response so it can still be tracked.
+ */
+export class ChatCancelledError extends Error {
+  constructor(public readonly usage: UsageData) {
+    super('Anfrage abgebrochen');
+    this.name = 'ChatCancelledError';
+  }
 }
 
 /**
- * Calculate cost for API usage (returns 0 for Ollama)
+ * Thrown when a streamed completion fails after text was already forwarded.
+ * Carries the usage of the partial response like ChatCancelledError.
+ */
+export class ChatInterruptedError extends Error {
+  constructor(message: string, public readonly usage: UsageData) {
+    super(message);
+    this.name = 'ChatInterruptedError';
+  }
+}
+
+/**
+ * Calculate cost for API usage from the provider's pricing table (returns 0 for Ollama)
  */
 export function calculateCost(
   config: AIProviderConfig,
@@ -57,10 +104,12 @@ export function calculateCost(
     return 0;
   }
 
-  const model = config.openaiModel || 'gpt-5-mini';
-  const pricing = OPENAI_PRICING[model] || OPENAI_PRICING['default'];
-  const inputCost = (promptTokens / 1_000_000) * pricing.input;
-  const outputCost = (completionTokens / 1_000_000) * pricing.output;
+  const pricing = getModelPricing(config, getModelName(config));
+  if (!pricing) {
+    return 0;
+  }
+  const inputCost = (promptTokens / 1_000_000) * pricing.inputPrice;
+  const outputCost = (completionTokens / 1_000_000) * pricing.outputPrice;
   return inputCost + outputCost;
 }
 
@@ -71,6 +120,9 @@ export function getModelName(config: AIProviderConfig): string {
   if (config.provider === 'ollama') {
     return config.ollamaModel || 'llama3.1';
   }
+  if (config.provider === 'openai-compatible') {
+    return config.model || '';
+  }
   return config.openaiModel || 'gpt-5-mini';
 }
 
@@ -86,6 +138,18 @@ export function createAIClient(config: AIProviderConfig): OpenAI {
     });
   }
 
+  if (config.provider === 'openai-compatible') {
+    if (!config.baseUrl) {
+      throw new Error(`Basis-URL fur "${config.providerName}" fehlt`);
+    }
+    return new OpenAI({
+      baseURL: config.baseUrl.replace(/\/+$/, ''),
+      apiKey: config.apiKey || 'none', // Local servers usually ignore the key
+      defaultHeaders: config.headers,
+      defaultQuery: config.query,
+    });
+  }
+
   if (!config.openaiApiKey) {
     throw new Error('OpenAI API-Schlussel fehlt');
   }
@@ -95,6 +159,33 @@ export function createAIClient(config: AIProviderConfig): OpenAI {
   });
 }
 
+// Send the completion request, with structured outputs if a schema was given
+async function requestCompletion(
+  config: AIProviderConfig,
+  options: ChatOptions,
+  create: (responseFormat?: OpenAI.ResponseFormatJSONSchema) => Promise<OpenAI.ChatCompletion>
+): Promise<OpenAI.ChatCompletion> {
+  if (!options.jsonSchema) {
+    return create();
+  }
+
+  const responseFormat: OpenAI.ResponseFormatJSONSchema = {
+    type: 'json_schema',
+    // Strict mode is only guaranteed on OpenAI, other servers use the schema as a guide
+    json_schema: { ...options.jsonSchema, strict: config.provider === 'openai' },
+  };
+  try {
+    return await create(responseFormat);
+  } catch (error) {
+    // Older local servers reject structured outputs - ask again without
+    if (config.provider === 'openai' || !(error instanceof OpenAI.APIError) || error.status !== 400) {
+      throw error;
+    }
+    console.warn(`${config.providerName || config.provider} does not support structured outputs:`, error.message);
+    return create();
+  }
+}
+
 /**
  * Execute a chat completion with the configured AI provider
  */
@@ -103,14 +194,27 @@ export async function chat(
   messages: ChatMessage[],
   options: ChatOptions = {}
 ): Promise<ChatResult> {
+  config.checkBudget?.(estimateCost(config, messages, options.maxTokens));
   const client = createAIClient(config);
   const model = getModelName(config);
 
-  const response = await client.chat.completions.create({
+  const create = (responseFormat?: OpenAI.ResponseFormatJSONSchema) => client.chat.completions.create({
     model,
     messages,
-    max_completion_tokens: options.maxTokens || 16000,
-  });
+    max_completion_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+    ...(responseFormat ? { response_format: responseFormat } : {}),
+  }, { signal: options.signal });
+
+  let response: OpenAI.ChatCompletion;
+  try {
+    response = await requestCompletion(config, options, create);
+  } catch (error) {
+    if (options.signal?.aborted) {
+      // The prompt was most likely processed already - track it like a cancelled stream
+      throw new ChatCancelledError(createUsageData(config, estimateTokens(messages), 0));
+    }
+    throw error;
+  }
 
   const content = response.choices[0]?.message?.content;
   if (!content) {
@@ -126,6 +230,96 @@ export async function chat(
   };
 }
 
+/**
+ * Execute a chat completion and forward content deltas as they arrive.
+ * Resolves with the full content once the stream ends.
+ */
+export async function chatStream(
+  config: AIProviderConfig,
+  messages: ChatMessage[],
+  stream: ChatStreamOptions,
+  options: ChatOptions = {}
+): Promise<ChatResult> {
+  config.checkBudget?.(estimateCost(config, messages, options.maxTokens));
+  const client = createAIClient(config);
+  const model = getModelName(config);
+
+  let content = '';
+  let promptTokens = 0;
+  let completionTokens = 0;
+
+  try {
+    const response = await client.chat.completions.create(
+      {
+        model,
+        messages,
+        max_completion_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: stream.signal }
+    );
+
+    for await (const chunk of response) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        stream.onDelta(delta);
+      }
+      // The final chunk carries the usage (if the provider reports it)
+      if (chunk.usage) {
+        promptTokens = chunk.usage.prompt_tokens;
+        completionTokens = chunk.usage.completion_tokens;
+      }
+    }
+  } catch (error) {
+    if (stream.signal?.aborted) {
+      throw new ChatCancelledError(
+        createUsageData(config, estimateTokens(messages), Math.ceil(content.length / 4))
+      );
+    }
+    if (content) {
+      throw new ChatInterruptedError(
+        `Die Antwort wurde unterbrochen: ${error instanceof Error ? error.message : String(error)}`,
+        createUsageData(config, estimateTokens(messages), Math.ceil(content.length / 4))
+      );
+    }
+    throw error;
+  }
+
+  if (!content) {
+    throw new Error('Keine Antwort vom KI-Modell erhalten');
+  }
+
+  return {
+    content,
+    usage: {
+      // Not every OpenAI-compatible server reports usage for streams - estimate then
+      promptTokens: promptTokens || estimateTokens(messages),
+      completionTokens: completionTokens || Math.ceil(content.length / 4),
+    },
+  };
+}
+
+// Rough token estimate (~4 characters per token) for providers without usage data
+function estimateTokens(messages: ChatMessage[]): number {
+  return Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+}
+
+/**
+ * Estimate the cost of a request before sending it.
+ * Assumes the answer is about as long as the prompt (at least 1000 tokens), capped by the token limit.
+ */
+export function estimateCost(
+  config: AIProviderConfig,
+  messages: ChatMessage[],
+  maxTokens: number = DEFAULT_MAX_TOKENS
+): number {
+  const promptTokens = estimateTokens(messages);
+  const completionTokens = Math.min(maxTokens, Math.max(promptTokens, 1000));
+  return calculateCost(config, promptTokens, completionTokens);
+}
+
 /**
  * Create usage data from chat result
  */
@@ -139,6 +333,7 @@ export function createUsageData(
     promptTokens,
     completionTokens,
     costUsd: calculateCost(config, promptTokens, completionTokens),
+    provider: config.providerName,
   };
 }
 
@@ -154,6 +349,14 @@ export function validateConfig(config: AIProviderConfig): { valid: boolean; erro
       };
     }
   }
+  if (config.provider === 'openai-compatible') {
+    if (!config.baseUrl) {
+      return { valid: false, error: `Basis-URL fur "${config.providerName}" nicht konfiguriert.` };
+    }
+    if (!config.model) {
+      return { valid: false, error: `Kein Modell fur "${config.providerName}" konfiguriert.` };
+    }
+  }
   // Ollama doesn't require any API key
   return { valid: true };
 }
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { CustomAIProvider } from '../../shared/types';
+import { calculateCost, getModelName, type AIProviderConfig } from './provider';
+import { resolveProviderConfig, resolveRouteConfigs } from './providers';
+
+const base: AIProviderConfig = {
+  provider: 'openai',
+  openaiApiKey: 'sk-test',
+  openaiModel: 'gpt-5-mini',
+  ollamaModel: 'llama3.1',
+};
+
+const lmStudio: CustomAIProvider = {
+  id: 'lm-studio',
+  name: 'LM Studio',
+  baseUrl: 'http://localhost:1234/v1',
+  apiKey: null,
+  headers: { 'X-Team': 'lernen' },
+  query: {},
+  models: [
+    { id: 'qwen2.5-7b', inputPrice: 0, outputPrice: 0 },
+    { id: 'mistral-large', inputPrice: 2, outputPrice: 6 },
+  ],
+  defaultModel: 'mistral-large',
+  embeddingModel: null,
+};
+
+describe('resolveProviderConfig', () => {
+  it('should keep the built-in settings for openai and ollama', () => {
+    expect(resolveProviderConfig(base, 'ollama', [lmStudio])).toMatchObject({ provider: 'ollama' });
+    expect(getModelName(resolveProviderConfig(base, 'openai', [lmStudio]))).toBe('gpt-5-mini');
+  });
+
+  it('should switch to the OpenAI-compatible client for custom providers', () => {
+    const config = resolveProviderConfig(base, 'lm-studio', [lmStudio]);
+
+    expect(config).toMatchObject({
+      provider: 'openai-compatible',
+      providerName: 'LM Studio',
+      baseUrl: 'http://localhost:1234/v1',
+      headers: { 'X-Team': 'lernen' },
+    });
+    expect(getModelName(config)).toBe('mistral-large');
+  });
+
+  it('should fall back to OpenAI when the provider no longer exists', () => {
+    expect(resolveProviderConfig(base, 'deleted', [lmStudio]).provider).toBe('openai');
+  });
+});
+
+describe('resolveRouteConfigs', () => {
+  it('should use the default provider when no route is configured', () => {
+    const configs = resolveRouteConfigs(base, [], 'lm-studio', [lmStudio]);
+
+    expect(configs.map(getModelName)).toEqual(['mistral-large']);
+  });
+
+  it('should keep the route order and apply each model', () => {
+    const configs = resolveRouteConfigs(base, [
+      { providerId: 'openai', model: 'gpt-5-nano' },
+      { providerId: 'lm-studio', model: 'qwen2.5-7b' },
+      { providerId: 'ollama', model: '' },
+    ], 'openai', [lmStudio]);
+
+    expect(configs.map(getModelName)).toEqual(['gpt-5-nano', 'qwen2.5-7b', 'llama3.1']);
+  });
+});
+
+describe('calculateCost', () => {
+  it('should use the pricing table of the custom provider', () => {
+    const config = resolveProviderConfig(base, 'lm-studio', [lmStudio]);
+
+    expect(calculateCost(config, 1_000_000, 500_000)).toBeCloseTo(5);
+    expect(calculateCost({ ...config, model: 'unlisted' }, 1_000_000, 1_000_000)).toBe(0);
+  });
+
+  it('should price unknown OpenAI models with the default rate', () => {
+    expect(calculateCost({ ...base, openaiModel: 'gpt-9' as never }, 1_000_000, 0)).toBeCloseTo(0.25);
+  });
+});
@@ -0,0 +1,97 @@
+import type { AIModelRoute, AIProviderModel, CustomAIProvider, OpenAIModel } from '../../shared/types';
+import type { AIProviderConfig } from './provider';
+
+export const BUILTIN_PROVIDER_IDS = ['openai', 'ollama'] as const;
+
+// GPT-5 Model Pricing (USD per 1M tokens)
+export const OPENAI_MODELS: AIProviderModel[] = [
+  { id: 'gpt-5-nano', inputPrice: 0.05, outputPrice: 0.40 },
+  { id: 'gpt-5-mini', inputPrice: 0.25, outputPrice: 2.00 },
+  { id: 'gpt-5.2', inputPrice: 1.75, outputPrice: 14.00 },
+];
+
+// Used for OpenAI models missing from the table
+const OPENAI_DEFAULT_PRICING: AIProviderModel = { id: 'default', inputPrice: 0.25, outputPrice: 2.00 };
+
+/**
+ * Get the model list (with pricing) of the configured provider.
+ * Ollama models are free and listed by the server itself.
+ */
+export function getProviderModels(config: AIProviderConfig): AIProviderModel[] {
+  if (config.provider === 'openai') return OPENAI_MODELS;
+  if (config.provider === 'openai-compatible') return config.models || [];
+  return [];
+}
+
+/**
+ * Look up the pricing of a model. Unknown OpenAI models use the default price,
+ * unknown models of other providers are treated as free (local servers).
+ */
+export function getModelPricing(config: AIProviderConfig, model: string): AIProviderModel | null {
+  const entry = getProviderModels(config).find(m => m.id === model);
+  if (entry) return entry;
+  return config.provider === 'openai' ? OPENAI_DEFAULT_PRICING : null;
+}
+
+/**
+ * Apply a provider (and optionally one of its models) to a base configuration.
+ * Built-in ids keep the base settings, custom ids switch to the OpenAI-compatible client.
+ * Unknown ids (e.g. a deleted provider) fall back to OpenAI.
+ */
+export function resolveProviderConfig(
+  base: AIProviderConfig,
+  providerId: string,
+  customProviders: CustomAIProvider[],
+  model?: string
+): AIProviderConfig {
+  if (providerId === 'ollama') {
+    return {
+      ...base,
+      provider: 'ollama',
+      providerId,
+      providerName: 'Ollama',
+      ollamaModel: model || base.ollamaModel,
+    };
+  }
+
+  const custom = customProviders.find(p => p.id === providerId);
+  if (!custom) {
+    return {
+      ...base,
+      provider: 'openai',
+      providerId: 'openai',
+      providerName: 'OpenAI',
+      openaiModel: (model as OpenAIModel) || base.openaiModel,
+    };
+  }
+
+  return {
+    ...base,
+    provider: 'openai-compatible',
+    providerId: custom.id,
+    providerName: custom.name,
+    baseUrl: custom.baseUrl,
+    apiKey: custom.apiKey,
+    headers: custom.headers,
+    query: custom.query,
+    models: custom.models,
+    model: model || custom.defaultModel || custom.models[0]?.id,
+    embeddingModel: custom.embeddingModel || undefined,
+  };
+}
+
+/**
+ * Build the provider configurations of a model route, primary first.
+ * An empty route uses the default provider with its default model.
+ */
+export function resolveRouteConfigs(
+  base: AIProviderConfig,
+  route: AIModelRoute[],
+  defaultProviderId: string,
+  customProviders: CustomAIProvider[]
+): AIProviderConfig[] {
+  if (route.length === 0) {
+    return [resolveProviderConfig(base, defaultProviderId, customProviders)];
+  }
+  return route.map(step => resolveProviderConfig(base, step.providerId, customProviders, step.model || undefined));
+}
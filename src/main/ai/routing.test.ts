@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ChatCancelledError, ChatInterruptedError, createUsageData, type AIProviderConfig } from './provider';
+import { BudgetExceededError } from './budget';
+import { runWithFallback } from './routing';
+import { StructuredOutputError } from './structured';
+
+const nano: AIProviderConfig = { provider: 'openai', providerName: 'OpenAI', openaiModel: 'gpt-5-nano' };
+const mini: AIProviderConfig = { provider: 'openai', providerName: 'OpenAI', openaiModel: 'gpt-5-mini' };
+
+function answer(config: AIProviderConfig) {
+  return Promise.resolve({ text: 'ok', usage: createUsageData(config, 10, 5) });
+}
+
+describe('runWithFallback', () => {
+  it('should use the primary model when it succeeds', async () => {
+    const run = vi.fn(answer);
+
+    const result = await runWithFallback([nano, mini], run);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(result.usage).toMatchObject({ model: 'gpt-5-nano', provider: 'OpenAI', fallback: false });
+  });
+
+  it('should move on to the next model and mark the result as fallback', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const run = vi.fn((config: AIProviderConfig) =>
+      config === nano ? Promise.reject(new Error('model overloaded')) : answer(config)
+    );
+
+    const result = await runWithFallback([nano, mini], run);
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(result.usage).toMatchObject({ model: 'gpt-5-mini', fallback: true });
+  });
+
+  it('should throw the last error when every model fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const run = vi.fn((config: AIProviderConfig) => Promise.reject(new Error(`${config.openaiModel} down`)));
+
+    await expect(runWithFallback([nano, mini], run)).rejects.toThrow('gpt-5-mini down');
+  });
+
+  it('should not retry a cancelled request', async () => {
+    const run = vi.fn(() => Promise.reject(new ChatCancelledError(createUsageData(nano, 10, 0))));
+
+    await expect(runWithFallback([nano, mini], run)).rejects.toBeInstanceOf(ChatCancelledError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not try the next model when the budget is exceeded', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const run = vi.fn(() => Promise.reject(new BudgetExceededError('Tagesbudget erreicht')));
+
+    await expect(runWithFallback([nano, mini], run)).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should not retry a stream that already sent text', async () => {
+    const run = vi.fn(() => Promise.reject(new ChatInterruptedError('Verbindung verloren', createUsageData(nano, 10, 20))));
+
+    await expect(runWithFallback([nano, mini], run)).rejects.toBeInstanceOf(ChatInterruptedError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should track the usage of an attempt that failed after it was billed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const trackFailedUsage = vi.fn();
+    const run = vi.fn((config: AIProviderConfig) =>
+      Promise.reject(new ChatInterruptedError('Verbindung verloren', createUsageData(config, 10, 20)))
+    );
+
+    await expect(runWithFallback([{ ...mini, trackFailedUsage }], run)).rejects.toBeInstanceOf(ChatInterruptedError);
+    expect(trackFailedUsage).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-5-mini', completionTokens: 20, fallback: false }));
+  });
+
+  it('should track the usage of invalid structured answers and try the next model', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const trackFailedUsage = vi.fn();
+    const run = vi.fn((config: AIProviderConfig) => config.openaiModel === 'gpt-5-nano'
+      ? Promise.reject(new StructuredOutputError('Falsches Format', [], createUsageData(config, 30, 15)))
+      : answer(config)
+    );
+
+    const result = await runWithFallback([{ ...nano, trackFailedUsage }, { ...mini, trackFailedUsage }], run);
+
+    expect(result.usage.fallback).toBe(true);
+    expect(trackFailedUsage).toHaveBeenCalledTimes(1);
+    expect(trackFailedUsage).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-5-nano', promptTokens: 30, fallback: false }));
+  });
+});
@@ -0,0 +1,60 @@
+import { BudgetExceededError } from './budget';
+import { ChatCancelledError, ChatInterruptedError, getModelName, type AIProviderConfig, type UsageData } from './provider';
+import { StructuredOutputError } from './structured';
+
+// Usage of a failed attempt that was billed anyway, e.g. a stream that broke off
+function getFailedUsage(error: unknown): UsageData | undefined {
+  if (error instanceof ChatInterruptedError || error instanceof StructuredOutputError) {
+    return error.usage;
+  }
+  return undefined;
+}
+
+/**
+ * Run an AI call along a model route, moving on to the next model when one fails.
+ * Cancellations and budget caps are never retried, neither are streams that already
+ * sent text (the next answer would be appended to it). Throws the last error if every model failed.
+ * Results served by a fallback model are marked in their usage data, billed failures
+ * are passed to the config's trackFailedUsage.
+ */
+export async function runWithFallback<T extends { usage: UsageData }>(
+  configs: AIProviderConfig[],
+  run: (config: AIProviderConfig) => Promise<T>
+): Promise<T> {
+  let lastError: unknown = new Error('Kein KI-Modell konfiguriert');
+
+  for (let i = 0; i < configs.length; i++) {
+    const fallback = i > 0;
+    try {
+      const result = await run(configs[i]);
+      result.usage.fallback = fallback;
+      return result;
+    } catch (error) {
+      // Cancellations are tracked by the handlers
+      if (error instanceof ChatCancelledError) {
+        error.usage.fallback = fallback;
+        throw error;
+      }
+      // A cap applies to the whole request, not to one model
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      const usage = getFailedUsage(error);
+      if (usage) {
+        configs[i].trackFailedUsage?.({ ...usage, fallback });
+      }
+      if (error instanceof ChatInterruptedError) {
+        throw error;
+      }
+      lastError = error;
+      if (i < configs.length - 1) {
+        console.warn(
+          `Model ${getModelName(configs[i])} (${configs[i].providerName}) failed, trying ${getModelName(configs[i + 1])}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { chat, type AIProviderConfig } from './provider';
+import {
+  chatStructured,
+  parseJsonResponse,
+  validateSchema,
+  StructuredOutputError,
+  type StructuredSchema,
+} from './structured';
+
+vi.mock('./provider', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./provider')>()),
+  chat: vi.fn(),
+}));
+
+const CARDS: StructuredSchema = {
+  name: 'cards',
+  schema: {
+    type: 'object',
+    properties: {
+      cards: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            front: { type: 'string', minLength: 1 },
+            back: { type: 'string', minLength: 1 },
+          },
+          required: ['front', 'back'],
+        },
+      },
+    },
+    required: ['cards'],
+  },
+};
+
+describe('parseJsonResponse', () => {
+  it('should read JSON from code fences and surrounding prose', () => {
+    const content = 'Hier sind die Karten:\n```json\n{"cards": [{"front": "A", "back": "B"}]}\n```\nViel Erfolg!';
+
+    expect(parseJsonResponse(content)).toEqual({ cards: [{ front: 'A', back: 'B' }] });
+  });
+
+  it('should drop trailing commas outside of strings', () => {
+    expect(parseJsonResponse('[{"front": "a, ]", "back": "b",},]')).toEqual([{ front: 'a, ]', back: 'b' }]);
+  });
+
+  it('should keep the complete elements of truncated output', () => {
+    const truncated = '```json\n{"cards": [{"front": "A", "back": "B"}, {"front": "C", "back": "D"}, {"front": "E", "ba';
+
+    expect(parseJsonResponse(truncated)).toEqual({
+      cards: [{ front: 'A', back: 'B' }, { front: 'C', back: 'D' }],
+    });
+  });
+
+  it('should repair truncated nested structures', () => {
+    const truncated = '[{"title": "Teil 1", "pageIndex": 0, "children": [{"title": "1.1", "pageIndex": 2, "children": []}, {"title": "1.';
+
+    expect(parseJsonResponse(truncated)).toEqual([
+      { title: 'Teil 1', pageIndex: 0, children: [{ title: '1.1', pageIndex: 2, children: [] }] },
+    ]);
+  });
+
+  it('should throw when there is no JSON', () => {
+    expect(() => parseJsonResponse('Leider kann ich das nicht.')).toThrow(StructuredOutputError);
+  });
+});
+
+describe('validateSchema', () => {
+  it('should report missing and mistyped fields with their path', () => {
+    const errors = validateSchema({ cards: [{ front: 'A' }, { front: '', back: 3 }] }, CARDS.schema);
+
+    expect(errors).toEqual([
+      '$.cards[0].back is required',
+      '$.cards[1].front must not be empty',
+      '$.cards[1].back must be a string',
+    ]);
+  });
+
+  it('should follow $defs references for recursive schemas', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: { items: { type: 'array' as const, items: { $ref: '#/$defs/node' } } },
+      $defs: {
+        node: {
+          type: 'object' as const,
+          properties: { children: { type: 'array' as const, items: { $ref: '#/$defs/node' } } },
+          required: ['children'],
+        },
+      },
+    };
+
+    expect(validateSchema({ items: [{ children: [{ children: [] }] }] }, schema)).toEqual([]);
+    expect(validateSchema({ items: [{ children: [{}] }] }, schema)).toEqual(['$.items[0].children[0].children is required']);
+  });
+});
+
+describe('chatStructured', () => {
+  const config: AIProviderConfig = { provider: 'ollama', ollamaModel: 'llama3.2:1b' };
+  const chatMock = vi.mocked(chat);
+
+  beforeEach(() => {
+    chatMock.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should accept a bare array for a single-array schema', async () => {
+    chatMock.mockResolvedValueOnce({ content: '[{"front": "A", "back": "B"}]', usage: { promptTokens: 10, completionTokens: 5 } });
+
+    const result = await chatStructured(config, [{ role: 'user', content: 'Karten' }], CARDS);
+
+    expect(result.data).toEqual({ cards: [{ front: 'A', back: 'B' }] });
+    expect(chatMock.mock.calls[0][2]?.jsonSchema?.name).toBe('cards');
+  });
+
+  it('should retry with the validation errors and add up the usage', async () => {
+    chatMock
+      .mockResolvedValueOnce({ content: '{"cards": [{"front": "A"}]}', usage: { promptTokens: 10, completionTokens: 5 } })
+      .mockResolvedValueOnce({ content: '{"cards": [{"front": "A", "back": "B"}]}', usage: { promptTokens: 20, completionTokens: 5 } });
+
+    const result = await chatStructured(config, [{ role: 'user', content: 'Karten' }], CARDS);
+
+    expect(result.attempts).toBe(2);
+    expect(result.usage).toEqual({ promptTokens: 30, completionTokens: 10 });
+    const retryMessages = chatMock.mock.calls[1][1];
+    expect(retryMessages.at(-1)?.content).toContain('$.cards[0].back is required');
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    chatMock.mockResolvedValue({ content: 'kein JSON', usage: { promptTokens: 1, completionTokens: 1 } });
+
+    await expect(
+      chatStructured(config, [{ role: 'user', content: 'Karten' }], CARDS, { maxAttempts: 2 })
+    ).rejects.toMatchObject({
+      name: 'StructuredOutputError',
+      usage: { model: 'llama3.2:1b', promptTokens: 2, completionTokens: 2 },
+    });
+    expect(chatMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,316 @@
+import {
+  type AIProviderConfig,
+  type ChatMessage,
+  type ChatOptions,
+  type UsageData,
+  chat,
+  createUsageData,
+} from './provider';
+
+/**
+ * Subset of JSON Schema understood by the validator below.
+ * The same schema is sent to providers that support structured outputs.
+ */
+export type JsonSchema = {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+};
+
+export interface StructuredSchema {
+  name: string;
+  schema: JsonSchema;   // Root must be an object (required by OpenAI structured outputs)
+}
+
+export interface StructuredResult<T> {
+  data: T;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+  attempts: number;
+}
+
+interface StructuredOptions extends ChatOptions {
+  maxAttempts?: number;
+}
+
+/**
+ * Thrown when the model's answer is not valid JSON or does not match the schema.
+ * After the last retry it carries the usage of all attempts, which were billed.
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string, public readonly details: string[] = [], public readonly usage?: UsageData) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Validation errors fed back to the model per retry
+const MAX_REPORTED_ERRORS = 5;
+// Length of the invalid answer repeated in the retry conversation
+const MAX_ECHOED_CHARS = 4000;
+
+// =============================================================================
+// JSON extraction and repair
+// =============================================================================
+
+// Strip markdown code fences (```json ... ```), also an unterminated opening fence
+function stripCodeFences(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*\n?([\s\S]*?)(?:```|$)/i);
+  return fenced ? fenced[1] : content;
+}
+
+/**
+ * Remove trailing commas before closing brackets, ignoring string contents
+ */
+function removeTrailingCommas(json: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      result += char;
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      const next = json.slice(i + 1).match(/^\s*([\]}])/);
+      if (next) continue;
+    }
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * Find the first JSON value in a model response and parse it.
+ * Handles code fences, surrounding prose, trailing commas and truncated output:
+ * a cut-off answer is shortened to its last complete element and closed.
+ */
+export function parseJsonResponse(content: string): unknown {
+  const text = stripCodeFences(content);
+  const start = text.search(/[[{]/);
+  if (start === -1) {
+    throw new StructuredOutputError('Antwort enthalt kein JSON');
+  }
+
+  const candidate = text.slice(start);
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // End of the last complete nested value and the brackets still open there
+  let lastCut: { index: number; open: string[] } | null = null;
+
+  for (let i = 0; i < candidate.length; i++) {
+    const char = candidate[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) {
+        return JSON.parse(removeTrailingCommas(candidate.slice(0, i + 1)));
+      }
+      lastCut = { index: i + 1, open: [...stack] };
+    }
+  }
+
+  // Truncated - keep everything up to the last complete element and close the brackets
+  if (!lastCut) {
+    throw new StructuredOutputError('Antwort enthalt kein vollstandiges JSON');
+  }
+  const closers = lastCut.open.reverse().map(bracket => (bracket === '{' ? '}' : ']')).join('');
+  const repaired = candidate.slice(0, lastCut.index).replace(/[\s,]+$/, '') + closers;
+  try {
+    return JSON.parse(removeTrailingCommas(repaired));
+  } catch {
+    throw new StructuredOutputError('Abgeschnittenes JSON konnte nicht repariert werden');
+  }
+}
+
+// =============================================================================
+// Schema validation
+// =============================================================================
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.replace(/^#\/\$defs\//, '');
+  const resolved = ref === '#' ? root : root.$defs?.[name];
+  if (!resolved) {
+    throw new Error(`Unbekannte Schema-Referenz: ${ref}`);
+  }
+  return resolved;
+}
+
+/**
+ * Validate a value against a schema. Returns a list of errors (empty if valid).
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  path: string = '$'
+): string[] {
+  if (schema.$ref) {
+    return validateSchema(value, resolveRef(schema.$ref, root), root, path);
+  }
+
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) {
+          errors.push(...validateSchema(record[key], propertySchema, root, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must contain at least ${schema.minItems} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          errors.push(...validateSchema(item, schema.items!, root, `${path}[${index}]`));
+        });
+      }
+      break;
+    }
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push(`${path} must not be empty`);
+      }
+      break;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return [`${path} must be an integer`];
+      }
+      break;
+    case 'number':
+      if (typeof value !== 'number') {
+        return [`${path} must be a number`];
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return [`${path} must be a boolean`];
+      }
+      break;
+  }
+
+  return errors;
+}
+
+// Drop keywords only the local validator understands before sending the schema
+function toProviderSchema(schema: JsonSchema): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(schema, (key, value) =>
+    key === 'minLength' || key === 'minItems' ? undefined : value
+  ));
+}
+
+// Models often answer with the bare array instead of the wrapping object
+function wrapBareArray(value: unknown, schema: JsonSchema): unknown {
+  if (!Array.isArray(value) || schema.type !== 'object') return value;
+  const arrayKeys = Object.entries(schema.properties || {})
+    .filter(([, property]) => property.type === 'array')
+    .map(([key]) => key);
+  return arrayKeys.length === 1 ? { [arrayKeys[0]]: value } : value;
+}
+
+// =============================================================================
+// Structured chat
+// =============================================================================
+
+/**
+ * Request JSON matching a schema from the model.
+ * Uses structured outputs where the provider supports them, repairs fenced or
+ * truncated JSON, and retries with the validation errors fed back to the model.
+ */
+export async function chatStructured<T>(
+  config: AIProviderConfig,
+  messages: ChatMessage[],
+  schema: StructuredSchema,
+  options: StructuredOptions = {}
+): Promise<StructuredResult<T>> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const conversation = [...messages];
+  const usage = { promptTokens: 0, completionTokens: 0 };
+  let lastError: StructuredOutputError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await chat(config, conversation, {
+      ...options,
+      jsonSchema: { name: schema.name, schema: toProviderSchema(schema.schema) },
+    });
+    usage.promptTokens += result.usage.promptTokens;
+    usage.completionTokens += result.usage.completionTokens;
+
+    let errors: string[];
+    try {
+      const data = wrapBareArray(parseJsonResponse(result.content), schema.schema);
+      errors = validateSchema(data, schema.schema);
+      if (errors.length === 0) {
+        return { data: data as T, usage, attempts: attempt };
+      }
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError) && !(error instanceof SyntaxError)) throw error;
+      errors = [error.message];
+    }
+
+    lastError = new StructuredOutputError('Die KI-Antwort hat nicht das erwartete Format', errors);
+    console.warn(`Structured output "${schema.name}" invalid (attempt ${attempt}/${maxAttempts}):`, errors);
+
+    conversation.push(
+      { role: 'assistant', content: result.content.slice(0, MAX_ECHOED_CHARS) },
+      {
+        role: 'user',
+        content: `Your answer was not valid:\n${errors.slice(0, MAX_REPORTED_ERRORS).map(e => `- ${e}`).join('\n')}\n\nRespond again with ONLY valid JSON matching this schema:\n${JSON.stringify(schema.schema)}`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(
+    lastError!.message,
+    lastError!.details,
+    createUsageData(config, usage.promptTokens, usage.completionTokens)
+  );
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { DatabaseInstance } from './index';
+import { applyMigrations } from './migrations';
+import * as chatQueries from './chat-queries';
+
+describe('Chat Queries', () => {
+  let db: DatabaseInstance;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('retrieveRelevantPages', () => {
+    beforeEach(() => {
+      db.exec(`
+        INSERT INTO pdfs (file_path, file_name, file_hash, page_count) VALUES ('/bio.pdf', 'Biologie.pdf', 'h1', 2);
+        INSERT INTO pdf_pages_fts (pdf_id, page_num, content) VALUES (1, 1, 'Die Photosynthese findet in Chloroplasten statt');
+        INSERT INTO pdf_pages_fts (pdf_id, page_num, content) VALUES (1, 2, 'Mitochondrien sind die Kraftwerke der Zelle');
+      `);
+    });
+
+    it('should find pages matching any meaningful term of the question', () => {
+      const pages = chatQueries.retrieveRelevantPages(db, 'Was machen Mitochondrien?');
+
+      expect(pages).toHaveLength(1);
+      expect(pages[0]).toMatchObject({ fileName: 'Biologie.pdf', pageNum: 2 });
+      expect(pages[0].content).toContain('Kraftwerke');
+    });
+
+    it('should return nothing for questions without searchable terms', () => {
+      expect(chatQueries.retrieveRelevantPages(db, 'Was ist das?')).toEqual([]);
+    });
+  });
+
+  describe('Conversations', () => {
+    it('should store messages with their citations', () => {
+      const id = chatQueries.createConversation(db, 'Zellbiologie');
+      chatQueries.addChatMessage(db, id, 'user', 'Was sind Mitochondrien?');
+      const answer = chatQueries.addChatMessage(db, id, 'assistant', 'Kraftwerke [[Biologie.pdf#p2]]', [
+        { pdfId: 1, fileName: 'Biologie.pdf', pageNum: 2 },
+      ]);
+
+      expect(answer.citations).toEqual([{ pdfId: 1, fileName: 'Biologie.pdf', pageNum: 2 }]);
+
+      const messages = chatQueries.getConversationMessages(db, id);
+      expect(messages.map(m => m.role)).toEqual(['user', 'assistant']);
+      expect(messages[0].citations).toEqual([]);
+
+      const [conversation] = chatQueries.getConversations(db);
+      expect(conversation).toMatchObject({ id, title: 'Zellbiologie', messageCount: 2 });
+    });
+
+    it('should delete a conversation together with its messages', () => {
+      const id = chatQueries.createConversation(db, 'Test');
+      chatQueries.addChatMessage(db, id, 'user', 'Frage');
+
+      chatQueries.deleteConversation(db, id);
+
+      expect(chatQueries.getConversations(db)).toHaveLength(0);
+      expect(chatQueries.getConversationMessages(db, id)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import type { DatabaseInstance } from './index';
+import type { ChatCitation, ChatConversation, LibraryChatMessage } from '../../shared/types';
+
+export interface RetrievedPage {
+  pdfId: number;
+  fileName: string;
+  pageNum: number;
+  content: string;
+}
+
+interface ChatMessageRow {
+  id: number;
+  conversationId: number;
+  role: 'user' | 'assistant';
+  content: string;
+  citations: string | null;
+  createdAt: string;
+}
+
+// Question words carry no retrieval signal and only widen the OR query
+const STOPWORDS = new Set([
+  'was', 'wie', 'wer', 'wann', 'warum', 'wieso', 'welche', 'welcher', 'welches', 'der', 'die', 'das',
+  'und', 'oder', 'ist', 'sind', 'ein', 'eine', 'einen', 'dem', 'den', 'des', 'mit', 'von', 'für', 'fur',
+  'the', 'and', 'what', 'why', 'how', 'who', 'when', 'which', 'are', 'does', 'for', 'with', 'from',
+]);
+
+function parseMessageRow(row: ChatMessageRow): LibraryChatMessage {
+  let citations: ChatCitation[] = [];
+  if (row.citations) {
+    try {
+      citations = JSON.parse(row.citations);
+    } catch {
+      console.warn(`Failed to parse chat citations for message ${row.id}`);
+    }
+  }
+  return { ...row, citations };
+}
+
+/**
+ * Find the pages most relevant to a natural-language question.
+ * Terms are OR-combined with prefix matching and ranked by bm25.
+ */
+export function retrieveRelevantPages(
+  db: DatabaseInstance,
+  question: string,
+  limit: number = 8
+): RetrievedPage[] {
+  const terms = question
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(term => term.length > 2 && !STOPWORDS.has(term));
+
+  if (terms.length === 0) return [];
+
+  const ftsQuery = Array.from(new Set(terms)).map(term => `"${term}"*`).join(' OR ');
+
+  return db.prepare(`
+    SELECT p.id as pdfId, p.file_name as fileName, fts.page_num as pageNum, fts.content
+    FROM pdf_pages_fts fts
+    JOIN pdfs p ON p.id = fts.pdf_id
+    WHERE pdf_pages_fts MATCH ?
+    ORDER BY bm25(pdf_pages_fts)
+    LIMIT ?
+  `).all(ftsQuery, limit) as RetrievedPage[];
+}
+
+export function createConversation(db: DatabaseInstance, title: string): number {
+  const result = db.prepare('INSERT INTO chat_conversations (title) VALUES (?)').run(title);
+  return Number(result.lastInsertRowid);
+}
+
+export function getConversations(db: DatabaseInstance): ChatConversation[] {
+  return db.prepare(`
+    SELECT c.id, c.title, c.created_at as createdAt, c.updated_at as updatedAt,
+           COUNT(m.id) as messageCount
+    FROM chat_conversations c
+    LEFT JOIN chat_messages m ON m.conversation_id = c.id
+    GROUP BY c.id
+    ORDER BY c.updated_at DESC, c.id DESC
+  `).all() as ChatConversation[];
+}
+
+export function getConversationMessages(db: DatabaseInstance, conversationId: number): LibraryChatMessage[] {
+  const rows = db.prepare(`
+    SELECT id, conversation_id as conversationId, role, content, citations, created_at as createdAt
+    FROM chat_messages
+    WHERE conversation_id = ?
+    ORDER BY id
+  `).all(conversationId) as ChatMessageRow[];
+  return rows.map(parseMessageRow);
+}
+
+/**
+ * Append a message and bump the conversation's updated_at
+ */
+export function addChatMessage(
+  db: DatabaseInstance,
+  conversationId: number,
+  role: 'user' | 'assistant',
+  content: string,
+  citations: ChatCitation[] = []
+): LibraryChatMessage {
+  const id = db.transaction(() => {
+    const result = db.prepare(`
+      INSERT INTO chat_messages (conversation_id, role, content, citations)
+      VALUES (?, ?, ?, ?)
+    `).run(conversationId, role, content, citations.length > 0 ? JSON.stringify(citations) : null);
+
+    db.prepare('UPDATE chat_conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(conversationId);
+    return Number(result.lastInsertRowid);
+  })();
+
+  const row = db.prepare(`
+    SELECT id, conversation_id as conversationId, role, content, citations, created_at as createdAt
+    FROM chat_messages WHERE id = ?
+  `).get(id) as ChatMessageRow;
+  return parseMessageRow(row);
+}
+
+export function deleteConversation(db: DatabaseInstance, id: number): void {
+  db.transaction(() => {
+    db.prepare('DELETE FROM chat_messages WHERE conversation_id = ?').run(id);
+    db.prepare('DELETE FROM chat_conversations WHERE id = ?').run(id);
+  })();
+}
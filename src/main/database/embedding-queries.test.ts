@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { DatabaseInstance } from './index';
+import { applyMigrations } from './migrations';
+import * as embeddingQueries from './embedding-queries';
+
+const MODEL = 'test-embedding';
+
+describe('Embedding Queries', () => {
+  let db: DatabaseInstance;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+
+    db.exec(`
+      INSERT INTO pdfs (file_path, file_name, file_hash, page_count) VALUES ('/a.pdf', 'a.pdf', 'h1', 2);
+      INSERT INTO pdfs (file_path, file_name, file_hash, page_count) VALUES ('/b.pdf', 'b.pdf', 'h2', 1);
+      INSERT INTO pdf_pages_fts (pdf_id, page_num, content) VALUES (1, 1, 'Photosynthese in Pflanzen');
+      INSERT INTO pdf_pages_fts (pdf_id, page_num, content) VALUES (1, 2, 'Zellatmung und Mitochondrien');
+      INSERT INTO pdf_pages_fts (pdf_id, page_num, content) VALUES (2, 1, 'Lineare Algebra');
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('getPagesWithoutEmbeddings', () => {
+    it('should only return pages missing embeddings for the model', () => {
+      embeddingQueries.savePageEmbeddings(db, 1, 1, MODEL, [{ text: 'Photosynthese', vector: [1, 0] }]);
+
+      const pages = embeddingQueries.getPagesWithoutEmbeddings(db, MODEL);
+      expect(pages.map(p => `${p.pdfId}:${p.pageNum}`)).toEqual(['1:2', '2:1']);
+
+      // Other models are tracked separately
+      expect(embeddingQueries.getPagesWithoutEmbeddings(db, 'other-model')).toHaveLength(3);
+    });
+
+    it('should skip pages via offset', () => {
+      const pages = embeddingQueries.getPagesWithoutEmbeddings(db, MODEL, 10, 2);
+      expect(pages).toHaveLength(1);
+      expect(pages[0].pdfId).toBe(2);
+    });
+  });
+
+  describe('savePageEmbeddings', () => {
+    it('should replace existing chunks of a page', () => {
+      embeddingQueries.savePageEmbeddings(db, 1, 1, MODEL, [
+        { text: 'a', vector: [1, 0] },
+        { text: 'b', vector: [0, 1] },
+      ]);
+      embeddingQueries.savePageEmbeddings(db, 1, 1, MODEL, [{ text: 'c', vector: [1, 1] }]);
+
+      const count = db.prepare('SELECT COUNT(*) as count FROM page_embeddings').get() as { count: number };
+      expect(count.count).toBe(1);
+      expect(embeddingQueries.getEmbeddingCoverage(db, MODEL)).toEqual({ totalPages: 3, embeddedPages: 1 });
+    });
+  });
+
+  describe('searchSemantic', () => {
+    beforeEach(() => {
+      embeddingQueries.savePageEmbeddings(db, 1, 1, MODEL, [{ text: 'Photosynthese', vector: [1, 0, 0] }]);
+      embeddingQueries.savePageEmbeddings(db, 1, 2, MODEL, [
+        { text: 'Zellatmung', vector: [0, 1, 0] },
+        { text: 'Mitochondrien', vector: [0.1, 0.9, 0] },
+      ]);
+      embeddingQueries.savePageEmbeddings(db, 2, 1, MODEL, [{ text: 'Algebra', vector: [0, 0, 1] }]);
+    });
+
+    it('should rank pages by their best matching chunk', () => {
+      const results = embeddingQueries.searchSemantic(db, [0.2, 1, 0], MODEL);
+
+      expect(results[0]).toMatchObject({ id: 1, pageNum: 2, fileName: 'a.pdf', snippet: 'Mitochondrien' });
+      expect(results).toHaveLength(3);
+      // Lower rank is better, like bm25
+      expect(results[0].rank).toBeLessThan(results[1].rank);
+    });
+
+    it('should respect the limit and ignore other models', () => {
+      expect(embeddingQueries.searchSemantic(db, [1, 0, 0], MODEL, 1)).toHaveLength(1);
+      expect(embeddingQueries.searchSemantic(db, [1, 0, 0], 'other-model')).toHaveLength(0);
+    });
+
+    it('should drop embeddings when a PDF is deleted', () => {
+      embeddingQueries.deletePdfEmbeddings(db, 1);
+
+      const results = embeddingQueries.searchSemantic(db, [1, 0, 0], MODEL);
+      expect(results.map(r => r.id)).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import type { DatabaseInstance } from './index';
+import type { SearchResult } from '../../shared/types';
+import { bufferToVector, cosineSimilarity, vectorToBuffer } from '../ai/embeddings';
+
+export interface PageToEmbed {
+  pdfId: number;
+  pageNum: number;
+  content: string;
+}
+
+export interface EmbeddedChunk {
+  text: string;
+  vector: number[];
+}
+
+interface EmbeddingRow {
+  pdfId: number;
+  pageNum: number;
+  chunkText: string;
+  vector: Buffer;
+  fileName: string;
+  filePath: string;
+}
+
+// Length of the chunk excerpt shown as search snippet
+const SNIPPET_LENGTH = 240;
+
+/**
+ * Get indexed pages that have no embeddings for the given model yet.
+ * The offset skips pages the caller could not embed (e.g. pages without text).
+ */
+export function getPagesWithoutEmbeddings(
+  db: DatabaseInstance,
+  model: string,
+  limit: number = 50,
+  offset: number = 0
+): PageToEmbed[] {
+  return db.prepare(`
+    SELECT fts.pdf_id as pdfId, fts.page_num as pageNum, fts.content
+    FROM pdf_pages_fts fts
+    WHERE NOT EXISTS (
+      SELECT 1 FROM page_embeddings e
+      WHERE e.pdf_id = fts.pdf_id AND e.page_num = fts.page_num AND e.model = ?
+    )
+    ORDER BY fts.pdf_id, fts.page_num
+    LIMIT ? OFFSET ?
+  `).all(model, limit, offset) as PageToEmbed[];
+}
+
+/**
+ * Count indexed pages and pages with embeddings for the given model
+ */
+export function getEmbeddingCoverage(
+  db: DatabaseInstance,
+  model: string
+): { totalPages: number; embeddedPages: number } {
+  const total = db.prepare('SELECT COUNT(*) as count FROM pdf_pages_fts').get() as { count: number };
+  const embedded = db.prepare(`
+    SELECT COUNT(*) as count FROM (
+      SELECT DISTINCT pdf_id, page_num FROM page_embeddings WHERE model = ?
+    )
+  `).get(model) as { count: number };
+
+  return { totalPages: total.count, embeddedPages: embedded.count };
+}
+
+/**
+ * Store the chunk embeddings of one page, replacing existing ones for the model
+ */
+export function savePageEmbeddings(
+  db: DatabaseInstance,
+  pdfId: number,
+  pageNum: number,
+  model: string,
+  chunks: EmbeddedChunk[]
+): void {
+  const insert = db.prepare(`
+    INSERT INTO page_embeddings (pdf_id, page_num, chunk_index, chunk_text, model, dimensions, vector)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM page_embeddings WHERE pdf_id = ? AND page_num = ? AND model = ?')
+      .run(pdfId, pageNum, model);
+
+    chunks.forEach((chunk, index) => {
+      insert.run(pdfId, pageNum, index, chunk.text, model, chunk.vector.length, vectorToBuffer(chunk.vector));
+    });
+  })();
+}
+
+/**
+ * Remove embeddings of a whole PDF (e.g. before re-indexing)
+ */
+export function deletePdfEmbeddings(db: DatabaseInstance, pdfId: number): void {
+  db.prepare('DELETE FROM page_embeddings WHERE pdf_id = ?').run(pdfId);
+}
+
+/**
+ * Remove embeddings of a single page (e.g. after OCR replaced its text)
+ */
+export function deletePageEmbeddings(db: DatabaseInstance, pdfId: number, pageNum: number): void {
+  db.prepare('DELETE FROM page_embeddings WHERE pdf_id = ? AND page_num = ?').run(pdfId, pageNum);
+}
+
+/**
+ * Rank pages by cosine similarity between the query vector and their chunks.
+ * Each page is scored by its best matching chunk, which also becomes the snippet.
+ */
+export function searchSemantic(
+  db: DatabaseInstance,
+  queryVector: number[],
+  model: string,
+  limit: number = 100
+): SearchResult[] {
+  const rows = db.prepare(`
+    SELECT
+      e.pdf_id as pdfId, e.page_num as pageNum, e.chunk_text as chunkText, e.vector,
+      p.file_name as fileName, p.file_path as filePath
+    FROM page_embeddings e
+    JOIN pdfs p ON p.id = e.pdf_id
+    WHERE e.model = ? AND e.dimensions = ?
+  `).all(model, queryVector.length) as EmbeddingRow[];
+
+  const bestByPage = new Map<string, { row: EmbeddingRow; similarity: number }>();
+
+  for (const row of rows) {
+    const similarity = cosineSimilarity(queryVector, bufferToVector(row.vector));
+    const key = `${row.pdfId}:${row.pageNum}`;
+    const best = bestByPage.get(key);
+    if (!best || similarity > best.similarity) {
+      bestByPage.set(key, { row, similarity });
+    }
+  }
+
+  return Array.from(bestByPage.values())
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ row, similarity }) => ({
+      id: row.pdfId,
+      fileName: row.fileName,
+      filePath: row.filePath,
+      pageNum: row.pageNum,
+      snippet: row.chunkText.length > SNIPPET_LENGTH
+        ? row.chunkText.slice(0, SNIPPET_LENGTH) + '...'
+        : row.chunkText,
+      // Negated so that, like bm25, a lower rank is a better match
+      rank: -similarity,
+      matchedBy: 'semantic' as const,
+    }));
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { DatabaseInstance } from './index';
+import { applyMigrations } from './migrations';
+import * as examQueries from './exam-queries';
+import * as flashcardQueries from '../flashcards/queries';
+import type { ExamQuestion, PracticeExam } from '../../shared/types';
+
+function question(topic: string, correctIndex: number): ExamQuestion {
+  return {
+    type: 'true_false',
+    question: `Aussage zu ${topic}`,
+    options: ['Wahr', 'Falsch'],
+    correctIndex,
+    explanation: '',
+    topic,
+    flashcardIds: [1],
+    pageNum: null,
+  };
+}
+
+describe('Exam Queries', () => {
+  let db: DatabaseInstance;
+  let herz: number;
+  let lunge: number;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+    herz = flashcardQueries.createDeck(db, 'Herz-Kreislauf');
+    lunge = flashcardQueries.createDeck(db, 'Atmung');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const exam = (deckId: number, questions: ExamQuestion[]): PracticeExam => ({
+    title: 'Probeklausur',
+    source: { kind: 'deck', deckId },
+    questions,
+  });
+
+  it('should store a scored attempt and read it back', () => {
+    const id = examQueries.saveExamAttempt(db, exam(herz, [question('Herz', 0), question('Niere', 1)]), [0], 600, 245.6);
+
+    const attempt = examQueries.getExamAttempt(db, id)!;
+    expect(attempt).toMatchObject({
+      title: 'Probeklausur',
+      deckId: herz,
+      pdfId: null,
+      source: { kind: 'deck', deckId: herz },
+      answers: [0, null],
+      correctCount: 1,
+      questionCount: 2,
+      timeLimitSeconds: 600,
+      durationSeconds: 246,
+      againApplied: false,
+    });
+    expect(attempt.topics.map(topic => topic.topic)).toEqual(['Niere', 'Herz']);
+
+    examQueries.markExamAgainApplied(db, id);
+    expect(examQueries.getExamAttempts(db)).toMatchObject([{ id, againApplied: true }]);
+
+    examQueries.deleteExamAttempt(db, id);
+    expect(examQueries.getExamAttempt(db, id)).toBeUndefined();
+  });
+
+  it('should add up topic scores over attempts, per deck if asked', () => {
+    examQueries.saveExamAttempt(db, exam(herz, [question('Herz', 0), question('Niere', 0)]), [0, 1], null, 60);
+    examQueries.saveExamAttempt(db, exam(herz, [question('Herz', 0), question('Niere', 0)]), [1, 0], null, 60);
+    examQueries.saveExamAttempt(db, exam(lunge, [question('Lunge', 0)]), [1], null, 60);
+
+    expect(examQueries.getWeakExamTopics(db)).toEqual([
+      { topic: 'Lunge', correct: 0, total: 1 },
+      { topic: 'Herz', correct: 1, total: 2 },
+      { topic: 'Niere', correct: 1, total: 2 },
+    ]);
+    expect(examQueries.getWeakExamTopics(db, herz).map(topic => topic.topic)).toEqual(['Herz', 'Niere']);
+  });
+});
@@ -0,0 +1,112 @@
+import type { DatabaseInstance } from './index';
+import type { ExamAttempt, ExamAttemptSummary, ExamQuestion, ExamSource, ExamTopicScore, PracticeExam } from '../../shared/types';
+import { scoreExam, sortTopicsByWeakness } from '../flashcards/practice-exam';
+
+interface ExamAttemptRow extends Omit<ExamAttemptSummary, 'againApplied'> {
+  againApplied: number;
+  source: string;
+  questions: string;
+  answers: string;
+}
+
+const SUMMARY_COLUMNS = `
+  id, title, deck_id as deckId, pdf_id as pdfId, correct_count as correctCount,
+  question_count as questionCount, time_limit_seconds as timeLimitSeconds,
+  duration_seconds as durationSeconds, again_applied as againApplied, created_at as createdAt
+`;
+
+function parseAttemptRow(row: ExamAttemptRow): ExamAttempt {
+  const questions = JSON.parse(row.questions) as ExamQuestion[];
+  const answers = JSON.parse(row.answers) as Array<number | null>;
+  return {
+    ...row,
+    againApplied: row.againApplied === 1,
+    source: JSON.parse(row.source) as ExamSource,
+    questions,
+    answers,
+    topics: scoreExam(questions, answers).topics,
+  };
+}
+
+/**
+ * Score and store a finished attempt
+ */
+export function saveExamAttempt(
+  db: DatabaseInstance,
+  exam: PracticeExam,
+  answers: Array<number | null>,
+  timeLimitSeconds: number | null,
+  durationSeconds: number
+): number {
+  const normalizedAnswers = exam.questions.map((_, i) => answers[i] ?? null);
+  const { correctCount } = scoreExam(exam.questions, normalizedAnswers);
+
+  const result = db.prepare(`
+    INSERT INTO practice_exam_attempts (
+      title, deck_id, pdf_id, source, questions, answers,
+      correct_count, question_count, time_limit_seconds, duration_seconds
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    exam.title,
+    exam.source.kind === 'deck' ? exam.source.deckId : null,
+    exam.source.kind === 'pages' ? exam.source.pdfId : null,
+    JSON.stringify(exam.source),
+    JSON.stringify(exam.questions),
+    JSON.stringify(normalizedAnswers),
+    correctCount,
+    exam.questions.length,
+    timeLimitSeconds,
+    Math.max(0, Math.round(durationSeconds))
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function getExamAttempts(db: DatabaseInstance): ExamAttemptSummary[] {
+  const rows = db.prepare(`
+    SELECT ${SUMMARY_COLUMNS}
+    FROM practice_exam_attempts
+    ORDER BY created_at DESC, id DESC
+  `).all() as Array<Omit<ExamAttemptRow, 'source' | 'questions' | 'answers'>>;
+  return rows.map(row => ({ ...row, againApplied: row.againApplied === 1 }));
+}
+
+export function getExamAttempt(db: DatabaseInstance, id: number): ExamAttempt | undefined {
+  const row = db.prepare(`
+    SELECT ${SUMMARY_COLUMNS}, source, questions, answers
+    FROM practice_exam_attempts
+    WHERE id = ?
+  `).get(id) as ExamAttemptRow | undefined;
+  return row ? parseAttemptRow(row) : undefined;
+}
+
+export function deleteExamAttempt(db: DatabaseInstance, id: number): void {
+  db.prepare('DELETE FROM practice_exam_attempts WHERE id = ?').run(id);
+}
+
+export function markExamAgainApplied(db: DatabaseInstance, id: number): void {
+  db.prepare('UPDATE practice_exam_attempts SET again_applied = 1 WHERE id = ?').run(id);
+}
+
+/**
+ * Topic scores over all attempts (of one deck), weakest first
+ */
+export function getWeakExamTopics(db: DatabaseInstance, deckId?: number): ExamTopicScore[] {
+  const rows = db.prepare(`
+    SELECT questions, answers
+    FROM practice_exam_attempts
+    WHERE ? IS NULL OR deck_id = ?
+  `).all(deckId ?? null, deckId ?? null) as Array<{ questions: string; answers: string }>;
+
+  const totals = new Map<string, ExamTopicScore>();
+  for (const row of rows) {
+    const { topics } = scoreExam(JSON.parse(row.questions), JSON.parse(row.answers));
+    for (const { topic, correct, total } of topics) {
+      const entry = totals.get(topic) ?? { topic, correct: 0, total: 0 };
+      entry.correct += correct;
+      entry.total += total;
+      totals.set(topic, entry);
+    }
+  }
+  return sortTopicsByWeakness(Array.from(totals.values()));
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { DatabaseInstance } from './index';
+import {
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  getSchemaVersion,
+  getPendingMigrations,
+  assertSchemaSupported,
+  applyMigrations,
+  type Migration,
+} from './migrations';
+
+function getColumns(db: DatabaseInstance, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+describe('Database Migrations', () => {
+  let db: DatabaseInstance;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('applyMigrations', () => {
+    it('should bring a fresh database to the latest version', () => {
+      const applied = applyMigrations(db);
+
+      expect(applied).toBe(MIGRATIONS.length);
+      expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+      expect(getColumns(db, 'notes')).toContain('tags');
+      expect(getColumns(db, 'highlights')).toContain('rects');
+    });
+
+    it('should be a no-op when already up to date', () => {
+      applyMigrations(db);
+      expect(applyMigrations(db)).toBe(0);
+      expect(getPendingMigrations(db)).toHaveLength(0);
+    });
+
+    it('should upgrade an unversioned legacy database without losing data', () => {
+      // Legacy schema: notes table without the tags column, user_version 0
+      db.exec(`
+        CREATE TABLE pdfs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_path TEXT UNIQUE NOT NULL,
+          file_name TEXT NOT NULL,
+          file_hash TEXT NOT NULL,
+          page_count INTEGER
+        );
+        CREATE TABLE notes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER,
+          page_num INTEGER NOT NULL,
+          content TEXT NOT NULL
+        );
+        INSERT INTO pdfs (file_path, file_name, file_hash, page_count) VALUES ('/a.pdf', 'a.pdf', 'h', 3);
+        INSERT INTO notes (pdf_id, page_num, content) VALUES (1, 2, 'Keep me');
+      `);
+
+      applyMigrations(db);
+
+      expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+      expect(getColumns(db, 'notes')).toContain('tags');
+      const note = db.prepare('SELECT content FROM notes WHERE id = 1').get() as { content: string };
+      expect(note.content).toBe('Keep me');
+    });
+
+    it('should roll back a failing migration and keep the previous version', () => {
+      const migrations: Migration[] = [
+        { version: 1, name: 'create', up: (d) => d.exec('CREATE TABLE a (id INTEGER)') },
+        {
+          version: 2,
+          name: 'broken',
+          up: (d) => {
+            d.exec('CREATE TABLE b (id INTEGER)');
+            throw new Error('boom');
+          },
+        },
+      ];
+
+      expect(() => applyMigrations(db, migrations)).toThrow(/Migration 2 \(broken\)/);
+      expect(getSchemaVersion(db)).toBe(1);
+
+      const tables = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[];
+      expect(tables.map(t => t.name)).toEqual(['a']);
+    });
+
+    it('should apply migrations in version order', () => {
+      const order: number[] = [];
+      const migrations: Migration[] = [
+        { version: 2, name: 'second', up: () => { order.push(2); } },
+        { version: 1, name: 'first', up: () => { order.push(1); } },
+      ];
+
+      applyMigrations(db, migrations);
+      expect(order).toEqual([1, 2]);
+    });
+  });
+
+  describe('assertSchemaSupported', () => {
+    it('should refuse a database created by a newer app version', () => {
+      db.pragma(`user_version = ${LATEST_SCHEMA_VERSION + 1}`);
+
+      expect(() => assertSchemaSupported(db)).toThrow(/neueren Version/);
+      expect(() => applyMigrations(db)).toThrow(/neueren Version/);
+    });
+
+    it('should accept the current version', () => {
+      db.pragma(`user_version = ${LATEST_SCHEMA_VERSION}`);
+      expect(() => assertSchemaSupported(db)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,574 @@
+import type { DatabaseInstance } from './index';
+
+/**
+ * A single versioned schema change.
+ *
+ * Migrations are applied in ascending `version` order, each inside its own
+ * transaction, and the applied version is stored in `PRAGMA user_version`.
+ * Never edit a migration that has already shipped - append a new one instead.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: DatabaseInstance) => void;
+}
+
+/**
+ * Add a column unless it already exists.
+ * Databases created before versioning may already contain some columns.
+ */
+function addColumnIfMissing(
+  db: DatabaseInstance,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(col => col.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+      // Uses IF NOT EXISTS so unversioned databases from older releases adopt it cleanly
+      db.exec(`
+        -- PDFs table
+        CREATE TABLE IF NOT EXISTS pdfs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_path TEXT UNIQUE NOT NULL,
+          file_name TEXT NOT NULL,
+          file_hash TEXT NOT NULL,
+          page_count INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          indexed_at DATETIME,
+          ocr_completed BOOLEAN DEFAULT 0
+        );
+
+        -- Full-text search virtual table
+        CREATE VIRTUAL TABLE IF NOT EXISTS pdf_pages_fts USING fts5(
+          pdf_id UNINDEXED,
+          page_num UNINDEXED,
+          content,
+          tokenize='porter unicode61'
+        );
+
+        -- Tags table
+        CREATE TABLE IF NOT EXISTS tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          color TEXT DEFAULT '#3B82F6'
+        );
+
+        -- PDF-Tags junction table
+        CREATE TABLE IF NOT EXISTS pdf_tags (
+          pdf_id INTEGER REFERENCES pdfs(id) ON DELETE CASCADE,
+          tag_id INTEGER REFERENCES tags(id) ON DELETE CASCADE,
+          PRIMARY KEY (pdf_id, tag_id)
+        );
+
+        -- Bookmarks table
+        CREATE TABLE IF NOT EXISTS bookmarks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER REFERENCES pdfs(id) ON DELETE CASCADE,
+          page_num INTEGER NOT NULL,
+          title TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(pdf_id, page_num)
+        );
+
+        -- Notes table
+        CREATE TABLE IF NOT EXISTS notes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER REFERENCES pdfs(id) ON DELETE CASCADE,
+          page_num INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          position_x REAL,
+          position_y REAL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Settings table
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT
+        );
+
+        -- Recent views table
+        CREATE TABLE IF NOT EXISTS recent_views (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER REFERENCES pdfs(id) ON DELETE CASCADE,
+          page_num INTEGER DEFAULT 1,
+          viewed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(pdf_id)
+        );
+
+        -- Search history table
+        CREATE TABLE IF NOT EXISTS search_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          query TEXT NOT NULL,
+          result_count INTEGER DEFAULT 0,
+          searched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(query)
+        );
+
+        -- Highlights table
+        CREATE TABLE IF NOT EXISTS highlights (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER REFERENCES pdfs(id) ON DELETE CASCADE,
+          page_num INTEGER NOT NULL,
+          color TEXT DEFAULT '#FFFF00',
+          text_content TEXT NOT NULL,
+          start_index INTEGER NOT NULL,
+          end_index INTEGER NOT NULL,
+          rects TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Flashcard Decks (can be linked to PDF or global)
+        CREATE TABLE IF NOT EXISTS flashcard_decks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER REFERENCES pdfs(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          description TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Flashcards
+        CREATE TABLE IF NOT EXISTS flashcards (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          deck_id INTEGER NOT NULL REFERENCES flashcard_decks(id) ON DELETE CASCADE,
+          highlight_id INTEGER REFERENCES highlights(id) ON DELETE SET NULL,
+          front TEXT NOT NULL,
+          back TEXT NOT NULL,
+          card_type TEXT DEFAULT 'basic',
+          cloze_data TEXT,
+          source_page INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- FSRS v4.5 Scheduling Data
+        CREATE TABLE IF NOT EXISTS flashcard_fsrs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          flashcard_id INTEGER UNIQUE NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE,
+          difficulty REAL DEFAULT 0,
+          stability REAL DEFAULT 0,
+          retrievability REAL DEFAULT 1,
+          state INTEGER DEFAULT 0,
+          due DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_review DATETIME,
+          reps INTEGER DEFAULT 0,
+          lapses INTEGER DEFAULT 0,
+          scheduled_days INTEGER DEFAULT 0,
+          elapsed_days INTEGER DEFAULT 0
+        );
+
+        -- Flashcard Review History
+        CREATE TABLE IF NOT EXISTS flashcard_reviews (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          flashcard_id INTEGER NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE,
+          rating INTEGER NOT NULL,
+          reviewed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          scheduled_days INTEGER,
+          elapsed_days INTEGER,
+          state INTEGER
+        );
+
+        -- AI-generated outlines for PDFs
+        CREATE TABLE IF NOT EXISTS pdf_ai_outlines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER UNIQUE REFERENCES pdfs(id) ON DELETE CASCADE,
+          outline_json TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- OpenAI API usage tracking for cost calculation
+        CREATE TABLE IF NOT EXISTS api_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          model TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          prompt_tokens INTEGER NOT NULL,
+          completion_tokens INTEGER NOT NULL,
+          total_tokens INTEGER NOT NULL,
+          cost_usd REAL NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Note Links for Zettelkasten/Smart Links feature
+        CREATE TABLE IF NOT EXISTS note_links (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          source_note_id INTEGER NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+          source_pdf_id INTEGER NOT NULL REFERENCES pdfs(id) ON DELETE CASCADE,
+          source_page_num INTEGER NOT NULL,
+          target_pdf_id INTEGER REFERENCES pdfs(id) ON DELETE CASCADE,
+          target_page_num INTEGER,
+          link_text TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- AI Explanations for selected text
+        CREATE TABLE IF NOT EXISTS explanations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER NOT NULL REFERENCES pdfs(id) ON DELETE CASCADE,
+          page_num INTEGER NOT NULL,
+          selected_text TEXT NOT NULL,
+          explanation TEXT NOT NULL,
+          style TEXT NOT NULL DEFAULT 'short',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- AI Summaries for page ranges
+        CREATE TABLE IF NOT EXISTS summaries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER NOT NULL REFERENCES pdfs(id) ON DELETE CASCADE,
+          start_page INTEGER NOT NULL,
+          end_page INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Reading Sessions for progress tracking
+        CREATE TABLE IF NOT EXISTS reading_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER REFERENCES pdfs(id) ON DELETE CASCADE,
+          pages_read INTEGER NOT NULL,
+          session_date DATE DEFAULT (DATE('now')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Reading Goals (daily page target)
+        CREATE TABLE IF NOT EXISTS reading_goals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          daily_pages INTEGER DEFAULT 20,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Indexes
+        CREATE INDEX IF NOT EXISTS idx_pdfs_file_path ON pdfs(file_path);
+        CREATE INDEX IF NOT EXISTS idx_pdfs_file_name ON pdfs(file_name);
+        CREATE INDEX IF NOT EXISTS idx_bookmarks_pdf ON bookmarks(pdf_id);
+        CREATE INDEX IF NOT EXISTS idx_notes_pdf_page ON notes(pdf_id, page_num);
+        CREATE INDEX IF NOT EXISTS idx_highlights_pdf_page ON highlights(pdf_id, page_num);
+        CREATE INDEX IF NOT EXISTS idx_flashcards_deck ON flashcards(deck_id);
+        CREATE INDEX IF NOT EXISTS idx_flashcard_fsrs_due ON flashcard_fsrs(due);
+        CREATE INDEX IF NOT EXISTS idx_flashcard_fsrs_state ON flashcard_fsrs(state);
+        CREATE INDEX IF NOT EXISTS idx_flashcard_fsrs_flashcard ON flashcard_fsrs(flashcard_id);
+        CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_card ON flashcard_reviews(flashcard_id);
+        CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_date ON flashcard_reviews(reviewed_at);
+        CREATE INDEX IF NOT EXISTS idx_note_links_source ON note_links(source_note_id);
+        CREATE INDEX IF NOT EXISTS idx_note_links_target ON note_links(target_pdf_id, target_page_num);
+        CREATE INDEX IF NOT EXISTS idx_pdf_tags_tag ON pdf_tags(tag_id);
+        CREATE INDEX IF NOT EXISTS idx_recent_views_pdf ON recent_views(pdf_id);
+        CREATE INDEX IF NOT EXISTS idx_api_usage_date ON api_usage(created_at);
+        CREATE INDEX IF NOT EXISTS idx_explanations_pdf_page ON explanations(pdf_id, page_num);
+        CREATE INDEX IF NOT EXISTS idx_summaries_pdf ON summaries(pdf_id);
+        CREATE INDEX IF NOT EXISTS idx_reading_sessions_date ON reading_sessions(session_date);
+        CREATE INDEX IF NOT EXISTS idx_reading_sessions_pdf ON reading_sessions(pdf_id);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'highlight_rects_and_note_tags',
+    up: (db) => {
+      addColumnIfMissing(db, 'highlights', 'rects', 'TEXT');
+      addColumnIfMissing(db, 'notes', 'tags', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    name: 'page_embeddings',
+    up: (db) => {
+      db.exec(`
+        -- Vector embeddings of page chunks for semantic search
+        CREATE TABLE IF NOT EXISTS page_embeddings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER NOT NULL REFERENCES pdfs(id) ON DELETE CASCADE,
+          page_num INTEGER NOT NULL,
+          chunk_index INTEGER NOT NULL,
+          chunk_text TEXT NOT NULL,
+          model TEXT NOT NULL,
+          dimensions INTEGER NOT NULL,
+          vector BLOB NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(pdf_id, page_num, chunk_index, model)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_page_embeddings_model ON page_embeddings(model);
+        CREATE INDEX IF NOT EXISTS idx_page_embeddings_pdf_page ON page_embeddings(pdf_id, page_num);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'library_chat',
+    up: (db) => {
+      db.exec(`
+        -- Saved "ask your library" conversations
+        CREATE TABLE IF NOT EXISTS chat_conversations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS chat_messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          conversation_id INTEGER NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+          role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+          content TEXT NOT NULL,
+          citations TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation ON chat_messages(conversation_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'api_usage_routes',
+    up: (db) => {
+      // Which provider served a call and whether a fallback model was used
+      addColumnIfMissing(db, 'api_usage', 'provider', 'TEXT');
+      addColumnIfMissing(db, 'api_usage', 'is_fallback', 'INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 6,
+    name: 'deck_daily_limits',
+    up: (db) => {
+      // Per-deck overrides of the global daily study limits (NULL = use global)
+      addColumnIfMissing(db, 'flashcard_decks', 'new_cards_per_day', 'INTEGER');
+      addColumnIfMissing(db, 'flashcard_decks', 'reviews_per_day', 'INTEGER');
+    },
+  },
+  {
+    version: 7,
+    name: 'deck_fsrs_parameters',
+    up: (db) => {
+      // Optimized FSRS weights of the deck as JSON (NULL = global weights)
+      addColumnIfMissing(db, 'flashcard_decks', 'fsrs_optimization', 'TEXT');
+    },
+  },
+  {
+    version: 8,
+    name: 'flashcard_tags',
+    up: (db) => {
+      // JSON array of tag names, like notes.tags
+      addColumnIfMissing(db, 'flashcards', 'tags', 'TEXT');
+    },
+  },
+  {
+    version: 9,
+    name: 'cloze_siblings',
+    up: (db) => {
+      // Cloze notes produce one card per deletion. Siblings share the id of the note's first card.
+      addColumnIfMissing(db, 'flashcards', 'cloze_index', 'INTEGER');
+      addColumnIfMissing(db, 'flashcards', 'sibling_group_id', 'INTEGER');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_flashcards_sibling_group ON flashcards(sibling_group_id)');
+    },
+  },
+  {
+    version: 10,
+    name: 'image_occlusion',
+    up: (db) => {
+      db.exec(`
+        -- Cropped page regions of image occlusion cards. Masks are percentages of the crop.
+        CREATE TABLE IF NOT EXISTS flashcard_images (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pdf_id INTEGER REFERENCES pdfs(id) ON DELETE SET NULL,
+          page_num INTEGER NOT NULL,
+          region TEXT NOT NULL,
+          masks TEXT NOT NULL,
+          mime_type TEXT NOT NULL DEFAULT 'image/png',
+          data BLOB NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+      // Image occlusion siblings share one image, cloze_index is the mask they hide
+      addColumnIfMissing(db, 'flashcards', 'image_id', 'INTEGER REFERENCES flashcard_images(id)');
+    },
+  },
+  {
+    version: 11,
+    name: 'card_suspension_flags',
+    up: (db) => {
+      // Suspended cards are never due, the flag is a color marker (0 = none)
+      addColumnIfMissing(db, 'flashcards', 'suspended', 'INTEGER NOT NULL DEFAULT 0');
+      addColumnIfMissing(db, 'flashcards', 'flag', 'INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 12,
+    name: 'review_undo',
+    up: (db) => {
+      // JSON of the card state before the review (NULL for imported reviews)
+      addColumnIfMissing(db, 'flashcard_reviews', 'undo_snapshot', 'TEXT');
+    },
+  },
+  {
+    version: 13,
+    name: 'subdecks_filtered_decks',
+    up: (db) => {
+      addColumnIfMissing(db, 'flashcard_decks', 'parent_id', 'INTEGER REFERENCES flashcard_decks(id)');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_flashcard_decks_parent ON flashcard_decks(parent_id);
+
+        -- Saved card searches studied as a session, the cards stay in their decks
+        CREATE TABLE IF NOT EXISTS filtered_decks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          query TEXT NOT NULL,
+          card_limit INTEGER NOT NULL DEFAULT 100,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'flashcards_fts',
+    up: (db) => {
+      db.exec(`
+        -- Full-text index of the card texts, kept in sync by triggers
+        CREATE VIRTUAL TABLE IF NOT EXISTS flashcards_fts USING fts5(
+          front,
+          back,
+          content='flashcards',
+          content_rowid='id',
+          tokenize='unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS flashcards_fts_insert AFTER INSERT ON flashcards BEGIN
+          INSERT INTO flashcards_fts (rowid, front, back) VALUES (new.id, new.front, new.back);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS flashcards_fts_delete AFTER DELETE ON flashcards BEGIN
+          INSERT INTO flashcards_fts (flashcards_fts, rowid, front, back) VALUES ('delete', old.id, old.front, old.back);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS flashcards_fts_update AFTER UPDATE OF front, back ON flashcards BEGIN
+          INSERT INTO flashcards_fts (flashcards_fts, rowid, front, back) VALUES ('delete', old.id, old.front, old.back);
+          INSERT INTO flashcards_fts (rowid, front, back) VALUES (new.id, new.front, new.back);
+        END;
+
+        INSERT INTO flashcards_fts (flashcards_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'review_duration',
+    up: (db) => {
+      // Active time from showing the card to answering (NULL when not measured)
+      addColumnIfMissing(db, 'flashcard_reviews', 'duration_ms', 'INTEGER');
+    },
+  },
+  {
+    version: 16,
+    name: 'practice_exams',
+    up: (db) => {
+      db.exec(`
+        -- Taken practice exams with their questions and the chosen answers (JSON)
+        CREATE TABLE IF NOT EXISTS practice_exam_attempts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          deck_id INTEGER REFERENCES flashcard_decks(id) ON DELETE SET NULL,
+          pdf_id INTEGER REFERENCES pdfs(id) ON DELETE SET NULL,
+          source TEXT NOT NULL,
+          questions TEXT NOT NULL,
+          answers TEXT NOT NULL,
+          correct_count INTEGER NOT NULL,
+          question_count INTEGER NOT NULL,
+          time_limit_seconds INTEGER,
+          duration_seconds INTEGER NOT NULL,
+          again_applied INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_practice_exam_attempts_deck ON practice_exam_attempts(deck_id);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Read the schema version stored in the database header
+ */
+export function getSchemaVersion(db: DatabaseInstance): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Get all migrations newer than the database's current schema version
+ */
+export function getPendingMigrations(
+  db: DatabaseInstance,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  const currentVersion = getSchemaVersion(db);
+  return migrations
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Throw if the database was created by a newer app version.
+ * Opening it would risk writing data the newer schema does not expect.
+ */
+export function assertSchemaSupported(
+  db: DatabaseInstance,
+  migrations: Migration[] = MIGRATIONS
+): void {
+  const currentVersion = getSchemaVersion(db);
+  const latestVersion = migrations.reduce((max, m) => Math.max(max, m.version), 0);
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Die Datenbank wurde mit einer neueren Version von PDF-Study erstellt (Schema v${currentVersion}, unterstutzt bis v${latestVersion}). Bitte aktualisiere die App.`
+    );
+  }
+}
+
+/**
+ * Apply all pending migrations. Each migration runs in its own transaction
+ * together with the version bump, so a failure leaves the database at the
+ * last successfully applied version.
+ * Returns the number of migrations applied.
+ */
+export function applyMigrations(
+  db: DatabaseInstance,
+  migrations: Migration[] = MIGRATIONS
+): number {
+  assertSchemaSupported(db, migrations);
+  const pending = getPendingMigrations(db, migrations);
+
+  for (const migration of pending) {
+    const run = db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    });
+
+    try {
+      console.log(`Running migration ${migration.version}: ${migration.name}`);
+      run();
+    } catch (error: any) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) fehlgeschlagen: ${error.message}`
+      );
+    }
+  }
+
+  return pending.length;
+}
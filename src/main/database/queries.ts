@@ -528,6 +528,8 @@ export interface ApiUsageRecord {
   id: number;
   model: string;
   operation: string;
+  provider: string | null;
+  isFallback: boolean;
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
@@ -541,21 +543,43 @@ export interface ApiUsageStats {
   callCount: number;
   costByModel: Record<string, number>;
   costByOperation: Record<string, number>;
+  costByRoute: ApiUsageRoute[];
   recentUsage: ApiUsageRecord[];
 }
 
+// Cost of one operation/provider/model combination
+export interface ApiUsageRoute {
+  operation: string;
+  provider: string | null;
+  model: string;
+  callCount: number;
+  fallbackCount: number;
+  cost: number;
+}
+
 export function addApiUsage(
   db: DatabaseInstance,
   model: string,
   operation: string,
   promptTokens: number,
   completionTokens: number,
-  costUsd: number
+  costUsd: number,
+  provider: string | null = null,
+  isFallback: boolean = false
 ): void {
   db.prepare(`
-    INSERT INTO api_usage (model, operation, prompt_tokens, completion_tokens, total_tokens, cost_usd)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `).run(model, operation, promptTokens, completionTokens, promptTokens + completionTokens, costUsd);
+    INSERT INTO api_usage (model, operation, prompt_tokens, completion_tokens, total_tokens, cost_usd, provider, is_fallback)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    model,
+    operation,
+    promptTokens,
+    completionTokens,
+    promptTokens + completionTokens,
+    costUsd,
+    provider,
+    isFallback ? 1 : 0
+  );
 }
 
 export function getApiUsageStats(db: DatabaseInstance): ApiUsageStats {
@@ -592,10 +616,23 @@ export function getApiUsageStats(db: DatabaseInstance): ApiUsageStats {
     costByOperation[row.operation] = row.cost;
   }
 
+  // Get cost by route (operation + provider + model)
+  const costByRoute = db.prepare(`
+    SELECT
+      operation, provider, model,
+      COUNT(*) as callCount,
+      SUM(is_fallback) as fallbackCount,
+      SUM(cost_usd) as cost
+    FROM api_usage
+    GROUP BY operation, provider, model
+    ORDER BY operation, cost DESC
+  `).all() as ApiUsageRoute[];
+
   // Get recent usage (last 20)
   const recentUsage = db.prepare(`
     SELECT
-      id, model, operation,
+      id, model, operation, provider,
+      is_fallback as isFallback,
       prompt_tokens as promptTokens,
       completion_tokens as completionTokens,
       total_tokens as totalTokens,
@@ -604,7 +641,7 @@ export function getApiUsageStats(db: DatabaseInstance): ApiUsageStats {
     FROM api_usage
     ORDER BY created_at DESC
     LIMIT 20
-  `).all() as ApiUsageRecord[];
+  `).all() as (Omit<ApiUsageRecord, 'isFallback'> & { isFallback: number })[];
 
   return {
     totalCostUsd: totals.totalCostUsd,
@@ -612,10 +649,23 @@ export function getApiUsageStats(db: DatabaseInstance): ApiUsageStats {
     callCount: totals.callCount,
     costByModel,
     costByOperation,
-    recentUsage,
+    costByRoute,
+    recentUsage: recentUsage.map(row => ({ ...row, isFallback: row.isFallback === 1 })),
   };
 }
 
+/**
+ * Sum the API cost recorded since the given time
+ */
+export function getApiCostSince(db: DatabaseInstance, since: Date): number {
+  const row = db.prepare(`
+    SELECT COALESCE(SUM(cost_usd), 0) as cost
+    FROM api_usage
+    WHERE created_at >= datetime(?)
+  `).get(since.toISOString()) as { cost: number };
+  return row.cost;
+}
+
 export function clearApiUsage(db: DatabaseInstance): void {
   db.prepare('DELETE FROM api_usage').run();
 }
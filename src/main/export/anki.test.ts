@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import Database from 'better-sqlite3';
+import type { FlashcardReview, FlashcardWithFSRS } from '../../shared/types';
+import { createApkg, htmlToText, readApkg } from './anki';
+import { createZip, readZip } from './zip';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+function card(id: number, overrides: Partial<FlashcardWithFSRS> = {}, fsrs: Partial<FlashcardWithFSRS['fsrs']> = {}): FlashcardWithFSRS {
+  return {
+    id,
+    deckId: 1,
+    highlightId: null,
+    front: `Frage ${id}`,
+    back: 'Antwort',
+    cardType: 'basic',
+    clozeData: null,
+    sourcePage: null,
+    tags: [],
+    clozeIndex: null,
+    siblingGroupId: null,
+    imageId: null,
+    suspended: false,
+    flag: 0,
+    createdAt: '2026-01-01',
+    updatedAt: '2026-01-01',
+    ...overrides,
+    fsrs: {
+      id,
+      flashcardId: id,
+      difficulty: 0,
+      stability: 0,
+      retrievability: 1,
+      state: 0,
+      due: now.toISOString(),
+      lastReview: null,
+      reps: 0,
+      lapses: 0,
+      scheduledDays: 0,
+      elapsedDays: 0,
+      ...fsrs,
+    },
+  };
+}
+
+function review(flashcardId: number, reviewedAt: string, rating: 1 | 2 | 3 | 4, state: 0 | 1 | 2 | 3, scheduledDays: number): FlashcardReview {
+  return { id: 0, flashcardId, rating, reviewedAt, scheduledDays, elapsedDays: 0, state, durationMs: null };
+}
+
+describe('zip', () => {
+  it('should round-trip stored and deflated entries', () => {
+    const text = Buffer.from('Wiederholung '.repeat(200), 'utf-8');
+    const small = Buffer.from('{}', 'utf-8');
+
+    const entries = readZip(createZip([{ name: 'collection.anki2', data: text }, { name: 'media', data: small }]));
+
+    expect(entries.get('collection.anki2')?.equals(text)).toBe(true);
+    expect(entries.get('media')?.toString()).toBe('{}');
+  });
+
+  it('should reject data that is not a zip', () => {
+    expect(() => readZip(Buffer.from('kein zip'.repeat(10)))).toThrow('Keine gultige ZIP-Datei');
+  });
+});
+
+describe('htmlToText', () => {
+  it('should turn line breaks and entities into plain text', () => {
+    expect(htmlToText('<div>Zeile 1</div>Zeile&nbsp;2<br>a &lt; b &amp;&amp; c')).toBe('Zeile 1\nZeile 2\na < b && c');
+  });
+});
+
+describe('apkg', () => {
+  const cloze = {
+    front: '{{c1::Berlin}} liegt in {{c2::Deutschland}}',
+    back: 'Hauptstadt',
+    cardType: 'cloze' as const,
+    clozeData: '{{c1::Berlin}} liegt in {{c2::Deutschland}}',
+  };
+  const cards = [
+    card(1, { sourcePage: 12, tags: ['biologie', 'kapitel-1'], suspended: true, flag: 2 }),
+    card(2, { ...cloze, clozeIndex: 1, siblingGroupId: 2 }, {
+      state: 2,
+      difficulty: 4.2,
+      stability: 8.5,
+      due: '2026-03-15T12:00:00.000Z',
+      lastReview: '2026-03-07T12:00:00.000Z',
+      reps: 2,
+      lapses: 0,
+      scheduledDays: 8,
+    }),
+    card(3, { front: 'a < b\nzweite Zeile' }, {
+      state: 1,
+      difficulty: 6,
+      stability: 0.4,
+      due: '2026-03-10T12:10:00.000Z',
+      lastReview: '2026-03-10T12:00:00.000Z',
+      reps: 1,
+    }),
+    card(4, { ...cloze, clozeIndex: 2, siblingGroupId: 2 }),
+  ];
+  const reviews = [
+    review(2, '2026-03-01 09:00:00', 3, 1, 0),
+    { ...review(2, '2026-03-07 12:00:00', 3, 2, 8), durationMs: 4200 },
+    review(3, '2026-03-10 12:00:00', 1, 1, 0),
+  ];
+
+  it('should write an Anki collection with notes, cards and revlog', () => {
+    const apkg = createApkg({ deck: { name: 'Biologie', description: null }, cards, reviews }, now);
+    const collection = new Database(readZip(apkg).get('collection.anki2')!);
+
+    try {
+      const notes = collection.prepare('SELECT flds, tags FROM notes ORDER BY id').all() as Array<{ flds: string; tags: string }>;
+      expect(notes.map(n => n.flds.split('\x1f'))).toEqual([
+        ['Frage 1', 'Antwort'],
+        ['{{c1::Berlin}} liegt in {{c2::Deutschland}}', 'Hauptstadt'],
+        ['a &lt; b<br>zweite Zeile', 'Antwort'],
+      ]);
+      expect(notes[0].tags.trim()).toBe('biologie kapitel-1 pdf-study::page::12');
+
+      const ankiCards = collection.prepare('SELECT nid, ord, type, queue, ivl, flags, data FROM cards ORDER BY id').all() as Array<{ nid: number }>;
+      expect(ankiCards.map(({ nid: _, ...rest }) => rest)).toEqual([
+        { ord: 0, type: 0, queue: -1, ivl: 0, flags: 2, data: '' },
+        { ord: 0, type: 2, queue: 2, ivl: 8, flags: 0, data: '{"s":8.5,"d":4.2}' },
+        { ord: 0, type: 1, queue: 1, ivl: 0, flags: 0, data: '{"s":0.4,"d":6}' },
+        { ord: 1, type: 0, queue: 0, ivl: 0, flags: 0, data: '' },
+      ]);
+      // Both cloze siblings belong to the same note
+      expect(ankiCards[3].nid).toBe(ankiCards[1].nid);
+
+      const revlog = collection.prepare('SELECT ease, ivl, lastIvl, time, type FROM revlog ORDER BY id').all();
+      expect(revlog).toEqual([
+        { ease: 3, ivl: 0, lastIvl: 0, time: 0, type: 0 },
+        { ease: 3, ivl: 8, lastIvl: 0, time: 4200, type: 0 },
+        { ease: 1, ivl: 0, lastIvl: 0, time: 0, type: 0 },
+      ]);
+    } finally {
+      collection.close();
+    }
+  });
+
+  it('should round-trip cards, scheduling state and review history', () => {
+    const apkg = createApkg({ deck: { name: 'Biologie', description: 'Kapitel 1' }, cards, reviews }, now);
+    const decks = readApkg(apkg, now);
+
+    expect(decks).toHaveLength(1);
+    expect(decks[0]).toMatchObject({ name: 'Biologie', description: 'Kapitel 1' });
+
+    const [basic, clozeCard, sibling, learning] = decks[0].cards;
+    expect(basic).toMatchObject({ front: 'Frage 1', cardType: 'basic', sourcePage: 12, tags: ['biologie', 'kapitel-1'], suspended: true, flag: 2, reviews: [] });
+    expect(basic.fsrs.state).toBe(0);
+
+    expect(clozeCard).toMatchObject({ ...cloze, clozeIndex: 1, sourcePage: null });
+    expect(sibling).toMatchObject({ ...cloze, clozeIndex: 2, noteId: clozeCard.noteId });
+    expect(sibling.fsrs.state).toBe(0);
+    expect(clozeCard.fsrs).toMatchObject({ state: 2, stability: 8.5, difficulty: 4.2, reps: 2, scheduledDays: 8 });
+    expect(new Date(clozeCard.fsrs.due).toISOString().slice(0, 10)).toBe('2026-03-15');
+    expect(clozeCard.reviews).toEqual([
+      { rating: 3, reviewedAt: '2026-03-01 09:00:00', scheduledDays: 0, elapsedDays: 0, state: 1, durationMs: null },
+      { rating: 3, reviewedAt: '2026-03-07 12:00:00', scheduledDays: 8, elapsedDays: 6, state: 2, durationMs: 4200 },
+    ]);
+
+    expect(learning.front).toBe('a < b\nzweite Zeile');
+    expect(learning.fsrs).toMatchObject({ state: 1, due: '2026-03-10T12:10:00.000Z', lastReview: '2026-03-10T12:00:00.000Z' });
+  });
+
+  it('should refuse packages in the new Anki format', () => {
+    const apkg = createZip([{ name: 'collection.anki21b', data: Buffer.from('zstd') }]);
+
+    expect(() => readApkg(apkg)).toThrow('neue Format');
+  });
+});
@@ -0,0 +1,566 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import type {
+  CardFlag,
+  FlashcardDeck,
+  FlashcardReview,
+  FlashcardWithFSRS,
+  FSRSRating,
+  FSRSState,
+} from '../../shared/types';
+import { createZip, readZip } from './zip';
+
+// Anki .apkg packages: a ZIP with a legacy (schema 11) collection.anki2 SQLite file and a media map.
+// FSRS memory state travels in cards.data ({"s","d"}) the same way Anki stores it.
+
+// Fixed note type ids so repeated imports into Anki reuse the same note types
+const BASIC_MODEL_ID = 1718200000001;
+const CLOZE_MODEL_ID = 1718200000002;
+const DEFAULT_DECK_ID = 1;
+const DAY_MS = 86400000;
+// Source pages are kept as a hierarchical tag, e.g. pdf-study::page::12
+const SOURCE_PAGE_TAG = /^pdf-study::page::(\d+)$/i;
+
+const SCHEMA = `
+  CREATE TABLE col (
+    id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+    conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+  );
+  CREATE TABLE notes (
+    id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null,
+    csum integer not null, flags integer not null, data text not null
+  );
+  CREATE TABLE cards (
+    id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null,
+    due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+    flags integer not null, data text not null
+  );
+  CREATE TABLE revlog (
+    id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+    type integer not null
+  );
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }';
+
+export interface AnkiExportDeck {
+  deck: Pick<FlashcardDeck, 'name' | 'description'>;
+  cards: FlashcardWithFSRS[];
+  reviews: FlashcardReview[];
+}
+
+export interface AnkiImportCard {
+  front: string;
+  back: string;
+  cardType: 'basic' | 'cloze';
+  clozeData: string | null;
+  clozeIndex: number | null;
+  noteId: number;               // Anki note - cloze cards of the same note are siblings
+  sourcePage: number | null;
+  tags: string[];
+  suspended: boolean;
+  flag: CardFlag;
+  fsrs: {
+    difficulty: number;
+    stability: number;
+    state: FSRSState;
+    due: string;
+    lastReview: string | null;
+    reps: number;
+    lapses: number;
+    scheduledDays: number;
+    elapsedDays: number;
+  };
+  reviews: Array<{
+    rating: FSRSRating;
+    reviewedAt: string;    // SQLite timestamp (UTC), like CURRENT_TIMESTAMP
+    scheduledDays: number;
+    elapsedDays: number;
+    state: FSRSState;
+    durationMs: number | null;
+  }>;
+}
+
+export interface AnkiImportDeck {
+  name: string;
+  description: string | null;
+  cards: AnkiImportCard[];
+}
+
+// ============ HELPERS ============
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+}
+
+/**
+ * Convert an Anki field (HTML) to the plain text used on our cards
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the stripped sort field
+function fieldChecksum(field: string): number {
+  return parseInt(crypto.createHash('sha1').update(htmlToText(field)).digest('hex').slice(0, 8), 16);
+}
+
+// Reviews are stored as UTC "YYYY-MM-DD HH:MM:SS" (CURRENT_TIMESTAMP) or ISO strings
+function parseTimestamp(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function createModel(id: number, name: string, type: 0 | 1, fields: string[], qfmt: string, afmt: string, now: number) {
+  return {
+    id,
+    name,
+    type,
+    mod: now,
+    usn: -1,
+    sortf: 0,
+    did: null,
+    tags: [],
+    vers: [],
+    flds: fields.map((field, ord) => ({ name: field, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    tmpls: [{ name: type === 1 ? 'Cloze' : 'Card 1', ord: 0, qfmt, afmt, bqfmt: '', bafmt: '', did: null }],
+    css: type === 1 ? `${CARD_CSS}\n.cloze { font-weight: bold; color: blue; }` : CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    req: [[0, 'any', [0]]],
+  };
+}
+
+function createDeckJson(id: number, name: string, description: string, now: number) {
+  return {
+    id,
+    name,
+    desc: description,
+    mod: now,
+    usn: -1,
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+  rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+};
+
+// Revlog type describes the state the card was in when it was answered
+function revlogType(stateBefore: FSRSState): number {
+  if (stateBefore === 2) return 1;    // Review
+  if (stateBefore === 3) return 2;    // Relearn
+  return 0;                           // Learn
+}
+
+function stateFromRevlogType(type: number): FSRSState {
+  if (type === 0) return 1;
+  if (type === 2) return 3;
+  return 2;
+}
+
+// ============ EXPORT ============
+
+/**
+ * Build an .apkg package with one deck. Basic cards use a Front/Back note type,
+ * cloze cards a Text/Back Extra cloze note type. Scheduling state and the review
+ * history are carried over as Anki cards and revlog entries.
+ */
+export function createApkg({ deck, cards, reviews }: AnkiExportDeck, now = new Date()): Buffer {
+  const nowMs = now.getTime();
+  const nowSec = Math.floor(nowMs / 1000);
+  const deckId = nowMs;
+
+  // Review due dates are days since the collection creation - start early enough to keep them positive
+  const earliest = cards.reduce((min, card) => {
+    const due = new Date(card.fsrs.due).getTime();
+    return card.fsrs.state === 2 && due < min ? due : min;
+  }, nowMs);
+  const crt = startOfDay(new Date(earliest)).getTime();
+
+  const collection = new Database(':memory:');
+  try {
+    collection.exec(SCHEMA);
+
+    const models = {
+      [BASIC_MODEL_ID]: createModel(BASIC_MODEL_ID, 'PDF-Study Basic', 0, ['Front', 'Back'], '{{Front}}', '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}', nowSec),
+      [CLOZE_MODEL_ID]: createModel(CLOZE_MODEL_ID, 'PDF-Study Cloze', 1, ['Text', 'Back Extra'], '{{cloze:Text}}', '{{cloze:Text}}<br>\n{{Back Extra}}', nowSec),
+    };
+    const decks = {
+      [DEFAULT_DECK_ID]: createDeckJson(DEFAULT_DECK_ID, 'Default', '', nowSec),
+      [deckId]: createDeckJson(deckId, deck.name, deck.description ?? '', nowSec),
+    };
+    const conf = {
+      nextPos: cards.length + 1,
+      estTimes: true,
+      activeDecks: [deckId],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: deckId,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: BASIC_MODEL_ID,
+      collapseTime: 1200,
+    };
+
+    collection.prepare(`
+      INSERT INTO col (id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, dconf, tags)
+      VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')
+    `).run(
+      Math.floor(crt / 1000),
+      nowMs,
+      nowMs,
+      JSON.stringify(conf),
+      JSON.stringify(models),
+      JSON.stringify(decks),
+      JSON.stringify({ 1: DEFAULT_DECK_CONFIG })
+    );
+
+    const insertNote = collection.prepare(`
+      INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data)
+      VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')
+    `);
+    const insertCard = collection.prepare(`
+      INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data)
+      VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, ?, ?)
+    `);
+    const insertRevlog = collection.prepare(`
+      INSERT INTO revlog (id, cid, usn, ease, ivl, lastIvl, factor, time, type)
+      VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const reviewsByCard = new Map<number, FlashcardReview[]>();
+    for (const review of reviews) {
+      const list = reviewsByCard.get(review.flashcardId) ?? [];
+      list.push(review);
+      reviewsByCard.set(review.flashcardId, list);
+    }
+    const usedRevlogIds = new Set<number>();
+    // Cloze siblings share one note, each sibling is one of its cards
+    const noteIds = new Map<number, number>();
+
+    collection.transaction(() => {
+      cards.forEach((card, index) => {
+        const id = nowMs + index;
+        const { fsrs } = card;
+        const isCloze = card.cardType === 'cloze';
+        const firstField = escapeHtml(isCloze ? card.clozeData ?? card.front : card.front);
+        const fields = [firstField, escapeHtml(card.back)];
+        const tagList = card.sourcePage !== null && card.sourcePage !== undefined
+          ? [...card.tags, `pdf-study::page::${card.sourcePage}`]
+          : card.tags;
+        const tags = tagList.length > 0 ? ` ${tagList.join(' ')} ` : '';
+
+        const noteKey = card.siblingGroupId ?? card.id;
+        const noteId = noteIds.get(noteKey) ?? id;
+        if (!noteIds.has(noteKey)) {
+          noteIds.set(noteKey, id);
+          insertNote.run(
+            id,
+            crypto.randomBytes(8).toString('base64url'),
+            isCloze ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+            nowSec,
+            tags,
+            fields.join('\x1f'),
+            htmlToText(firstField),
+            fieldChecksum(firstField)
+          );
+        }
+
+        // Anki: type/queue 0 = new, 1 = learning, 2 = review, 3 = relearning (queue 1 for both), queue -1 = suspended
+        const dueMs = new Date(fsrs.due).getTime();
+        let queue = 0;
+        let due = index + 1;
+        if (fsrs.state === 2) {
+          queue = 2;
+          due = Math.floor((dueMs - crt) / DAY_MS);
+        } else if (fsrs.state !== 0) {
+          queue = 1;
+          due = Math.floor(dueMs / 1000);
+        }
+
+        insertCard.run(
+          id,
+          noteId,
+          deckId,
+          isCloze && card.clozeIndex !== null ? card.clozeIndex - 1 : 0,
+          nowSec,
+          fsrs.state,
+          card.suspended ? -1 : queue,
+          due,
+          fsrs.state === 2 ? Math.max(1, fsrs.scheduledDays) : 0,
+          fsrs.state === 0 ? 0 : 2500,
+          fsrs.reps,
+          fsrs.lapses,
+          queue === 1 ? 1 : 0,
+          card.flag,
+          fsrs.state === 0
+            ? ''
+            : JSON.stringify({ s: Number(fsrs.stability.toFixed(4)), d: Number(fsrs.difficulty.toFixed(4)) })
+        );
+
+        const cardReviews = (reviewsByCard.get(card.id) ?? [])
+          .map(review => ({ ...review, date: parseTimestamp(review.reviewedAt) }))
+          .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+        let stateBefore: FSRSState = 0;
+        let lastInterval = 0;
+        for (const review of cardReviews) {
+          // Revlog ids are millisecond timestamps and must be unique
+          let revlogId = review.date.getTime();
+          while (usedRevlogIds.has(revlogId)) revlogId++;
+          usedRevlogIds.add(revlogId);
+
+          insertRevlog.run(
+            revlogId,
+            id,
+            review.rating,
+            review.scheduledDays,
+            lastInterval,
+            stateBefore === 0 ? 0 : 2500,
+            review.durationMs ?? 0,
+            revlogType(stateBefore)
+          );
+          stateBefore = review.state;
+          lastInterval = review.scheduledDays;
+        }
+      });
+    })();
+
+    return createZip([
+      { name: 'collection.anki2', data: collection.serialize() },
+      { name: 'media', data: Buffer.from('{}', 'utf-8') },
+    ], now);
+  } finally {
+    collection.close();
+  }
+}
+
+// ============ IMPORT ============
+
+interface AnkiModel {
+  type: number;
+  flds: Array<{ name: string; ord: number }>;
+}
+
+interface AnkiCardRow {
+  id: number;
+  nid: number;
+  did: number;
+  ord: number;
+  type: number;
+  queue: number;
+  due: number;
+  flags: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  odue: number;
+  odid: number;
+  data: string;
+}
+
+function readMemoryState(data: string): { s: number; d: number } | null {
+  try {
+    const parsed = JSON.parse(data || '{}');
+    return typeof parsed.s === 'number' && typeof parsed.d === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read decks, cards and review history from an .apkg package.
+ * Each card of a cloze note becomes a sibling with its own scheduling state.
+ * Other notes with several cards (e.g. "Basic and reversed") keep only their first card.
+ */
+export function readApkg(buffer: Buffer, now = new Date()): AnkiImportDeck[] {
+  const files = readZip(buffer);
+  const collectionFile = files.get('collection.anki21') ?? files.get('collection.anki2');
+
+  if (files.has('collection.anki21b') && !files.has('collection.anki21')) {
+    throw new Error(
+      'Dieses Anki-Paket nutzt das neue Format. Bitte in Anki mit der Option "Unterstutzung fur altere Anki-Versionen" exportieren.'
+    );
+  }
+  if (!collectionFile) {
+    throw new Error('Keine Anki-Sammlung im Paket gefunden');
+  }
+
+  const collection = new Database(collectionFile, { readonly: true });
+  try {
+    const col = collection.prepare('SELECT crt, models, decks FROM col').get() as
+      { crt: number; models: string; decks: string } | undefined;
+    if (!col) {
+      throw new Error('Leere Anki-Sammlung');
+    }
+    const models = JSON.parse(col.models) as Record<string, AnkiModel>;
+    const ankiDecks = JSON.parse(col.decks) as Record<string, { name: string; desc?: string }>;
+    const crtMs = col.crt * 1000;
+
+    const notes = new Map(
+      (collection.prepare('SELECT id, mid, tags, flds FROM notes').all() as
+        Array<{ id: number; mid: number; tags: string; flds: string }>).map(note => [note.id, note])
+    );
+    const cards = collection.prepare(`
+      SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses, odue, odid, flags, data
+      FROM cards ORDER BY nid, ord
+    `).all() as AnkiCardRow[];
+
+    const revlogByCard = new Map<number, Array<{ id: number; ease: number; ivl: number; time: number; type: number }>>();
+    for (const entry of collection.prepare('SELECT id, cid, ease, ivl, time, type FROM revlog ORDER BY id').all() as
+      Array<{ id: number; cid: number; ease: number; ivl: number; time: number; type: number }>) {
+      // ease 0 / type 4 are manual reschedules, not answers
+      if (entry.ease < 1 || entry.ease > 4 || entry.type === 4) continue;
+      const list = revlogByCard.get(entry.cid) ?? [];
+      list.push(entry);
+      revlogByCard.set(entry.cid, list);
+    }
+
+    const decks = new Map<number, AnkiImportDeck>();
+    const importedNotes = new Set<number>();
+
+    for (const card of cards) {
+      const note = notes.get(card.nid);
+      const model = note ? models[String(note.mid)] : undefined;
+      const isCloze = model?.type === 1;
+      if (!note || !model || (importedNotes.has(note.id) && !isCloze)) continue;
+      importedNotes.add(note.id);
+
+      const fields = note.flds.split('\x1f');
+      const front = htmlToText(fields[0] ?? '');
+      const back = htmlToText(fields[1] ?? '');
+      if (!front) continue;
+
+      const noteTags = note.tags.trim().split(/\s+/).filter(Boolean);
+      const pageTag = noteTags.map(tag => SOURCE_PAGE_TAG.exec(tag)).find(Boolean);
+
+      // Cards in filtered decks keep their home deck and due date in odid/odue
+      const homeDeckId = card.odid || card.did;
+      const dueValue = card.odid ? card.odue : card.due;
+      const state = (card.type >= 0 && card.type <= 3 ? card.type : 0) as FSRSState;
+
+      const revlog = revlogByCard.get(card.id) ?? [];
+      const reviews = revlog.map((entry, i) => ({
+        rating: entry.ease as FSRSRating,
+        reviewedAt: toSqliteTimestamp(new Date(entry.id)),
+        scheduledDays: Math.max(0, entry.ivl),
+        elapsedDays: i === 0 ? 0 : Math.max(0, Math.floor((entry.id - revlog[i - 1].id) / DAY_MS)),
+        state: i + 1 < revlog.length ? stateFromRevlogType(revlog[i + 1].type) : state,
+        // Answer time in milliseconds, 0 when Anki didn't record one
+        durationMs: entry.time > 0 ? entry.time : null,
+      }));
+
+      let due = now;
+      if (state !== 0) {
+        // Learning cards are due at a timestamp (seconds), review cards on a day number
+        due = dueValue > 1e9 ? new Date(dueValue * 1000) : new Date(crtMs + dueValue * DAY_MS);
+      }
+
+      const memory = readMemoryState(card.data);
+      const interval = Math.max(0, card.ivl);
+      const lastReview = revlog.length > 0
+        ? new Date(revlog[revlog.length - 1].id)
+        : state !== 0 ? new Date(due.getTime() - interval * DAY_MS) : null;
+
+      const deck = decks.get(homeDeckId) ?? {
+        name: ankiDecks[String(homeDeckId)]?.name ?? 'Anki-Import',
+        description: htmlToText(ankiDecks[String(homeDeckId)]?.desc ?? '') || null,
+        cards: [],
+      };
+      decks.set(homeDeckId, deck);
+
+      deck.cards.push({
+        front,
+        back,
+        cardType: isCloze ? 'cloze' : 'basic',
+        clozeData: isCloze ? front : null,
+        clozeIndex: isCloze ? card.ord + 1 : null,
+        noteId: note.id,
+        sourcePage: pageTag ? Number(pageTag[1]) : null,
+        tags: noteTags.filter(tag => !SOURCE_PAGE_TAG.test(tag)),
+        // Queue -1 = suspended. Anki's flags 1-4 use the same colors, 5-7 have no counterpart.
+        suspended: card.queue === -1,
+        flag: ((card.flags & 7) <= 4 ? card.flags & 7 : 0) as CardFlag,
+        fsrs: {
+          // Without an FSRS memory state: the interval approximates stability, the ease maps onto difficulty
+          stability: memory?.s ?? (state === 0 ? 0 : Math.max(interval, 0.1)),
+          difficulty: memory?.d ?? (state === 0 ? 0 : Math.min(10, Math.max(1, 11 - (card.factor / 1000 - 1) * 4))),
+          state,
+          due: due.toISOString(),
+          lastReview: lastReview ? lastReview.toISOString() : null,
+          reps: card.reps,
+          lapses: card.lapses,
+          scheduledDays: state === 2 ? interval : 0,
+          elapsedDays: 0,
+        },
+        reviews,
+      });
+    }
+
+    return [...decks.values()];
+  } finally {
+    collection.close();
+  }
+}
@@ -3,6 +3,7 @@ import path from 'path';
 import { BrowserWindow } from 'electron';
 import type { DatabaseInstance } from './database';
 import * as queries from './database/queries';
+import * as embeddingQueries from './database/embedding-queries';
 import { extractTextFromPDF, computeFileHash } from './pdf/extractor';
 import { IPC_CHANNELS } from '../shared/ipc-channels';
 
@@ -68,6 +69,8 @@ export function startFileWatcher(
     try {
       const existingPdf = queries.getPdfByPath(db, filePath);
       if (existingPdf) {
+        // Foreign keys are not enforced, so embeddings don't cascade
+        embeddingQueries.deletePdfEmbeddings(db, existingPdf.id);
         queries.deletePdf(db, existingPdf.id);
         const pdfs = queries.getAllPdfs(db);
         mainWindow.webContents.send(IPC_CHANNELS.PDF_REMOVED, pdfs);
@@ -107,6 +110,7 @@ async function indexSinglePdf(filePath: string, db: DatabaseInstance) {
   if (existingPdf) {
     // Update existing PDF
     queries.deletePageContent(db, existingPdf.id);
+    embeddingQueries.deletePdfEmbeddings(db, existingPdf.id);
     queries.updatePdfHash(db, existingPdf.id, fileHash, pdfInfo.pageCount);
     pdfId = existingPdf.id;
   } else {
@@ -2,19 +2,35 @@ import type { OpenAIModel, GeneratedCard, FlashcardType, OutlineItem, Explanatio
 import {
   type AIProviderConfig,
   type UsageData,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatStreamOptions,
   chat,
+  chatStream,
   createUsageData,
   validateConfig,
   getModelName,
 } from '../ai/provider';
+import { chatStructured, type StructuredSchema } from '../ai/structured';
 
 interface GenerationOptions {
   language: 'de' | 'en';
   count: number;
+  signal?: AbortSignal;
 }
 
 export type { UsageData };
 
+// Use the streaming variant when the caller wants token deltas
+function runChat(
+  config: AIProviderConfig,
+  messages: ChatMessage[],
+  options: ChatOptions,
+  stream?: ChatStreamOptions
+) {
+  return stream ? chatStream(config, messages, stream, options) : chat(config, messages, options);
+}
+
 const SYSTEM_PROMPTS = {
   de: `Du bist ein Experte fur die Erstellung von Lernkarteikarten. Erstelle Karteikarten im Frage-Antwort-Format.
 
@@ -40,6 +56,57 @@ export interface GenerationResult {
   usage: UsageData;
 }
 
+const CARDS_SCHEMA: StructuredSchema = {
+  name: 'flashcards',
+  schema: {
+    type: 'object',
+    properties: {
+      cards: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            front: { type: 'string', minLength: 1 },
+            back: { type: 'string', minLength: 1 },
+          },
+          required: ['front', 'back'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['cards'],
+    additionalProperties: false,
+  },
+};
+
+const OUTLINE_SCHEMA: StructuredSchema = {
+  name: 'outline',
+  schema: {
+    type: 'object',
+    properties: {
+      outline: {
+        type: 'array',
+        items: { $ref: '#/$defs/item' },
+      },
+    },
+    required: ['outline'],
+    additionalProperties: false,
+    $defs: {
+      item: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 1 },
+          pageIndex: { type: 'integer' },
+          children: { type: 'array', items: { $ref: '#/$defs/item' } },
+        },
+        required: ['title', 'pageIndex', 'children'],
+        additionalProperties: false,
+      },
+    },
+  },
+};
+
 export async function generateFlashcards(
   config: AIProviderConfig,
   text: string,
@@ -52,36 +119,29 @@ export async function generateFlashcards(
 
   const systemPrompt = SYSTEM_PROMPTS[options.language];
   const userPrompt = options.language === 'de'
-    ? `Erstelle genau ${options.count} Karteikarten aus folgendem Text. Antworte NUR mit einem JSON-Array im Format:
-[{"front": "Frage", "back": "Antwort"}]
+    ? `Erstelle genau ${options.count} Karteikarten aus folgendem Text. Antworte NUR mit JSON im Format:
+{"cards": [{"front": "Frage", "back": "Antwort"}]}
 
 Text:
 ${text}`
-    : `Create exactly ${options.count} flashcards from the following text. Respond ONLY with a JSON array in format:
-[{"front": "Question", "back": "Answer"}]
+    : `Create exactly ${options.count} flashcards from the following text. Respond ONLY with JSON in format:
+{"cards": [{"front": "Question", "back": "Answer"}]}
 
 Text:
 ${text}`;
 
   try {
-    const result = await chat(
+    const result = await chatStructured<{ cards: Array<{ front: string; back: string }> }>(
       config,
       [{ role: 'user', content: `${systemPrompt}\n\n${userPrompt}` }],
-      { maxTokens: 32000 }
+      CARDS_SCHEMA,
+      { maxTokens: 32000, signal: options.signal }
     );
 
     const usage = createUsageData(config, result.usage.promptTokens, result.usage.completionTokens);
 
-    // Parse JSON from response
-    const jsonMatch = result.content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      throw new Error('Konnte keine Karteikarten aus der Antwort extrahieren');
-    }
-
-    const rawCards = JSON.parse(jsonMatch[0]) as Array<{ front: string; back: string }>;
-
-    // Validate and normalize cards - always basic type
-    const cards: GeneratedCard[] = rawCards.map((card) => ({
+    // Normalize cards - always basic type
+    const cards: GeneratedCard[] = result.data.cards.map((card) => ({
       front: card.front?.trim() || '',
       back: card.back?.trim() || '',
       cardType: 'basic' as FlashcardType,
@@ -135,7 +195,7 @@ export async function generateOutlineFromText(
   const userPrompt = `Extrahiere das VOLLSTANDIGE Inhaltsverzeichnis aus diesem PDF-Text. Das Dokument hat ${totalPages} Seiten.
 
 Antworte NUR mit JSON (keine Erklarung):
-[{"title":"Kapitel","pageIndex":0,"children":[{"title":"Unterkapitel","pageIndex":1,"children":[]}]}]
+{"outline":[{"title":"Kapitel","pageIndex":0,"children":[{"title":"Unterkapitel","pageIndex":1,"children":[]}]}]}
 
 pageIndex ist 0-basiert (Seite 1 = Index 0).
 
@@ -145,25 +205,16 @@ Text:
 ${text.slice(0, 25000)}`;
 
   try {
-    const result = await chat(
+    const result = await chatStructured<{ outline: OutlineItem[] }>(
       config,
       [{ role: 'user', content: userPrompt }],
+      OUTLINE_SCHEMA,
       { maxTokens: 16000 }
     );
 
-    console.log('AI Response:', JSON.stringify(result, null, 2));
-
     const usage = createUsageData(config, result.usage.promptTokens, result.usage.completionTokens);
 
-    // Parse JSON from response
-    const jsonMatch = result.content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      throw new Error('Konnte kein Inhaltsverzeichnis aus der Antwort extrahieren');
-    }
-
-    const rawOutline = JSON.parse(jsonMatch[0]) as OutlineItem[];
-
-    // Validate and normalize outline items
+    // Clamp page indices to the document
     function validateOutlineItem(item: any): OutlineItem {
       return {
         title: String(item.title || '').trim(),
@@ -174,7 +225,7 @@ ${text.slice(0, 25000)}`;
       };
     }
 
-    const outline = rawOutline.map(validateOutlineItem).filter(item => item.title);
+    const outline = result.data.outline.map(validateOutlineItem).filter(item => item.title);
     return { outline, usage };
   } catch (error: any) {
     if (error.code === 'invalid_api_key') {
@@ -226,7 +277,8 @@ Format your answer clearly and organized.`,
 
 export async function generateExplanation(
   config: AIProviderConfig,
-  options: ExplanationOptions
+  options: ExplanationOptions,
+  stream?: ChatStreamOptions
 ): Promise<ExplanationResult> {
   const validation = validateConfig(config);
   if (!validation.valid) {
@@ -243,13 +295,14 @@ export async function generateExplanation(
   const userPrompt = `Text:\n"${text}"`;
 
   try {
-    const result = await chat(
+    const result = await runChat(
       config,
       [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      { maxTokens: options.style === 'detailed' ? 1000 : 300 }
+      { maxTokens: options.style === 'detailed' ? 1000 : 300 },
+      stream
     );
 
     const usage = createUsageData(config, result.usage.promptTokens, result.usage.completionTokens);
@@ -290,8 +343,9 @@ interface SummaryOptions {
 const SUMMARY_PROMPTS = {
   de: `Du bist ein Experte für das Zusammenfassen von Texten. Erstelle eine strukturierte Zusammenfassung des folgenden Textabschnitts.
 
-Antworte im folgenden JSON-Format:
-{"title": "Kurzer, prägnanter Titel", "summary": "Detaillierte Zusammenfassung mit den wichtigsten Punkten"}
+Antworte in folgendem Format:
+# Kurzer, prägnanter Titel
+Detaillierte Zusammenfassung mit den wichtigsten Punkten
 
 Die Zusammenfassung sollte:
 - Die Kernaussagen erfassen
@@ -300,8 +354,9 @@ Die Zusammenfassung sollte:
 - Bei längeren Texten mit Bullet-Points strukturiert sein`,
   en: `You are an expert at summarizing texts. Create a structured summary of the following text section.
 
-Respond in the following JSON format:
-{"title": "Short, concise title", "summary": "Detailed summary with key points"}
+Respond in the following format:
+# Short, concise title
+Detailed summary with key points
 
 The summary should:
 - Capture the core messages
@@ -312,7 +367,8 @@ The summary should:
 
 export async function generateSummary(
   config: AIProviderConfig,
-  options: SummaryOptions
+  options: SummaryOptions,
+  stream?: ChatStreamOptions
 ): Promise<SummaryGenResult> {
   const validation = validateConfig(config);
   if (!validation.valid) {
@@ -335,24 +391,36 @@ export async function generateSummary(
     : `Text section (pages ${options.startPage}-${options.endPage}):\n\n${text}`;
 
   try {
-    const result = await chat(
+    const result = await runChat(
       config,
       [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      { maxTokens: 2000 }
+      { maxTokens: 2000 },
+      stream
     );
 
     const usage = createUsageData(config, result.usage.promptTokens, result.usage.completionTokens);
+    const content = result.content.trim();
 
-    // Parse JSON response
-    const jsonMatch = result.content.match(/\{[\s\S]*\}/);
+    // Title as markdown heading in the first line
+    const headingMatch = content.match(/^#+\s*(.+)\n+([\s\S]*)$/);
+    if (headingMatch && headingMatch[2].trim()) {
+      return {
+        title: headingMatch[1].trim(),
+        summary: headingMatch[2].trim(),
+        usage,
+      };
+    }
+
+    // Older prompt format: JSON object
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
       // Fallback: use content as summary directly
       return {
         title: pageRange,
-        summary: result.content.trim(),
+        summary: content,
         usage,
       };
     }
@@ -361,7 +429,100 @@ export async function generateSummary(
 
     return {
       title: parsed.title || pageRange,
-      summary: parsed.summary || result.content.trim(),
+      summary: parsed.summary || content,
+      usage,
+    };
+  } catch (error: any) {
+    if (error.code === 'invalid_api_key') {
+      throw new Error('Ungültiger OpenAI API-Schlüssel');
+    }
+    if (error.code === 'insufficient_quota') {
+      throw new Error('OpenAI Kontingent erschöpft');
+    }
+    throw error;
+  }
+}
+
+// =============================================================================
+// AI Library Chat (RAG)
+// =============================================================================
+
+export interface LibrarySource {
+  fileName: string;
+  pageNum: number;
+  content: string;
+}
+
+export interface LibraryAnswerResult {
+  answer: string;
+  usage: UsageData;
+}
+
+interface LibraryAnswerOptions {
+  question: string;
+  sources: LibrarySource[];
+  history: ChatMessage[];
+  language: 'de' | 'en';
+}
+
+const LIBRARY_CHAT_PROMPTS = {
+  de: `Du bist ein Lernassistent und beantwortest Fragen ausschliesslich anhand der bereitgestellten Quellen aus der PDF-Bibliothek des Nutzers.
+
+Regeln:
+- Belege jede Aussage mit der Quelle im Format [[Dateiname.pdf#pSeite]], z.B. [[Biologie.pdf#p12]]
+- Verwende nur Dateinamen und Seiten, die in den Quellen vorkommen
+- Wenn die Quellen die Frage nicht beantworten, sage das ehrlich
+- Antworte klar und strukturiert`,
+  en: `You are a study assistant answering questions strictly based on the provided sources from the user's PDF library.
+
+Rules:
+- Back every statement with its source in the format [[FileName.pdf#pPage]], e.g. [[Biology.pdf#p12]]
+- Only use file names and pages that appear in the sources
+- If the sources do not answer the question, say so honestly
+- Answer clearly and in a structured way`,
+};
+
+export async function generateLibraryAnswer(
+  config: AIProviderConfig,
+  options: LibraryAnswerOptions,
+  stream?: ChatStreamOptions
+): Promise<LibraryAnswerResult> {
+  const validation = validateConfig(config);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  // Truncate each page to keep the prompt within budget
+  const maxPageLength = 3000;
+  const sourceText = options.sources
+    .map(source => {
+      const content = source.content.length > maxPageLength
+        ? source.content.slice(0, maxPageLength) + '...'
+        : source.content;
+      return `[[${source.fileName}#p${source.pageNum}]]\n${content}`;
+    })
+    .join('\n\n---\n\n');
+
+  const userPrompt = options.language === 'de'
+    ? `Quellen:\n\n${sourceText || '(keine passenden Seiten gefunden)'}\n\nFrage: ${options.question}`
+    : `Sources:\n\n${sourceText || '(no matching pages found)'}\n\nQuestion: ${options.question}`;
+
+  try {
+    const result = await runChat(
+      config,
+      [
+        { role: 'system', content: LIBRARY_CHAT_PROMPTS[options.language] },
+        ...options.history,
+        { role: 'user', content: userPrompt },
+      ],
+      { maxTokens: 2000 },
+      stream
+    );
+
+    const usage = createUsageData(config, result.usage.promptTokens, result.usage.completionTokens);
+
+    return {
+      answer: result.content.trim(),
       usage,
     };
   } catch (error: any) {
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { DatabaseInstance } from '../database';
+import { applyMigrations } from '../database/migrations';
+import { getAnswerTimeStats, getDeckRetention, getDifficultyDistribution, getDueForecast, getStabilityDistribution } from './analytics';
+import * as flashcardQueries from './queries';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('flashcard analytics', () => {
+  let db: DatabaseInstance;
+  let deckId: number;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+    deckId = flashcardQueries.createDeck(db, 'Anatomie');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function addReviewCard(dueInDays: number, stability: number, difficulty: number): number {
+    const id = flashcardQueries.addCard(db, deckId, `Frage ${dueInDays}`, 'A');
+    flashcardQueries.updateFSRS(db, id, {
+      difficulty, stability, state: 2, due: new Date(Date.now() + dueInDays * DAY).toISOString(),
+      lastReview: null, reps: 3, lapses: 0, scheduledDays: 1, elapsedDays: 0,
+    });
+    return id;
+  }
+
+  it('should forecast due reviews per day with overdue cards today', () => {
+    addReviewCard(-3, 10, 5);
+    addReviewCard(0, 10, 5);
+    addReviewCard(2, 10, 5);
+    addReviewCard(45, 10, 5);
+    const suspended = addReviewCard(2, 10, 5);
+    flashcardQueries.setCardsSuspended(db, [suspended], true);
+    flashcardQueries.addCard(db, deckId, 'Neu', 'A');
+
+    const forecast = getDueForecast(db, 30);
+
+    expect(forecast).toHaveLength(30);
+    expect(forecast.map(day => day.count).slice(0, 4)).toEqual([2, 0, 1, 0]);
+    expect(forecast.reduce((sum, day) => sum + day.count, 0)).toBe(3);
+    expect(getDueForecast(db, 90).reduce((sum, day) => sum + day.count, 0)).toBe(4);
+  });
+
+  it('should only count reviews on a later day for the true retention', () => {
+    const id = addReviewCard(1, 10, 5);
+    const reviewedAt = (daysAgo: number, hour: number) =>
+      new Date(Date.now() - daysAgo * DAY).toISOString().slice(0, 10) + ` ${String(hour).padStart(2, '0')}:00:00`;
+
+    flashcardQueries.addReview(db, id, 3, 1, 0, 1, reviewedAt(60, 8));    // First review
+    flashcardQueries.addReview(db, id, 1, 0, 0, 1, reviewedAt(60, 9));    // Same day
+    flashcardQueries.addReview(db, id, 3, 4, 1, 2, reviewedAt(59, 9));
+    flashcardQueries.addReview(db, id, 1, 0, 4, 3, reviewedAt(55, 9));
+    flashcardQueries.addReview(db, id, 3, 10, 5, 2, reviewedAt(10, 9));
+
+    expect(getDeckRetention(db)).toEqual([
+      { deckId, deckName: 'Anatomie', reviews: 3, passed: 2, recentReviews: 1, recentPassed: 1 },
+    ]);
+  });
+
+  it('should summarize measured answer times and show minutes in the heatmap', () => {
+    const quick = addReviewCard(1, 10, 5);
+    const slow = addReviewCard(1, 10, 5);
+    flashcardQueries.addReview(db, quick, 3, 1, 0, 2, undefined, undefined, 4000);
+    flashcardQueries.addReview(db, slow, 1, 0, 0, 3, undefined, undefined, 50_000);
+    flashcardQueries.addReview(db, slow, 3, 1, 0, 2, undefined, undefined, 30_000);
+    flashcardQueries.addReview(db, slow, 3, 1, 0, 2);    // Not measured
+
+    const stats = getAnswerTimeStats(db);
+    expect(stats.averageSeconds).toBe(28);
+    expect(stats.daily).toHaveLength(1);
+    expect(stats.daily[0].minutes).toBe(1.4);
+    expect(stats.slowestCards.map(card => [card.id, card.averageSeconds, card.reviews])).toEqual([[slow, 40, 2], [quick, 4, 1]]);
+
+    const heatmap = flashcardQueries.getHeatmapData(db, 'week', undefined, 'minutes');
+    expect(heatmap.data.map(day => day.count)).toEqual([1.4]);
+    expect(heatmap.totalReviews).toBe(4);
+    expect(heatmap.totalMinutes).toBe(1);
+    expect(flashcardQueries.getHeatmapData(db, 'week').data.map(day => day.count)).toEqual([4]);
+  });
+
+  it('should bucket stability and difficulty of reviewed cards', () => {
+    addReviewCard(1, 0.5, 1.2);
+    addReviewCard(1, 45, 5.5);
+    addReviewCard(1, 800, 10);
+    flashcardQueries.addCard(db, deckId, 'Neu', 'A');
+
+    expect(getStabilityDistribution(db).map(bucket => bucket.count)).toEqual([1, 0, 0, 1, 0, 1]);
+    expect(getDifficultyDistribution(db).map(bucket => bucket.count)).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+  });
+});
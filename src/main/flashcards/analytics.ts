@@ -0,0 +1,124 @@
+import type { DatabaseInstance } from '../database';
+import type { AnswerTimeStats, DeckRetention, DistributionBucket, DueForecastDay } from '../../shared/types';
+
+const SLOWEST_CARD_COUNT = 10;
+
+// Upper bounds (exclusive) of the stability buckets in days
+const STABILITY_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: '< 1 T', max: 1 },
+  { label: '1-7 T', max: 7 },
+  { label: '1-4 W', max: 30 },
+  { label: '1-3 M', max: 90 },
+  { label: '3-12 M', max: 365 },
+  { label: '> 1 J', max: Infinity },
+];
+
+/**
+ * Cards due per day for the next days, by local calendar day.
+ * Overdue cards count for today, new and suspended cards are left out.
+ */
+export function getDueForecast(db: DatabaseInstance, days: number): DueForecastDay[] {
+  return db.prepare(`
+    WITH RECURSIVE offsets(n) AS (
+      SELECT 0 UNION ALL SELECT n + 1 FROM offsets WHERE n < ? - 1
+    ),
+    due AS (
+      SELECT MAX(date(fs.due, 'localtime'), date('now', 'localtime')) as date, COUNT(*) as count
+      FROM flashcards f
+      JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
+      WHERE fs.state != 0 AND f.suspended = 0
+      GROUP BY 1
+    )
+    SELECT date('now', 'localtime', '+' || n || ' days') as date, COALESCE(due.count, 0) as count
+    FROM offsets
+    LEFT JOIN due ON due.date = date('now', 'localtime', '+' || n || ' days')
+    ORDER BY n
+  `).all(days) as DueForecastDay[];
+}
+
+/**
+ * True retention per deck: the pass rate of reviews at least a day after the
+ * previous review of the card, so learning steps don't inflate it
+ */
+export function getDeckRetention(db: DatabaseInstance): DeckRetention[] {
+  return db.prepare(`
+    WITH ordered AS (
+      SELECT
+        r.flashcard_id,
+        r.rating,
+        r.reviewed_at,
+        LAG(r.reviewed_at) OVER (PARTITION BY r.flashcard_id ORDER BY datetime(r.reviewed_at), r.id) as previousAt
+      FROM flashcard_reviews r
+    )
+    SELECT
+      d.id as deckId,
+      d.name as deckName,
+      COUNT(*) as reviews,
+      SUM(CASE WHEN o.rating > 1 THEN 1 ELSE 0 END) as passed,
+      SUM(CASE WHEN datetime(o.reviewed_at) >= datetime('now', '-30 days') THEN 1 ELSE 0 END) as recentReviews,
+      SUM(CASE WHEN datetime(o.reviewed_at) >= datetime('now', '-30 days') AND o.rating > 1 THEN 1 ELSE 0 END) as recentPassed
+    FROM ordered o
+    JOIN flashcards f ON f.id = o.flashcard_id
+    JOIN flashcard_decks d ON d.id = f.deck_id
+    WHERE o.previousAt IS NOT NULL AND date(o.reviewed_at) > date(o.previousAt)
+    GROUP BY d.id
+    ORDER BY d.name COLLATE NOCASE
+  `).all() as DeckRetention[];
+}
+
+function getReviewedCardStates(db: DatabaseInstance): Array<{ stability: number; difficulty: number }> {
+  return db.prepare(`
+    SELECT fs.stability, fs.difficulty
+    FROM flashcards f
+    JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
+    WHERE fs.state != 0 AND f.suspended = 0
+  `).all() as Array<{ stability: number; difficulty: number }>;
+}
+
+export function getStabilityDistribution(db: DatabaseInstance): DistributionBucket[] {
+  const buckets = STABILITY_BUCKETS.map(({ label }) => ({ label, count: 0 }));
+  for (const { stability } of getReviewedCardStates(db)) {
+    buckets[STABILITY_BUCKETS.findIndex(bucket => stability < bucket.max)].count++;
+  }
+  return buckets;
+}
+
+// FSRS difficulty ranges from 1 to 10, one bucket per point
+export function getDifficultyDistribution(db: DatabaseInstance): DistributionBucket[] {
+  const buckets = Array.from({ length: 9 }, (_, i) => ({ label: `${i + 1}-${i + 2}`, count: 0 }));
+  for (const { difficulty } of getReviewedCardStates(db)) {
+    buckets[Math.min(8, Math.max(0, Math.floor(difficulty) - 1))].count++;
+  }
+  return buckets;
+}
+
+/**
+ * Answer times from the reviews that were timed: the mean per review, study
+ * minutes per local day of the last 30 days and the cards that take longest
+ */
+export function getAnswerTimeStats(db: DatabaseInstance): AnswerTimeStats {
+  const average = db.prepare(`
+    SELECT AVG(duration_ms) / 1000.0 as seconds FROM flashcard_reviews WHERE duration_ms IS NOT NULL
+  `).get() as { seconds: number | null };
+
+  const daily = db.prepare(`
+    SELECT date(reviewed_at, 'localtime') as date, ROUND(SUM(duration_ms) / 60000.0, 1) as minutes
+    FROM flashcard_reviews
+    WHERE duration_ms IS NOT NULL AND date(reviewed_at, 'localtime') > date('now', 'localtime', '-30 days')
+    GROUP BY 1
+    ORDER BY 1
+  `).all() as Array<{ date: string; minutes: number }>;
+
+  const slowestCards = db.prepare(`
+    SELECT f.id, f.front, d.name as deckName, AVG(r.duration_ms) / 1000.0 as averageSeconds, COUNT(*) as reviews
+    FROM flashcard_reviews r
+    JOIN flashcards f ON f.id = r.flashcard_id
+    JOIN flashcard_decks d ON d.id = f.deck_id
+    WHERE r.duration_ms IS NOT NULL
+    GROUP BY f.id
+    ORDER BY averageSeconds DESC, f.id
+    LIMIT ?
+  `).all(SLOWEST_CARD_COUNT) as AnswerTimeStats['slowestCards'];
+
+  return { averageSeconds: average.seconds, daily, slowestCards };
+}
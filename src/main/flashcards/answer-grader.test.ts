@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { chat, type AIProviderConfig } from '../ai/provider';
+import { diffAnswer } from '../../shared/constants';
+import { gradeAnswer, normalizeGrading } from './answer-grader';
+
+vi.mock('../ai/provider', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../ai/provider')>()),
+  chat: vi.fn(),
+}));
+
+describe('diffAnswer', () => {
+  it('should treat case and surplus whitespace as equal', () => {
+    expect(diffAnswer('  mitochondrium ', 'Mitochondrium')).toEqual([{ type: 'equal', text: 'mitochondrium' }]);
+    expect(diffAnswer('Nervus   vagus', 'Nervus vagus')).toEqual([{ type: 'equal', text: 'Nervus vagus' }]);
+  });
+
+  it('should mark missing and extra characters', () => {
+    expect(diffAnswer('Mitochondrim', 'Mitochondrium')).toEqual([
+      { type: 'equal', text: 'Mitochondri' },
+      { type: 'missing', text: 'u' },
+      { type: 'equal', text: 'm' },
+    ]);
+    expect(diffAnswer('Aorta ascendens', 'Aorta')).toEqual([
+      { type: 'equal', text: 'Aorta' },
+      { type: 'extra', text: ' ascendens' },
+    ]);
+  });
+
+  it('should show everything as missing without a typed answer', () => {
+    expect(diffAnswer('', 'Leber')).toEqual([{ type: 'missing', text: 'Leber' }]);
+  });
+});
+
+describe('normalizeGrading', () => {
+  it('should clamp the rating and cap it by the verdict', () => {
+    expect(normalizeGrading({ verdict: 'correct', rating: 7, feedback: ' Stimmt. ' }))
+      .toEqual({ verdict: 'correct', suggestedRating: 4, feedback: 'Stimmt.' });
+    expect(normalizeGrading({ verdict: 'partial', rating: 3, feedback: '' }).suggestedRating).toBe(2);
+    expect(normalizeGrading({ verdict: 'Incorrect', rating: 4, feedback: '' }))
+      .toEqual({ verdict: 'incorrect', suggestedRating: 1, feedback: '' });
+  });
+
+  it('should derive an unknown verdict from the rating', () => {
+    expect(normalizeGrading({ verdict: 'fast richtig', rating: 2, feedback: '' }).verdict).toBe('partial');
+    expect(normalizeGrading({ verdict: '', rating: 0, feedback: '' }).verdict).toBe('incorrect');
+  });
+});
+
+describe('gradeAnswer', () => {
+  const config: AIProviderConfig = { provider: 'ollama', ollamaModel: 'llama3.2:1b' };
+  const chatMock = vi.mocked(chat);
+
+  beforeEach(() => {
+    chatMock.mockReset();
+  });
+
+  it('should send card, source page and answer and return the grading', async () => {
+    chatMock.mockResolvedValueOnce({
+      content: '{"verdict": "partial", "rating": 3, "feedback": "Die Lage fehlt."}',
+      usage: { promptTokens: 120, completionTokens: 20 },
+    });
+
+    const result = await gradeAnswer(config, {
+      question: 'Wo wird Insulin gebildet?',
+      expectedAnswer: 'In den B-Zellen der Langerhans-Inseln des Pankreas',
+      userAnswer: 'Im Pankreas',
+      sourceText: 'Die Langerhans-Inseln liegen vor allem im Pankreasschwanz.',
+    }, 'de');
+
+    expect(result.grading).toEqual({ verdict: 'partial', suggestedRating: 2, feedback: 'Die Lage fehlt.' });
+    expect(result.usage.promptTokens).toBe(120);
+
+    const messages = chatMock.mock.calls[0][1];
+    expect(messages[0].role).toBe('system');
+    expect(messages[1].content).toContain('Wo wird Insulin gebildet?');
+    expect(messages[1].content).toContain('Pankreasschwanz');
+    expect(messages[1].content).toContain('Im Pankreas');
+  });
+
+  it('should leave the source out when the card has none', async () => {
+    chatMock.mockResolvedValueOnce({
+      content: '{"verdict": "correct", "rating": 4, "feedback": "Richtig."}',
+      usage: { promptTokens: 50, completionTokens: 10 },
+    });
+
+    await gradeAnswer(config, { question: 'Q', expectedAnswer: 'A', userAnswer: 'A', sourceText: null }, 'en');
+
+    expect(chatMock.mock.calls[0][1][1].content).not.toContain('Source text');
+  });
+});
@@ -0,0 +1,117 @@
+import type { AnswerGrading, FSRSRating } from '../../shared/types';
+import { type AIProviderConfig, type UsageData, createUsageData, validateConfig } from '../ai/provider';
+import { chatStructured, type StructuredSchema } from '../ai/structured';
+
+export interface AnswerGradingInput {
+  question: string;
+  expectedAnswer: string;
+  userAnswer: string;
+  sourceText: string | null;    // Text of the card's source page, if known
+}
+
+export interface AnswerGradingResult {
+  grading: AnswerGrading;
+  usage: UsageData;
+}
+
+// Source pages are cut to this length, the card itself is what counts
+const MAX_SOURCE_CHARS = 6000;
+
+const VERDICTS: AnswerGrading['verdict'][] = ['correct', 'partial', 'incorrect'];
+
+const GRADING_SCHEMA: StructuredSchema = {
+  name: 'answer_grading',
+  schema: {
+    type: 'object',
+    properties: {
+      verdict: { type: 'string', description: 'correct, partial or incorrect' },
+      rating: { type: 'integer', description: '1 = Again, 2 = Hard, 3 = Good, 4 = Easy' },
+      feedback: { type: 'string' },
+    },
+    required: ['verdict', 'rating', 'feedback'],
+    additionalProperties: false,
+  },
+};
+
+const SYSTEM_PROMPTS = {
+  de: `Du bist ein strenger Prufer in einer mundlichen Prufung. Bewerte, ob die Antwort des Studierenden inhaltlich korrekt ist.
+
+Regeln:
+- Es zahlt die Bedeutung, nicht der Wortlaut. Synonyme und andere Formulierungen sind richtig.
+- Fehlt ein wesentlicher Teil der erwarteten Antwort, ist sie hochstens "partial".
+- Falsche Aussagen machen die Antwort "incorrect", auch wenn der Rest stimmt.
+- Vage Antworten, die in einer mundlichen Prufung nicht reichen wurden, sind nicht "correct".
+- rating: 1 = falsch oder Kernaussage fehlt, 2 = teilweise richtig mit wichtigen Lucken, 3 = richtig, 4 = richtig, vollstandig und prazise.
+- feedback: ein bis zwei Satze, was fehlt oder falsch ist (bei richtigen Antworten eine kurze Bestatigung).`,
+
+  en: `You are a strict examiner in an oral exam. Judge whether the student's answer is correct in substance.
+
+Rules:
+- Meaning counts, not wording. Synonyms and different phrasings are correct.
+- If an essential part of the expected answer is missing, it is at most "partial".
+- False statements make the answer "incorrect", even if the rest is right.
+- Vague answers that would not pass an oral exam are not "correct".
+- rating: 1 = wrong or key point missing, 2 = partially right with important gaps, 3 = correct, 4 = correct, complete and precise.
+- feedback: one or two sentences on what is missing or wrong (a short confirmation for correct answers).`,
+};
+
+function buildPrompt(input: AnswerGradingInput, language: 'de' | 'en'): string {
+  const source = input.sourceText ? input.sourceText.slice(0, MAX_SOURCE_CHARS) : null;
+  const labels = language === 'de'
+    ? { question: 'Frage', expected: 'Erwartete Antwort', answer: 'Antwort des Studierenden', source: 'Quelltext (Seite der Karte)' }
+    : { question: 'Question', expected: 'Expected answer', answer: "Student's answer", source: "Source text (the card's page)" };
+
+  return [
+    `${labels.question}:\n${input.question}`,
+    `${labels.expected}:\n${input.expectedAnswer}`,
+    source ? `${labels.source}:\n${source}` : null,
+    `${labels.answer}:\n${input.userAnswer}`,
+    'JSON: {"verdict": "correct" | "partial" | "incorrect", "rating": 1-4, "feedback": "..."}',
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Keep the model's judgement consistent: the rating is clamped to 1-4 and
+ * capped by the verdict, an unknown verdict is derived from the rating
+ */
+export function normalizeGrading(raw: { verdict: string; rating: number; feedback: string }): AnswerGrading {
+  const rating = Math.min(4, Math.max(1, Math.round(raw.rating || 1)));
+  const verdict = VERDICTS.find(v => v === raw.verdict?.trim().toLowerCase())
+    ?? (rating >= 3 ? 'correct' : rating === 2 ? 'partial' : 'incorrect');
+  const maxRating = verdict === 'correct' ? 4 : verdict === 'partial' ? 2 : 1;
+
+  return {
+    verdict,
+    suggestedRating: Math.min(rating, maxRating) as FSRSRating,
+    feedback: raw.feedback?.trim() || '',
+  };
+}
+
+/**
+ * Judge a typed answer against the card and its source page
+ */
+export async function gradeAnswer(
+  config: AIProviderConfig,
+  input: AnswerGradingInput,
+  language: 'de' | 'en'
+): Promise<AnswerGradingResult> {
+  const validation = validateConfig(config);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  const result = await chatStructured<{ verdict: string; rating: number; feedback: string }>(
+    config,
+    [
+      { role: 'system', content: SYSTEM_PROMPTS[language] },
+      { role: 'user', content: buildPrompt(input, language) },
+    ],
+    GRADING_SCHEMA,
+    { maxTokens: 2000 }
+  );
+
+  return {
+    grading: normalizeGrading(result.data),
+    usage: createUsageData(config, result.usage.promptTokens, result.usage.completionTokens),
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import type { FlashcardImportOptions } from '../../shared/types';
+import {
+  detectDelimiter,
+  detectImportFormat,
+  parseDelimited,
+  parseMarkdownCards,
+  parseQuizlet,
+  previewImport,
+} from './card-import';
+
+function options(overrides: Partial<FlashcardImportOptions> = {}): FlashcardImportOptions {
+  return {
+    format: 'csv',
+    hasHeader: false,
+    mapping: { front: 0, back: 1, cardType: null, tags: null, sourcePage: null },
+    ...overrides,
+  };
+}
+
+describe('parseDelimited', () => {
+  it('should handle quoted fields with delimiters, quotes and line breaks', () => {
+    const text = 'Frage,Antwort\r\n"Was ist 1,5?","Eine ""Zahl""\nmit Komma"\n\nLetzte,Zeile';
+
+    expect(parseDelimited(text, ',')).toEqual([
+      ['Frage', 'Antwort'],
+      ['Was ist 1,5?', 'Eine "Zahl"\nmit Komma'],
+      ['Letzte', 'Zeile'],
+    ]);
+  });
+
+  it('should detect the delimiter from the first line', () => {
+    expect(detectDelimiter('a;b;c\n1,2;3')).toBe(';');
+    expect(detectDelimiter('a\tb\n')).toBe('\t');
+    expect(detectDelimiter('"x,y";z')).toBe(';');
+  });
+});
+
+describe('parseMarkdownCards', () => {
+  it('should read Q/A blocks, list pairs and headings', () => {
+    const markdown = [
+      '# Biologie',
+      '',
+      'F: Was ist ATP?',
+      'A: Energietrager',
+      'der Zelle',
+      '',
+      '- Mitochondrium :: Kraftwerk der Zelle',
+      '1. Ribosom :: Proteinsynthese',
+      '',
+      '## Osmose',
+      'Diffusion durch eine',
+      'semipermeable Membran',
+    ].join('\n');
+
+    expect(parseMarkdownCards(markdown)).toEqual([
+      ['Biologie', ''],
+      ['Was ist ATP?', 'Energietrager\nder Zelle'],
+      ['Mitochondrium', 'Kraftwerk der Zelle'],
+      ['Ribosom', 'Proteinsynthese'],
+      ['Osmose', 'Diffusion durch eine\nsemipermeable Membran'],
+    ]);
+  });
+});
+
+describe('parseQuizlet', () => {
+  it('should split terms and rows by the chosen separators', () => {
+    expect(parseQuizlet('Hund\tdog\nKatze\tcat\n')).toEqual([['Hund', 'dog'], ['Katze', 'cat']]);
+    expect(parseQuizlet('Hund,dog;Katze,a, cat;', ',', ';')).toEqual([['Hund', 'dog'], ['Katze', 'a, cat']]);
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('should map file extensions to formats', () => {
+    expect(detectImportFormat('/tmp/deck.csv')).toBe('csv');
+    expect(detectImportFormat('/tmp/deck.TSV')).toBe('tsv');
+    expect(detectImportFormat('/tmp/notizen.md')).toBe('markdown');
+    expect(detectImportFormat('/tmp/quizlet.txt')).toBe('quizlet');
+  });
+});
+
+describe('previewImport', () => {
+  it('should apply the column mapping with header row', () => {
+    const csv = [
+      'Seite;Frage;Antwort;Typ;Tags',
+      '12;Hauptstadt von Frankreich?;Paris;basic;geo europa',
+      '3;Die Hauptstadt ist {{c1::Berlin}};Deutschland;cloze;geo',
+      ';;Ohne Frage;;',
+    ].join('\n');
+
+    const preview = previewImport(csv, options({
+      hasHeader: true,
+      mapping: { front: 1, back: 2, cardType: 3, tags: 4, sourcePage: 0 },
+    }));
+
+    expect(preview.columns).toEqual(['Seite', 'Frage', 'Antwort', 'Typ', 'Tags']);
+    expect(preview.skippedRows).toBe(1);
+    expect(preview.cards).toEqual([
+      {
+        front: 'Hauptstadt von Frankreich?',
+        back: 'Paris',
+        cardType: 'basic',
+        clozeData: null,
+        tags: ['geo', 'europa'],
+        sourcePage: 12,
+        duplicate: false,
+      },
+      {
+        front: 'Die Hauptstadt ist {{c1::Berlin}}',
+        back: 'Deutschland',
+        cardType: 'cloze',
+        clozeData: 'Die Hauptstadt ist {{c1::Berlin}}',
+        tags: ['geo'],
+        sourcePage: 3,
+        duplicate: false,
+      },
+    ]);
+  });
+
+  it('should import LearnBuddy files and detect cloze cards without a type column', () => {
+    const preview = previewImport('"Was ist {{c1::ATP}}?",Energie\nFrage 2,Antwort 2', options());
+
+    expect(preview.columns).toEqual(['Spalte 1', 'Spalte 2']);
+    expect(preview.cards.map(c => c.cardType)).toEqual(['cloze', 'basic']);
+  });
+
+  it('should mark duplicates against the deck and within the file', () => {
+    const preview = previewImport(
+      'Was ist ATP?,Energie\nWas ist Osmose?,Diffusion\nwas ist osmose,Nochmal',
+      options(),
+      ['Was ist ATP']
+    );
+
+    expect(preview.cards.map(c => c.duplicate)).toEqual([true, false, true]);
+    expect(preview.duplicateCount).toBe(2);
+  });
+});
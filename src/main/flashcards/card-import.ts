@@ -0,0 +1,231 @@
+import type {
+  FlashcardImportFormat,
+  FlashcardImportOptions,
+  FlashcardImportPreview,
+  ImportedFlashcard,
+} from '../../shared/types';
+import { normalizeFront } from './chunked-generator';
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+const CLOZE_PATTERN = /\{\{c\d+::/;
+// Markdown: "Q: ..." / "A: ..." (also German F:/Frage:, A:/Antwort:)
+const QUESTION_LINE = /^\s*(?:[-*]\s+)?(?:\*\*)?(?:Q|F|Frage|Question)(?:\*\*)?\s*:\s*(?:\*\*)?\s*(.*)$/i;
+const ANSWER_LINE = /^\s*(?:[-*]\s+)?(?:\*\*)?(?:A|Antwort|Answer)(?:\*\*)?\s*:\s*(?:\*\*)?\s*(.*)$/i;
+// Markdown: "- front :: back" or "1. front :: back"
+const LIST_PAIR = /^\s*(?:[-*+]|\d+[.)])\s+(.+?)\s*::\s*(.+)$/;
+const HEADING = /^\s*#{1,6}\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Guess the CSV delimiter from the first line (quoted sections are ignored)
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse delimiter-separated text (RFC 4180 quoting, quoted fields may span lines)
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse a Markdown Q/A list into [front, back] rows. Supported:
+ * "Q: ... / A: ..." blocks, "- front :: back" list items and
+ * headings followed by the answer text.
+ */
+export function parseMarkdownCards(text: string): string[][] {
+  const rows: string[][] = [];
+  let front: string | null = null;
+  let back: string[] = [];
+  let collecting = false;
+
+  const flush = () => {
+    if (front !== null) {
+      rows.push([front, back.join('\n').trim()]);
+    }
+    front = null;
+    back = [];
+    collecting = false;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const question = QUESTION_LINE.exec(line);
+    const answer = ANSWER_LINE.exec(line);
+    const pair = LIST_PAIR.exec(line);
+    const heading = HEADING.exec(line);
+
+    if (question) {
+      flush();
+      front = question[1].trim();
+    } else if (answer && front !== null) {
+      back = [answer[1]];
+      collecting = true;
+    } else if (pair) {
+      flush();
+      rows.push([pair[1].trim(), pair[2].trim()]);
+    } else if (heading) {
+      flush();
+      front = heading[1].trim();
+      collecting = true;
+    } else if (collecting && (line.trim() !== '' || back.length > 0)) {
+      back.push(line);
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+/**
+ * Parse a Quizlet export ("term<sep>definition" rows, tab and new line by default)
+ */
+export function parseQuizlet(text: string, termSeparator = '\t', rowSeparator = '\n'): string[][] {
+  const normalized = text.replace(/\r\n/g, '\n');
+  return normalized
+    .split(rowSeparator)
+    .filter(row => row.trim() !== '')
+    .map(row => {
+      const index = row.indexOf(termSeparator);
+      return index < 0 ? [row.trim()] : [row.slice(0, index).trim(), row.slice(index + termSeparator.length).trim()];
+    });
+}
+
+/**
+ * Guess the format from the file extension
+ */
+export function detectImportFormat(filePath: string): FlashcardImportFormat {
+  const extension = filePath.split('.').pop()?.toLowerCase();
+  if (extension === 'tsv' || extension === 'tab') return 'tsv';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'txt') return 'quizlet';
+  return 'csv';
+}
+
+export function parseImportRows(content: string, options: FlashcardImportOptions): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  switch (options.format) {
+    case 'tsv':
+      return parseDelimited(text, '\t');
+    case 'markdown':
+      return parseMarkdownCards(text);
+    case 'quizlet':
+      return parseQuizlet(text, options.termSeparator || '\t', options.rowSeparator || '\n');
+    default:
+      return parseDelimited(text, options.delimiter || detectDelimiter(text));
+  }
+}
+
+function parseTags(value: string | undefined): string[] {
+  if (!value) return [];
+  return [...new Set(value.split(/[\s,;]+/).map(tag => tag.trim()).filter(Boolean))];
+}
+
+function parseSourcePage(value: string | undefined): number | null {
+  const page = parseInt(value ?? '', 10);
+  return page > 0 ? page : null;
+}
+
+/**
+ * Parse the file content, apply the column mapping and mark duplicates
+ * (against the target deck and earlier rows of the same file)
+ */
+export function previewImport(
+  content: string,
+  options: FlashcardImportOptions,
+  existingFronts: string[] = []
+): FlashcardImportPreview {
+  const rows = parseImportRows(content, options);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const header = options.hasHeader ? rows[0] ?? [] : [];
+  const columns = Array.from({ length: columnCount }, (_, i) => header[i]?.trim() || `Spalte ${i + 1}`);
+  const dataRows = options.hasHeader ? rows.slice(1) : rows;
+
+  const { mapping } = options;
+  const seen = new Set(existingFronts.map(normalizeFront).filter(Boolean));
+  const cards: ImportedFlashcard[] = [];
+  let skippedRows = 0;
+
+  for (const row of dataRows) {
+    const front = row[mapping.front]?.trim() ?? '';
+    const back = row[mapping.back]?.trim() ?? '';
+    if (!front || !back) {
+      skippedRows++;
+      continue;
+    }
+
+    const typeValue = mapping.cardType !== null ? row[mapping.cardType]?.trim().toLowerCase() : undefined;
+    const isCloze = typeValue
+      ? typeValue === 'cloze' || typeValue === 'luckentext' || typeValue === 'lueckentext'
+      : CLOZE_PATTERN.test(front);
+
+    const key = normalizeFront(front);
+    const duplicate = key !== '' && seen.has(key);
+    seen.add(key);
+
+    cards.push({
+      front,
+      back,
+      cardType: isCloze ? 'cloze' : 'basic',
+      clozeData: isCloze ? front : null,
+      tags: mapping.tags !== null ? parseTags(row[mapping.tags]) : [],
+      sourcePage: mapping.sourcePage !== null ? parseSourcePage(row[mapping.sourcePage]) : null,
+      duplicate,
+    });
+  }
+
+  return {
+    columns,
+    cards,
+    duplicateCount: cards.filter(card => card.duplicate).length,
+    skippedRows,
+  };
+}
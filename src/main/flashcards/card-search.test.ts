@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { DatabaseInstance } from '../database';
+import { applyMigrations } from '../database/migrations';
+import { compileCardQuery, tokenizeCardQuery } from './card-search';
+import * as flashcardQueries from './queries';
+
+describe('tokenizeCardQuery', () => {
+  it('should keep operators and quoted values together', () => {
+    expect(tokenizeCardQuery('lapses > 3 pdftag:"Exam 2026" -is:new "zwei Worte"')).toEqual([
+      'lapses>3',
+      'pdftag:"Exam 2026"',
+      '-is:new',
+      '"zwei Worte"',
+    ]);
+  });
+});
+
+describe('compileCardQuery', () => {
+  let db: DatabaseInstance;
+  let biologie: number;
+  let zelle: number;
+  let cards: Record<string, number>;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+
+    const pdfId = db.prepare("INSERT INTO pdfs (file_path, file_name, file_hash) VALUES ('/tmp/a.pdf', 'a.pdf', 'abc')")
+      .run().lastInsertRowid as number;
+    const tagId = db.prepare("INSERT INTO tags (name) VALUES ('Exam')").run().lastInsertRowid as number;
+    db.prepare('INSERT INTO pdf_tags (pdf_id, tag_id) VALUES (?, ?)').run(pdfId, tagId);
+
+    biologie = flashcardQueries.createDeck(db, 'Biologie', pdfId);
+    zelle = flashcardQueries.createDeck(db, 'Zelle', undefined, undefined, biologie);
+    const chemie = flashcardQueries.createDeck(db, 'Chemie');
+
+    cards = {
+      mitochondrien: flashcardQueries.addCard(db, zelle, 'Mitochondrien', 'Kraftwerk', 'basic', undefined, 45),
+      atp: flashcardQueries.addCard(db, biologie, 'ATP', '100% Energie', 'basic', undefined, 12),
+      wasser: flashcardQueries.addCard(db, chemie, 'H2O', 'Wasser', 'basic', undefined, 60),
+    };
+
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    flashcardQueries.updateFSRS(db, cards.mitochondrien, {
+      difficulty: 8, stability: 2, state: 2, due: tomorrow,
+      lastReview: null, reps: 9, lapses: 5, scheduledDays: 1, elapsedDays: 0,
+    });
+    flashcardQueries.updateCardTags(db, cards.wasser, ['leech']);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function search(query: string): number[] {
+    const { where, params } = compileCardQuery(query);
+    const rows = db.prepare(`
+      SELECT f.id FROM flashcards f JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
+      WHERE ${where} ORDER BY f.id
+    `).all(...params) as { id: number }[];
+    return rows.map(row => row.id);
+  }
+
+  it('should match every card for an empty query', () => {
+    expect(search('  ')).toHaveLength(3);
+  });
+
+  it('should compare numeric properties and due days', () => {
+    expect(search('lapses > 3')).toEqual([cards.mitochondrien]);
+    expect(search('due<=3')).toEqual([cards.mitochondrien]);
+    expect(search('due<1')).toEqual([]);
+    expect(search('due:<7 lapses:>2')).toEqual([cards.mitochondrien]);
+  });
+
+  it('should filter by page range, deck tree and tags', () => {
+    expect(search('page:40-80')).toEqual([cards.mitochondrien, cards.wasser]);
+    expect(search('deck:biologie')).toEqual([cards.mitochondrien, cards.atp]);
+    expect(search('pdftag:exam')).toEqual([cards.atp]);
+    expect(search('tag:leech')).toEqual([cards.wasser]);
+    expect(search('pdf:"a.pdf"')).toEqual([cards.atp]);
+    expect(search('pdf:A')).toEqual([cards.atp]);
+    expect(search('state:review')).toEqual([cards.mitochondrien]);
+  });
+
+  it('should search the full-text index by word prefix', () => {
+    flashcardQueries.updateCard(db, cards.wasser, 'Wasserstoffbrücken', 'Bindung');
+
+    expect(search('wasserstoffbruck')).toEqual([cards.wasser]);
+    expect(search('kraftwerk -deck:Chemie')).toEqual([cards.mitochondrien]);
+    expect(search('energie')).toEqual([cards.atp]);
+  });
+
+  it('should combine, negate and search text', () => {
+    expect(search('deck:Biologie -is:review')).toEqual([cards.atp]);
+    expect(search('kraft')).toEqual([cards.mitochondrien]);
+    expect(search('100%')).toEqual([cards.atp]);
+  });
+
+  it('should reject unknown terms', () => {
+    expect(() => compileCardQuery('farbe:rot')).toThrow('Unbekannter Suchbegriff');
+    expect(() => compileCardQuery('alter>3')).toThrow('Unbekannte Eigenschaft');
+    expect(() => compileCardQuery('page:abc')).toThrow('Ungultige Seitenangabe');
+  });
+});
+
+describe('filtered decks', () => {
+  let db: DatabaseInstance;
+  let deckId: number;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+    deckId = flashcardQueries.createDeck(db, 'Physik');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should study matching cards up to the limit without suspended ones', () => {
+    const ids = [1, 2, 3].map(i => flashcardQueries.addCard(db, deckId, `Frage ${i}`, 'A', 'basic', undefined, i * 10));
+    flashcardQueries.setCardsSuspended(db, [ids[0]], true);
+    const filteredId = flashcardQueries.createFilteredDeck(db, 'Kapitel', 'page:1-100', 1);
+
+    expect(flashcardQueries.getFilteredDeckCards(db, filteredId).map(c => c.id)).toEqual([ids[1]]);
+    expect(flashcardQueries.getFilteredDecks(db)).toMatchObject([{ name: 'Kapitel', cardCount: 1, dueCount: 1 }]);
+  });
+
+  it('should refuse an invalid query', () => {
+    expect(() => flashcardQueries.createFilteredDeck(db, 'Kaputt', 'farbe:rot', 10)).toThrow('Unbekannter Suchbegriff');
+  });
+});
+
+describe('card browser', () => {
+  let db: DatabaseInstance;
+  let deckId: number;
+  let ids: number[];
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+    deckId = flashcardQueries.createDeck(db, 'Physik');
+    ids = ['Impuls', 'Energie', 'Arbeit'].map(front => flashcardQueries.addCard(db, deckId, front, 'A'));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should return matching cards with their deck name', () => {
+    const results = flashcardQueries.searchCards(db, 'energie', 10);
+
+    expect(results).toMatchObject([{ id: ids[1], front: 'Energie', deckName: 'Physik' }]);
+    expect(flashcardQueries.searchCards(db, '', 2)).toHaveLength(2);
+  });
+
+  it('should move, re-tag and reset cards in bulk', () => {
+    const otherDeck = flashcardQueries.createDeck(db, 'Mechanik');
+    flashcardQueries.updateCardTags(db, ids[0], ['alt', 'Kapitel1']);
+    flashcardQueries.updateFSRS(db, ids[0], {
+      difficulty: 6, stability: 12, state: 2, due: new Date().toISOString(),
+      lastReview: null, reps: 4, lapses: 1, scheduledDays: 12, elapsedDays: 3,
+    });
+
+    flashcardQueries.moveCards(db, [ids[0], ids[1]], otherDeck);
+    flashcardQueries.retagCards(db, [ids[0], ids[1]], ['pruefung', 'kapitel1'], ['ALT']);
+    flashcardQueries.resetCardsScheduling(db, [ids[0]]);
+
+    const card = flashcardQueries.getCardById(db, ids[0])!;
+    expect(card.deckId).toBe(otherDeck);
+    expect(card.tags).toEqual(['Kapitel1', 'pruefung']);
+    expect(card.fsrs).toMatchObject({ state: 0, reps: 0, lapses: 0, retrievability: 1 });
+    expect(flashcardQueries.getCardById(db, ids[1])!.tags).toEqual(['pruefung', 'kapitel1']);
+    expect(flashcardQueries.searchCards(db, 'deck:Mechanik', 10).map(c => c.id).sort()).toEqual([ids[0], ids[1]]);
+  });
+
+  it('should keep the full-text index in sync when cards are deleted', () => {
+    flashcardQueries.deleteCards(db, [ids[1]]);
+
+    expect(flashcardQueries.searchCards(db, 'energie', 10)).toEqual([]);
+    expect(flashcardQueries.searchCards(db, '', 10)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Card search language, used by filtered decks and the card browser.
+ *
+ * A query is a list of terms that must all match, a leading "-" negates a term:
+ *   lapses>3  reps<=2  stability>30  difficulty>=7  page>40   numeric properties (also "lapses:>3")
+ *   due<=3  due:<7                                            review due within N days (0 = today, negative = overdue)
+ *   page:40-80  page:12                                       source page
+ *   deck:Biologie                                             deck including its subdecks
+ *   pdf:"Anatomy.pdf"  pdftag:Exam                            source PDF by file name / by tag
+ *   tag:leech                                                 card tag
+ *   is:new|learning|review|relearning|due|suspended           also as state:review
+ *   flag:1
+ *   Mitochondrien  "zwei Worte"                               full-text search on the front and back
+ * Spaces around comparison operators are allowed ("lapses > 3"), values with spaces are quoted.
+ * The SQL expects the card as `f` (flashcards) and its FSRS state as `fs` (flashcard_fsrs).
+ */
+
+export interface CardQuerySQL {
+  where: string;
+  params: Array<string | number>;
+}
+
+const NUMERIC_COLUMNS: Record<string, string> = {
+  lapses: 'fs.lapses',
+  reps: 'fs.reps',
+  stability: 'fs.stability',
+  difficulty: 'fs.difficulty',
+  interval: 'fs.scheduled_days',
+  page: 'f.source_page',
+};
+
+// Days from today until the card is due, by local calendar day
+const DUE_DAYS_SQL = `(julianday(date(fs.due, 'localtime')) - julianday(date('now', 'localtime')))`;
+
+// The PDF a card was made from: the occlusion image's, the highlight's or the deck's
+const SOURCE_PDF_SQL = `COALESCE(
+  (SELECT i.pdf_id FROM flashcard_images i WHERE i.id = f.image_id),
+  (SELECT h.pdf_id FROM highlights h WHERE h.id = f.highlight_id),
+  (SELECT d.pdf_id FROM flashcard_decks d WHERE d.id = f.deck_id)
+)`;
+
+const STATE_FILTERS: Record<string, string> = {
+  new: 'fs.state = 0',
+  learning: 'fs.state = 1',
+  review: 'fs.state = 2',
+  relearning: 'fs.state = 3',
+  due: "datetime(fs.due) <= datetime('now')",
+  suspended: 'f.suspended = 1',
+};
+
+/**
+ * Split a query into terms, keeping quoted values together
+ */
+export function tokenizeCardQuery(query: string): string[] {
+  const normalized = query.replace(/\s*(<=|>=|!=|=|<|>)\s*/g, '$1');
+  return normalized.match(/-?(?:[^\s"]*"[^"]*"?|[^\s"]+)/g) ?? [];
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+function compileComparison(name: string, operator: string, value: string): CardQuerySQL {
+  const key = name.toLowerCase();
+  if (key === 'due') {
+    // New cards have no review date
+    return { where: `fs.state != 0 AND ${DUE_DAYS_SQL} ${operator} ?`, params: [Number(value)] };
+  }
+  const column = NUMERIC_COLUMNS[key];
+  if (!column) {
+    throw new Error(`Unbekannte Eigenschaft: ${name}`);
+  }
+  return { where: `${column} ${operator} ?`, params: [Number(value)] };
+}
+
+// Prefix search in the FTS index, terms without letters or digits fall back to LIKE
+function compileText(text: string): CardQuerySQL {
+  if (!/[\p{L}\p{N}]/u.test(text)) {
+    const pattern = `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+    return { where: "(f.front LIKE ? ESCAPE '\\' OR f.back LIKE ? ESCAPE '\\')", params: [pattern, pattern] };
+  }
+  return {
+    where: 'f.id IN (SELECT rowid FROM flashcards_fts WHERE flashcards_fts MATCH ?)',
+    params: [`"${text.replace(/"/g, '""')}"*`],
+  };
+}
+
+function compileTerm(term: string): CardQuerySQL {
+  const comparison = term.match(/^([a-z]+):?(<=|>=|!=|=|<|>)(-?\d+(?:\.\d+)?)$/i);
+  if (comparison) {
+    return compileComparison(comparison[1], comparison[2], comparison[3]);
+  }
+
+  const field = term.match(/^([a-z]+):(.+)$/i);
+  if (field) {
+    const key = field[1].toLowerCase();
+    const value = unquote(field[2]);
+
+    switch (key) {
+      case 'deck':
+        return {
+          where: `f.deck_id IN (
+            WITH RECURSIVE tree(id) AS (
+              SELECT id FROM flashcard_decks WHERE name = ? COLLATE NOCASE
+              UNION SELECT d.id FROM flashcard_decks d JOIN tree t ON d.parent_id = t.id
+            )
+            SELECT id FROM tree
+          )`,
+          params: [value],
+        };
+      case 'tag':
+        return {
+          where: 'EXISTS (SELECT 1 FROM json_each(f.tags) WHERE json_each.value = ? COLLATE NOCASE)',
+          params: [value],
+        };
+      case 'pdf':
+        return {
+          where: `EXISTS (
+            SELECT 1 FROM pdfs p
+            WHERE p.id = ${SOURCE_PDF_SQL} AND (p.file_name = ? COLLATE NOCASE OR p.file_name = ? COLLATE NOCASE)
+          )`,
+          params: [value, `${value}.pdf`],
+        };
+      case 'pdftag':
+        return {
+          where: `EXISTS (
+            SELECT 1 FROM pdf_tags pt JOIN tags t ON t.id = pt.tag_id
+            WHERE pt.pdf_id = ${SOURCE_PDF_SQL} AND t.name = ? COLLATE NOCASE
+          )`,
+          params: [value],
+        };
+      case 'page': {
+        const range = value.match(/^(\d+)(?:-(\d+))?$/);
+        if (!range) {
+          throw new Error(`Ungultige Seitenangabe: ${value}`);
+        }
+        const from = Number(range[1]);
+        const to = range[2] !== undefined ? Number(range[2]) : from;
+        return { where: 'f.source_page BETWEEN ? AND ?', params: [Math.min(from, to), Math.max(from, to)] };
+      }
+      case 'is':
+      case 'state': {
+        const filter = STATE_FILTERS[value.toLowerCase()];
+        if (!filter) {
+          throw new Error(`Unbekannter Status: ${value}`);
+        }
+        return { where: filter, params: [] };
+      }
+      case 'flag': {
+        const flag = Number(value);
+        if (!Number.isInteger(flag) || flag < 0 || flag > 4) {
+          throw new Error(`Ungultige Markierung: ${value}`);
+        }
+        return { where: 'f.flag = ?', params: [flag] };
+      }
+      default:
+        throw new Error(`Unbekannter Suchbegriff: ${field[1]}`);
+    }
+  }
+
+  return compileText(unquote(term));
+}
+
+/**
+ * Compile a search query to a SQL condition. An empty query matches every card.
+ */
+export function compileCardQuery(query: string): CardQuerySQL {
+  const parts = tokenizeCardQuery(query).map(token => {
+    const negated = token.startsWith('-') && token.length > 1;
+    const compiled = compileTerm(negated ? token.slice(1) : token);
+    return { where: negated ? `NOT (${compiled.where})` : `(${compiled.where})`, params: compiled.params };
+  });
+
+  if (parts.length === 0) {
+    return { where: '1', params: [] };
+  }
+  return {
+    where: parts.map(part => part.where).join(' AND '),
+    params: parts.flatMap(part => part.params),
+  };
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AIProviderConfig } from '../ai/provider';
+import { ChatCancelledError } from '../ai/provider';
+import { BudgetExceededError } from '../ai/budget';
+import { generateFlashcards } from './ai-generator';
+import {
+  distributeCardCount,
+  frontSimilarity,
+  generateFlashcardsInChunks,
+  normalizeFront,
+  removeDuplicateCards,
+  splitPagesIntoChunks,
+} from './chunked-generator';
+
+vi.mock('./ai-generator', () => ({
+  generateFlashcards: vi.fn(),
+}));
+
+const mockedGenerate = vi.mocked(generateFlashcards);
+
+const config: AIProviderConfig = { provider: 'openai', openaiApiKey: 'sk-test', openaiModel: 'gpt-5-mini' };
+const usage = { model: 'gpt-5-mini', promptTokens: 100, completionTokens: 50, costUsd: 0.001 };
+
+function page(pageNum: number, words: number) {
+  return { pageNum, content: Array.from({ length: words }, (_, i) => `wort${i}`).join(' ') };
+}
+
+function card(front: string) {
+  return { front, back: 'Antwort', cardType: 'basic' as const };
+}
+
+describe('splitPagesIntoChunks', () => {
+  it('should group whole pages until the token budget is reached', () => {
+    // ~7 chars per word -> 100 words are ~200 tokens per page
+    const chunks = splitPagesIntoChunks([page(1, 100), page(2, 100), page(3, 100)], 450);
+
+    expect(chunks.map(c => c.pages)).toEqual([[1, 2], [3]]);
+    expect(chunks[0].text).toContain('[Seite 2]');
+    expect(chunks.every(c => c.tokens <= 450)).toBe(true);
+  });
+
+  it('should split a page larger than the budget', () => {
+    const chunks = splitPagesIntoChunks([page(7, 1000)], 500);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.pages[0] === 7 && c.tokens <= 500)).toBe(true);
+    expect(chunks.every(c => c.text.startsWith('[Seite 7]'))).toBe(true);
+  });
+
+  it('should skip empty pages', () => {
+    expect(splitPagesIntoChunks([{ pageNum: 1, content: '  ' }])).toEqual([]);
+  });
+});
+
+describe('distributeCardCount', () => {
+  it('should split the count by chunk length and keep the total', () => {
+    const chunks = [
+      { text: '', pages: [1], tokens: 3000 },
+      { text: '', pages: [2], tokens: 1000 },
+    ];
+
+    expect(distributeCardCount(chunks, 10)).toEqual([7, 3]);
+  });
+
+  it('should give every chunk at least one card', () => {
+    const chunks = [1, 2, 3].map(n => ({ text: '', pages: [n], tokens: 100 }));
+
+    expect(distributeCardCount(chunks, 2)).toEqual([1, 1, 1]);
+  });
+});
+
+describe('duplicate detection', () => {
+  it('should normalize case, accents and punctuation', () => {
+    expect(normalizeFront('Was ist die  Größe?')).toBe('was ist die grosse');
+  });
+
+  it('should rate reworded questions as similar', () => {
+    expect(frontSimilarity('was ist photosynthese', 'was ist die photosynthese')).toBeGreaterThan(0.85);
+    expect(frontSimilarity('was ist photosynthese', 'wie funktioniert osmose')).toBeLessThan(0.5);
+  });
+
+  it('should remove duplicates within the batch and against existing cards', () => {
+    const { cards, removed } = removeDuplicateCards(
+      [card('Was ist Photosynthese?'), card('Was ist die Photosynthese'), card('Was ist ATP?'), card('Was ist Osmose?')],
+      ['was ist atp']
+    );
+
+    expect(cards.map(c => c.front)).toEqual(['Was ist Photosynthese?', 'Was ist Osmose?']);
+    expect(removed).toBe(2);
+  });
+});
+
+describe('generateFlashcardsInChunks', () => {
+  beforeEach(() => {
+    mockedGenerate.mockReset();
+  });
+
+  it('should generate per chunk, report progress and tag the source page', async () => {
+    mockedGenerate
+      .mockResolvedValueOnce({ cards: [card('Frage eins')], usage })
+      .mockResolvedValueOnce({ cards: [card('Frage eins!'), card('Ganz andere Frage')], usage });
+    const onProgress = vi.fn();
+    const onUsage = vi.fn();
+
+    const result = await generateFlashcardsInChunks([config], [page(1, 100), page(5, 100)], {
+      language: 'de',
+      count: 4,
+      tokenBudget: 250,
+      onProgress,
+      onUsage,
+    });
+
+    expect(mockedGenerate).toHaveBeenCalledTimes(2);
+    expect(result.cards.map(c => [c.front, c.sourcePage])).toEqual([['Frage eins', 1], ['Ganz andere Frage', 5]]);
+    expect(result.duplicatesRemoved).toBe(1);
+    expect(onUsage).toHaveBeenCalledTimes(2);
+    expect(onProgress.mock.calls.map(([p]) => p.completedChunks)).toEqual([0, 1, 2]);
+  });
+
+  it('should skip failing chunks and throw only if all failed', async () => {
+    mockedGenerate
+      .mockRejectedValueOnce(new Error('Kontext zu lang'))
+      .mockResolvedValueOnce({ cards: [card('Frage')], usage });
+
+    const result = await generateFlashcardsInChunks([config], [page(1, 100), page(2, 100)], {
+      language: 'de',
+      count: 2,
+      tokenBudget: 250,
+    });
+    expect(result).toMatchObject({ failedChunks: 1, cancelled: false });
+    expect(result.cards).toHaveLength(1);
+
+    mockedGenerate.mockRejectedValue(new Error('Kontext zu lang'));
+    await expect(generateFlashcardsInChunks([config], [page(1, 100)], { language: 'de', count: 2 }))
+      .rejects.toThrow('Kontext zu lang');
+  });
+
+  it('should stop at a budget cap and pass its message on', async () => {
+    mockedGenerate
+      .mockResolvedValueOnce({ cards: [card('Erste Frage')], usage })
+      .mockRejectedValueOnce(new BudgetExceededError('Tagesbudget erreicht'));
+
+    await expect(generateFlashcardsInChunks([config], [page(1, 100), page(2, 100), page(3, 100)], {
+      language: 'de',
+      count: 3,
+      tokenBudget: 250,
+    })).rejects.toThrow('Tagesbudget erreicht');
+    expect(mockedGenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop on cancel and keep the cards generated so far', async () => {
+    const controller = new AbortController();
+    mockedGenerate
+      .mockResolvedValueOnce({ cards: [card('Erste Frage')], usage })
+      .mockImplementationOnce(async () => {
+        controller.abort();
+        throw new ChatCancelledError(usage);
+      });
+    const onUsage = vi.fn();
+
+    const result = await generateFlashcardsInChunks([config], [page(1, 100), page(2, 100), page(3, 100)], {
+      language: 'de',
+      count: 3,
+      tokenBudget: 250,
+      signal: controller.signal,
+      onUsage,
+    });
+
+    expect(mockedGenerate).toHaveBeenCalledTimes(2);
+    expect(result.cancelled).toBe(true);
+    expect(result.cards.map(c => c.front)).toEqual(['Erste Frage']);
+    expect(onUsage).toHaveBeenCalledTimes(2);
+  });
+});
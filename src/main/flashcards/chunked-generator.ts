@@ -0,0 +1,271 @@
+import type { GeneratedCard } from '../../shared/types';
+import { BudgetExceededError } from '../ai/budget';
+import { ChatCancelledError, type AIProviderConfig, type UsageData } from '../ai/provider';
+import { runWithFallback } from '../ai/routing';
+import type { ExtractedPage } from '../pdf/extractor';
+import { generateFlashcards } from './ai-generator';
+
+// Prompt budget per chunk - leaves room for the answer in small context windows
+export const CHUNK_TOKEN_BUDGET = 6000;
+// Same estimate as the provider uses for prompts
+const CHARS_PER_TOKEN = 4;
+// Fronts at least this similar (bigram Dice coefficient) count as duplicates
+export const DUPLICATE_SIMILARITY = 0.85;
+
+export interface TextChunk {
+  text: string;
+  pages: number[];
+  tokens: number;
+}
+
+export interface ChunkProgress {
+  completedChunks: number;
+  totalChunks: number;
+  currentPages: number[];
+  cardCount: number;
+}
+
+export interface ChunkedGenerationOptions {
+  language: 'de' | 'en';
+  count: number;
+  existingFronts?: string[];
+  tokenBudget?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ChunkProgress) => void;
+  onUsage?: (usage: UsageData) => void;
+}
+
+export interface ChunkedGenerationResult {
+  cards: GeneratedCard[];
+  duplicatesRemoved: number;
+  totalChunks: number;
+  failedChunks: number;
+  cancelled: boolean;
+}
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Split an oversized page at word boundaries into parts that fit the budget
+function splitPageText(content: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let rest = content;
+
+  while (rest.length > maxChars) {
+    // Prefer a sentence end, then a space, in the second half of the window
+    const window = rest.slice(0, maxChars);
+    const sentenceEnd = window.search(/[.!?]\s[^.!?]*$/);
+    const lastSpace = window.lastIndexOf(' ');
+    let end = maxChars;
+    if (sentenceEnd > maxChars / 2) end = sentenceEnd + 1;
+    else if (lastSpace > maxChars / 2) end = lastSpace;
+
+    parts.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Group pages into chunks that fit the token budget.
+ * Pages stay whole where possible; a page larger than the budget is split on its own.
+ */
+export function splitPagesIntoChunks(
+  pages: ExtractedPage[],
+  tokenBudget: number = CHUNK_TOKEN_BUDGET
+): TextChunk[] {
+  const maxChars = tokenBudget * CHARS_PER_TOKEN;
+  const chunks: TextChunk[] = [];
+  let current: { parts: string[]; pages: number[] } = { parts: [], pages: [] };
+
+  const flush = () => {
+    if (current.parts.length === 0) return;
+    const text = current.parts.join('\n\n');
+    chunks.push({ text, pages: current.pages, tokens: estimateTextTokens(text) });
+    current = { parts: [], pages: [] };
+  };
+
+  for (const page of pages) {
+    const header = `[Seite ${page.pageNum}]\n`;
+    const content = page.content.trim();
+    if (!content) continue;
+
+    for (const part of splitPageText(content, maxChars - header.length)) {
+      const section = header + part;
+      const currentLength = current.parts.reduce((sum, p) => sum + p.length + 2, 0);
+      if (currentLength + section.length > maxChars) flush();
+
+      current.parts.push(section);
+      if (!current.pages.includes(page.pageNum)) current.pages.push(page.pageNum);
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Distribute the requested card count over the chunks by their length.
+ * Every chunk gets at least one card, rounding uses the largest remainders.
+ */
+export function distributeCardCount(chunks: TextChunk[], count: number): number[] {
+  if (chunks.length === 0) return [];
+  const total = Math.max(count, chunks.length);
+  const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0) || 1;
+
+  const exact = chunks.map(chunk => 1 + (total - chunks.length) * chunk.tokens / totalTokens);
+  const counts = exact.map(Math.floor);
+  let missing = total - counts.reduce((sum, c) => sum + c, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (missing <= 0) break;
+    counts[index]++;
+    missing--;
+  }
+
+  return counts;
+}
+
+/**
+ * Normalize a card front for comparison: lowercase, no accents, punctuation or extra spaces
+ */
+export function normalizeFront(front: string): string {
+  return front
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const result = new Map<string, number>();
+  const compact = text.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    result.set(bigram, (result.get(bigram) || 0) + 1);
+  }
+  return result;
+}
+
+/**
+ * Similarity of two normalized fronts (Dice coefficient over character bigrams, 0-1)
+ */
+export function frontSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const bigramsA = bigrams(a);
+  const bigramsB = bigrams(b);
+  let sizeA = 0;
+  let sizeB = 0;
+  let shared = 0;
+
+  bigramsA.forEach(countA => { sizeA += countA; });
+  bigramsB.forEach(countB => { sizeB += countB; });
+  bigramsA.forEach((countA, bigram) => {
+    shared += Math.min(countA, bigramsB.get(bigram) || 0);
+  });
+
+  return sizeA + sizeB === 0 ? 0 : (2 * shared) / (sizeA + sizeB);
+}
+
+/**
+ * Remove cards whose front nearly matches an earlier card of the batch or an existing card.
+ * Keeps the first occurrence.
+ */
+export function removeDuplicateCards(
+  cards: GeneratedCard[],
+  existingFronts: string[] = [],
+  threshold: number = DUPLICATE_SIMILARITY
+): { cards: GeneratedCard[]; removed: number } {
+  const seen = existingFronts.map(normalizeFront).filter(Boolean);
+  const unique: GeneratedCard[] = [];
+
+  for (const card of cards) {
+    const front = normalizeFront(card.front);
+    if (seen.some(other => frontSimilarity(front, other) >= threshold)) continue;
+    seen.push(front);
+    unique.push(card);
+  }
+
+  return { cards: unique, removed: cards.length - unique.length };
+}
+
+/**
+ * Generate flashcards chunk by chunk so long page ranges fit the model's context.
+ * A failing chunk is skipped; cancelling keeps the cards generated so far.
+ * A budget cap ends the generation, the later chunks would only fail the same way.
+ * Duplicates within the batch and against the existing fronts are removed at the end.
+ */
+export async function generateFlashcardsInChunks(
+  configs: AIProviderConfig[],
+  pages: ExtractedPage[],
+  options: ChunkedGenerationOptions
+): Promise<ChunkedGenerationResult> {
+  const chunks = splitPagesIntoChunks(pages, options.tokenBudget);
+  const counts = distributeCardCount(chunks, options.count);
+  const generated: GeneratedCard[] = [];
+  let completedChunks = 0;
+  let failedChunks = 0;
+  let cancelled = false;
+  let lastError: unknown = null;
+
+  for (let i = 0; i < chunks.length; i++) {
+    if (options.signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+    options.onProgress?.({
+      completedChunks,
+      totalChunks: chunks.length,
+      currentPages: chunks[i].pages,
+      cardCount: generated.length,
+    });
+
+    try {
+      const { cards, usage } = await runWithFallback(configs, config =>
+        generateFlashcards(config, chunks[i].text, {
+          language: options.language,
+          count: counts[i],
+          signal: options.signal,
+        })
+      );
+      options.onUsage?.(usage);
+      generated.push(...cards.map(card => ({ ...card, sourcePage: chunks[i].pages[0] })));
+    } catch (error) {
+      if (error instanceof ChatCancelledError) {
+        options.onUsage?.(error.usage);
+        cancelled = true;
+        break;
+      }
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      console.error(`Flashcard generation failed for pages ${chunks[i].pages.join(', ')}:`, error);
+      failedChunks++;
+      lastError = error;
+    }
+    completedChunks++;
+  }
+
+  // Nothing to show for it - surface the actual error
+  if (failedChunks > 0 && failedChunks === chunks.length) {
+    throw lastError;
+  }
+
+  options.onProgress?.({
+    completedChunks,
+    totalChunks: chunks.length,
+    currentPages: [],
+    cardCount: generated.length,
+  });
+
+  const { cards, removed } = removeDuplicateCards(generated, options.existingFronts);
+  return { cards, duplicatesRemoved: removed, totalChunks: chunks.length, failedChunks, cancelled };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { default_w } from 'ts-fsrs';
+import {
+  buildReviewSequences,
+  computeCalibration,
+  computeLogLoss,
+  countPredictableReviews,
+  optimizeParameters,
+  type ReviewSequence,
+} from './fsrs-optimizer';
+
+// Reviews of a learner who forgets much faster than the default weights assume
+function simulateForgetfulLearner(cards: number): ReviewSequence[] {
+  let seed = 42;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+  return Array.from({ length: cards }, () => {
+    const sequence: ReviewSequence = [{ elapsedDays: 0, rating: 3 }];
+    let stability = 1;
+    for (let i = 0; i < 5; i++) {
+      const elapsedDays = Math.max(1, Math.round(stability * 2));
+      const recalled = random() < Math.pow(1 + elapsedDays / (4.5 * stability), -1);
+      sequence.push({ elapsedDays, rating: recalled ? 3 : 1 });
+      stability = recalled ? stability * 2 : Math.max(1, stability / 2);
+    }
+    return sequence;
+  });
+}
+
+describe('FSRS Optimizer', () => {
+  describe('buildReviewSequences', () => {
+    it('should group reviews per card in chronological order with elapsed days', () => {
+      const sequences = buildReviewSequences([
+        { flashcardId: 1, rating: 3, reviewedAt: new Date('2026-03-05T09:00:00Z') },
+        { flashcardId: 2, rating: 1, reviewedAt: new Date('2026-03-01T09:00:00Z') },
+        { flashcardId: 1, rating: 3, reviewedAt: new Date('2026-03-01T09:00:00Z') },
+        { flashcardId: 1, rating: 2, reviewedAt: new Date('2026-03-01T18:00:00Z') },
+      ]);
+
+      expect(sequences).toEqual([
+        [
+          { elapsedDays: 0, rating: 3 },
+          { elapsedDays: 0, rating: 2 },
+          { elapsedDays: 4, rating: 3 },
+        ],
+        [{ elapsedDays: 0, rating: 1 }],
+      ]);
+      expect(countPredictableReviews(sequences)).toBe(1);
+    });
+  });
+
+  describe('computeLogLoss', () => {
+    it('should be lower when predictions match the outcomes', () => {
+      const remembered: ReviewSequence[] = [[{ elapsedDays: 0, rating: 3 }, { elapsedDays: 1, rating: 3 }]];
+      const forgotten: ReviewSequence[] = [[{ elapsedDays: 0, rating: 3 }, { elapsedDays: 1, rating: 1 }]];
+
+      expect(computeLogLoss(default_w, remembered)).toBeLessThan(computeLogLoss(default_w, forgotten));
+    });
+  });
+
+  describe('computeCalibration', () => {
+    it('should show the default weights overestimating a forgetful learner', () => {
+      const bins = computeCalibration(default_w, simulateForgetfulLearner(200));
+
+      const count = bins.reduce((sum, bin) => sum + bin.count, 0);
+      expect(count).toBe(1000);
+      expect(bins.every(bin => bin.predicted >= bin.from && bin.predicted < bin.to)).toBe(true);
+
+      const meanPredicted = bins.reduce((sum, bin) => sum + bin.predicted * bin.count, 0) / count;
+      const meanActual = bins.reduce((sum, bin) => sum + bin.actual * bin.count, 0) / count;
+      expect(meanActual).toBeLessThan(meanPredicted);
+    });
+  });
+
+  describe('optimizeParameters', () => {
+    it('should reduce the log-loss on the review history', async () => {
+      const sequences = simulateForgetfulLearner(150);
+
+      const result = await optimizeParameters(sequences);
+
+      expect(result.reviewCount).toBe(750);
+      expect(result.logLossBefore).toBeCloseTo(computeLogLoss(default_w, sequences));
+      expect(result.logLossAfter).toBeLessThan(result.logLossBefore);
+      expect(result.parameters).toHaveLength(default_w.length);
+    }, 60000);
+
+    it('should refuse to optimize with too few reviews', async () => {
+      await expect(optimizeParameters(simulateForgetfulLearner(3))).rejects.toThrow('Zu wenige Wiederholungen');
+    });
+  });
+});
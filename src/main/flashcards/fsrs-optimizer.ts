@@ -0,0 +1,191 @@
+import {
+  CLAMP_PARAMETERS,
+  FSRSAlgorithm,
+  W17_W18_Ceiling,
+  dateDiffInDays,
+  default_w,
+  generatorParameters,
+} from 'ts-fsrs';
+import type { CalibrationBin, FSRSRating } from '../../shared/types';
+
+// Fewer predictable reviews than this give unstable weights
+export const MIN_TRAINING_REVIEWS = 50;
+// Larger histories are fitted on an evenly spread sample of cards
+const MAX_TRAINING_SEQUENCES = 2000;
+const MAX_ROUNDS = 20;
+const MIN_STEP = 1e-4;
+// Stop once a whole round improves the loss by less than this
+const MIN_ROUND_IMPROVEMENT = 1e-5;
+// Keeps log() finite for predictions of exactly 0 or 1
+const EPSILON = 1e-7;
+
+export interface ReviewHistoryEntry {
+  flashcardId: number;
+  rating: FSRSRating;
+  reviewedAt: Date;
+}
+
+// Reviews of one card in order: days since the previous review and the rating
+export type ReviewSequence = Array<{ elapsedDays: number; rating: FSRSRating }>;
+
+export interface OptimizationResult {
+  parameters: number[];
+  logLossBefore: number;
+  logLossAfter: number;
+  reviewCount: number;    // Reviews the loss was measured on
+}
+
+/**
+ * Group the review log into one chronological sequence per card
+ */
+export function buildReviewSequences(reviews: ReviewHistoryEntry[]): ReviewSequence[] {
+  const byCard = new Map<number, ReviewHistoryEntry[]>();
+  for (const review of reviews) {
+    const list = byCard.get(review.flashcardId) ?? [];
+    list.push(review);
+    byCard.set(review.flashcardId, list);
+  }
+
+  return [...byCard.values()].map(list => {
+    const sorted = [...list].sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime());
+    return sorted.map((review, i) => ({
+      elapsedDays: i === 0 ? 0 : Math.max(0, dateDiffInDays(sorted[i - 1].reviewedAt, review.reviewedAt)),
+      rating: review.rating,
+    }));
+  });
+}
+
+/**
+ * Count the reviews whose outcome the model predicts (not the first one, not on the same day)
+ */
+export function countPredictableReviews(sequences: ReviewSequence[]): number {
+  return sequences.reduce((sum, sequence) => sum + sequence.filter((r, i) => i > 0 && r.elapsedDays > 0).length, 0);
+}
+
+/**
+ * Mean binary cross-entropy between predicted retrievability and actual recall.
+ * Memory states are replayed from the first review with the given weights.
+ */
+export function computeLogLoss(parameters: readonly number[], sequences: ReviewSequence[]): number {
+  const algorithm = new FSRSAlgorithm(generatorParameters({ w: [...parameters] }));
+  let loss = 0;
+  let count = 0;
+
+  for (const sequence of sequences) {
+    let state: { difficulty: number; stability: number } | null = null;
+
+    for (const { elapsedDays, rating } of sequence) {
+      if (state && elapsedDays > 0) {
+        const predicted = Math.min(1 - EPSILON, Math.max(EPSILON, algorithm.forgetting_curve(elapsedDays, state.stability)));
+        const recalled = rating > 1;
+        loss -= recalled ? Math.log(predicted) : Math.log(1 - predicted);
+        count++;
+      }
+      state = algorithm.next_state(state, elapsedDays, rating);
+    }
+  }
+
+  return count > 0 ? loss / count : 0;
+}
+
+/**
+ * Compare predicted retrievability with the actual pass rate: the predictable reviews
+ * are grouped into equally wide bins of the prediction. Empty bins are left out.
+ */
+export function computeCalibration(parameters: readonly number[], sequences: ReviewSequence[], binCount = 10): CalibrationBin[] {
+  const algorithm = new FSRSAlgorithm(generatorParameters({ w: [...parameters] }));
+  const bins = Array.from({ length: binCount }, () => ({ predictedSum: 0, passed: 0, count: 0 }));
+
+  for (const sequence of sequences) {
+    let state: { difficulty: number; stability: number } | null = null;
+
+    for (const { elapsedDays, rating } of sequence) {
+      if (state && elapsedDays > 0) {
+        const predicted = algorithm.forgetting_curve(elapsedDays, state.stability);
+        const bin = bins[Math.min(binCount - 1, Math.floor(predicted * binCount))];
+        bin.predictedSum += predicted;
+        bin.passed += rating > 1 ? 1 : 0;
+        bin.count++;
+      }
+      state = algorithm.next_state(state, elapsedDays, rating);
+    }
+  }
+
+  return bins
+    .map((bin, i) => ({
+      from: i / binCount,
+      to: (i + 1) / binCount,
+      predicted: bin.count > 0 ? bin.predictedSum / bin.count : 0,
+      actual: bin.count > 0 ? bin.passed / bin.count : 0,
+      count: bin.count,
+    }))
+    .filter(bin => bin.count > 0);
+}
+
+function sampleSequences(sequences: ReviewSequence[]): ReviewSequence[] {
+  if (sequences.length <= MAX_TRAINING_SEQUENCES) return sequences;
+  const stride = sequences.length / MAX_TRAINING_SEQUENCES;
+  return Array.from({ length: MAX_TRAINING_SEQUENCES }, (_, i) => sequences[Math.floor(i * stride)]);
+}
+
+/**
+ * Fit FSRS weights to the review history by minimizing the log-loss.
+ * Uses a bounded pattern search: each weight is nudged up and down, steps shrink
+ * when neither direction helps. Yields to the event loop between weights.
+ * The reported losses are measured on the full history.
+ */
+export async function optimizeParameters(
+  sequences: ReviewSequence[],
+  initial: readonly number[] = default_w
+): Promise<OptimizationResult> {
+  const reviewCount = countPredictableReviews(sequences);
+  if (reviewCount < MIN_TRAINING_REVIEWS) {
+    throw new Error(
+      `Zu wenige Wiederholungen fur die Optimierung (${reviewCount} von mindestens ${MIN_TRAINING_REVIEWS})`
+    );
+  }
+
+  const bounds = CLAMP_PARAMETERS(W17_W18_Ceiling);
+  const training = sampleSequences(sequences);
+  const parameters = [...initial];
+  const steps = parameters.map(w => Math.max(Math.abs(w) * 0.2, 0.01));
+  let best = computeLogLoss(parameters, training);
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const roundStart = best;
+
+    for (let i = 0; i < parameters.length; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+      if (steps[i] < MIN_STEP) continue;
+      let improved = false;
+
+      for (const direction of [1, -1]) {
+        const [min, max] = bounds[i];
+        const candidate = Math.min(max, Math.max(min, parameters[i] + direction * steps[i]));
+        if (candidate === parameters[i]) continue;
+
+        const previous = parameters[i];
+        parameters[i] = candidate;
+        const loss = computeLogLoss(parameters, training);
+        if (loss < best) {
+          best = loss;
+          improved = true;
+          break;
+        }
+        parameters[i] = previous;
+      }
+
+      if (!improved) steps[i] /= 2;
+    }
+
+    if (steps.every(step => step < MIN_STEP) || roundStart - best < MIN_ROUND_IMPROVEMENT) break;
+  }
+
+  const logLossBefore = computeLogLoss(initial, sequences);
+  const logLossAfter = computeLogLoss(parameters, sequences);
+  // The sample can mislead on very large histories - never return worse weights
+  if (logLossAfter >= logLossBefore) {
+    return { parameters: [...initial], logLossBefore, logLossAfter: logLossBefore, reviewCount };
+  }
+  return { parameters, logLossBefore, logLossAfter, reviewCount };
+}
@@ -314,4 +314,17 @@ describe('FSRS', () => {
       expect(intervals.easy).toMatch(validPattern);
     });
   });
+
+  describe('scheduler options', () => {
+    it('should schedule shorter intervals for a higher desired retention', () => {
+      const now = new Date('2026-01-01T10:00:00Z');
+      const learned = getNextReview(createNewFSRSCard(), 4, now).card;
+      const reviewDate = new Date(learned.due.getTime() + 1000);
+
+      const relaxed = getNextReview(learned, 3, reviewDate, { desiredRetention: 0.8 }).card;
+      const strict = getNextReview(learned, 3, reviewDate, { desiredRetention: 0.97 }).card;
+
+      expect(strict.scheduled_days).toBeLessThan(relaxed.scheduled_days);
+    });
+  });
 });
@@ -2,6 +2,7 @@ import {
   createEmptyCard,
   fsrs,
   generatorParameters,
+  type FSRS,
   Rating,
   State,
   type Card,
@@ -9,9 +10,30 @@ import {
 } from 'ts-fsrs';
 import type { FSRSRating, FSRSState } from '../../shared/types';
 
-// Initialize FSRS with default parameters and fuzzing enabled
-const params = generatorParameters({ enable_fuzz: true });
-const scheduler = fsrs(params);
+export const DEFAULT_DESIRED_RETENTION = 0.9;
+
+// Optimized weights (default weights if omitted) and the target recall probability
+export interface SchedulerOptions {
+  parameters?: number[] | null;
+  desiredRetention?: number;
+}
+
+// Schedulers by options - weights rarely change, so this stays small
+const schedulers = new Map<string, FSRS>();
+
+function getScheduler(options: SchedulerOptions = {}): FSRS {
+  const key = JSON.stringify([options.parameters ?? null, options.desiredRetention ?? DEFAULT_DESIRED_RETENTION]);
+  let scheduler = schedulers.get(key);
+  if (!scheduler) {
+    scheduler = fsrs(generatorParameters({
+      enable_fuzz: true,
+      request_retention: options.desiredRetention ?? DEFAULT_DESIRED_RETENTION,
+      ...(options.parameters ? { w: options.parameters } : {}),
+    }));
+    schedulers.set(key, scheduler);
+  }
+  return scheduler;
+}
 
 // Type for our internal card representation (without learning_steps)
 interface InternalCard {
@@ -116,9 +138,10 @@ export function fsrsCardToDb(card: Card): {
 export function getNextReview(
   card: Card,
   rating: FSRSRating,
-  now: Date = new Date()
+  now: Date = new Date(),
+  options: SchedulerOptions = {}
 ): { card: Card; log: RecordLogItem['log'] } {
-  const scheduling = scheduler.repeat(card, now);
+  const scheduling = getScheduler(options).repeat(card, now);
   const tsFsrsRating = toTsFsrsRating(rating);
   // IPreview is a RecordLog which is { [key in Grade]: RecordLogItem }
   // Grade is 1, 2, 3, 4 (Again, Hard, Good, Easy)
@@ -169,9 +192,10 @@ export function getIntervalString(minutes: number): string {
 // Get all possible next intervals for preview
 export function getNextIntervals(
   card: Card,
-  now: Date = new Date()
+  now: Date = new Date(),
+  options: SchedulerOptions = {}
 ): { again: string; hard: string; good: string; easy: string } {
-  const scheduling = scheduler.repeat(card, now);
+  const scheduling = getScheduler(options).repeat(card, now);
 
   // Calculate actual interval in minutes from now to the due date
   const getIntervalMinutes = (rating: Rating): number => {
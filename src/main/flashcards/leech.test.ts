@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { isLeechLapse } from './leech';
+
+describe('isLeechLapse', () => {
+  it('should trigger at the threshold and every half threshold after it', () => {
+    const leechLapses = Array.from({ length: 20 }, (_, i) => i + 1).filter(lapses => isLeechLapse(lapses, 8));
+
+    expect(leechLapses).toEqual([8, 12, 16, 20]);
+  });
+
+  it('should handle small and disabled thresholds', () => {
+    expect([1, 2, 3].map(lapses => isLeechLapse(lapses, 1))).toEqual([true, true, true]);
+    expect(isLeechLapse(10, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,12 @@
+export const DEFAULT_LEECH_THRESHOLD = 8;
+
+/**
+ * Whether a card that just lapsed for the given time is a leech: at the threshold
+ * and again every half threshold after it (like Anki), so a suspended leech that is
+ * unsuspended and keeps failing gets caught again.
+ */
+export function isLeechLapse(lapses: number, threshold: number): boolean {
+  if (threshold <= 0 || lapses < threshold) return false;
+  const repeatEvery = Math.max(1, Math.ceil(threshold / 2));
+  return (lapses - threshold) % repeatEvery === 0;
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { chat, type AIProviderConfig } from '../ai/provider';
+import type { ExamQuestion } from '../../shared/types';
+import { generateExamQuestions, getWrongFlashcardIds, normalizeExamQuestions, scoreExam, shuffle } from './practice-exam';
+
+vi.mock('../ai/provider', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../ai/provider')>()),
+  chat: vi.fn(),
+}));
+
+function question(topic: string, correctIndex: number, flashcardIds: number[] = []): ExamQuestion {
+  return {
+    type: 'multiple_choice',
+    question: `Frage zu ${topic}`,
+    options: ['A', 'B', 'C', 'D'],
+    correctIndex,
+    explanation: '',
+    topic,
+    flashcardIds,
+    pageNum: null,
+  };
+}
+
+describe('normalizeExamQuestions', () => {
+  const raw = {
+    question: 'Wo wird Insulin gebildet?',
+    explanation: 'In den B-Zellen.',
+    topic: 'Endokrinologie',
+    refs: [4, 4, 7],
+  };
+
+  it('should keep the correct answer when shuffling the options', () => {
+    const options = ['Pankreas', 'Leber', 'Niere', 'Milz'];
+    const [normalized] = normalizeExamQuestions(
+      [{ ...raw, type: 'multiple_choice', options, correctIndex: 0 }],
+      ['multiple_choice'],
+      'de'
+    );
+
+    expect(normalized.options).toHaveLength(4);
+    expect(normalized.options[normalized.correctIndex]).toBe('Pankreas');
+    expect(normalized.refs).toEqual([4, 7]);
+  });
+
+  it('should fix the true/false options', () => {
+    const [normalized] = normalizeExamQuestions(
+      [{ ...raw, type: 'true_false', options: ['Stimmt', 'Stimmt nicht'], correctIndex: 1 }],
+      ['true_false'],
+      'de'
+    );
+
+    expect(normalized).toMatchObject({ type: 'true_false', options: ['Wahr', 'Falsch'], correctIndex: 1 });
+  });
+
+  it('should drop malformed questions and types not asked for', () => {
+    expect(normalizeExamQuestions([
+      { ...raw, type: 'multiple_choice', options: ['A', 'B'], correctIndex: 2 },
+      { ...raw, type: 'multiple_choice', options: ['A'], correctIndex: 0 },
+      { ...raw, type: 'true_false', options: [], correctIndex: 0 },
+    ], ['multiple_choice'], 'de')).toEqual([]);
+  });
+});
+
+describe('shuffle', () => {
+  it('should keep every item and leave the input as it is', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+
+    expect(shuffle(items).sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
+
+describe('scoreExam', () => {
+  it('should count unanswered questions as wrong and sort topics weakest first', () => {
+    const questions = [question('Herz', 0), question('Herz', 1), question('Niere', 2), question('Lunge', 3)];
+
+    const { correctCount, topics } = scoreExam(questions, [0, 0, null, 3]);
+
+    expect(correctCount).toBe(2);
+    expect(topics).toEqual([
+      { topic: 'Niere', correct: 0, total: 1 },
+      { topic: 'Herz', correct: 1, total: 2 },
+      { topic: 'Lunge', correct: 1, total: 1 },
+    ]);
+  });
+
+  it('should list the cards of wrong answers once', () => {
+    const questions = [question('Herz', 0, [1, 2]), question('Herz', 1, [2, 3]), question('Niere', 2, [4])];
+
+    expect(getWrongFlashcardIds(questions, [1, null, 2])).toEqual([1, 2, 3]);
+  });
+});
+
+describe('generateExamQuestions', () => {
+  const config: AIProviderConfig = { provider: 'ollama', ollamaModel: 'llama3.2:1b' };
+  const chatMock = vi.mocked(chat);
+
+  beforeEach(() => {
+    chatMock.mockReset();
+  });
+
+  it('should send the cards with their ids and return the normalized questions', async () => {
+    chatMock.mockResolvedValueOnce({
+      content: JSON.stringify({
+        questions: [
+          { type: 'true_false', question: 'Insulin senkt den Blutzucker.', options: ['Wahr', 'Falsch'], correctIndex: 0, explanation: '', topic: 'Hormone', refs: [12] },
+          { type: 'true_false', question: 'Glukagon senkt den Blutzucker.', options: ['Wahr', 'Falsch'], correctIndex: 1, explanation: '', topic: 'Hormone', refs: [13] },
+        ],
+      }),
+      usage: { promptTokens: 300, completionTokens: 80 },
+    });
+
+    const result = await generateExamQuestions(
+      config,
+      { kind: 'cards', cards: [{ id: 12, question: 'Wirkung von Insulin?', answer: 'Senkt den Blutzucker' }] },
+      { questionCount: 1, types: ['true_false'], language: 'de' }
+    );
+
+    expect(result.questions).toHaveLength(1);
+    expect(result.questions[0]).toMatchObject({ correctIndex: 0, refs: [12], topic: 'Hormone' });
+    expect(result.usage.completionTokens).toBe(80);
+    expect(chatMock.mock.calls[0][1][1].content).toContain('[12] Wirkung von Insulin? => Senkt den Blutzucker');
+  });
+
+  it('should fail when no usable question comes back', async () => {
+    chatMock.mockResolvedValueOnce({
+      content: '{"questions": [{"type": "multiple_choice", "question": "?", "options": ["A"], "correctIndex": 0, "explanation": "", "topic": "", "refs": []}]}',
+      usage: { promptTokens: 10, completionTokens: 10 },
+    });
+
+    await expect(generateExamQuestions(config, { kind: 'text', text: '[Seite 1]\nText' }, {
+      questionCount: 5,
+      types: ['multiple_choice'],
+      language: 'de',
+    })).rejects.toThrow('keine brauchbaren Fragen');
+  });
+});
@@ -0,0 +1,249 @@
+import type { ExamQuestion, ExamQuestionType, ExamTopicScore } from '../../shared/types';
+import { type AIProviderConfig, type UsageData, createUsageData, validateConfig } from '../ai/provider';
+import { chatStructured, type StructuredSchema } from '../ai/structured';
+
+// A card as the model sees it when an exam is built from a deck
+export interface ExamCard {
+  id: number;
+  question: string;
+  answer: string;
+}
+
+export type ExamMaterial =
+  | { kind: 'cards'; cards: ExamCard[] }
+  | { kind: 'text'; text: string };     // Page text with [Seite N] markers
+
+// refs are card ids for card material and page numbers for page text
+export type GeneratedExamQuestion = Omit<ExamQuestion, 'flashcardIds' | 'pageNum'> & { refs: number[] };
+
+export interface ExamGenerationResult {
+  questions: GeneratedExamQuestion[];
+  usage: UsageData;
+}
+
+interface RawExamQuestion {
+  type: string;
+  question: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+  topic: string;
+  refs: number[];
+}
+
+// Longer page ranges are cut, the model would lose track of the details anyway
+const MAX_MATERIAL_CHARS = 40000;
+
+export const TRUE_FALSE_OPTIONS = {
+  de: ['Wahr', 'Falsch'],
+  en: ['True', 'False'],
+};
+
+const EXAM_SCHEMA: StructuredSchema = {
+  name: 'practice_exam',
+  schema: {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', description: 'multiple_choice or true_false' },
+            question: { type: 'string', minLength: 1 },
+            options: { type: 'array', items: { type: 'string' } },
+            correctIndex: { type: 'integer' },
+            explanation: { type: 'string' },
+            topic: { type: 'string' },
+            refs: { type: 'array', items: { type: 'integer' } },
+          },
+          required: ['type', 'question', 'options', 'correctIndex', 'explanation', 'topic', 'refs'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['questions'],
+    additionalProperties: false,
+  },
+};
+
+const SYSTEM_PROMPTS = {
+  de: `Du erstellst Probeklausuren fur Studierende. Die Fragen sollen Verstandnis prufen, nicht nur Wortlaut wiedererkennen.
+
+Regeln:
+- multiple_choice: genau 4 Optionen, genau eine ist richtig.
+- Die falschen Optionen (Distraktoren) mussen plausibel sein: typische Verwechslungen, verwandte Begriffe, haufige Denkfehler. Keine offensichtlich absurden Optionen, keine "Alle der oben genannten".
+- Alle Optionen einer Frage sind ahnlich lang und gleich formuliert, damit die Lange nichts verrat.
+- true_false: eine Aussage als Frage, options ["Wahr", "Falsch"], correctIndex 0 wenn die Aussage stimmt, sonst 1. Falsche Aussagen sollen subtil falsch sein.
+- topic: ein kurzes Thema (1-3 Worter), gleiche Themen immer gleich benennen.
+- explanation: ein Satz, warum die richtige Antwort stimmt.`,
+
+  en: `You write practice exams for students. Questions should test understanding, not just recognition of wording.
+
+Rules:
+- multiple_choice: exactly 4 options, exactly one is correct.
+- The wrong options (distractors) must be plausible: typical confusions, related terms, common misconceptions. No obviously absurd options, no "All of the above".
+- All options of a question are of similar length and phrasing so length gives nothing away.
+- true_false: a statement as the question, options ["True", "False"], correctIndex 0 if the statement is true, else 1. False statements should be subtly false.
+- topic: a short topic (1-3 words), always name the same topic the same way.
+- explanation: one sentence on why the correct answer is right.`,
+};
+
+function buildPrompt(material: ExamMaterial, questionCount: number, types: ExamQuestionType[], language: 'de' | 'en'): string {
+  const typeList = types.join(', ');
+
+  if (material.kind === 'cards') {
+    const cards = material.cards.map(card => `[${card.id}] ${card.question} => ${card.answer}`).join('\n');
+    return language === 'de'
+      ? `Erstelle ${questionCount} Fragen (Typen: ${typeList}) aus diesen Karteikarten. refs: die Nummern der Karten in eckigen Klammern, die eine Frage pruft.
+
+Karten:
+${cards}`
+      : `Create ${questionCount} questions (types: ${typeList}) from these flashcards. refs: the numbers in square brackets of the cards a question tests.
+
+Cards:
+${cards}`;
+  }
+
+  const text = material.text.slice(0, MAX_MATERIAL_CHARS);
+  return language === 'de'
+    ? `Erstelle ${questionCount} Fragen (Typen: ${typeList}) aus diesem Text. refs: die Seitenzahlen aus den [Seite N]-Markierungen, auf denen die Antwort steht.
+
+Text:
+${text}`
+    : `Create ${questionCount} questions (types: ${typeList}) from this text. refs: the page numbers from the [Seite N] markers where the answer is found.
+
+Text:
+${text}`;
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Drop malformed questions and bring the rest into shape: true/false options
+ * are fixed, multiple-choice options are shuffled so the answer isn't always first
+ */
+export function normalizeExamQuestions(
+  raw: RawExamQuestion[],
+  types: ExamQuestionType[],
+  language: 'de' | 'en'
+): GeneratedExamQuestion[] {
+  const questions: GeneratedExamQuestion[] = [];
+
+  for (const item of raw) {
+    const type: ExamQuestionType = item.type === 'true_false' ? 'true_false' : 'multiple_choice';
+    const options = item.options.map(option => option.trim()).filter(Boolean);
+    const question = item.question.trim();
+    if (!types.includes(type) || !question) continue;
+
+    const base = {
+      type,
+      question,
+      explanation: item.explanation.trim(),
+      topic: item.topic.trim() || (language === 'de' ? 'Allgemein' : 'General'),
+      refs: Array.from(new Set(item.refs)),
+    };
+
+    if (type === 'true_false') {
+      if (item.correctIndex !== 0 && item.correctIndex !== 1) continue;
+      questions.push({ ...base, options: TRUE_FALSE_OPTIONS[language], correctIndex: item.correctIndex });
+      continue;
+    }
+
+    if (options.length < 2 || item.correctIndex < 0 || item.correctIndex >= options.length) continue;
+    const correct = options[item.correctIndex];
+    const shuffled = shuffle(options);
+    questions.push({ ...base, options: shuffled, correctIndex: shuffled.indexOf(correct) });
+  }
+
+  return questions;
+}
+
+/**
+ * Generate multiple-choice and true/false questions with plausible distractors
+ */
+export async function generateExamQuestions(
+  config: AIProviderConfig,
+  material: ExamMaterial,
+  options: { questionCount: number; types: ExamQuestionType[]; language: 'de' | 'en' }
+): Promise<ExamGenerationResult> {
+  const validation = validateConfig(config);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  const result = await chatStructured<{ questions: RawExamQuestion[] }>(
+    config,
+    [
+      { role: 'system', content: SYSTEM_PROMPTS[options.language] },
+      { role: 'user', content: buildPrompt(material, options.questionCount, options.types, options.language) },
+    ],
+    EXAM_SCHEMA,
+    { maxTokens: 16000 }
+  );
+
+  const questions = normalizeExamQuestions(result.data.questions, options.types, options.language);
+  if (questions.length === 0) {
+    throw new Error('Die KI hat keine brauchbaren Fragen erstellt');
+  }
+
+  return {
+    questions: questions.slice(0, options.questionCount),
+    usage: createUsageData(config, result.usage.promptTokens, result.usage.completionTokens),
+  };
+}
+
+/**
+ * Score an attempt: unanswered questions count as wrong. Topics are sorted
+ * weakest first (lowest share of correct answers).
+ */
+export function scoreExam(
+  questions: ExamQuestion[],
+  answers: Array<number | null>
+): { correctCount: number; topics: ExamTopicScore[] } {
+  const topics = new Map<string, ExamTopicScore>();
+  let correctCount = 0;
+
+  questions.forEach((question, i) => {
+    const correct = answers[i] === question.correctIndex;
+    const topic = topics.get(question.topic) ?? { topic: question.topic, correct: 0, total: 0 };
+    topic.total++;
+    if (correct) {
+      topic.correct++;
+      correctCount++;
+    }
+    topics.set(question.topic, topic);
+  });
+
+  return { correctCount, topics: sortTopicsByWeakness(Array.from(topics.values())) };
+}
+
+export function sortTopicsByWeakness(topics: ExamTopicScore[]): ExamTopicScore[] {
+  return [...topics].sort((a, b) =>
+    a.correct / a.total - b.correct / b.total || b.total - a.total || a.topic.localeCompare(b.topic)
+  );
+}
+
+/**
+ * Cards linked to wrongly answered (or unanswered) questions, each once
+ */
+export function getWrongFlashcardIds(questions: ExamQuestion[], answers: Array<number | null>): number[] {
+  const ids = new Set<number>();
+  questions.forEach((question, i) => {
+    if (answers[i] !== question.correctIndex) {
+      question.flashcardIds.forEach(id => ids.add(id));
+    }
+  });
+  return Array.from(ids);
+}
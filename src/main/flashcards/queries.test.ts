@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { DatabaseInstance } from '../database';
+import { applyMigrations } from '../database/migrations';
+import { getClozeAnswer, getClozeIndices, renderCloze } from '../../shared/constants';
+import * as flashcardQueries from './queries';
+
+describe('cloze helpers', () => {
+  const text = 'Die {{c2::Mitochondrien}} sind die {{c1::Kraftwerke::Funktion}} der {{c2::Zelle}}';
+
+  it('should list each deletion number once', () => {
+    expect(getClozeIndices(text)).toEqual([1, 2]);
+    expect(getClozeIndices('Keine Lucke')).toEqual([]);
+  });
+
+  it('should hide only the active deletion', () => {
+    expect(renderCloze(text, 1, false)).toBe('Die Mitochondrien sind die [Funktion] der Zelle');
+    expect(renderCloze(text, 2, false)).toBe('Die [...] sind die Kraftwerke der [...]');
+    expect(renderCloze(text, 2, true)).toBe('Die **Mitochondrien** sind die Kraftwerke der **Zelle**');
+  });
+
+  it('should hide all deletions of cards without an index', () => {
+    expect(renderCloze(text, null, false)).toBe('Die [...] sind die [Funktion] der [...]');
+  });
+
+  it('should return the text of the active deletion as answer', () => {
+    expect(getClozeAnswer(text, 2)).toBe('Mitochondrien, Zelle');
+    expect(getClozeAnswer(text, 1)).toBe('Kraftwerke');
+  });
+});
+
+describe('cloze siblings', () => {
+  let db: DatabaseInstance;
+  let deckId: number;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+    deckId = flashcardQueries.createDeck(db, 'Biologie');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function siblings(id: number) {
+    return flashcardQueries.getSiblingIds(db, id).map(siblingId => flashcardQueries.getCardById(db, siblingId)!);
+  }
+
+  it('should create one schedulable card per deletion', () => {
+    const ids = flashcardQueries.addClozeNote(db, deckId, '{{c1::ATP}} liefert {{c2::Energie}}', 'Zelle', undefined, 4);
+
+    expect(ids).toHaveLength(2);
+    const cards = siblings(ids[1]);
+    expect(cards.map(c => [c.clozeIndex, c.siblingGroupId, c.sourcePage])).toEqual([[1, ids[0], 4], [2, ids[0], 4]]);
+    expect(cards.every(c => c.fsrs.id !== undefined && c.fsrs.state === 0)).toBe(true);
+    expect(new Set(cards.map(c => c.fsrs.id)).size).toBe(2);
+  });
+
+  it('should sync siblings with the deletions and keep scheduling state', () => {
+    const [first, second] = flashcardQueries.addClozeNote(db, deckId, '{{c1::ATP}} liefert {{c2::Energie}}', 'Zelle');
+    flashcardQueries.updateFSRS(db, first, {
+      difficulty: 5, stability: 3, state: 2, due: '2026-05-01T00:00:00.000Z',
+      lastReview: null, reps: 1, lapses: 0, scheduledDays: 3, elapsedDays: 0,
+    });
+
+    flashcardQueries.updateClozeNote(db, second, '{{c1::ATP}} liefert {{c3::chemische Energie}}', 'Zelle');
+
+    const cards = siblings(first);
+    expect(cards.map(c => c.clozeIndex)).toEqual([1, 3]);
+    expect(cards[0]).toMatchObject({ id: first, front: '{{c1::ATP}} liefert {{c3::chemische Energie}}' });
+    expect(cards[0].fsrs.state).toBe(2);
+    expect(flashcardQueries.getCardById(db, second)).toBeUndefined();
+  });
+
+  it('should split a card created before sibling support', () => {
+    const legacy = flashcardQueries.addCard(db, deckId, '{{c1::A}} und {{c2::B}}', 'x', 'cloze', undefined, undefined, '{{c1::A}} und {{c2::B}}');
+
+    flashcardQueries.updateClozeNote(db, legacy, '{{c1::A}} und {{c2::B}}', 'x');
+
+    expect(siblings(legacy).map(c => [c.id === legacy, c.clozeIndex])).toEqual([[true, 1], [false, 2]]);
+  });
+
+  it('should remove the siblings when a card becomes basic', () => {
+    const [first] = flashcardQueries.addClozeNote(db, deckId, '{{c1::A}} und {{c2::B}}', 'x');
+
+    flashcardQueries.removeSiblings(db, first);
+
+    expect(flashcardQueries.getCardsByDeck(db, deckId)).toHaveLength(1);
+    expect(flashcardQueries.getCardById(db, first)).toMatchObject({ clozeIndex: null, siblingGroupId: null });
+  });
+});
+
+describe('image occlusion', () => {
+  let db: DatabaseInstance;
+  let deckId: number;
+  let pdfId: number;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+    deckId = flashcardQueries.createDeck(db, 'Anatomie');
+    pdfId = db.prepare("INSERT INTO pdfs (file_path, file_name, file_hash) VALUES ('/tmp/a.pdf', 'a.pdf', 'abc')")
+      .run().lastInsertRowid as number;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const image = () => ({
+    pdfId,
+    pageNum: 3,
+    region: { x: 10, y: 20, width: 50, height: 40 },
+    masks: [
+      { x: 0, y: 0, width: 20, height: 10, label: 'Vorhof' },
+      { x: 50, y: 50, width: 20, height: 10, label: 'Kammer' },
+    ],
+    data: Buffer.from('png'),
+  });
+
+  it('should create one card per mask sharing the image', () => {
+    const ids = flashcardQueries.addImageOcclusionNote(db, deckId, image(), 'Benenne die Struktur', 'Herz');
+
+    const cards = ids.map(id => flashcardQueries.getCardById(db, id)!);
+    expect(cards.map(c => [c.cardType, c.clozeIndex, c.siblingGroupId, c.sourcePage])).toEqual([
+      ['image_occlusion', 1, ids[0], 3],
+      ['image_occlusion', 2, ids[0], 3],
+    ]);
+    expect(cards[1].imageId).toBe(cards[0].imageId);
+
+    const stored = flashcardQueries.getFlashcardImage(db, cards[0].imageId!);
+    expect(stored).toMatchObject({ pdfId, pageNum: 3, region: image().region, masks: image().masks });
+    expect(stored?.dataUrl).toBe(`data:image/png;base64,${Buffer.from('png').toString('base64')}`);
+  });
+
+  it('should refuse a note without masks', () => {
+    expect(() => flashcardQueries.addImageOcclusionNote(db, deckId, { ...image(), masks: [] }, 'Frage', ''))
+      .toThrow('Mindestens eine Maske');
+  });
+
+  it('should delete the image with its last card', () => {
+    const ids = flashcardQueries.addImageOcclusionNote(db, deckId, image(), 'Frage', '');
+    const imageId = flashcardQueries.getCardById(db, ids[0])!.imageId!;
+
+    flashcardQueries.deleteCard(db, ids[0]);
+    expect(flashcardQueries.getFlashcardImage(db, imageId)).toBeDefined();
+
+    flashcardQueries.deleteCard(db, ids[1]);
+    expect(flashcardQueries.getFlashcardImage(db, imageId)).toBeUndefined();
+  });
+
+  it('should delete the image with its deck when foreign keys are off', () => {
+    db.pragma('foreign_keys = OFF');
+    const subdeckId = flashcardQueries.createDeck(db, 'Herz', undefined, undefined, deckId);
+    const ids = flashcardQueries.addImageOcclusionNote(db, subdeckId, image(), 'Frage', '');
+    const imageId = flashcardQueries.getCardById(db, ids[0])!.imageId!;
+
+    flashcardQueries.deleteDeck(db, deckId);
+
+    expect(flashcardQueries.getCardById(db, ids[0])).toBeUndefined();
+    expect(flashcardQueries.getFlashcardImage(db, imageId)).toBeUndefined();
+  });
+
+  it('should find the source page of a card', () => {
+    const [imageCard] = flashcardQueries.addImageOcclusionNote(db, deckId, image(), 'Frage', '');
+    const pdfDeckId = flashcardQueries.createDeck(db, 'Skript', pdfId);
+    const pageCard = flashcardQueries.addCard(db, pdfDeckId, 'Frage', 'Antwort', 'basic', undefined, 7);
+    const looseCard = flashcardQueries.addCard(db, deckId, 'Frage', 'Antwort', 'basic', undefined, 7);
+
+    expect(flashcardQueries.getCardSourcePage(db, imageCard)).toEqual({ pdfId, pageNum: 3 });
+    expect(flashcardQueries.getCardSourcePage(db, pageCard)).toEqual({ pdfId, pageNum: 7 });
+    expect(flashcardQueries.getCardSourcePage(db, looseCard)).toBeNull();
+  });
+
+  it('should list the cards made from a page', () => {
+    const imageCards = flashcardQueries.addImageOcclusionNote(db, deckId, image(), 'Frage', '');
+    const pdfDeckId = flashcardQueries.createDeck(db, 'Skript', pdfId);
+    const pageCard = flashcardQueries.addCard(db, pdfDeckId, 'Frage', 'Antwort', 'basic', undefined, 3);
+    flashcardQueries.addCard(db, pdfDeckId, 'Frage', 'Antwort', 'basic', undefined, 4);
+
+    expect(flashcardQueries.getCardIdsBySourcePage(db, pdfId, 3)).toEqual([...imageCards, pageCard]);
+  });
+});
+
+describe('review undo', () => {
+  let db: DatabaseInstance;
+  let cardId: number;
+
+  const reviewedState = {
+    difficulty: 7, stability: 0.5, state: 3 as const, due: '2026-05-01T00:00:00.000Z',
+    lastReview: '2026-04-30T00:00:00.000Z', reps: 5, lapses: 4, scheduledDays: 0, elapsedDays: 2,
+  };
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+    const deckId = flashcardQueries.createDeck(db, 'Chemie');
+    cardId = flashcardQueries.addCard(db, deckId, 'H2O', 'Wasser');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function review() {
+    const snapshot = flashcardQueries.getReviewUndoSnapshot(flashcardQueries.getCardById(db, cardId)!);
+    const reviewId = flashcardQueries.addReview(db, cardId, 1, 0, 2, 3, undefined, snapshot);
+    flashcardQueries.updateFSRS(db, cardId, reviewedState);
+    flashcardQueries.markLeech(db, cardId, true);
+    return reviewId;
+  }
+
+  it('should restore the card and delete the review', () => {
+    const before = flashcardQueries.getCardById(db, cardId)!;
+    const reviewId = review();
+
+    expect(flashcardQueries.undoReview(db, reviewId)).toBe(cardId);
+
+    const after = flashcardQueries.getCardById(db, cardId)!;
+    expect(after.fsrs).toEqual(before.fsrs);
+    expect(after).toMatchObject({ tags: before.tags, suspended: false });
+    expect(db.prepare('SELECT COUNT(*) as count FROM flashcard_reviews').get()).toEqual({ count: 0 });
+  });
+
+  it('should only undo the latest review of a card', () => {
+    const first = review();
+    const second = review();
+
+    expect(() => flashcardQueries.undoReview(db, first)).toThrow('Nur die letzte Wiederholung');
+    flashcardQueries.undoReview(db, second);
+    flashcardQueries.undoReview(db, first);
+    expect(flashcardQueries.getCardById(db, cardId)!.fsrs.state).toBe(0);
+  });
+
+  it('should refuse reviews stored without a snapshot', () => {
+    const reviewId = flashcardQueries.addReview(db, cardId, 3, 1, 0, 2);
+
+    expect(() => flashcardQueries.undoReview(db, reviewId)).toThrow('kann nicht');
+  });
+});
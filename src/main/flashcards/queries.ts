@@ -1,28 +1,121 @@
 import type { DatabaseInstance } from '../database';
 import type {
+  CardFlag,
+  CardSearchResult,
+  FilteredDeck,
   FlashcardDeck,
   Flashcard,
   FlashcardFSRS,
+  FlashcardImage,
+  FlashcardType,
   FlashcardWithFSRS,
   FlashcardReview,
   FlashcardStats,
   FSRSRating,
   FSRSState,
   HeatmapData,
+  HeatmapMetric,
   HeatmapDataPoint,
   HeatmapTimeframe,
+  HighlightRect,
+  ImageOcclusionMask,
+  StudyLimits,
 } from '../../shared/types';
+import { getClozeIndices, LEECH_TAG } from '../../shared/constants';
 import { createNewFSRSCard, fsrsCardToDb } from './fsrs';
+import { buildStudyQueue, burySiblings, type QueueDeck, type StudiedToday } from './study-queue';
+import { compileCardQuery } from './card-search';
+import type { ReviewHistoryEntry } from './fsrs-optimizer';
+
+// A new or review card is buried for the rest of the day once another card of the same
+// cloze/image occlusion note or from the same highlight was reviewed today
+const BURIED_CARD_SQL = `(
+  fs.state IN (0, 2) AND EXISTS (
+    SELECT 1 FROM flashcards sibling
+    JOIN flashcard_reviews r ON r.flashcard_id = sibling.id
+    WHERE sibling.id != f.id
+      AND (sibling.sibling_group_id = f.sibling_group_id OR sibling.highlight_id = f.highlight_id)
+      AND datetime(r.reviewed_at) >= datetime('now', 'localtime', 'start of day', 'utc')
+  )
+)`;
+
+// Due, not suspended and not buried
+const STUDYABLE_CARD_SQL = `datetime(fs.due) <= datetime('now') AND f.suspended = 0 AND NOT ${BURIED_CARD_SQL}`;
+
+// Card state before a review, stored with the review so it can be undone
+export interface ReviewUndoSnapshot {
+  fsrs: Omit<FlashcardFSRS, 'id' | 'flashcardId' | 'retrievability'>;
+  tags: string[];         // A review can tag the card as leech
+  suspended: boolean;     // ... and suspend it
+}
+
+// Columns of a card joined with its FSRS state, read by toCardWithFSRS
+// (also with a LEFT JOIN - cards without FSRS state get the defaults of a new card)
+const CARD_WITH_FSRS_COLUMNS = `
+  f.id, f.deck_id as deckId, f.highlight_id as highlightId,
+  f.front, f.back, f.card_type as cardType, f.cloze_data as clozeData,
+  f.source_page as sourcePage, f.tags, f.cloze_index as clozeIndex, f.sibling_group_id as siblingGroupId, f.image_id as imageId,
+  f.suspended, f.flag,
+  f.created_at as createdAt, f.updated_at as updatedAt,
+  fs.id as fsrsId, fs.difficulty, fs.stability, fs.retrievability,
+  fs.state, fs.due, fs.last_review as lastReview, fs.reps, fs.lapses,
+  fs.scheduled_days as scheduledDays, fs.elapsed_days as elapsedDays
+`;
+
+function parseCardTags(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    return JSON.parse(value);
+  } catch {
+    return [];
+  }
+}
+
+function toCardWithFSRS(row: any): FlashcardWithFSRS {
+  return {
+    id: row.id,
+    deckId: row.deckId,
+    highlightId: row.highlightId,
+    front: row.front,
+    back: row.back,
+    cardType: row.cardType,
+    clozeData: row.clozeData,
+    sourcePage: row.sourcePage,
+    tags: parseCardTags(row.tags),
+    clozeIndex: row.clozeIndex,
+    siblingGroupId: row.siblingGroupId,
+    imageId: row.imageId,
+    suspended: row.suspended === 1,
+    flag: row.flag,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    fsrs: {
+      id: row.fsrsId,
+      flashcardId: row.id,
+      difficulty: row.difficulty ?? 0,
+      stability: row.stability ?? 0,
+      retrievability: row.retrievability ?? 1,
+      state: row.state ?? 0,
+      due: row.due ?? new Date().toISOString(),
+      lastReview: row.lastReview,
+      reps: row.reps ?? 0,
+      lapses: row.lapses ?? 0,
+      scheduledDays: row.scheduledDays ?? 0,
+      elapsedDays: row.elapsedDays ?? 0,
+    },
+  };
+}
 
 // ============ DECK QUERIES ============
 
 export function getAllDecks(db: DatabaseInstance, pdfId?: number): FlashcardDeck[] {
   let query = `
     SELECT
-      d.id, d.pdf_id as pdfId, d.name, d.description,
+      d.id, d.pdf_id as pdfId, d.parent_id as parentId, d.name, d.description,
       d.created_at as createdAt, d.updated_at as updatedAt,
+      d.new_cards_per_day as newCardsPerDay, d.reviews_per_day as reviewsPerDay,
       COUNT(DISTINCT f.id) as cardCount,
-      COUNT(DISTINCT CASE WHEN datetime(fs.due) <= datetime('now') THEN f.id END) as dueCount
+      COUNT(DISTINCT CASE WHEN ${STUDYABLE_CARD_SQL} THEN f.id END) as dueCount
     FROM flashcard_decks d
     LEFT JOIN flashcards f ON f.deck_id = d.id
     LEFT JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
@@ -43,10 +136,11 @@ export function getAllDecks(db: DatabaseInstance, pdfId?: number): FlashcardDeck
 export function getDeckById(db: DatabaseInstance, id: number): FlashcardDeck | undefined {
   return db.prepare(`
     SELECT
-      d.id, d.pdf_id as pdfId, d.name, d.description,
+      d.id, d.pdf_id as pdfId, d.parent_id as parentId, d.name, d.description,
       d.created_at as createdAt, d.updated_at as updatedAt,
+      d.new_cards_per_day as newCardsPerDay, d.reviews_per_day as reviewsPerDay,
       COUNT(DISTINCT f.id) as cardCount,
-      COUNT(DISTINCT CASE WHEN datetime(fs.due) <= datetime('now') THEN f.id END) as dueCount
+      COUNT(DISTINCT CASE WHEN ${STUDYABLE_CARD_SQL} THEN f.id END) as dueCount
     FROM flashcard_decks d
     LEFT JOIN flashcards f ON f.deck_id = d.id
     LEFT JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
@@ -59,15 +153,42 @@ export function createDeck(
   db: DatabaseInstance,
   name: string,
   pdfId?: number,
-  description?: string
+  description?: string,
+  parentId?: number
 ): number {
   const result = db.prepare(`
-    INSERT INTO flashcard_decks (pdf_id, name, description)
-    VALUES (?, ?, ?)
-  `).run(pdfId ?? null, name, description ?? null);
+    INSERT INTO flashcard_decks (pdf_id, name, description, parent_id)
+    VALUES (?, ?, ?, ?)
+  `).run(pdfId ?? null, name, description ?? null, parentId ?? null);
   return result.lastInsertRowid as number;
 }
 
+/**
+ * Ids of a deck and all of its subdecks
+ */
+export function getSubdeckIds(db: DatabaseInstance, id: number): number[] {
+  const rows = db.prepare(`
+    WITH RECURSIVE tree(id) AS (
+      SELECT id FROM flashcard_decks WHERE id = ?
+      UNION SELECT d.id FROM flashcard_decks d JOIN tree t ON d.parent_id = t.id
+    )
+    SELECT id FROM tree
+  `).all(id) as { id: number }[];
+  return rows.map(row => row.id);
+}
+
+/**
+ * Move a deck below another deck (null = top level)
+ */
+export function setDeckParent(db: DatabaseInstance, id: number, parentId: number | null): void {
+  if (parentId !== null && getSubdeckIds(db, id).includes(parentId)) {
+    throw new Error('Ein Deck kann nicht in sich selbst oder eines seiner Unterdecks verschoben werden');
+  }
+  db.prepare(`
+    UPDATE flashcard_decks SET parent_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).run(parentId, id);
+}
+
 export function updateDeck(
   db: DatabaseInstance,
   id: number,
@@ -81,97 +202,104 @@ export function updateDeck(
   `).run(name, description ?? null, id);
 }
 
+/**
+ * Set the deck's own daily limits. Null falls back to the global settings.
+ */
+export function updateDeckLimits(
+  db: DatabaseInstance,
+  id: number,
+  newCardsPerDay: number | null,
+  reviewsPerDay: number | null
+): void {
+  db.prepare(`
+    UPDATE flashcard_decks
+    SET new_cards_per_day = ?, reviews_per_day = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(newCardsPerDay, reviewsPerDay, id);
+}
+
+export function getDeckFsrsOptimization(db: DatabaseInstance, id: number): string | null {
+  const row = db.prepare('SELECT fsrs_optimization as optimization FROM flashcard_decks WHERE id = ?')
+    .get(id) as { optimization: string | null } | undefined;
+  return row?.optimization ?? null;
+}
+
+export function setDeckFsrsOptimization(db: DatabaseInstance, id: number, optimization: string | null): void {
+  db.prepare('UPDATE flashcard_decks SET fsrs_optimization = ? WHERE id = ?').run(optimization, id);
+}
+
+// Subdecks are deleted with their parent. The cards are deleted here too, foreign keys
+// are not enforced in the app, so their occlusion images would be kept otherwise.
 export function deleteDeck(db: DatabaseInstance, id: number): void {
-  db.prepare('DELETE FROM flashcard_decks WHERE id = ?').run(id);
+  const ids = getSubdeckIds(db, id);
+  const placeholders = ids.map(() => '?').join(', ');
+  db.transaction(() => {
+    db.prepare(`DELETE FROM flashcards WHERE deck_id IN (${placeholders})`).run(...ids);
+    db.prepare(`DELETE FROM flashcard_decks WHERE id IN (${placeholders})`).run(...ids);
+    deleteUnusedImages(db);
+  })();
 }
 
 // ============ FLASHCARD QUERIES ============
 
 export function getCardsByDeck(db: DatabaseInstance, deckId: number): FlashcardWithFSRS[] {
-  const cards = db.prepare(`
-    SELECT
-      f.id, f.deck_id as deckId, f.highlight_id as highlightId,
-      f.front, f.back, f.card_type as cardType, f.cloze_data as clozeData,
-      f.source_page as sourcePage, f.created_at as createdAt, f.updated_at as updatedAt,
-      fs.id as fsrsId, fs.difficulty, fs.stability, fs.retrievability,
-      fs.state, fs.due, fs.last_review as lastReview, fs.reps, fs.lapses,
-      fs.scheduled_days as scheduledDays, fs.elapsed_days as elapsedDays
+  const rows = db.prepare(`
+    SELECT ${CARD_WITH_FSRS_COLUMNS}
     FROM flashcards f
     LEFT JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
     WHERE f.deck_id = ?
     ORDER BY f.created_at DESC
   `).all(deckId) as any[];
 
-  return cards.map(row => ({
-    id: row.id,
-    deckId: row.deckId,
-    highlightId: row.highlightId,
-    front: row.front,
-    back: row.back,
-    cardType: row.cardType,
-    clozeData: row.clozeData,
-    sourcePage: row.sourcePage,
-    createdAt: row.createdAt,
-    updatedAt: row.updatedAt,
-    fsrs: {
-      id: row.fsrsId,
-      flashcardId: row.id,
-      difficulty: row.difficulty ?? 0,
-      stability: row.stability ?? 0,
-      retrievability: row.retrievability ?? 1,
-      state: row.state ?? 0,
-      due: row.due ?? new Date().toISOString(),
-      lastReview: row.lastReview,
-      reps: row.reps ?? 0,
-      lapses: row.lapses ?? 0,
-      scheduledDays: row.scheduledDays ?? 0,
-      elapsedDays: row.elapsedDays ?? 0,
-    },
-  }));
+  return rows.map(toCardWithFSRS);
 }
 
 export function getCardById(db: DatabaseInstance, id: number): FlashcardWithFSRS | undefined {
   const row = db.prepare(`
-    SELECT
-      f.id, f.deck_id as deckId, f.highlight_id as highlightId,
-      f.front, f.back, f.card_type as cardType, f.cloze_data as clozeData,
-      f.source_page as sourcePage, f.created_at as createdAt, f.updated_at as updatedAt,
-      fs.id as fsrsId, fs.difficulty, fs.stability, fs.retrievability,
-      fs.state, fs.due, fs.last_review as lastReview, fs.reps, fs.lapses,
-      fs.scheduled_days as scheduledDays, fs.elapsed_days as elapsedDays
+    SELECT ${CARD_WITH_FSRS_COLUMNS}
     FROM flashcards f
     LEFT JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
     WHERE f.id = ?
   `).get(id) as any;
 
-  if (!row) return undefined;
+  return row ? toCardWithFSRS(row) : undefined;
+}
 
-  return {
-    id: row.id,
-    deckId: row.deckId,
-    highlightId: row.highlightId,
-    front: row.front,
-    back: row.back,
-    cardType: row.cardType,
-    clozeData: row.clozeData,
-    sourcePage: row.sourcePage,
-    createdAt: row.createdAt,
-    updatedAt: row.updatedAt,
-    fsrs: {
-      id: row.fsrsId,
-      flashcardId: row.id,
-      difficulty: row.difficulty ?? 0,
-      stability: row.stability ?? 0,
-      retrievability: row.retrievability ?? 1,
-      state: row.state ?? 0,
-      due: row.due ?? new Date().toISOString(),
-      lastReview: row.lastReview,
-      reps: row.reps ?? 0,
-      lapses: row.lapses ?? 0,
-      scheduledDays: row.scheduledDays ?? 0,
-      elapsedDays: row.elapsedDays ?? 0,
-    },
-  };
+/**
+ * The PDF page a card was made from: the PDF of its occlusion image, highlight or
+ * deck, the card's source page or else the image's or highlight's page
+ */
+export function getCardSourcePage(db: DatabaseInstance, id: number): { pdfId: number; pageNum: number } | null {
+  const row = db.prepare(`
+    SELECT
+      COALESCE(i.pdf_id, h.pdf_id, d.pdf_id) as pdfId,
+      COALESCE(f.source_page, i.page_num, h.page_num) as pageNum
+    FROM flashcards f
+    LEFT JOIN flashcard_images i ON i.id = f.image_id
+    LEFT JOIN highlights h ON h.id = f.highlight_id
+    LEFT JOIN flashcard_decks d ON d.id = f.deck_id
+    WHERE f.id = ?
+  `).get(id) as { pdfId: number | null; pageNum: number | null } | undefined;
+
+  if (!row || row.pdfId === null || row.pageNum === null) return null;
+  return { pdfId: row.pdfId, pageNum: row.pageNum };
+}
+
+/**
+ * Cards whose source is the given page (same lookup as getCardSourcePage)
+ */
+export function getCardIdsBySourcePage(db: DatabaseInstance, pdfId: number, pageNum: number): number[] {
+  const rows = db.prepare(`
+    SELECT f.id
+    FROM flashcards f
+    LEFT JOIN flashcard_images i ON i.id = f.image_id
+    LEFT JOIN highlights h ON h.id = f.highlight_id
+    LEFT JOIN flashcard_decks d ON d.id = f.deck_id
+    WHERE COALESCE(i.pdf_id, h.pdf_id, d.pdf_id) = ?
+      AND COALESCE(f.source_page, i.page_num, h.page_num) = ?
+    ORDER BY f.id
+  `).all(pdfId, pageNum) as { id: number }[];
+  return rows.map(row => row.id);
 }
 
 export function addCard(
@@ -179,7 +307,7 @@ export function addCard(
   deckId: number,
   front: string,
   back: string,
-  cardType: 'basic' | 'cloze' = 'basic',
+  cardType: FlashcardType = 'basic',
   highlightId?: number,
   sourcePage?: number,
   clozeData?: string
@@ -224,7 +352,7 @@ export function updateCard(
   id: number,
   front: string,
   back: string,
-  cardType?: 'basic' | 'cloze',
+  cardType?: FlashcardType,
   clozeData?: string
 ): void {
   db.prepare(`
@@ -234,66 +362,394 @@ export function updateCard(
   `).run(front, back, cardType ?? null, clozeData ?? null, id);
 }
 
+export function updateCardTags(db: DatabaseInstance, id: number, tags: string[]): void {
+  db.prepare(`
+    UPDATE flashcards SET tags = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).run(JSON.stringify(tags), id);
+}
+
 export function deleteCard(db: DatabaseInstance, id: number): void {
   db.prepare('DELETE FROM flashcards WHERE id = ?').run(id);
+  deleteUnusedImages(db);
+}
+
+export function setCardsSuspended(db: DatabaseInstance, ids: number[], suspended: boolean): void {
+  const update = db.prepare('UPDATE flashcards SET suspended = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?');
+  db.transaction(() => {
+    for (const id of ids) update.run(suspended ? 1 : 0, id);
+  })();
+}
+
+export function setCardsFlag(db: DatabaseInstance, ids: number[], flag: CardFlag): void {
+  const update = db.prepare('UPDATE flashcards SET flag = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?');
+  db.transaction(() => {
+    for (const id of ids) update.run(flag, id);
+  })();
+}
+
+/**
+ * Search cards across all decks, newest first
+ */
+export function searchCards(db: DatabaseInstance, query: string, limit: number): CardSearchResult[] {
+  const search = compileCardQuery(query);
+  const rows = db.prepare(`
+    SELECT ${CARD_WITH_FSRS_COLUMNS}, d.name as deckName
+    FROM flashcards f
+    JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
+    JOIN flashcard_decks d ON d.id = f.deck_id
+    WHERE ${search.where}
+    ORDER BY f.created_at DESC, f.id DESC
+    LIMIT ?
+  `).all(...search.params, limit) as any[];
+  return rows.map(row => ({ ...toCardWithFSRS(row), deckName: row.deckName }));
+}
+
+export function moveCards(db: DatabaseInstance, ids: number[], deckId: number): void {
+  const update = db.prepare('UPDATE flashcards SET deck_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?');
+  db.transaction(() => {
+    for (const id of ids) update.run(deckId, id);
+  })();
+}
+
+/**
+ * Make cards new again. The review history is kept but can no longer be undone.
+ */
+export function resetCardsScheduling(db: DatabaseInstance, ids: number[]): void {
+  const fsrsData = fsrsCardToDb(createNewFSRSCard());
+  const resetRetrievability = db.prepare('UPDATE flashcard_fsrs SET retrievability = 1 WHERE flashcard_id = ?');
+  const dropUndo = db.prepare('UPDATE flashcard_reviews SET undo_snapshot = NULL WHERE flashcard_id = ?');
+  db.transaction(() => {
+    for (const id of ids) {
+      updateFSRS(db, id, fsrsData);
+      resetRetrievability.run(id);
+      dropUndo.run(id);
+    }
+  })();
+}
+
+export function deleteCards(db: DatabaseInstance, ids: number[]): void {
+  const remove = db.prepare('DELETE FROM flashcards WHERE id = ?');
+  db.transaction(() => {
+    for (const id of ids) remove.run(id);
+    deleteUnusedImages(db);
+  })();
+}
+
+/**
+ * Add and remove tags on several cards
+ */
+export function retagCards(db: DatabaseInstance, ids: number[], addTags: string[], removeTags: string[]): void {
+  const removed = new Set(removeTags.map(tag => tag.toLowerCase()));
+  db.transaction(() => {
+    for (const id of ids) {
+      const card = getCardById(db, id);
+      if (!card) continue;
+      const tags = card.tags.filter(tag => !removed.has(tag.toLowerCase()));
+      for (const tag of addTags) {
+        if (!tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+      }
+      updateCardTags(db, id, tags);
+    }
+  })();
+}
+
+/**
+ * Tag a card as leech and optionally suspend it
+ */
+export function markLeech(db: DatabaseInstance, id: number, suspend: boolean): void {
+  const card = getCardById(db, id);
+  if (!card) return;
+
+  db.transaction(() => {
+    if (!card.tags.includes(LEECH_TAG)) {
+      updateCardTags(db, id, [...card.tags, LEECH_TAG]);
+    }
+    if (suspend) {
+      setCardsSuspended(db, [id], true);
+    }
+  })();
+}
+
+// ============ CLOZE SIBLINGS ============
+
+function setClozeSibling(db: DatabaseInstance, id: number, clozeIndex: number, siblingGroupId: number): void {
+  db.prepare('UPDATE flashcards SET cloze_index = ?, sibling_group_id = ? WHERE id = ?')
+    .run(clozeIndex, siblingGroupId, id);
+}
+
+/**
+ * Ids of all cards of the same cloze note (just the card itself for basic cards)
+ */
+export function getSiblingIds(db: DatabaseInstance, id: number): number[] {
+  const row = db.prepare('SELECT COALESCE(sibling_group_id, id) as groupId FROM flashcards WHERE id = ?')
+    .get(id) as { groupId: number } | undefined;
+  if (!row) return [];
+  const rows = db.prepare('SELECT id FROM flashcards WHERE sibling_group_id = ? OR id = ? ORDER BY cloze_index, id')
+    .all(row.groupId, row.groupId) as Array<{ id: number }>;
+  return rows.map(r => r.id);
+}
+
+/**
+ * Add a cloze card with a given deletion to a sibling group (a new group if null).
+ * Returns the new card id.
+ */
+export function addClozeCard(
+  db: DatabaseInstance,
+  deckId: number,
+  text: string,
+  back: string,
+  clozeIndex: number,
+  siblingGroupId: number | null,
+  highlightId?: number,
+  sourcePage?: number
+): number {
+  const id = addCard(db, deckId, text, back, 'cloze', highlightId, sourcePage, text);
+  setClozeSibling(db, id, clozeIndex, siblingGroupId ?? id);
+  return id;
+}
+
+/**
+ * Add a cloze note: one card (with its own FSRS state) per deletion {{c1::...}}, {{c2::...}}.
+ * Returns the card ids in deletion order.
+ */
+export function addClozeNote(
+  db: DatabaseInstance,
+  deckId: number,
+  text: string,
+  back: string,
+  highlightId?: number,
+  sourcePage?: number
+): number[] {
+  const indices = getClozeIndices(text);
+  if (indices.length === 0) {
+    return [addCard(db, deckId, text, back, 'cloze', highlightId, sourcePage, text)];
+  }
+
+  return db.transaction(() => {
+    const ids: number[] = [];
+    for (const clozeIndex of indices) {
+      ids.push(addClozeCard(db, deckId, text, back, clozeIndex, ids[0] ?? null, highlightId, sourcePage));
+    }
+    return ids;
+  })();
+}
+
+/**
+ * Update the text of a cloze note and sync its siblings with the deletions:
+ * siblings of removed deletions are deleted, new deletions get new cards.
+ * Existing siblings keep their scheduling state.
+ */
+export function updateClozeNote(db: DatabaseInstance, id: number, text: string, back: string): void {
+  const card = getCardById(db, id);
+  if (!card) {
+    throw new Error('Karte nicht gefunden');
+  }
+
+  const groupId = card.siblingGroupId ?? card.id;
+  const indices = getClozeIndices(text);
+  // Cards from before sibling support have no index - they take the first free deletion
+  const siblings = (db.prepare('SELECT id, cloze_index as clozeIndex FROM flashcards WHERE sibling_group_id = ? OR id = ?')
+    .all(groupId, groupId) as Array<{ id: number; clozeIndex: number | null }>)
+    .sort((a, b) => (a.clozeIndex === null ? 1 : 0) - (b.clozeIndex === null ? 1 : 0));
+
+  db.transaction(() => {
+    if (indices.length === 0) {
+      updateCard(db, id, text, back, 'cloze', text);
+      removeSiblings(db, id);
+      return;
+    }
+
+    const unclaimed = new Set(indices);
+    for (const sibling of siblings) {
+      const clozeIndex = sibling.clozeIndex ?? [...unclaimed][0];
+      if (clozeIndex === undefined || !unclaimed.has(clozeIndex)) {
+        deleteCard(db, sibling.id);
+        continue;
+      }
+      unclaimed.delete(clozeIndex);
+      updateCard(db, sibling.id, text, back, 'cloze', text);
+      setClozeSibling(db, sibling.id, clozeIndex, groupId);
+    }
+
+    for (const clozeIndex of unclaimed) {
+      addClozeCard(db, card.deckId, text, back, clozeIndex, groupId, card.highlightId ?? undefined, card.sourcePage ?? undefined);
+    }
+  })();
+}
+
+/**
+ * Delete the other cards of the card's cloze note and make it a standalone card
+ */
+export function removeSiblings(db: DatabaseInstance, id: number): void {
+  for (const siblingId of getSiblingIds(db, id)) {
+    if (siblingId !== id) deleteCard(db, siblingId);
+  }
+  db.prepare('UPDATE flashcards SET cloze_index = NULL, sibling_group_id = NULL WHERE id = ?').run(id);
+}
+
+// ============ IMAGE OCCLUSION ============
+
+/**
+ * Add an image occlusion note: the cropped page image and one card per mask.
+ * Returns the card ids in mask order.
+ */
+export function addImageOcclusionNote(
+  db: DatabaseInstance,
+  deckId: number,
+  image: { pdfId: number; pageNum: number; region: HighlightRect; masks: ImageOcclusionMask[]; data: Buffer },
+  front: string,
+  back: string
+): number[] {
+  if (image.masks.length === 0) {
+    throw new Error('Mindestens eine Maske erforderlich');
+  }
+
+  return db.transaction(() => {
+    const imageResult = db.prepare(`
+      INSERT INTO flashcard_images (pdf_id, page_num, region, masks, data)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(image.pdfId, image.pageNum, JSON.stringify(image.region), JSON.stringify(image.masks), image.data);
+    const imageId = imageResult.lastInsertRowid as number;
+
+    const ids: number[] = [];
+    image.masks.forEach((_, index) => {
+      const id = addCard(db, deckId, front, back, 'image_occlusion', undefined, image.pageNum);
+      db.prepare('UPDATE flashcards SET image_id = ? WHERE id = ?').run(imageId, id);
+      setClozeSibling(db, id, index + 1, ids[0] ?? id);
+      ids.push(id);
+    });
+    return ids;
+  })();
+}
+
+/**
+ * Update question and answer of all cards of an image occlusion note
+ */
+export function updateImageOcclusionNote(db: DatabaseInstance, id: number, front: string, back: string): void {
+  db.transaction(() => {
+    for (const siblingId of getSiblingIds(db, id)) {
+      updateCard(db, siblingId, front, back);
+    }
+  })();
+}
+
+export function getFlashcardImage(db: DatabaseInstance, id: number): FlashcardImage | undefined {
+  const row = db.prepare(`
+    SELECT id, pdf_id as pdfId, page_num as pageNum, region, masks, mime_type as mimeType, data
+    FROM flashcard_images WHERE id = ?
+  `).get(id) as any;
+
+  if (!row) return undefined;
+
+  return {
+    id: row.id,
+    pdfId: row.pdfId,
+    pageNum: row.pageNum,
+    region: JSON.parse(row.region),
+    masks: JSON.parse(row.masks),
+    dataUrl: `data:${row.mimeType};base64,${(row.data as Buffer).toString('base64')}`,
+  };
+}
+
+function deleteUnusedImages(db: DatabaseInstance): void {
+  db.prepare(`
+    DELETE FROM flashcard_images
+    WHERE id NOT IN (SELECT image_id FROM flashcards WHERE image_id IS NOT NULL)
+  `).run();
 }
 
 // ============ FSRS / STUDY QUERIES ============
 
+/**
+ * Count the cards studied today per deck: cards reviewed for the first time today
+ * are new cards, other cards reviewed today are review cards.
+ */
+export function getStudiedToday(db: DatabaseInstance): Map<number, StudiedToday> {
+  const rows = db.prepare(`
+    SELECT
+      f.deck_id as deckId,
+      SUM(CASE WHEN t.firstReview >= t.startOfDay THEN 1 ELSE 0 END) as newCards,
+      SUM(CASE WHEN t.firstReview < t.startOfDay THEN 1 ELSE 0 END) as reviewCards
+    FROM (
+      SELECT
+        r.flashcard_id,
+        MIN(datetime(r.reviewed_at)) as firstReview,
+        datetime('now', 'localtime', 'start of day', 'utc') as startOfDay
+      FROM flashcard_reviews r
+      GROUP BY r.flashcard_id
+      HAVING MAX(datetime(r.reviewed_at)) >= datetime('now', 'localtime', 'start of day', 'utc')
+    ) t
+    JOIN flashcards f ON f.id = t.flashcard_id
+    GROUP BY f.deck_id
+  `).all() as Array<{ deckId: number } & StudiedToday>;
+
+  return new Map(rows.map(row => [row.deckId, { newCards: row.newCards, reviewCards: row.reviewCards }]));
+}
+
+/**
+ * Build today's study queue of due cards, respecting the daily limits.
+ * Decks without own limits use the global ones. Studying a deck includes its
+ * subdecks and the deck's limits cap the total, when all decks are studied the
+ * global limits do.
+ */
 export function getDueCards(
   db: DatabaseInstance,
-  deckId?: number,
-  limit: number = 50
+  limits: StudyLimits,
+  deckId?: number
 ): FlashcardWithFSRS[] {
+  const deckIds = deckId !== undefined ? getSubdeckIds(db, deckId) : [];
+  const deckFilter = `IN (${deckIds.map(() => '?').join(', ')})`;
+
   let query = `
-    SELECT
-      f.id, f.deck_id as deckId, f.highlight_id as highlightId,
-      f.front, f.back, f.card_type as cardType, f.cloze_data as clozeData,
-      f.source_page as sourcePage, f.created_at as createdAt, f.updated_at as updatedAt,
-      fs.id as fsrsId, fs.difficulty, fs.stability, fs.retrievability,
-      fs.state, fs.due, fs.last_review as lastReview, fs.reps, fs.lapses,
-      fs.scheduled_days as scheduledDays, fs.elapsed_days as elapsedDays
+    SELECT ${CARD_WITH_FSRS_COLUMNS}
     FROM flashcards f
     JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
-    WHERE datetime(fs.due) <= datetime('now')
+    WHERE ${STUDYABLE_CARD_SQL}
   `;
 
   if (deckId !== undefined) {
-    query += ` AND f.deck_id = ?`;
+    query += ` AND f.deck_id ${deckFilter}`;
   }
 
-  // Order: New cards first, then by due date
-  query += ` ORDER BY fs.state ASC, fs.due ASC LIMIT ?`;
+  // Reviews by due date, new cards in the order they were added
+  query += ` ORDER BY CASE WHEN fs.state = 0 THEN f.id END ASC, datetime(fs.due) ASC`;
 
-  const params = deckId !== undefined ? [deckId, limit] : [limit];
-  const cards = db.prepare(query).all(...params) as any[];
+  const cards = (db.prepare(query).all(...deckIds) as any[]).map(toCardWithFSRS);
 
-  return cards.map(row => ({
-    id: row.id,
-    deckId: row.deckId,
-    highlightId: row.highlightId,
-    front: row.front,
-    back: row.back,
-    cardType: row.cardType,
-    clozeData: row.clozeData,
-    sourcePage: row.sourcePage,
-    createdAt: row.createdAt,
-    updatedAt: row.updatedAt,
-    fsrs: {
-      id: row.fsrsId,
-      flashcardId: row.id,
-      difficulty: row.difficulty,
-      stability: row.stability,
-      retrievability: row.retrievability,
-      state: row.state,
-      due: row.due,
-      lastReview: row.lastReview,
-      reps: row.reps,
-      lapses: row.lapses,
-      scheduledDays: row.scheduledDays,
-      elapsedDays: row.elapsedDays,
+  const studiedToday = getStudiedToday(db);
+  const nothingStudied: StudiedToday = { newCards: 0, reviewCards: 0 };
+  const decks = db.prepare(`
+    SELECT id, new_cards_per_day as newCardsPerDay, reviews_per_day as reviewsPerDay
+    FROM flashcard_decks
+    ${deckId !== undefined ? `WHERE id ${deckFilter}` : ''}
+  `).all(...deckIds) as Array<{ id: number; newCardsPerDay: number | null; reviewsPerDay: number | null }>;
+
+  const queueDecks: QueueDeck[] = decks.map(deck => ({
+    id: deck.id,
+    limits: {
+      newCards: deck.newCardsPerDay ?? limits.newCards,
+      reviewCards: deck.reviewsPerDay ?? limits.reviewCards,
     },
+    studiedToday: studiedToday.get(deck.id) ?? nothingStudied,
   }));
+
+  const total = queueDecks.reduce(
+    (sum, deck) => ({
+      newCards: sum.newCards + deck.studiedToday.newCards,
+      reviewCards: sum.reviewCards + deck.studiedToday.reviewCards,
+    }),
+    nothingStudied
+  );
+
+  if (deckId !== undefined) {
+    const studiedDeck = queueDecks.find(deck => deck.id === deckId);
+    if (!studiedDeck || queueDecks.length === 1) {
+      return buildStudyQueue(cards, queueDecks);
+    }
+    return buildStudyQueue(cards, queueDecks, { limits: studiedDeck.limits, studiedToday: total });
+  }
+
+  return buildStudyQueue(cards, queueDecks, { limits, studiedToday: total });
 }
 
 export function updateFSRS(
@@ -336,17 +792,104 @@ export function addReview(
   rating: FSRSRating,
   scheduledDays: number,
   elapsedDays: number,
-  state: FSRSState
-): void {
-  db.prepare(`
-    INSERT INTO flashcard_reviews (flashcard_id, rating, scheduled_days, elapsed_days, state)
-    VALUES (?, ?, ?, ?, ?)
-  `).run(flashcardId, rating, scheduledDays, elapsedDays, state);
+  state: FSRSState,
+  reviewedAt?: string,
+  undoSnapshot?: ReviewUndoSnapshot,
+  durationMs?: number
+): number {
+  const result = db.prepare(`
+    INSERT INTO flashcard_reviews (flashcard_id, rating, scheduled_days, elapsed_days, state, reviewed_at, undo_snapshot, duration_ms)
+    VALUES (?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?, ?)
+  `).run(
+    flashcardId,
+    rating,
+    scheduledDays,
+    elapsedDays,
+    state,
+    reviewedAt ?? null,
+    undoSnapshot ? JSON.stringify(undoSnapshot) : null,
+    durationMs !== undefined ? Math.max(0, Math.round(durationMs)) : null
+  );
+  return result.lastInsertRowid as number;
 }
 
-export function getStats(db: DatabaseInstance, deckId?: number): FlashcardStats {
-  const whereClause = deckId !== undefined ? 'WHERE f.deck_id = ?' : '';
+/**
+ * Snapshot of a card before a review, to be stored with the review
+ */
+export function getReviewUndoSnapshot(card: FlashcardWithFSRS): ReviewUndoSnapshot {
+  const { id: _id, flashcardId: _flashcardId, retrievability: _retrievability, ...fsrs } = card.fsrs;
+  return { fsrs, tags: card.tags, suspended: card.suspended };
+}
+
+/**
+ * Undo a review: restore the card state from before it and delete the review.
+ * Only the latest review of a card can be undone. Returns the card id.
+ */
+export function undoReview(db: DatabaseInstance, reviewId: number): number {
+  const review = db.prepare('SELECT flashcard_id as flashcardId, undo_snapshot as snapshot FROM flashcard_reviews WHERE id = ?')
+    .get(reviewId) as { flashcardId: number; snapshot: string | null } | undefined;
+  if (!review) {
+    throw new Error('Wiederholung nicht gefunden');
+  }
+  if (!review.snapshot) {
+    throw new Error('Diese Wiederholung kann nicht ruckgangig gemacht werden');
+  }
+  const newer = db.prepare('SELECT 1 FROM flashcard_reviews WHERE flashcard_id = ? AND id > ?').get(review.flashcardId, reviewId);
+  if (newer) {
+    throw new Error('Nur die letzte Wiederholung einer Karte kann ruckgangig gemacht werden');
+  }
+
+  const snapshot = JSON.parse(review.snapshot) as ReviewUndoSnapshot;
+  db.transaction(() => {
+    updateFSRS(db, review.flashcardId, snapshot.fsrs);
+    updateCardTags(db, review.flashcardId, snapshot.tags);
+    setCardsSuspended(db, [review.flashcardId], snapshot.suspended);
+    db.prepare('DELETE FROM flashcard_reviews WHERE id = ?').run(reviewId);
+  })();
+  return review.flashcardId;
+}
+
+export function getReviewsByDeck(db: DatabaseInstance, deckId: number): FlashcardReview[] {
+  return db.prepare(`
+    SELECT r.id, r.flashcard_id as flashcardId, r.rating, r.reviewed_at as reviewedAt,
+           r.scheduled_days as scheduledDays, r.elapsed_days as elapsedDays, r.state, r.duration_ms as durationMs
+    FROM flashcard_reviews r
+    JOIN flashcards f ON f.id = r.flashcard_id
+    WHERE f.deck_id = ?
+    ORDER BY r.flashcard_id, datetime(r.reviewed_at), r.id
+  `).all(deckId) as FlashcardReview[];
+}
+
+/**
+ * Get all recorded reviews (optionally of one deck) for FSRS optimization
+ */
+export function getReviewHistory(db: DatabaseInstance, deckId?: number): ReviewHistoryEntry[] {
+  let query = `
+    SELECT r.flashcard_id as flashcardId, r.rating, r.reviewed_at as reviewedAt
+    FROM flashcard_reviews r
+    JOIN flashcards f ON f.id = r.flashcard_id
+  `;
+  if (deckId !== undefined) {
+    query += ` WHERE f.deck_id = ?`;
+  }
+  query += ` ORDER BY r.flashcard_id, datetime(r.reviewed_at), r.id`;
+
   const params = deckId !== undefined ? [deckId] : [];
+  const rows = db.prepare(query).all(...params) as Array<{ flashcardId: number; rating: FSRSRating; reviewedAt: string }>;
+
+  // SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+  return rows.map(row => ({
+    flashcardId: row.flashcardId,
+    rating: row.rating,
+    reviewedAt: new Date(row.reviewedAt.includes('T') ? row.reviewedAt : `${row.reviewedAt.replace(' ', 'T')}Z`),
+  }));
+}
+
+// Stats of a deck include its subdecks
+export function getStats(db: DatabaseInstance, deckId?: number): FlashcardStats {
+  const params = deckId !== undefined ? getSubdeckIds(db, deckId) : [];
+  const deckFilter = `f.deck_id IN (${params.map(() => '?').join(', ')})`;
+  const whereClause = deckId !== undefined ? `WHERE ${deckFilter}` : '';
 
   const stats = db.prepare(`
     SELECT
@@ -354,7 +897,9 @@ export function getStats(db: DatabaseInstance, deckId?: number): FlashcardStats
       SUM(CASE WHEN fs.state = 0 THEN 1 ELSE 0 END) as newCards,
       SUM(CASE WHEN fs.state = 1 THEN 1 ELSE 0 END) as learningCards,
       SUM(CASE WHEN fs.state = 2 THEN 1 ELSE 0 END) as reviewCards,
-      SUM(CASE WHEN datetime(fs.due) <= datetime('now') THEN 1 ELSE 0 END) as dueToday
+      SUM(CASE WHEN ${STUDYABLE_CARD_SQL} THEN 1 ELSE 0 END) as dueToday,
+      SUM(CASE WHEN f.suspended = 1 THEN 1 ELSE 0 END) as suspendedCards,
+      SUM(CASE WHEN datetime(fs.due) <= datetime('now') AND f.suspended = 0 AND ${BURIED_CARD_SQL} THEN 1 ELSE 0 END) as buriedCards
     FROM flashcards f
     LEFT JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
     ${whereClause}
@@ -365,12 +910,10 @@ export function getStats(db: DatabaseInstance, deckId?: number): FlashcardStats
   todayStart.setHours(0, 0, 0, 0);
 
   const reviewedTodayQuery = deckId !== undefined
-    ? `SELECT COUNT(*) as count FROM flashcard_reviews r JOIN flashcards f ON f.id = r.flashcard_id WHERE r.reviewed_at >= ? AND f.deck_id = ?`
+    ? `SELECT COUNT(*) as count FROM flashcard_reviews r JOIN flashcards f ON f.id = r.flashcard_id WHERE r.reviewed_at >= ? AND ${deckFilter}`
     : `SELECT COUNT(*) as count FROM flashcard_reviews WHERE reviewed_at >= ?`;
 
-  const reviewedTodayParams = deckId !== undefined
-    ? [todayStart.toISOString(), deckId]
-    : [todayStart.toISOString()];
+  const reviewedTodayParams = [todayStart.toISOString(), ...params];
 
   const reviewedToday = db.prepare(reviewedTodayQuery).get(...reviewedTodayParams) as { count: number };
 
@@ -382,11 +925,89 @@ export function getStats(db: DatabaseInstance, deckId?: number): FlashcardStats
     dueToday: stats?.dueToday ?? 0,
     reviewedToday: reviewedToday?.count ?? 0,
     streak: calculateStreak(db, deckId),
+    suspendedCards: stats?.suspendedCards ?? 0,
+    buriedCards: stats?.buriedCards ?? 0,
   };
 }
 
+// ============ FILTERED DECK QUERIES ============
+
+const FILTERED_DECK_COLUMNS = `
+  id, name, query, card_limit as cardLimit, created_at as createdAt, updated_at as updatedAt
+`;
+
+function getFilteredDeckRow(db: DatabaseInstance, id: number): FilteredDeck | undefined {
+  return db.prepare(`SELECT ${FILTERED_DECK_COLUMNS} FROM filtered_decks WHERE id = ?`).get(id) as FilteredDeck | undefined;
+}
+
+/**
+ * Cards matching a search that can be studied: not suspended, due first.
+ * Buried cards are included, only one card per sibling group is kept.
+ */
+function getMatchingCards(db: DatabaseInstance, query: string): FlashcardWithFSRS[] {
+  const search = compileCardQuery(query);
+  const rows = db.prepare(`
+    SELECT ${CARD_WITH_FSRS_COLUMNS}
+    FROM flashcards f
+    JOIN flashcard_fsrs fs ON fs.flashcard_id = f.id
+    WHERE f.suspended = 0 AND ${search.where}
+    ORDER BY datetime(fs.due) ASC, f.id ASC
+  `).all(...search.params) as any[];
+  return burySiblings(rows.map(toCardWithFSRS));
+}
+
+export function getFilteredDecks(db: DatabaseInstance): FilteredDeck[] {
+  const decks = db.prepare(`SELECT ${FILTERED_DECK_COLUMNS} FROM filtered_decks ORDER BY name COLLATE NOCASE`).all() as FilteredDeck[];
+  const now = Date.now();
+
+  return decks.map(deck => {
+    try {
+      const cards = getMatchingCards(db, deck.query).slice(0, deck.cardLimit);
+      return {
+        ...deck,
+        cardCount: cards.length,
+        dueCount: cards.filter(card => new Date(card.fsrs.due).getTime() <= now).length,
+      };
+    } catch {
+      // The query no longer compiles - shown as empty until it is edited
+      return { ...deck, cardCount: 0, dueCount: 0 };
+    }
+  });
+}
+
+export function createFilteredDeck(db: DatabaseInstance, name: string, query: string, cardLimit: number): number {
+  compileCardQuery(query);
+  const result = db.prepare(`
+    INSERT INTO filtered_decks (name, query, card_limit) VALUES (?, ?, ?)
+  `).run(name, query, cardLimit);
+  return result.lastInsertRowid as number;
+}
+
+export function updateFilteredDeck(db: DatabaseInstance, id: number, name: string, query: string, cardLimit: number): void {
+  compileCardQuery(query);
+  db.prepare(`
+    UPDATE filtered_decks SET name = ?, query = ?, card_limit = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).run(name, query, cardLimit, id);
+}
+
+export function deleteFilteredDeck(db: DatabaseInstance, id: number): void {
+  db.prepare('DELETE FROM filtered_decks WHERE id = ?').run(id);
+}
+
+/**
+ * The session of a filtered deck: matching cards due first, up to its card limit
+ */
+export function getFilteredDeckCards(db: DatabaseInstance, id: number): FlashcardWithFSRS[] {
+  const deck = getFilteredDeckRow(db, id);
+  if (!deck) {
+    throw new Error('Gefiltertes Deck nicht gefunden');
+  }
+  return getMatchingCards(db, deck.query).slice(0, deck.cardLimit);
+}
+
 // ============ HEATMAP QUERIES ============
 
+// Like getStats, a deck's streak and heatmap include the reviews of its subdecks
 export function calculateStreak(db: DatabaseInstance, deckId?: number): number {
   // Get distinct review dates ordered descending
   let query = `
@@ -394,13 +1015,13 @@ export function calculateStreak(db: DatabaseInstance, deckId?: number): number {
     FROM flashcard_reviews r
   `;
 
+  const params = deckId !== undefined ? getSubdeckIds(db, deckId) : [];
   if (deckId !== undefined) {
-    query += ` JOIN flashcards f ON f.id = r.flashcard_id WHERE f.deck_id = ?`;
+    query += ` JOIN flashcards f ON f.id = r.flashcard_id WHERE f.deck_id IN (${params.map(() => '?').join(', ')})`;
   }
 
   query += ` ORDER BY date DESC`;
 
-  const params = deckId !== undefined ? [deckId] : [];
   const dates = db.prepare(query).all(...params) as { date: string }[];
 
   if (dates.length === 0) return 0;
@@ -434,10 +1055,14 @@ export function calculateStreak(db: DatabaseInstance, deckId?: number): number {
   return streak;
 }
 
+/**
+ * Reviews or study minutes per day. Minutes only add up the measured answer times.
+ */
 export function getHeatmapData(
   db: DatabaseInstance,
   timeframe: HeatmapTimeframe,
-  deckId?: number
+  deckId?: number,
+  metric: HeatmapMetric = 'reviews'
 ): HeatmapData {
   // Calculate date range based on timeframe
   const now = new Date();
@@ -467,15 +1092,17 @@ export function getHeatmapData(
   let query = `
     SELECT
       DATE(reviewed_at) as date,
-      COUNT(*) as count
+      COUNT(*) as reviews,
+      COALESCE(SUM(r.duration_ms), 0) / 60000.0 as minutes
     FROM flashcard_reviews r
   `;
 
   const params: (string | number)[] = [];
 
   if (deckId !== undefined) {
-    query += ` JOIN flashcards f ON f.id = r.flashcard_id WHERE f.deck_id = ? AND reviewed_at >= ? AND reviewed_at <= ?`;
-    params.push(deckId, startDate.toISOString(), endDate.toISOString());
+    const deckIds = getSubdeckIds(db, deckId);
+    query += ` JOIN flashcards f ON f.id = r.flashcard_id WHERE f.deck_id IN (${deckIds.map(() => '?').join(', ')}) AND reviewed_at >= ? AND reviewed_at <= ?`;
+    params.push(...deckIds, startDate.toISOString(), endDate.toISOString());
   } else {
     query += ` WHERE reviewed_at >= ? AND reviewed_at <= ?`;
     params.push(startDate.toISOString(), endDate.toISOString());
@@ -483,11 +1110,15 @@ export function getHeatmapData(
 
   query += ` GROUP BY DATE(reviewed_at) ORDER BY date ASC`;
 
-  const rows = db.prepare(query).all(...params) as { date: string; count: number }[];
+  const days = db.prepare(query).all(...params) as { date: string; reviews: number; minutes: number }[];
+  const rows = days
+    .map(day => ({ date: day.date, count: metric === 'minutes' ? Math.round(day.minutes * 10) / 10 : day.reviews }))
+    .filter(row => row.count > 0);
 
   // Calculate max count for color intensity
   const maxCount = rows.reduce((max, row) => Math.max(max, row.count), 0);
-  const totalReviews = rows.reduce((sum, row) => sum + row.count, 0);
+  const totalReviews = days.reduce((sum, day) => sum + day.reviews, 0);
+  const totalMinutes = Math.round(days.reduce((sum, day) => sum + day.minutes, 0));
 
   // Calculate streak
   const streak = calculateStreak(db, deckId);
@@ -496,6 +1127,7 @@ export function getHeatmapData(
     data: rows,
     maxCount,
     totalReviews,
+    totalMinutes,
     streak,
     startDate: startDate.toISOString().split('T')[0],
     endDate: endDate.toISOString().split('T')[0],
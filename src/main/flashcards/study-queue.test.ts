@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { DatabaseInstance } from '../database';
+import { applyMigrations } from '../database/migrations';
+import type { FlashcardWithFSRS, FSRSState } from '../../shared/types';
+import * as flashcardQueries from './queries';
+import { buildStudyQueue, interleaveCards } from './study-queue';
+
+function dueCard(id: number, deckId: number, state: FSRSState, due = '2026-01-01T00:00:00.000Z'): FlashcardWithFSRS {
+  return {
+    id,
+    deckId,
+    highlightId: null,
+    front: `Frage ${id}`,
+    back: 'Antwort',
+    cardType: 'basic',
+    clozeData: null,
+    sourcePage: null,
+    tags: [],
+    clozeIndex: null,
+    siblingGroupId: null,
+    imageId: null,
+    suspended: false,
+    flag: 0,
+    createdAt: '2026-01-01',
+    updatedAt: '2026-01-01',
+    fsrs: {
+      id,
+      flashcardId: id,
+      difficulty: 0,
+      stability: 0,
+      retrievability: 1,
+      state,
+      due,
+      lastReview: null,
+      reps: 0,
+      lapses: 0,
+      scheduledDays: 0,
+      elapsedDays: 0,
+    },
+  };
+}
+
+const nothingStudied = { newCards: 0, reviewCards: 0 };
+
+describe('interleaveCards', () => {
+  it('should spread new cards evenly between reviews', () => {
+    expect(interleaveCards(['r1', 'r2', 'r3', 'r4'], ['n1', 'n2'])).toEqual(['r1', 'n1', 'r2', 'r3', 'n2', 'r4']);
+  });
+
+  it('should handle empty lists', () => {
+    expect(interleaveCards([], ['n1', 'n2'])).toEqual(['n1', 'n2']);
+    expect(interleaveCards(['r1'], [])).toEqual(['r1']);
+  });
+});
+
+describe('buildStudyQueue', () => {
+  it('should apply the remaining daily limits per deck', () => {
+    const cards = [
+      dueCard(1, 1, 2), dueCard(2, 1, 2), dueCard(3, 1, 2),
+      dueCard(4, 1, 0), dueCard(5, 1, 0), dueCard(6, 1, 0),
+    ];
+
+    const queue = buildStudyQueue(cards, [
+      { id: 1, limits: { newCards: 2, reviewCards: 5 }, studiedToday: { newCards: 1, reviewCards: 3 } },
+    ]);
+
+    expect(queue.map(c => c.id)).toEqual([1, 4, 2]);
+  });
+
+  it('should always show learning cards first', () => {
+    const cards = [dueCard(1, 1, 2), dueCard(2, 1, 1), dueCard(3, 1, 3)];
+
+    const queue = buildStudyQueue(cards, [
+      { id: 1, limits: { newCards: 0, reviewCards: 0 }, studiedToday: nothingStudied },
+    ]);
+
+    expect(queue.map(c => c.id)).toEqual([2, 3]);
+  });
+
+  it('should cap the total across decks by the global limits', () => {
+    const cards = [dueCard(1, 1, 0), dueCard(2, 1, 0), dueCard(3, 2, 0), dueCard(4, 2, 0)];
+
+    const queue = buildStudyQueue(
+      cards,
+      [
+        { id: 1, limits: { newCards: 10, reviewCards: 10 }, studiedToday: nothingStudied },
+        { id: 2, limits: { newCards: 1, reviewCards: 10 }, studiedToday: nothingStudied },
+      ],
+      { limits: { newCards: 2, reviewCards: 10 }, studiedToday: nothingStudied }
+    );
+
+    expect(queue.map(c => c.id)).toEqual([1, 2]);
+  });
+
+  it('should show only one card per note or highlight', () => {
+    const sibling = (id: number, state: FSRSState, siblingGroupId: number | null, highlightId: number | null) =>
+      ({ ...dueCard(id, 1, state), siblingGroupId, highlightId });
+    const cards = [
+      sibling(1, 2, 10, null), sibling(2, 0, 10, null),   // review wins over its new sibling
+      sibling(3, 0, null, 7), sibling(4, 0, null, 7),     // same highlight
+      sibling(5, 1, 20, null), sibling(6, 2, 20, null),   // learning card buries its review sibling
+      dueCard(7, 1, 0),
+    ];
+
+    const queue = buildStudyQueue(cards, [
+      { id: 1, limits: { newCards: 10, reviewCards: 10 }, studiedToday: nothingStudied },
+    ]);
+
+    expect(queue.map(c => c.id).sort((a, b) => a - b)).toEqual([1, 3, 5, 7]);
+  });
+});
+
+describe('getDueCards', () => {
+  let db: DatabaseInstance;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applyMigrations(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function addReview(cardId: number, reviewedAt: string) {
+    db.prepare(`INSERT INTO flashcard_reviews (flashcard_id, rating, reviewed_at, state) VALUES (?, 3, ${reviewedAt}, 2)`)
+      .run(cardId);
+  }
+
+  it('should count cards introduced and reviewed today', () => {
+    const deckId = flashcardQueries.createDeck(db, 'Biologie');
+    const introduced = flashcardQueries.addCard(db, deckId, 'Neu heute', 'A');
+    const reviewed = flashcardQueries.addCard(db, deckId, 'Alt', 'A');
+    addReview(introduced, "datetime('now')");
+    addReview(reviewed, "datetime('now', '-3 days')");
+    addReview(reviewed, "datetime('now')");
+
+    expect(flashcardQueries.getStudiedToday(db).get(deckId)).toEqual({ newCards: 1, reviewCards: 1 });
+  });
+
+  it('should prefer the deck override over the global limits', () => {
+    const deckId = flashcardQueries.createDeck(db, 'Chemie');
+    for (let i = 0; i < 5; i++) {
+      flashcardQueries.addCard(db, deckId, `Frage ${i}`, 'A');
+    }
+
+    expect(flashcardQueries.getDueCards(db, { newCards: 3, reviewCards: 100 }, deckId)).toHaveLength(3);
+
+    flashcardQueries.updateDeckLimits(db, deckId, 1, null);
+    expect(flashcardQueries.getDueCards(db, { newCards: 3, reviewCards: 100 }, deckId)).toHaveLength(1);
+    expect(flashcardQueries.getDeckById(db, deckId)).toMatchObject({ newCardsPerDay: 1, reviewsPerDay: null });
+  });
+
+  it('should include subdecks and cap them with the parent limits', () => {
+    const parent = flashcardQueries.createDeck(db, 'Medizin');
+    const child = flashcardQueries.createDeck(db, 'Anatomie', undefined, undefined, parent);
+    const grandchild = flashcardQueries.createDeck(db, 'Herz', undefined, undefined, child);
+    flashcardQueries.addCard(db, parent, 'Eigene', 'A');
+    flashcardQueries.addCard(db, child, 'Kind', 'A');
+    flashcardQueries.addCard(db, grandchild, 'Enkel', 'A');
+
+    expect(flashcardQueries.getSubdeckIds(db, parent).sort()).toEqual([parent, child, grandchild].sort());
+    expect(flashcardQueries.getDueCards(db, { newCards: 10, reviewCards: 10 }, parent)).toHaveLength(3);
+    expect(flashcardQueries.getDueCards(db, { newCards: 10, reviewCards: 10 }, child)).toHaveLength(2);
+    expect(flashcardQueries.getStats(db, parent).totalCards).toBe(3);
+
+    flashcardQueries.updateDeckLimits(db, parent, 2, null);
+    expect(flashcardQueries.getDueCards(db, { newCards: 10, reviewCards: 10 }, parent)).toHaveLength(2);
+  });
+
+  it('should count reviews in subdecks for the streak and heatmap of the parent', () => {
+    const parent = flashcardQueries.createDeck(db, 'Medizin');
+    const child = flashcardQueries.createDeck(db, 'Anatomie', undefined, undefined, parent);
+    const cardId = flashcardQueries.addCard(db, child, 'Kind', 'A');
+    flashcardQueries.addReview(db, cardId, 3, 1, 0, 1, new Date().toISOString());
+
+    expect(flashcardQueries.calculateStreak(db, parent)).toBe(1);
+    expect(flashcardQueries.getHeatmapData(db, 'week', parent).totalReviews).toBe(1);
+  });
+
+  it('should not move a deck into its own subtree', () => {
+    const parent = flashcardQueries.createDeck(db, 'Medizin');
+    const child = flashcardQueries.createDeck(db, 'Anatomie', undefined, undefined, parent);
+
+    expect(() => flashcardQueries.setDeckParent(db, parent, child)).toThrow('Unterdecks');
+    flashcardQueries.deleteDeck(db, parent);
+    expect(flashcardQueries.getDeckById(db, child)).toBeUndefined();
+  });
+
+  it('should skip suspended cards and siblings of cards reviewed today', () => {
+    const deckId = flashcardQueries.createDeck(db, 'Physik');
+    const [first] = flashcardQueries.addClozeNote(db, deckId, '{{c1::F}} = m * {{c2::a}}', 'Newton');
+    const suspended = flashcardQueries.addCard(db, deckId, 'Pausiert', 'A');
+    const basic = flashcardQueries.addCard(db, deckId, 'Frage', 'A');
+    flashcardQueries.setCardsSuspended(db, [suspended], true);
+    addReview(first, "datetime('now')");
+    flashcardQueries.updateFSRS(db, first, {
+      difficulty: 5, stability: 3, state: 2, due: '2099-01-01T00:00:00.000Z',
+      lastReview: null, reps: 1, lapses: 0, scheduledDays: 3, elapsedDays: 0,
+    });
+
+    const due = flashcardQueries.getDueCards(db, { newCards: 10, reviewCards: 10 }, deckId);
+
+    expect(due.map(c => c.id)).toEqual([basic]);
+    expect(flashcardQueries.getStats(db, deckId)).toMatchObject({ dueToday: 1, suspendedCards: 1, buriedCards: 1 });
+    expect(flashcardQueries.getDeckById(db, deckId)?.dueCount).toBe(1);
+  });
+
+  it('should tag leeches and optionally suspend them', () => {
+    const deckId = flashcardQueries.createDeck(db, 'Latein');
+    const tagged = flashcardQueries.addCard(db, deckId, 'amare', 'lieben');
+    const suspended = flashcardQueries.addCard(db, deckId, 'esse', 'sein');
+
+    flashcardQueries.markLeech(db, tagged, false);
+    flashcardQueries.markLeech(db, tagged, false);
+    flashcardQueries.markLeech(db, suspended, true);
+
+    expect(flashcardQueries.getCardById(db, tagged)).toMatchObject({ tags: ['leech'], suspended: false });
+    expect(flashcardQueries.getCardById(db, suspended)).toMatchObject({ tags: ['leech'], suspended: true });
+  });
+});
@@ -0,0 +1,106 @@
+import type { FlashcardWithFSRS, StudyLimits } from '../../shared/types';
+
+// Cards already studied today, counted the same way as the limits
+export interface StudiedToday {
+  newCards: number;
+  reviewCards: number;
+}
+
+export interface QueueDeck {
+  id: number;
+  limits: StudyLimits;
+  studiedToday: StudiedToday;
+}
+
+/**
+ * Spread new cards evenly between the reviews, keeping the order of both lists
+ */
+export function interleaveCards<T>(reviews: T[], newCards: T[]): T[] {
+  const result: T[] = [];
+  let r = 0;
+  let n = 0;
+
+  while (r < reviews.length || n < newCards.length) {
+    // Take from the list that is further behind relative to its length
+    const reviewProgress = reviews.length ? r / reviews.length : 1;
+    const newProgress = newCards.length ? n / newCards.length : 1;
+    if (n < newCards.length && newProgress < reviewProgress) {
+      result.push(newCards[n++]);
+    } else if (r < reviews.length) {
+      result.push(reviews[r++]);
+    } else {
+      result.push(newCards[n++]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Keep only one new or review card per sibling group (cloze/image occlusion note or
+ * highlight), the others are buried for today. Cards in learning are never buried
+ * and bury their new and review siblings.
+ */
+export function burySiblings(cards: FlashcardWithFSRS[]): FlashcardWithFSRS[] {
+  const siblingKeys = (card: FlashcardWithFSRS) => [
+    card.siblingGroupId !== null ? `note:${card.siblingGroupId}` : null,
+    card.highlightId !== null ? `highlight:${card.highlightId}` : null,
+  ].filter((key): key is string => key !== null);
+
+  const isLearning = (card: FlashcardWithFSRS) => card.fsrs.state === 1 || card.fsrs.state === 3;
+  const seen = new Set(cards.filter(isLearning).flatMap(siblingKeys));
+
+  return cards.filter(card => {
+    if (isLearning(card)) return true;
+    const keys = siblingKeys(card);
+    if (keys.some(key => seen.has(key))) return false;
+    keys.forEach(key => seen.add(key));
+    return true;
+  });
+}
+
+/**
+ * Build today's study queue from due cards.
+ * Learning cards are always shown first. New and review cards are limited per deck
+ * (and by the global limits when several decks are studied together), then interleaved.
+ * Only one card per sibling group is shown.
+ * Expects review cards ordered by due date and new cards in creation order.
+ */
+export function buildStudyQueue(
+  dueCards: FlashcardWithFSRS[],
+  decks: QueueDeck[],
+  total?: Omit<QueueDeck, 'id'>
+): FlashcardWithFSRS[] {
+  const learning: FlashcardWithFSRS[] = [];
+  let reviews: FlashcardWithFSRS[] = [];
+  let newCards: FlashcardWithFSRS[] = [];
+
+  // Reviews before new cards, so a due review wins over its new siblings
+  const unburied = burySiblings([
+    ...dueCards.filter(card => card.fsrs.state !== 0),
+    ...dueCards.filter(card => card.fsrs.state === 0),
+  ]);
+
+  for (const deck of decks) {
+    const cards = unburied.filter(card => card.deckId === deck.id);
+    const newAllowed = Math.max(0, deck.limits.newCards - deck.studiedToday.newCards);
+    const reviewsAllowed = Math.max(0, deck.limits.reviewCards - deck.studiedToday.reviewCards);
+
+    // States: 0 = New, 1 = Learning, 2 = Review, 3 = Relearning
+    learning.push(...cards.filter(card => card.fsrs.state === 1 || card.fsrs.state === 3));
+    reviews.push(...cards.filter(card => card.fsrs.state === 2).slice(0, reviewsAllowed));
+    newCards.push(...cards.filter(card => card.fsrs.state === 0).slice(0, newAllowed));
+  }
+
+  if (total) {
+    reviews = reviews
+      .sort((a, b) => new Date(a.fsrs.due).getTime() - new Date(b.fsrs.due).getTime())
+      .slice(0, Math.max(0, total.limits.reviewCards - total.studiedToday.reviewCards));
+    newCards = newCards
+      .sort((a, b) => a.id - b.id)
+      .slice(0, Math.max(0, total.limits.newCards - total.studiedToday.newCards));
+  }
+
+  learning.sort((a, b) => new Date(a.fsrs.due).getTime() - new Date(b.fsrs.due).getTime());
+  return [...learning, ...interleaveCards(reviews, newCards)];
+}
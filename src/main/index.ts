@@ -1,6 +1,6 @@
-import { app, BrowserWindow, protocol, net } from 'electron';
+import { app, BrowserWindow, protocol, net, dialog } from 'electron';
 import path from 'path';
-import { initDatabase } from './database';
+import { initDatabase, type DatabaseInstance } from './database';
 import { registerIpcHandlers } from './ipc';
 import { startFileWatcher, stopFileWatcher } from './file-watcher';
 import * as queries from './database/queries';
@@ -44,8 +44,16 @@ async function createWindow() {
     return net.fetch(`file://${filePath}`);
   });
 
-  // Initialize database
-  const db = await initDatabase();
+  // Initialize database (runs schema migrations)
+  let db: DatabaseInstance;
+  try {
+    db = await initDatabase();
+  } catch (error: any) {
+    console.error('Database initialization failed:', error);
+    dialog.showErrorBox('Datenbank konnte nicht geoffnet werden', error.message || String(error));
+    app.quit();
+    return;
+  }
 
   // Register IPC handlers
   registerIpcHandlers(db, mainWindow);
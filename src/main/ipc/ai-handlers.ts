@@ -3,12 +3,14 @@ import * as queries from '../database/queries';
 import * as flashcardQueries from '../flashcards/queries';
 import { generateExplanation, generateFlashcardsFromHighlight, generateSummary } from '../flashcards/ai-generator';
 import { extractTextFromPages } from '../pdf/extractor';
+import { runWithFallback } from '../ai/routing';
 import { IPC_CHANNELS } from '../../shared/ipc-channels';
 import type { ExplanationStyle } from '../../shared/types';
 import type { HandlerContext } from './types';
-import { getAIConfig } from './utils';
+import { getAIRouteConfigs, getBudgetStatus, createStreamForwarder, trackCancelledUsage } from './utils';
+import { cancelAIStream, registerAIStream, unregisterAIStream } from './state';
 
-export function registerAiHandlers({ db }: HandlerContext): void {
+export function registerAiHandlers({ db, mainWindow }: HandlerContext): void {
   // API Usage Stats
   ipcMain.handle(IPC_CHANNELS.API_GET_USAGE_STATS, () => {
     return queries.getApiUsageStats(db);
@@ -19,6 +21,15 @@ export function registerAiHandlers({ db }: HandlerContext): void {
     return { success: true };
   });
 
+  ipcMain.handle(IPC_CHANNELS.API_GET_BUDGET_STATUS, () => {
+    return getBudgetStatus(db);
+  });
+
+  // Cancel a streamed AI request (explanation, summary, library chat)
+  ipcMain.handle(IPC_CHANNELS.AI_STREAM_CANCEL, (_, requestId: string) => {
+    return cancelAIStream(requestId);
+  });
+
   // AI Explanation Handlers
   ipcMain.handle(
     IPC_CHANNELS.EXPLAIN_TEXT,
@@ -27,17 +38,28 @@ export function registerAiHandlers({ db }: HandlerContext): void {
       text: string,
       style: ExplanationStyle,
       pdfId: number,
-      pageNum: number
+      pageNum: number,
+      requestId?: string
     ) => {
-      const config = getAIConfig(db);
+      const controller = requestId ? registerAIStream(requestId) : null;
+      const configs = getAIRouteConfigs(db, 'explanation', mainWindow);
       const language = (queries.getSetting(db, 'flashcardLanguage') as 'de' | 'en') || 'de';
 
       try {
-        const result = await generateExplanation(config, {
-          text,
-          style,
-          language,
-        });
+        if (controller?.signal.aborted) {
+          return { success: false, cancelled: true, error: 'Anfrage abgebrochen' };
+        }
+
+        const stream = createStreamForwarder(mainWindow, requestId, controller);
+        const result = await runWithFallback(configs, config => generateExplanation(
+          config,
+          {
+            text,
+            style,
+            language,
+          },
+          stream
+        ));
 
         // Save to database
         const id = queries.addExplanation(db, pdfId, pageNum, text, result.explanation, style);
@@ -49,7 +71,9 @@ export function registerAiHandlers({ db }: HandlerContext): void {
           'explanation',
           result.usage.promptTokens,
           result.usage.completionTokens,
-          result.usage.costUsd
+          result.usage.costUsd,
+          result.usage.provider,
+          result.usage.fallback
         );
 
         return {
@@ -59,8 +83,13 @@ export function registerAiHandlers({ db }: HandlerContext): void {
           cost: result.usage.costUsd,
         };
       } catch (error: any) {
+        if (trackCancelledUsage(db, error, 'explanation')) {
+          return { success: false, cancelled: true, error: error.message };
+        }
         console.error('Explanation generation error:', error);
         return { success: false, error: error.message || 'Fehler bei der Erklaerungsgenerierung' };
+      } finally {
+        if (requestId) unregisterAIStream(requestId);
       }
     }
   );
@@ -84,11 +113,13 @@ export function registerAiHandlers({ db }: HandlerContext): void {
       highlightId: number,
       pageNum: number
     ) => {
-      const config = getAIConfig(db);
+      const configs = getAIRouteConfigs(db, 'quiz_from_highlight', mainWindow);
       const language = (queries.getSetting(db, 'flashcardLanguage') as 'de' | 'en') || 'de';
 
       try {
-        const result = await generateFlashcardsFromHighlight(config, highlightText, language);
+        const result = await runWithFallback(configs, config =>
+          generateFlashcardsFromHighlight(config, highlightText, language)
+        );
 
         // Add cards to deck
         let cardsCreated = 0;
@@ -104,7 +135,9 @@ export function registerAiHandlers({ db }: HandlerContext): void {
           'quiz_from_highlight',
           result.usage.promptTokens,
           result.usage.completionTokens,
-          result.usage.costUsd
+          result.usage.costUsd,
+          result.usage.provider,
+          result.usage.fallback
         );
 
         return {
@@ -128,9 +161,12 @@ export function registerAiHandlers({ db }: HandlerContext): void {
       pdfId: number,
       filePath: string,
       startPage: number,
-      endPage: number
+      endPage: number,
+      requestId?: string
     ) => {
-      const config = getAIConfig(db);
+      // Registered before the text extraction, which can take a while
+      const controller = requestId ? registerAIStream(requestId) : null;
+      const configs = getAIRouteConfigs(db, 'summary', mainWindow);
       const language = (queries.getSetting(db, 'flashcardLanguage') as 'de' | 'en') || 'de';
 
       try {
@@ -142,12 +178,21 @@ export function registerAiHandlers({ db }: HandlerContext): void {
           return { success: false, error: 'Nicht genugend Text auf den ausgewaehlten Seiten gefunden.' };
         }
 
-        const result = await generateSummary(config, {
-          text,
-          startPage,
-          endPage,
-          language,
-        });
+        if (controller?.signal.aborted) {
+          return { success: false, cancelled: true, error: 'Anfrage abgebrochen' };
+        }
+
+        const stream = createStreamForwarder(mainWindow, requestId, controller);
+        const result = await runWithFallback(configs, config => generateSummary(
+          config,
+          {
+            text,
+            startPage,
+            endPage,
+            language,
+          },
+          stream
+        ));
 
         // Save to database
         const id = queries.addSummary(db, pdfId, startPage, endPage, result.title, result.summary);
@@ -159,7 +204,9 @@ export function registerAiHandlers({ db }: HandlerContext): void {
           'summary',
           result.usage.promptTokens,
           result.usage.completionTokens,
-          result.usage.costUsd
+          result.usage.costUsd,
+          result.usage.provider,
+          result.usage.fallback
         );
 
         return {
@@ -170,8 +217,13 @@ export function registerAiHandlers({ db }: HandlerContext): void {
           cost: result.usage.costUsd,
         };
       } catch (error: any) {
+        if (trackCancelledUsage(db, error, 'summary')) {
+          return { success: false, cancelled: true, error: error.message };
+        }
         console.error('Summary generation error:', error);
         return { success: false, error: error.message || 'Fehler bei der Zusammenfassung' };
+      } finally {
+        if (requestId) unregisterAIStream(requestId);
       }
     }
   );
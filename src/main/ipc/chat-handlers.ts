@@ -0,0 +1,143 @@
+import { ipcMain } from 'electron';
+import * as queries from '../database/queries';
+import * as chatQueries from '../database/chat-queries';
+import { generateLibraryAnswer } from '../flashcards/ai-generator';
+import { runWithFallback } from '../ai/routing';
+import { createWikiLinkRegex } from '../../shared/constants';
+import { IPC_CHANNELS } from '../../shared/ipc-channels';
+import type { ChatMessage } from '../ai/provider';
+import type { DatabaseInstance } from '../database';
+import type { ChatCitation, LibraryChatResult } from '../../shared/types';
+import type { HandlerContext } from './types';
+import { getAIRouteConfigs, resolveWikiLinkText, createStreamForwarder, trackCancelledUsage } from './utils';
+import { registerAIStream, unregisterAIStream } from './state';
+
+// Pages retrieved as context per question
+const RETRIEVAL_LIMIT = 8;
+// Earlier messages sent along for follow-up questions
+const HISTORY_LIMIT = 6;
+const TITLE_MAX_LENGTH = 60;
+
+export function registerChatHandlers({ db, mainWindow }: HandlerContext): void {
+  ipcMain.handle(
+    IPC_CHANNELS.LIBRARY_CHAT_ASK,
+    async (
+      _,
+      question: string,
+      conversationId: number | null,
+      requestId?: string
+    ): Promise<LibraryChatResult> => {
+      const trimmed = question.trim();
+      if (!trimmed) {
+        return { success: false, error: 'Bitte eine Frage eingeben' };
+      }
+
+      // Registered before the retrieval so an early cancel is not lost
+      const controller = requestId ? registerAIStream(requestId) : null;
+      const configs = getAIRouteConfigs(db, 'library_chat', mainWindow);
+      const language = (queries.getSetting(db, 'flashcardLanguage') as 'de' | 'en') || 'de';
+
+      try {
+        const sources = chatQueries.retrieveRelevantPages(db, trimmed, RETRIEVAL_LIMIT);
+        const history: ChatMessage[] = conversationId
+          ? chatQueries.getConversationMessages(db, conversationId)
+              .slice(-HISTORY_LIMIT)
+              .map(message => ({ role: message.role, content: message.content }))
+          : [];
+
+        if (controller?.signal.aborted) {
+          return { success: false, cancelled: true, error: 'Anfrage abgebrochen' };
+        }
+
+        const stream = createStreamForwarder(mainWindow, requestId, controller);
+        const result = await runWithFallback(configs, config => generateLibraryAnswer(
+          config,
+          {
+            question: trimmed,
+            sources,
+            history,
+            language,
+          },
+          stream
+        ));
+
+        // Only save the exchange once the answer arrived
+        const id = conversationId ?? chatQueries.createConversation(
+          db,
+          trimmed.length > TITLE_MAX_LENGTH ? trimmed.slice(0, TITLE_MAX_LENGTH) + '...' : trimmed
+        );
+        chatQueries.addChatMessage(db, id, 'user', trimmed);
+        const message = chatQueries.addChatMessage(
+          db,
+          id,
+          'assistant',
+          result.answer,
+          extractCitations(db, result.answer)
+        );
+
+        // Track API usage
+        queries.addApiUsage(
+          db,
+          result.usage.model,
+          'library_chat',
+          result.usage.promptTokens,
+          result.usage.completionTokens,
+          result.usage.costUsd,
+          result.usage.provider,
+          result.usage.fallback
+        );
+
+        return {
+          success: true,
+          conversationId: id,
+          message,
+          cost: result.usage.costUsd,
+        };
+      } catch (error: any) {
+        if (trackCancelledUsage(db, error, 'library_chat')) {
+          return { success: false, cancelled: true, error: error.message };
+        }
+        console.error('Library chat error:', error);
+        return { success: false, error: error.message || 'Fehler bei der Beantwortung der Frage' };
+      } finally {
+        if (requestId) unregisterAIStream(requestId);
+      }
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.LIBRARY_CHAT_GET_CONVERSATIONS, () => {
+    return chatQueries.getConversations(db);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.LIBRARY_CHAT_GET_MESSAGES, (_, conversationId: number) => {
+    return chatQueries.getConversationMessages(db, conversationId);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.LIBRARY_CHAT_DELETE_CONVERSATION, (_, id: number) => {
+    chatQueries.deleteConversation(db, id);
+    return { success: true };
+  });
+}
+
+// Resolve the [[Book.pdf#p12]] citations of an answer, skipping unknown PDFs
+function extractCitations(db: DatabaseInstance, answer: string): ChatCitation[] {
+  const citations: ChatCitation[] = [];
+  const seen = new Set<string>();
+
+  for (const match of answer.matchAll(createWikiLinkRegex())) {
+    const resolved = resolveWikiLinkText(db, match[0]);
+    if (!resolved) continue;
+
+    const key = `${resolved.pdf.id}:${resolved.pageNum}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    citations.push({
+      pdfId: resolved.pdf.id,
+      fileName: resolved.pdf.fileName,
+      pageNum: resolved.pageNum,
+    });
+  }
+
+  return citations;
+}
@@ -0,0 +1,136 @@
+import { ipcMain, BrowserWindow } from 'electron';
+import * as queries from '../database/queries';
+import * as embeddingQueries from '../database/embedding-queries';
+import { validateConfig, type AIProviderConfig } from '../ai/provider';
+import { chunkText, embedTexts, getEmbeddingModelName } from '../ai/embeddings';
+import { IPC_CHANNELS } from '../../shared/ipc-channels';
+import type { DatabaseInstance } from '../database';
+import type { HandlerContext } from './types';
+import { getAIConfig } from './utils';
+import {
+  semanticIndexStatus,
+  semanticIndexCancelled,
+  setSemanticIndexCancelled,
+  updateSemanticIndexStatus,
+  clearSearchCache,
+} from './state';
+
+// Pages embedded per provider round trip
+const PAGE_BATCH_SIZE = 16;
+
+export function registerEmbeddingHandlers({ db, mainWindow }: HandlerContext): void {
+  // Semantic index status (coverage is refreshed while idle)
+  ipcMain.handle(IPC_CHANNELS.GET_SEMANTIC_INDEX_STATUS, () => {
+    if (!semanticIndexStatus.isIndexing) {
+      const model = getEmbeddingModelName(getAIConfig(db));
+      const coverage = embeddingQueries.getEmbeddingCoverage(db, model);
+      updateSemanticIndexStatus({
+        model,
+        totalPages: coverage.totalPages,
+        indexedPages: coverage.embeddedPages,
+      });
+    }
+    return semanticIndexStatus;
+  });
+
+  // Build embeddings for all pages that don't have any for the current model
+  ipcMain.handle(IPC_CHANNELS.BUILD_SEMANTIC_INDEX, () => {
+    if (semanticIndexStatus.isIndexing) {
+      return { success: false, error: 'Semantischer Index wird bereits aufgebaut' };
+    }
+
+    const config = getAIConfig(db, mainWindow);
+    const validation = validateConfig(config);
+    if (!validation.valid) {
+      return { success: false, error: validation.error };
+    }
+
+    // Start indexing in background
+    buildSemanticIndex(db, mainWindow, config);
+    return { success: true };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.CANCEL_SEMANTIC_INDEX, () => {
+    setSemanticIndexCancelled(true);
+    return true;
+  });
+}
+
+// Embed pages batch by batch and report progress to the renderer
+async function buildSemanticIndex(
+  db: DatabaseInstance,
+  mainWindow: BrowserWindow,
+  config: AIProviderConfig
+): Promise<void> {
+  const model = getEmbeddingModelName(config);
+  const coverage = embeddingQueries.getEmbeddingCoverage(db, model);
+
+  setSemanticIndexCancelled(false);
+  updateSemanticIndexStatus({
+    isIndexing: true,
+    model,
+    totalPages: coverage.totalPages,
+    processedPages: 0,
+    indexedPages: coverage.embeddedPages,
+    error: null,
+  });
+  mainWindow.webContents.send(IPC_CHANNELS.SEMANTIC_INDEX_PROGRESS, semanticIndexStatus);
+
+  // Pages without text produce no chunks and stay "missing" - skip past them
+  let skippedPages = 0;
+
+  try {
+    while (!semanticIndexCancelled) {
+      const pages = embeddingQueries.getPagesWithoutEmbeddings(db, model, PAGE_BATCH_SIZE, skippedPages);
+      if (pages.length === 0) break;
+
+      const pageChunks = pages.map(page => ({ page, chunks: chunkText(page.content) }));
+      const texts = pageChunks.flatMap(({ chunks }) => chunks);
+
+      if (texts.length > 0) {
+        const { vectors, usage } = await embedTexts(config, texts);
+
+        let offset = 0;
+        for (const { page, chunks } of pageChunks) {
+          if (chunks.length === 0) continue;
+          embeddingQueries.savePageEmbeddings(
+            db,
+            page.pdfId,
+            page.pageNum,
+            model,
+            chunks.map((text, i) => ({ text, vector: vectors[offset + i] }))
+          );
+          offset += chunks.length;
+        }
+
+        queries.addApiUsage(
+          db,
+          usage.model,
+          'semantic_index',
+          usage.promptTokens,
+          usage.completionTokens,
+          usage.costUsd
+        );
+      }
+
+      skippedPages += pageChunks.filter(({ chunks }) => chunks.length === 0).length;
+
+      updateSemanticIndexStatus({
+        processedPages: semanticIndexStatus.processedPages + pages.length,
+        indexedPages: embeddingQueries.getEmbeddingCoverage(db, model).embeddedPages,
+      });
+      mainWindow.webContents.send(IPC_CHANNELS.SEMANTIC_INDEX_PROGRESS, semanticIndexStatus);
+    }
+  } catch (error) {
+    console.error('Semantic index error:', error);
+    updateSemanticIndexStatus({
+      error: error instanceof Error ? error.message : 'Unbekannter Fehler',
+    });
+  }
+
+  // New embeddings change semantic results
+  clearSearchCache();
+
+  updateSemanticIndexStatus({ isIndexing: false });
+  mainWindow.webContents.send(IPC_CHANNELS.SEMANTIC_INDEX_PROGRESS, semanticIndexStatus);
+}
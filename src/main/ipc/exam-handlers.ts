@@ -0,0 +1,189 @@
+import { ipcMain } from 'electron';
+import * as queries from '../database/queries';
+import * as examQueries from '../database/exam-queries';
+import * as flashcardQueries from '../flashcards/queries';
+import { generateExamQuestions, getWrongFlashcardIds, shuffle, type ExamMaterial } from '../flashcards/practice-exam';
+import { extractTextFromPages } from '../pdf/extractor';
+import { runWithFallback } from '../ai/routing';
+import { getClozeAnswer, renderCloze } from '../../shared/constants';
+import { IPC_CHANNELS } from '../../shared/ipc-channels';
+import type { DatabaseInstance } from '../database';
+import type { ExamAttempt, ExamGenerationOptions, ExamQuestion, PracticeExam } from '../../shared/types';
+import type { HandlerContext } from './types';
+import { getAIRouteConfigs, recordReview } from './utils';
+
+// Cards sent to the model per exam, a random sample of larger decks
+const MAX_EXAM_CARDS = 80;
+const MAX_QUESTION_COUNT = 50;
+
+/**
+ * The material an exam is generated from, with a title for the attempt list
+ */
+async function loadExamMaterial(
+  db: DatabaseInstance,
+  source: ExamGenerationOptions['source']
+): Promise<{ title: string; material: ExamMaterial }> {
+  if (source.kind === 'deck') {
+    const deck = flashcardQueries.getDeckById(db, source.deckId);
+    if (!deck) {
+      throw new Error('Deck nicht gefunden');
+    }
+
+    // Image occlusion cards have no text to ask about
+    const cards = shuffle(
+      flashcardQueries.getSubdeckIds(db, source.deckId)
+        .flatMap(id => flashcardQueries.getCardsByDeck(db, id))
+        .filter(card => !card.suspended && card.cardType !== 'image_occlusion')
+    ).slice(0, MAX_EXAM_CARDS);
+
+    if (cards.length < 2) {
+      throw new Error('Das Deck enthalt zu wenige Karten fur eine Probeklausur');
+    }
+
+    return {
+      title: deck.name,
+      material: {
+        kind: 'cards',
+        cards: cards.map(card => card.cardType === 'cloze'
+          ? { id: card.id, question: renderCloze(card.front, card.clozeIndex, false), answer: getClozeAnswer(card.front, card.clozeIndex) }
+          : { id: card.id, question: card.front, answer: card.back }),
+      },
+    };
+  }
+
+  const pdf = queries.getPdfById(db, source.pdfId);
+  if (!pdf) {
+    throw new Error('PDF nicht gefunden');
+  }
+
+  const pageNumbers = Array.from({ length: source.endPage - source.startPage + 1 }, (_, i) => source.startPage + i);
+  const { text } = await extractTextFromPages(pdf.filePath, pageNumbers);
+  if (!text || text.trim().length < 50) {
+    throw new Error('Nicht genugend Text auf den ausgewaehlten Seiten gefunden.');
+  }
+
+  return {
+    title: `${pdf.fileName} S. ${source.startPage}-${source.endPage}`,
+    material: { kind: 'text', text },
+  };
+}
+
+export function registerExamHandlers({ db, mainWindow }: HandlerContext): void {
+  ipcMain.handle(
+    IPC_CHANNELS.EXAM_GENERATE,
+    async (_, options: ExamGenerationOptions): Promise<{ success: boolean; exam?: PracticeExam; error?: string }> => {
+      if (options.types.length === 0) {
+        return { success: false, error: 'Bitte mindestens einen Fragetyp auswahlen' };
+      }
+
+      const configs = getAIRouteConfigs(db, 'practice_exam', mainWindow);
+      const language = (queries.getSetting(db, 'flashcardLanguage') as 'de' | 'en') || 'de';
+      const questionCount = Math.min(MAX_QUESTION_COUNT, Math.max(1, Math.round(options.questionCount)));
+
+      try {
+        const { title, material } = await loadExamMaterial(db, options.source);
+        const result = await runWithFallback(configs, config => generateExamQuestions(config, material, {
+          questionCount,
+          types: options.types,
+          language,
+        }));
+
+        queries.addApiUsage(
+          db,
+          result.usage.model,
+          'practice_exam',
+          result.usage.promptTokens,
+          result.usage.completionTokens,
+          result.usage.costUsd,
+          result.usage.provider,
+          result.usage.fallback
+        );
+
+        // Link the questions to cards: deck questions name their cards, page
+        // questions are linked to the cards made from the cited page
+        const source = options.source;
+        const questions: ExamQuestion[] = result.questions.map(({ refs, ...question }) => {
+          if (material.kind === 'cards') {
+            const cardIds = new Set(material.cards.map(card => card.id));
+            return { ...question, flashcardIds: refs.filter(ref => cardIds.has(ref)), pageNum: null };
+          }
+
+          const pageNum = source.kind === 'pages'
+            ? refs.find(ref => ref >= source.startPage && ref <= source.endPage) ?? null
+            : null;
+          return {
+            ...question,
+            flashcardIds: pageNum !== null && source.kind === 'pages'
+              ? flashcardQueries.getCardIdsBySourcePage(db, source.pdfId, pageNum)
+              : [],
+            pageNum,
+          };
+        });
+
+        return { success: true, exam: { title, source, questions } };
+      } catch (error: any) {
+        console.error('Practice exam generation error:', error);
+        return { success: false, error: error.message || 'Fehler bei der Erstellung der Probeklausur' };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.EXAM_SUBMIT,
+    (
+      _,
+      exam: PracticeExam,
+      answers: Array<number | null>,
+      timeLimitSeconds: number | null,
+      durationSeconds: number
+    ): ExamAttempt | undefined => {
+      const id = examQueries.saveExamAttempt(db, exam, answers, timeLimitSeconds, durationSeconds);
+      return examQueries.getExamAttempt(db, id);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.EXAM_GET_ATTEMPTS, () => {
+    return examQueries.getExamAttempts(db);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.EXAM_GET_ATTEMPT, (_, id: number) => {
+    return examQueries.getExamAttempt(db, id) ?? null;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.EXAM_DELETE_ATTEMPT, (_, id: number) => {
+    examQueries.deleteExamAttempt(db, id);
+    return { success: true };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.EXAM_GET_WEAK_TOPICS, (_, deckId?: number) => {
+    return examQueries.getWeakExamTopics(db, deckId);
+  });
+
+  // Rate the cards behind wrong answers "Again", once per attempt
+  ipcMain.handle(
+    IPC_CHANNELS.EXAM_APPLY_AGAIN,
+    (_, attemptId: number): { success: boolean; reviewedCount?: number; error?: string } => {
+      const attempt = examQueries.getExamAttempt(db, attemptId);
+      if (!attempt) {
+        return { success: false, error: 'Versuch nicht gefunden' };
+      }
+      if (attempt.againApplied) {
+        return { success: false, error: 'Die falschen Antworten wurden bereits bewertet' };
+      }
+
+      const reviewedCount = db.transaction(() => {
+        let count = 0;
+        for (const id of getWrongFlashcardIds(attempt.questions, attempt.answers)) {
+          const card = flashcardQueries.getCardById(db, id);
+          if (!card || card.suspended) continue;
+          recordReview(db, card, 1);
+          count++;
+        }
+        examQueries.markExamAgainApplied(db, attemptId);
+        return count;
+      })();
+
+      return { success: true, reviewedCount };
+    }
+  );
+}
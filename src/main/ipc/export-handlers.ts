@@ -4,10 +4,10 @@ import fs from 'fs/promises';
 import * as queries from '../database/queries';
 import * as linkQueries from '../database/link-queries';
 import { generateMarkdown, generateMarkdownEnhanced } from '../export/markdown';
-import { parseWikiLinks } from '../links/parser';
 import { IPC_CHANNELS } from '../../shared/ipc-channels';
 import type { ExportOptions } from '../../shared/types';
 import type { HandlerContext } from './types';
+import { resolveWikiLinkText } from './utils';
 
 export function registerExportHandlers({ db, mainWindow }: HandlerContext): void {
   // Export
@@ -154,28 +154,7 @@ export function registerExportHandlers({ db, mainWindow }: HandlerContext): void
   });
 
   ipcMain.handle(IPC_CHANNELS.RESOLVE_LINK, (_, linkText: string) => {
-    const parsedLinks = parseWikiLinks(linkText);
-
-    if (parsedLinks.length === 0) {
-      return null;
-    }
-
-    const parsed = parsedLinks[0];
-    const pdf = queries.getPdfByFileName(db, parsed.fileName);
-
-    if (!pdf) {
-      return null;
-    }
-
-    // Validate page number is within range
-    const pageNum = parsed.pageNum && parsed.pageNum >= 1 && parsed.pageNum <= pdf.pageCount
-      ? parsed.pageNum
-      : 1;
-
-    return {
-      pdf,
-      pageNum,
-    };
+    return resolveWikiLinkText(db, linkText);
   });
 
   ipcMain.handle(IPC_CHANNELS.GET_LINK_GRAPH, (_, includeUnlinked: boolean = false) => {
@@ -2,13 +2,38 @@ import { ipcMain, dialog } from 'electron';
 import fs from 'fs/promises';
 import * as queries from '../database/queries';
 import * as flashcardQueries from '../flashcards/queries';
-import { dbToFsrsCard, fsrsCardToDb, getNextReview, getNextIntervals } from '../flashcards/fsrs';
+import { migrateParameters } from 'ts-fsrs';
+import { DEFAULT_DESIRED_RETENTION, dbToFsrsCard, getNextIntervals, getRetrievability, type SchedulerOptions } from '../flashcards/fsrs';
+import { buildReviewSequences, computeCalibration, optimizeParameters } from '../flashcards/fsrs-optimizer';
+import { getAnswerTimeStats, getDeckRetention, getDifficultyDistribution, getDueForecast, getStabilityDistribution } from '../flashcards/analytics';
 import { generateFlashcards } from '../flashcards/ai-generator';
-import { extractTextFromPages } from '../pdf/extractor';
+import { gradeAnswer } from '../flashcards/answer-grader';
+import { generateFlashcardsInChunks } from '../flashcards/chunked-generator';
+import { runWithFallback } from '../ai/routing';
+import { extractPages, extractTextFromPages } from '../pdf/extractor';
+import { renderPDFRegionToImage } from '../pdf/page-image';
+import { createApkg, readApkg } from '../export/anki';
+import { detectImportFormat, previewImport } from '../flashcards/card-import';
 import { IPC_CHANNELS } from '../../shared/ipc-channels';
-import type { FSRSRating, GeneratedCard } from '../../shared/types';
+import { CARD_SEARCH_LIMIT, getClozeAnswer, renderCloze } from '../../shared/constants';
+import type {
+  AnswerGrading,
+  CardFlag,
+  CardSource,
+  FlashcardAnalytics,
+  FlashcardImportOptions,
+  FlashcardType,
+  ImageOcclusionInput,
+  FlashcardImportPreview,
+  FlashcardWithFSRS,
+  FSRSRating,
+  FsrsOptimization,
+  GeneratedCard,
+  HeatmapMetric,
+} from '../../shared/types';
 import type { HandlerContext } from './types';
-import { getAIConfig } from './utils';
+import { getAIRouteConfigs, getFsrsOptimization, getSchedulerOptions, getStudyLimits, recordReview } from './utils';
+import { registerAIStream, unregisterAIStream } from './state';
 
 export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): void {
   // Deck Handlers
@@ -22,8 +47,8 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
 
   ipcMain.handle(
     IPC_CHANNELS.FLASHCARD_CREATE_DECK,
-    (_, name: string, pdfId?: number, description?: string) => {
-      return flashcardQueries.createDeck(db, name, pdfId, description);
+    (_, name: string, pdfId?: number, description?: string, parentId?: number) => {
+      return flashcardQueries.createDeck(db, name, pdfId, description, parentId);
     }
   );
 
@@ -35,11 +60,62 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
     }
   );
 
+  ipcMain.handle(
+    IPC_CHANNELS.FLASHCARD_SET_DECK_LIMITS,
+    (_, id: number, newCardsPerDay: number | null, reviewsPerDay: number | null) => {
+      flashcardQueries.updateDeckLimits(db, id, newCardsPerDay, reviewsPerDay);
+      return true;
+    }
+  );
+
   ipcMain.handle(IPC_CHANNELS.FLASHCARD_DELETE_DECK, (_, id: number) => {
     flashcardQueries.deleteDeck(db, id);
     return true;
   });
 
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_SET_DECK_PARENT, (_, id: number, parentId: number | null) => {
+    try {
+      flashcardQueries.setDeckParent(db, id, parentId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Deck konnte nicht verschoben werden' };
+    }
+  });
+
+  // Filtered Deck Handlers
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_FILTERED_DECKS, () => {
+    return flashcardQueries.getFilteredDecks(db);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.FLASHCARD_CREATE_FILTERED_DECK,
+    (_, name: string, query: string, cardLimit: number) => {
+      try {
+        const id = flashcardQueries.createFilteredDeck(db, name, query, cardLimit);
+        return { success: true, id };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Gefiltertes Deck konnte nicht erstellt werden' };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.FLASHCARD_UPDATE_FILTERED_DECK,
+    (_, id: number, name: string, query: string, cardLimit: number) => {
+      try {
+        flashcardQueries.updateFilteredDeck(db, id, name, query, cardLimit);
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Gefiltertes Deck konnte nicht gespeichert werden' };
+      }
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_DELETE_FILTERED_DECK, (_, id: number) => {
+    flashcardQueries.deleteFilteredDeck(db, id);
+    return true;
+  });
+
   // Card Handlers
   ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_CARDS, (_, deckId: number) => {
     return flashcardQueries.getCardsByDeck(db, deckId);
@@ -56,11 +132,15 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
       deckId: number,
       front: string,
       back: string,
-      cardType?: 'basic' | 'cloze',
+      cardType?: FlashcardType,
       highlightId?: number,
       sourcePage?: number,
       clozeData?: string
     ) => {
+      // One card per deletion - returns the id of the first sibling
+      if (cardType === 'cloze') {
+        return flashcardQueries.addClozeNote(db, deckId, clozeData ?? front, back, highlightId, sourcePage)[0];
+      }
       return flashcardQueries.addCard(
         db,
         deckId,
@@ -76,30 +156,145 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
 
   ipcMain.handle(
     IPC_CHANNELS.FLASHCARD_UPDATE_CARD,
-    (_, id: number, front: string, back: string, cardType?: 'basic' | 'cloze', clozeData?: string) => {
-      flashcardQueries.updateCard(db, id, front, back, cardType, clozeData);
+    (_, id: number, front: string, back: string, cardType?: FlashcardType, clozeData?: string) => {
+      if (cardType === 'cloze') {
+        flashcardQueries.updateClozeNote(db, id, clozeData ?? front, back);
+        return true;
+      }
+      if (cardType === 'image_occlusion') {
+        flashcardQueries.updateImageOcclusionNote(db, id, front, back);
+        return true;
+      }
+      db.transaction(() => {
+        flashcardQueries.removeSiblings(db, id);
+        flashcardQueries.updateCard(db, id, front, back, cardType, clozeData);
+      })();
       return true;
     }
   );
 
+  // Deleting a cloze or image occlusion card deletes the whole note (all siblings)
   ipcMain.handle(IPC_CHANNELS.FLASHCARD_DELETE_CARD, (_, id: number) => {
-    flashcardQueries.deleteCard(db, id);
+    db.transaction(() => {
+      for (const siblingId of flashcardQueries.getSiblingIds(db, id)) {
+        flashcardQueries.deleteCard(db, siblingId);
+      }
+    })();
+    return true;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_SET_SUSPENDED, (_, ids: number[], suspended: boolean) => {
+    flashcardQueries.setCardsSuspended(db, ids, suspended);
+    return true;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_SET_FLAG, (_, ids: number[], flag: CardFlag) => {
+    flashcardQueries.setCardsFlag(db, ids, flag);
+    return true;
+  });
+
+  // Image occlusion: crop the page region and create one card per mask
+  ipcMain.handle(
+    IPC_CHANNELS.FLASHCARD_CREATE_IMAGE_OCCLUSION,
+    async (_, deckId: number, input: ImageOcclusionInput) => {
+      const pdf = queries.getPdfById(db, input.pdfId);
+      if (!pdf) {
+        return { success: false, error: 'PDF nicht gefunden' };
+      }
+      if (input.masks.length === 0) {
+        return { success: false, error: 'Mindestens eine Maske erforderlich' };
+      }
+
+      try {
+        const pdfData = await fs.readFile(pdf.filePath);
+        const data = await renderPDFRegionToImage(pdfData, input.pageNum, input.region);
+        const cardIds = flashcardQueries.addImageOcclusionNote(
+          db,
+          deckId,
+          { pdfId: input.pdfId, pageNum: input.pageNum, region: input.region, masks: input.masks, data },
+          input.front,
+          input.back
+        );
+        return { success: true, cardIds };
+      } catch (error) {
+        console.error('Image occlusion error:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Bild konnte nicht erstellt werden' };
+      }
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_IMAGE, (_, imageId: number) => {
+    return flashcardQueries.getFlashcardImage(db, imageId);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_SOURCE, (_, id: number): CardSource | null => {
+    const card = flashcardQueries.getCardById(db, id);
+    const source = card ? flashcardQueries.getCardSourcePage(db, id) : null;
+    return card && source ? { ...source, highlightId: card.highlightId } : null;
+  });
+
+  // Card Browser Handlers
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_SEARCH, (_, query: string) => {
+    try {
+      const now = new Date();
+      const cards = flashcardQueries.searchCards(db, query, CARD_SEARCH_LIMIT).map(card => ({
+        ...card,
+        fsrs: { ...card.fsrs, retrievability: getRetrievability(dbToFsrsCard(card.fsrs), now) },
+      }));
+      return { success: true, cards };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Suche fehlgeschlagen' };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_MOVE_CARDS, (_, ids: number[], deckId: number) => {
+    flashcardQueries.moveCards(db, ids, deckId);
+    return true;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_RESET_CARDS, (_, ids: number[]) => {
+    flashcardQueries.resetCardsScheduling(db, ids);
+    return true;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_DELETE_CARDS, (_, ids: number[]) => {
+    flashcardQueries.deleteCards(db, ids);
+    return true;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_RETAG_CARDS, (_, ids: number[], addTags: string[], removeTags: string[]) => {
+    flashcardQueries.retagCards(db, ids, addTags, removeTags);
     return true;
   });
 
   // FSRS / Study Handlers
-  ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_DUE, (_, deckId?: number, limit?: number) => {
-    const cards = flashcardQueries.getDueCards(db, deckId, limit);
-    // Add next intervals preview for each card
+  // Add next intervals preview for each card, with the scheduler options of its deck
+  const withNextIntervals = (cards: FlashcardWithFSRS[]) => {
+    const optionsByDeck = new Map<number, SchedulerOptions>();
+    const schedulerOptions = (cardDeckId: number) => {
+      if (!optionsByDeck.has(cardDeckId)) {
+        optionsByDeck.set(cardDeckId, getSchedulerOptions(db, cardDeckId));
+      }
+      return optionsByDeck.get(cardDeckId);
+    };
     return cards.map(card => ({
       ...card,
-      nextIntervals: getNextIntervals(dbToFsrsCard(card.fsrs)),
+      nextIntervals: getNextIntervals(dbToFsrsCard(card.fsrs), new Date(), schedulerOptions(card.deckId)),
     }));
+  };
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_DUE, (_, deckId?: number, limit?: number) => {
+    const queue = flashcardQueries.getDueCards(db, getStudyLimits(db), deckId);
+    return withNextIntervals(limit !== undefined ? queue.slice(0, limit) : queue);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_FILTERED_CARDS, (_, id: number) => {
+    return withNextIntervals(flashcardQueries.getFilteredDeckCards(db, id));
   });
 
   ipcMain.handle(
     IPC_CHANNELS.FLASHCARD_SUBMIT_REVIEW,
-    (_, flashcardId: number, rating: FSRSRating) => {
+    (_, flashcardId: number, rating: FSRSRating, filteredSession = false, durationMs?: number) => {
       const card = flashcardQueries.getCardById(db, flashcardId);
       if (!card) {
         throw new Error('Karte nicht gefunden');
@@ -107,35 +302,120 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
 
       // Get current FSRS card state
       const fsrsCard = dbToFsrsCard(card.fsrs);
+      const schedulerOptions = getSchedulerOptions(db, card.deckId);
+
+      // Cards reviewed ahead in a filtered deck are only practiced, their schedule stays as it is
+      if (filteredSession && new Date(card.fsrs.due) > new Date()) {
+        return {
+          ...card,
+          reviewId: null,
+          leech: false,
+          nextIntervals: getNextIntervals(fsrsCard, new Date(), schedulerOptions),
+        };
+      }
 
-      // Calculate next review
-      const { card: nextCard } = getNextReview(fsrsCard, rating);
-
-      // Convert back to DB format
-      const nextFsrsData = fsrsCardToDb(nextCard);
-
-      // Update FSRS data in database
-      flashcardQueries.updateFSRS(db, flashcardId, nextFsrsData);
-
-      // Record the review
-      flashcardQueries.addReview(
-        db,
-        flashcardId,
-        rating,
-        nextFsrsData.scheduledDays,
-        nextFsrsData.elapsedDays,
-        nextFsrsData.state
-      );
+      const { reviewId, leech } = recordReview(db, card, rating, durationMs);
 
       // Return updated card with next intervals
       const updatedCard = flashcardQueries.getCardById(db, flashcardId);
       return {
         ...updatedCard,
-        nextIntervals: updatedCard ? getNextIntervals(dbToFsrsCard(updatedCard.fsrs)) : null,
+        reviewId,
+        leech,
+        nextIntervals: updatedCard
+          ? getNextIntervals(dbToFsrsCard(updatedCard.fsrs), new Date(), schedulerOptions)
+          : null,
       };
     }
   );
 
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_UNDO_REVIEW, (_, reviewId: number) => {
+    try {
+      const flashcardId = flashcardQueries.undoReview(db, reviewId);
+      return { success: true, flashcardId };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Ruckgangig machen fehlgeschlagen' };
+    }
+  });
+
+  // AI grading of a typed answer, with the card's source page as context
+  ipcMain.handle(
+    IPC_CHANNELS.FLASHCARD_GRADE_ANSWER,
+    async (_, flashcardId: number, userAnswer: string): Promise<{ success: boolean; grading?: AnswerGrading; error?: string }> => {
+      const card = flashcardQueries.getCardById(db, flashcardId);
+      if (!card) {
+        return { success: false, error: 'Karte nicht gefunden' };
+      }
+
+      const isCloze = card.cardType === 'cloze';
+      const source = flashcardQueries.getCardSourcePage(db, flashcardId);
+      const configs = getAIRouteConfigs(db, 'answer_grading', mainWindow);
+      const language = (queries.getSetting(db, 'flashcardLanguage') as 'de' | 'en') || 'de';
+
+      try {
+        const { grading, usage } = await runWithFallback(configs, config => gradeAnswer(config, {
+          question: isCloze ? renderCloze(card.front, card.clozeIndex, false) : card.front,
+          expectedAnswer: isCloze ? getClozeAnswer(card.front, card.clozeIndex) : card.back,
+          userAnswer,
+          sourceText: source ? queries.getPageContent(db, source.pdfId, source.pageNum) : null,
+        }, language));
+
+        queries.addApiUsage(
+          db,
+          usage.model,
+          'answer_grading',
+          usage.promptTokens,
+          usage.completionTokens,
+          usage.costUsd,
+          usage.provider,
+          usage.fallback
+        );
+
+        return { success: true, grading };
+      } catch (error: any) {
+        console.error('Answer grading error:', error);
+        return { success: false, error: error.message || 'Fehler bei der KI-Bewertung' };
+      }
+    }
+  );
+
+  // FSRS Parameter Optimization (global without deckId)
+  ipcMain.handle(
+    IPC_CHANNELS.FLASHCARD_OPTIMIZE_FSRS,
+    async (_, deckId?: number): Promise<{ success: boolean; optimization?: FsrsOptimization; error?: string }> => {
+      try {
+        const sequences = buildReviewSequences(flashcardQueries.getReviewHistory(db, deckId));
+        // Start from the weights currently used for this scope
+        const current = getFsrsOptimization(db, deckId) ?? (deckId !== undefined ? getFsrsOptimization(db) : null);
+        const result = await optimizeParameters(sequences, migrateParameters(current?.parameters));
+
+        const optimization: FsrsOptimization = { ...result, optimizedAt: new Date().toISOString() };
+        if (deckId !== undefined) {
+          flashcardQueries.setDeckFsrsOptimization(db, deckId, JSON.stringify(optimization));
+        } else {
+          queries.setSetting(db, 'fsrsOptimization', JSON.stringify(optimization));
+        }
+        return { success: true, optimization };
+      } catch (error: any) {
+        console.error('FSRS optimization error:', error);
+        return { success: false, error: error.message || 'Fehler bei der Optimierung' };
+      }
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_FSRS_OPTIMIZATION, (_, deckId?: number) => {
+    return getFsrsOptimization(db, deckId);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_RESET_FSRS, (_, deckId?: number) => {
+    if (deckId !== undefined) {
+      flashcardQueries.setDeckFsrsOptimization(db, deckId, null);
+    } else {
+      queries.setSetting(db, 'fsrsOptimization', '');
+    }
+    return { success: true };
+  });
+
   ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_STATS, (_, deckId?: number) => {
     return flashcardQueries.getStats(db, deckId);
   });
@@ -143,11 +423,27 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
   // Heatmap Handler
   ipcMain.handle(
     IPC_CHANNELS.FLASHCARD_GET_HEATMAP,
-    (_, timeframe: 'week' | 'month' | 'year', deckId?: number) => {
-      return flashcardQueries.getHeatmapData(db, timeframe, deckId);
+    (_, timeframe: 'week' | 'month' | 'year', deckId?: number, metric?: HeatmapMetric) => {
+      return flashcardQueries.getHeatmapData(db, timeframe, deckId, metric);
     }
   );
 
+  // Analytics Handler: forecast, retention and calibration against the global FSRS weights
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_GET_ANALYTICS, (_, forecastDays: number): FlashcardAnalytics => {
+    const sequences = buildReviewSequences(flashcardQueries.getReviewHistory(db));
+    const parameters = migrateParameters(getFsrsOptimization(db)?.parameters);
+
+    return {
+      forecast: getDueForecast(db, forecastDays),
+      retention: getDeckRetention(db),
+      stability: getStabilityDistribution(db),
+      difficulty: getDifficultyDistribution(db),
+      calibration: computeCalibration(parameters, sequences),
+      answerTime: getAnswerTimeStats(db),
+      desiredRetention: parseFloat(queries.getSetting(db, 'desiredRetention') || String(DEFAULT_DESIRED_RETENTION)),
+    };
+  });
+
   // LearnBuddy Export Handler
   ipcMain.handle(IPC_CHANNELS.FLASHCARD_EXPORT_LEARNBUDDY, async (_, deckId: number) => {
     const cards = flashcardQueries.getCardsByDeck(db, deckId);
@@ -196,6 +492,187 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
     }
   });
 
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_EXPORT_APKG, async (_, deckId: number) => {
+    const deck = flashcardQueries.getDeckById(db, deckId);
+    if (!deck) {
+      return { success: false, error: 'Deck nicht gefunden' };
+    }
+
+    const defaultFileName = `${deck.name.replace(/[^a-zA-Z0-9äöüÄÖÜß\-_\s]/g, '')}.apkg`;
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: 'Anki-Export speichern',
+      defaultPath: defaultFileName,
+      filters: [
+        { name: 'Anki-Paket', extensions: ['apkg'] },
+        { name: 'Alle Dateien', extensions: ['*'] },
+      ],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    try {
+      // Image occlusion cards need their image and masks, which the exported note types cannot carry
+      const cards = flashcardQueries.getCardsByDeck(db, deckId).filter(card => card.cardType !== 'image_occlusion');
+      const cardIds = new Set(cards.map(card => card.id));
+      const reviews = flashcardQueries.getReviewsByDeck(db, deckId).filter(review => cardIds.has(review.flashcardId));
+      await fs.writeFile(result.filePath, createApkg({ deck, cards, reviews }));
+      return { success: true, filePath: result.filePath, cardCount: cards.length, reviewCount: reviews.length };
+    } catch (error) {
+      console.error('Anki export error:', error);
+      return { success: false, error: 'Fehler beim Speichern' };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_IMPORT_APKG, async (_, pdfId?: number) => {
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Anki-Paket importieren',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Anki-Paket', extensions: ['apkg', 'colpkg'] },
+        { name: 'Alle Dateien', extensions: ['*'] },
+      ],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    try {
+      const decks = readApkg(await fs.readFile(result.filePaths[0]));
+      let cardCount = 0;
+      let reviewCount = 0;
+
+      db.transaction(() => {
+        for (const deck of decks) {
+          const deckId = flashcardQueries.createDeck(db, deck.name, pdfId, deck.description ?? undefined);
+          const siblingGroups = new Map<number, number>();
+          for (const card of deck.cards) {
+            const cardId = card.clozeIndex !== null
+              ? flashcardQueries.addClozeCard(
+                db,
+                deckId,
+                card.front,
+                card.back,
+                card.clozeIndex,
+                siblingGroups.get(card.noteId) ?? null,
+                undefined,
+                card.sourcePage ?? undefined
+              )
+              : flashcardQueries.addCard(
+                db,
+                deckId,
+                card.front,
+                card.back,
+                card.cardType,
+                undefined,
+                card.sourcePage ?? undefined,
+                card.clozeData ?? undefined
+              );
+            if (!siblingGroups.has(card.noteId)) {
+              siblingGroups.set(card.noteId, cardId);
+            }
+            flashcardQueries.updateFSRS(db, cardId, card.fsrs);
+            if (card.tags.length > 0) {
+              flashcardQueries.updateCardTags(db, cardId, card.tags);
+            }
+            if (card.suspended) {
+              flashcardQueries.setCardsSuspended(db, [cardId], true);
+            }
+            if (card.flag !== 0) {
+              flashcardQueries.setCardsFlag(db, [cardId], card.flag);
+            }
+            for (const review of card.reviews) {
+              flashcardQueries.addReview(
+                db,
+                cardId,
+                review.rating,
+                review.scheduledDays,
+                review.elapsedDays,
+                review.state,
+                review.reviewedAt,
+                undefined,
+                review.durationMs ?? undefined
+              );
+            }
+            cardCount++;
+            reviewCount += card.reviews.length;
+          }
+        }
+      })();
+
+      return { success: true, deckCount: decks.length, cardCount, reviewCount };
+    } catch (error) {
+      console.error('Anki import error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Import fehlgeschlagen' };
+    }
+  });
+
+  // Text import (CSV/TSV, Markdown, Quizlet)
+  ipcMain.handle(IPC_CHANNELS.FLASHCARD_IMPORT_SELECT_FILE, async () => {
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Karteikarten importieren',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Karteikarten', extensions: ['csv', 'tsv', 'txt', 'md', 'markdown'] },
+        { name: 'Alle Dateien', extensions: ['*'] },
+      ],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    try {
+      const filePath = result.filePaths[0];
+      const content = await fs.readFile(filePath, 'utf-8');
+      return { success: true, filePath, content, format: detectImportFormat(filePath) };
+    } catch (error) {
+      console.error('Import read error:', error);
+      return { success: false, error: 'Datei konnte nicht gelesen werden' };
+    }
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.FLASHCARD_IMPORT_PREVIEW,
+    (_, deckId: number, content: string, options: FlashcardImportOptions): FlashcardImportPreview => {
+      const existingFronts = flashcardQueries.getCardsByDeck(db, deckId).map(card => card.front);
+      return previewImport(content, options, existingFronts);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.FLASHCARD_IMPORT_CARDS,
+    (_, deckId: number, content: string, options: FlashcardImportOptions, skipDuplicates: boolean) => {
+      if (!flashcardQueries.getDeckById(db, deckId)) {
+        return { success: false, error: 'Deck nicht gefunden' };
+      }
+
+      try {
+        const existingFronts = flashcardQueries.getCardsByDeck(db, deckId).map(card => card.front);
+        const { cards } = previewImport(content, options, existingFronts);
+        const toImport = skipDuplicates ? cards.filter(card => !card.duplicate) : cards;
+
+        db.transaction(() => {
+          for (const card of toImport) {
+            const cardIds = card.cardType === 'cloze'
+              ? flashcardQueries.addClozeNote(db, deckId, card.front, card.back, undefined, card.sourcePage ?? undefined)
+              : [flashcardQueries.addCard(db, deckId, card.front, card.back, 'basic', undefined, card.sourcePage ?? undefined)];
+            if (card.tags.length > 0) {
+              cardIds.forEach(cardId => flashcardQueries.updateCardTags(db, cardId, card.tags));
+            }
+          }
+        })();
+
+        return { success: true, imported: toImport.length, skipped: cards.length - toImport.length };
+      } catch (error) {
+        console.error('Import error:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Import fehlgeschlagen' };
+      }
+    }
+  );
+
   // AI Generation Handler
   ipcMain.handle(
     IPC_CHANNELS.FLASHCARD_GENERATE_AI,
@@ -207,10 +684,12 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
         count: number;
       }
     ): Promise<{ success: boolean; cards?: GeneratedCard[]; error?: string }> => {
-      const config = getAIConfig(db);
+      const configs = getAIRouteConfigs(db, 'flashcard_generation', mainWindow);
 
       try {
-        const { cards, usage } = await generateFlashcards(config, text, options);
+        const { cards, usage } = await runWithFallback(configs, config =>
+          generateFlashcards(config, text, options)
+        );
 
         // Track API usage
         queries.addApiUsage(
@@ -219,7 +698,9 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
           'flashcard_generation',
           usage.promptTokens,
           usage.completionTokens,
-          usage.costUsd
+          usage.costUsd,
+          usage.provider,
+          usage.fallback
         );
 
         return { success: true, cards };
@@ -258,35 +739,68 @@ export function registerFlashcardHandlers({ db, mainWindow }: HandlerContext): v
       options: {
         language: 'de' | 'en';
         count: number;
-      }
-    ): Promise<{ success: boolean; cards?: GeneratedCard[]; error?: string }> => {
-      const config = getAIConfig(db);
+        deckId?: number;    // Skip cards already in this deck
+      },
+      requestId?: string
+    ): Promise<{
+      success: boolean;
+      cards?: GeneratedCard[];
+      duplicatesRemoved?: number;
+      failedChunks?: number;
+      cancelled?: boolean;
+      error?: string;
+    }> => {
+      const configs = getAIRouteConfigs(db, 'flashcard_generation', mainWindow);
+      // Cancelled through AI_STREAM_CANCEL like the streamed requests
+      const controller = requestId ? registerAIStream(requestId) : null;
 
       try {
-        // Extract text from the specified pages
-        const { text } = await extractTextFromPages(filePath, pageNumbers);
+        const { pages } = await extractPages(filePath, pageNumbers);
 
-        if (!text.trim()) {
+        if (pages.length === 0) {
           return { success: false, error: 'Kein Text auf den ausgewaehlten Seiten gefunden.' };
         }
 
-        // Generate flashcards from the extracted text
-        const { cards, usage } = await generateFlashcards(config, text, options);
-
-        // Track API usage
-        queries.addApiUsage(
-          db,
-          usage.model,
-          'flashcard_generation_pdf',
-          usage.promptTokens,
-          usage.completionTokens,
-          usage.costUsd
-        );
-
-        return { success: true, cards };
+        const existingFronts = options.deckId
+          ? flashcardQueries.getCardsByDeck(db, options.deckId).map(card => card.front)
+          : [];
+
+        const result = await generateFlashcardsInChunks(configs, pages, {
+          language: options.language,
+          count: options.count,
+          existingFronts,
+          signal: controller?.signal,
+          onProgress: progress => {
+            if (!requestId) return;
+            mainWindow.webContents.send(IPC_CHANNELS.FLASHCARD_GENERATION_PROGRESS, { requestId, ...progress });
+          },
+          // Track API usage per chunk
+          onUsage: usage => {
+            queries.addApiUsage(
+              db,
+              usage.model,
+              'flashcard_generation_pdf',
+              usage.promptTokens,
+              usage.completionTokens,
+              usage.costUsd,
+              usage.provider,
+              usage.fallback
+            );
+          },
+        });
+
+        return {
+          success: true,
+          cards: result.cards,
+          duplicatesRemoved: result.duplicatesRemoved,
+          failedChunks: result.failedChunks,
+          cancelled: result.cancelled,
+        };
       } catch (error: any) {
         console.error('PDF AI generation error:', error);
         return { success: false, error: error.message || 'Fehler bei der KI-Generierung' };
+      } finally {
+        if (requestId) unregisterAIStream(requestId);
       }
     }
   );
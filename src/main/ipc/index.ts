@@ -11,6 +11,9 @@ import { registerFlashcardHandlers } from './flashcard-handlers';
 import { registerAiHandlers } from './ai-handlers';
 import { registerReadingHandlers } from './reading-handlers';
 import { registerOllamaHandlers } from './ollama-handlers';
+import { registerEmbeddingHandlers } from './embedding-handlers';
+import { registerChatHandlers } from './chat-handlers';
+import { registerExamHandlers } from './exam-handlers';
 
 /**
  * Register all IPC handlers for the main process.
@@ -29,6 +32,9 @@ export function registerIpcHandlers(db: DatabaseInstance, mainWindow: BrowserWin
   registerAiHandlers(context);
   registerReadingHandlers(context);
   registerOllamaHandlers(context);
+  registerEmbeddingHandlers(context);
+  registerChatHandlers(context);
+  registerExamHandlers(context);
 }
 
 // Re-export types and state for external use
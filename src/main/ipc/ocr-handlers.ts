@@ -1,5 +1,6 @@
 import { ipcMain, BrowserWindow } from 'electron';
 import * as queries from '../database/queries';
+import * as embeddingQueries from '../database/embedding-queries';
 import { pageNeedsOCR, processPageOCR, terminateWorker, clearPdfCache } from '../pdf/ocr';
 import { IPC_CHANNELS } from '../../shared/ipc-channels';
 import type { DatabaseInstance } from '../database';
@@ -168,6 +169,8 @@ async function processOCRForPdf(
       if (result && result.content) {
         // Update the page content in the database
         queries.updatePageContent(db, pdf.id, pageNum, result.content);
+        // Page text changed - its embeddings are stale now
+        embeddingQueries.deletePageEmbeddings(db, pdf.id, pageNum);
         contentSaved = true;
         console.log(`OCR saved for page ${pageNum}: ${result.content.substring(0, 50)}...`);
       }
@@ -1,9 +1,15 @@
 import { ipcMain } from 'electron';
 import path from 'path';
 import * as queries from '../database/queries';
+import * as embeddingQueries from '../database/embedding-queries';
 import { extractTextFromPDF, extractTextFromPages, computeFileHash, findPDFsInFolder, extractOutline } from '../pdf/extractor';
 import { generateOutlineFromText } from '../flashcards/ai-generator';
+import { runWithFallback } from '../ai/routing';
+import { embedTexts, getEmbeddingModelName } from '../ai/embeddings';
+import { fuseSearchResults, DEFAULT_SEMANTIC_WEIGHT } from '../search/hybrid';
 import { IPC_CHANNELS } from '../../shared/ipc-channels';
+import type { DatabaseInstance } from '../database';
+import type { SearchMode, SearchResult } from '../../shared/types';
 import type { HandlerContext } from './types';
 import {
   indexingStatus,
@@ -12,7 +18,7 @@ import {
   setCachedSearchResults,
   clearSearchCache,
 } from './state';
-import { getAIConfig } from './utils';
+import { getAIConfig, getAIRouteConfigs } from './utils';
 
 export function registerPdfHandlers({ db, mainWindow }: HandlerContext): void {
   // PDFs
@@ -30,7 +36,7 @@ export function registerPdfHandlers({ db, mainWindow }: HandlerContext): void {
 
   // AI-based outline generation
   ipcMain.handle(IPC_CHANNELS.GENERATE_AI_OUTLINE, async (_, filePath: string, pageCount: number) => {
-    const config = getAIConfig(db);
+    const configs = getAIRouteConfigs(db, 'outline_generation', mainWindow);
 
     try {
       // Extract text from first 15 pages (usually contains TOC)
@@ -42,7 +48,9 @@ export function registerPdfHandlers({ db, mainWindow }: HandlerContext): void {
         return { success: false, error: 'Nicht genug Text gefunden. Moeglicherweise ist OCR erforderlich.' };
       }
 
-      const { outline, usage } = await generateOutlineFromText(config, text, pageCount);
+      const { outline, usage } = await runWithFallback(configs, config =>
+        generateOutlineFromText(config, text, pageCount)
+      );
 
       // Track API usage
       queries.addApiUsage(
@@ -51,7 +59,9 @@ export function registerPdfHandlers({ db, mainWindow }: HandlerContext): void {
         'outline_generation',
         usage.promptTokens,
         usage.completionTokens,
-        usage.costUsd
+        usage.costUsd,
+        usage.provider,
+        usage.fallback
       );
 
       return { success: true, outline };
@@ -124,6 +134,7 @@ export function registerPdfHandlers({ db, mainWindow }: HandlerContext): void {
         if (existingPdf) {
           // Update existing PDF
           queries.deletePageContent(db, existingPdf.id);
+          embeddingQueries.deletePdfEmbeddings(db, existingPdf.id);
           pdfId = existingPdf.id;
         } else {
           // Insert new PDF
@@ -178,12 +189,15 @@ export function registerPdfHandlers({ db, mainWindow }: HandlerContext): void {
   });
 
   // Search (with caching for performance)
-  ipcMain.handle(IPC_CHANNELS.SEARCH, (_, query: string) => {
+  ipcMain.handle(IPC_CHANNELS.SEARCH, async (_, query: string) => {
     const searchLimit = parseInt(queries.getSetting(db, 'searchLimit') || '100', 10);
-    const searchMode = (queries.getSetting(db, 'searchMode') as 'exact' | 'fuzzy' | 'intelligent') || 'intelligent';
+    const searchMode = (queries.getSetting(db, 'searchMode') as SearchMode) || 'intelligent';
+    const semanticWeight = parseFloat(
+      queries.getSetting(db, 'hybridSemanticWeight') || String(DEFAULT_SEMANTIC_WEIGHT)
+    );
 
     // Create cache key from query parameters
-    const cacheKey = `${query}|${searchLimit}|${searchMode}`;
+    const cacheKey = `${query}|${searchLimit}|${searchMode}|${semanticWeight}`;
 
     // Check cache first
     const cachedResults = getCachedSearchResults(cacheKey);
@@ -192,7 +206,7 @@ export function registerPdfHandlers({ db, mainWindow }: HandlerContext): void {
     }
 
     // Execute search and cache results
-    const results = queries.search(db, query, searchLimit, searchMode);
+    const results = await runSearch(db, query, searchLimit, searchMode, semanticWeight);
     setCachedSearchResults(cacheKey, results);
     return results;
   });
@@ -202,3 +216,66 @@ export function registerPdfHandlers({ db, mainWindow }: HandlerContext): void {
     return queries.getAllPdfsWithProgress(db);
   });
 }
+
+/**
+ * Embed the query and rank pages by vector similarity.
+ * Returns null if no embeddings exist for the model or the provider fails.
+ */
+async function runSemanticSearch(
+  db: DatabaseInstance,
+  query: string,
+  limit: number
+): Promise<SearchResult[] | null> {
+  if (!query.trim()) return [];
+
+  const config = getAIConfig(db);
+  const model = getEmbeddingModelName(config);
+
+  if (embeddingQueries.getEmbeddingCoverage(db, model).embeddedPages === 0) {
+    console.warn(`No embeddings for model ${model} - semantic search unavailable`);
+    return null;
+  }
+
+  try {
+    const { vectors, usage } = await embedTexts(config, [query.trim()]);
+
+    queries.addApiUsage(
+      db,
+      usage.model,
+      'search_embedding',
+      usage.promptTokens,
+      usage.completionTokens,
+      usage.costUsd
+    );
+
+    return embeddingQueries.searchSemantic(db, vectors[0], model, limit);
+  } catch (error) {
+    console.error('Semantic search error:', error);
+    return null;
+  }
+}
+
+/**
+ * Run the configured search mode. Semantic and hybrid modes fall back to
+ * keyword search when no semantic results are available.
+ */
+async function runSearch(
+  db: DatabaseInstance,
+  query: string,
+  limit: number,
+  mode: SearchMode,
+  semanticWeight: number
+): Promise<SearchResult[]> {
+  if (mode !== 'semantic' && mode !== 'hybrid') {
+    return queries.search(db, query, limit, mode);
+  }
+
+  const semanticResults = await runSemanticSearch(db, query, limit);
+
+  if (mode === 'semantic') {
+    return semanticResults ?? queries.search(db, query, limit, 'intelligent');
+  }
+
+  const keywordResults = queries.search(db, query, limit, 'intelligent');
+  return fuseSearchResults(keywordResults, semanticResults ?? [], semanticWeight, limit);
+}
@@ -2,9 +2,12 @@ import { ipcMain, dialog } from 'electron';
 import * as queries from '../database/queries';
 import { startFileWatcher } from '../file-watcher';
 import { IPC_CHANNELS } from '../../shared/ipc-channels';
-import type { AppSettings } from '../../shared/types';
+import { DEFAULT_OLLAMA_EMBEDDING_MODEL, DEFAULT_OPENAI_EMBEDDING_MODEL } from '../ai/embeddings';
+import { DEFAULT_SEMANTIC_WEIGHT } from '../search/hybrid';
+import { DEFAULT_DESIRED_RETENTION } from '../flashcards/fsrs';
+import type { AppSettings, SearchMode } from '../../shared/types';
 import type { HandlerContext } from './types';
-import { safeJsonParse } from './utils';
+import { safeJsonParse, getCustomProviders, getLeechSettings, getStudyLimits } from './utils';
 
 export function registerSettingsHandlers({ db, mainWindow }: HandlerContext): void {
   // Folder Selection
@@ -29,25 +32,38 @@ export function registerSettingsHandlers({ db, mainWindow }: HandlerContext): vo
 
   // Settings
   ipcMain.handle(IPC_CHANNELS.GET_SETTINGS, (): AppSettings => {
+    const studyLimits = getStudyLimits(db);
+    const leech = getLeechSettings(db);
     return {
       pdfFolder: queries.getSetting(db, 'pdfFolder'),
       theme: (queries.getSetting(db, 'theme') as 'light' | 'dark') || 'light',
       ocrEnabled: queries.getSetting(db, 'ocrEnabled') === 'true',
       ocrLanguages: safeJsonParse(queries.getSetting(db, 'ocrLanguages'), ['deu', 'eng']),
       searchLimit: parseInt(queries.getSetting(db, 'searchLimit') || '100', 10),
-      searchMode: (queries.getSetting(db, 'searchMode') as 'exact' | 'fuzzy' | 'intelligent') || 'intelligent',
+      searchMode: (queries.getSetting(db, 'searchMode') as SearchMode) || 'intelligent',
+      hybridSemanticWeight: parseFloat(queries.getSetting(db, 'hybridSemanticWeight') || String(DEFAULT_SEMANTIC_WEIGHT)),
       // AI Provider Settings
-      aiProvider: (queries.getSetting(db, 'aiProvider') as 'openai' | 'ollama') || 'openai',
+      aiProvider: queries.getSetting(db, 'aiProvider') || 'openai',
+      customProviders: getCustomProviders(db),
+      operationRoutes: safeJsonParse(queries.getSetting(db, 'operationRoutes'), {}),
+      // API Budget
+      dailyBudgetUsd: parseFloat(queries.getSetting(db, 'dailyBudgetUsd') || '0'),
+      monthlyBudgetUsd: parseFloat(queries.getSetting(db, 'monthlyBudgetUsd') || '0'),
       // OpenAI Settings
       openaiApiKey: queries.getSetting(db, 'openaiApiKey'),
       openaiModel: (queries.getSetting(db, 'openaiModel') as 'gpt-5-nano' | 'gpt-5-mini' | 'gpt-5.2') || 'gpt-5-mini',
+      openaiEmbeddingModel: queries.getSetting(db, 'openaiEmbeddingModel') || DEFAULT_OPENAI_EMBEDDING_MODEL,
       // Ollama Settings
       ollamaModel: queries.getSetting(db, 'ollamaModel') || 'llama3.1',
       ollamaBaseUrl: queries.getSetting(db, 'ollamaBaseUrl') || 'http://localhost:11434',
+      ollamaEmbeddingModel: queries.getSetting(db, 'ollamaEmbeddingModel') || DEFAULT_OLLAMA_EMBEDDING_MODEL,
       // Flashcard Settings
       flashcardLanguage: (queries.getSetting(db, 'flashcardLanguage') as 'de' | 'en') || 'de',
-      dailyNewCards: parseInt(queries.getSetting(db, 'dailyNewCards') || '20', 10),
-      dailyReviewCards: parseInt(queries.getSetting(db, 'dailyReviewCards') || '100', 10),
+      dailyNewCards: studyLimits.newCards,
+      dailyReviewCards: studyLimits.reviewCards,
+      desiredRetention: parseFloat(queries.getSetting(db, 'desiredRetention') || String(DEFAULT_DESIRED_RETENTION)),
+      leechThreshold: leech.threshold,
+      leechAction: leech.action,
     };
   });
 
@@ -70,10 +86,26 @@ export function registerSettingsHandlers({ db, mainWindow }: HandlerContext): vo
     if (settings.searchMode !== undefined) {
       queries.setSetting(db, 'searchMode', settings.searchMode);
     }
+    if (settings.hybridSemanticWeight !== undefined) {
+      queries.setSetting(db, 'hybridSemanticWeight', String(settings.hybridSemanticWeight));
+    }
     // AI Provider Settings
     if (settings.aiProvider !== undefined) {
       queries.setSetting(db, 'aiProvider', settings.aiProvider);
     }
+    if (settings.customProviders !== undefined) {
+      queries.setSetting(db, 'customProviders', JSON.stringify(settings.customProviders));
+    }
+    if (settings.operationRoutes !== undefined) {
+      queries.setSetting(db, 'operationRoutes', JSON.stringify(settings.operationRoutes));
+    }
+    // API Budget
+    if (settings.dailyBudgetUsd !== undefined) {
+      queries.setSetting(db, 'dailyBudgetUsd', String(settings.dailyBudgetUsd));
+    }
+    if (settings.monthlyBudgetUsd !== undefined) {
+      queries.setSetting(db, 'monthlyBudgetUsd', String(settings.monthlyBudgetUsd));
+    }
     // OpenAI Settings
     if (settings.openaiApiKey !== undefined) {
       queries.setSetting(db, 'openaiApiKey', settings.openaiApiKey || '');
@@ -81,6 +113,9 @@ export function registerSettingsHandlers({ db, mainWindow }: HandlerContext): vo
     if (settings.openaiModel !== undefined) {
       queries.setSetting(db, 'openaiModel', settings.openaiModel);
     }
+    if (settings.openaiEmbeddingModel !== undefined) {
+      queries.setSetting(db, 'openaiEmbeddingModel', settings.openaiEmbeddingModel);
+    }
     // Ollama Settings
     if (settings.ollamaModel !== undefined) {
       queries.setSetting(db, 'ollamaModel', settings.ollamaModel);
@@ -88,6 +123,9 @@ export function registerSettingsHandlers({ db, mainWindow }: HandlerContext): vo
     if (settings.ollamaBaseUrl !== undefined) {
       queries.setSetting(db, 'ollamaBaseUrl', settings.ollamaBaseUrl);
     }
+    if (settings.ollamaEmbeddingModel !== undefined) {
+      queries.setSetting(db, 'ollamaEmbeddingModel', settings.ollamaEmbeddingModel);
+    }
     // Flashcard Settings
     if (settings.flashcardLanguage !== undefined) {
       queries.setSetting(db, 'flashcardLanguage', settings.flashcardLanguage);
@@ -98,6 +136,15 @@ export function registerSettingsHandlers({ db, mainWindow }: HandlerContext): vo
     if (settings.dailyReviewCards !== undefined) {
       queries.setSetting(db, 'dailyReviewCards', String(settings.dailyReviewCards));
     }
+    if (settings.desiredRetention !== undefined) {
+      queries.setSetting(db, 'desiredRetention', String(settings.desiredRetention));
+    }
+    if (settings.leechThreshold !== undefined) {
+      queries.setSetting(db, 'leechThreshold', String(settings.leechThreshold));
+    }
+    if (settings.leechAction !== undefined) {
+      queries.setSetting(db, 'leechAction', settings.leechAction);
+    }
     return true;
   });
 }
@@ -1,4 +1,4 @@
-import type { IndexingStatus, OCRStatus, SearchResult } from '../../shared/types';
+import type { IndexingStatus, OCRStatus, SearchResult, SemanticIndexStatus } from '../../shared/types';
 
 // Shared state across IPC handlers
 export let indexingStatus: IndexingStatus = {
@@ -21,6 +21,17 @@ export let ocrStatus: OCRStatus = {
 
 export let ocrCancelled = false;
 
+export let semanticIndexStatus: SemanticIndexStatus = {
+  isIndexing: false,
+  model: null,
+  totalPages: 0,
+  processedPages: 0,
+  indexedPages: 0,
+  error: null,
+};
+
+export let semanticIndexCancelled = false;
+
 // State setters (needed since we're exporting let variables)
 export function setIndexingStatus(status: IndexingStatus): void {
   indexingStatus = status;
@@ -42,6 +53,14 @@ export function updateOcrStatus(updates: Partial<OCRStatus>): void {
   ocrStatus = { ...ocrStatus, ...updates };
 }
 
+export function updateSemanticIndexStatus(updates: Partial<SemanticIndexStatus>): void {
+  semanticIndexStatus = { ...semanticIndexStatus, ...updates };
+}
+
+export function setSemanticIndexCancelled(cancelled: boolean): void {
+  semanticIndexCancelled = cancelled;
+}
+
 // LRU cache for search results (performance optimization)
 const searchCache = new Map<string, { results: SearchResult[]; timestamp: number }>();
 const SEARCH_CACHE_MAX_SIZE = 50;
@@ -88,3 +107,35 @@ export function setCachedSearchResults(cacheKey: string, results: SearchResult[]
 export function clearSearchCache(): void {
   searchCache.clear();
 }
+
+// Abort controllers of running streamed AI requests, keyed by the renderer's request id
+const activeAIStreams = new Map<string, AbortController>();
+
+export function registerAIStream(requestId: string): AbortController {
+  const controller = new AbortController();
+  activeAIStreams.set(requestId, controller);
+  return controller;
+}
+
+export function unregisterAIStream(requestId: string): void {
+  activeAIStreams.delete(requestId);
+}
+
+export function cancelAIStream(requestId: string): boolean {
+  const controller = activeAIStreams.get(requestId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
+
+// Budget warnings already shown, keyed by period (e.g. "daily:2026-03-14")
+const shownBudgetWarnings = new Set<string>();
+
+/**
+ * Remember a budget warning. Returns false if it was already shown.
+ */
+export function markBudgetWarningShown(key: string): boolean {
+  if (shownBudgetWarnings.has(key)) return false;
+  shownBudgetWarnings.add(key);
+  return true;
+}
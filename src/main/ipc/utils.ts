@@ -1,7 +1,28 @@
+import type { BrowserWindow } from 'electron';
 import type { DatabaseInstance } from '../database';
-import type { AIProviderConfig } from '../ai/provider';
-import type { AIProvider, OpenAIModel } from '../../shared/types';
+import { ChatCancelledError, type AIProviderConfig, type ChatStreamOptions } from '../ai/provider';
+import { resolveProviderConfig, resolveRouteConfigs } from '../ai/providers';
+import { assertWithinBudget, getBudgetWarning } from '../ai/budget';
+import { IPC_CHANNELS } from '../../shared/ipc-channels';
+import type {
+  AIModelRoute,
+  AIOperation,
+  BudgetStatus,
+  CustomAIProvider,
+  FlashcardWithFSRS,
+  FsrsOptimization,
+  FSRSRating,
+  LeechAction,
+  LinkResolution,
+  OpenAIModel,
+  StudyLimits,
+} from '../../shared/types';
 import * as queries from '../database/queries';
+import * as flashcardQueries from '../flashcards/queries';
+import { DEFAULT_DESIRED_RETENTION, dbToFsrsCard, fsrsCardToDb, getNextReview, type SchedulerOptions } from '../flashcards/fsrs';
+import { DEFAULT_LEECH_THRESHOLD, isLeechLapse } from '../flashcards/leech';
+import { parseWikiLinks } from '../links/parser';
+import { markBudgetWarningShown } from './state';
 
 /**
  * Safely parse JSON with a fallback value.
@@ -18,18 +39,263 @@ export function safeJsonParse<T>(json: string | null | undefined, fallback: T):
 }
 
 /**
- * Get AI provider configuration from database settings
+ * Get AI provider configuration from database settings.
+ * Requests are checked against the budget caps; pass the window to show 80% warnings.
  */
-export function getAIConfig(db: DatabaseInstance): AIProviderConfig {
-  const provider = (queries.getSetting(db, 'aiProvider') as AIProvider) || 'openai';
+export function getAIConfig(db: DatabaseInstance, mainWindow?: BrowserWindow): AIProviderConfig {
+  return resolveProviderConfig(
+    getBaseAIConfig(db, mainWindow),
+    getDefaultProviderId(db),
+    getCustomProviders(db)
+  );
+}
+
+/**
+ * Get the provider configurations routed to an operation, primary model first.
+ * Without a configured route the default provider and model are used.
+ * Billed attempts that failed on the way are tracked under the operation.
+ */
+export function getAIRouteConfigs(
+  db: DatabaseInstance,
+  operation: AIOperation,
+  mainWindow?: BrowserWindow
+): AIProviderConfig[] {
+  const routes = safeJsonParse<Partial<Record<AIOperation, AIModelRoute[]>>>(
+    queries.getSetting(db, 'operationRoutes'),
+    {}
+  );
+
+  const base: AIProviderConfig = {
+    ...getBaseAIConfig(db, mainWindow),
+    trackFailedUsage: usage => queries.addApiUsage(
+      db,
+      usage.model,
+      operation,
+      usage.promptTokens,
+      usage.completionTokens,
+      usage.costUsd,
+      usage.provider,
+      usage.fallback
+    ),
+  };
+
+  return resolveRouteConfigs(
+    base,
+    routes[operation] || [],
+    getDefaultProviderId(db),
+    getCustomProviders(db)
+  );
+}
+
+// Local midnight of today and the first of the month, where the caps start counting
+function getBudgetPeriodStarts(): { dayStart: Date; monthStart: Date } {
+  const dayStart = new Date();
+  dayStart.setHours(0, 0, 0, 0);
+  return { dayStart, monthStart: new Date(dayStart.getFullYear(), dayStart.getMonth(), 1) };
+}
+
+/**
+ * Get today's and this month's API spending together with the caps
+ */
+export function getBudgetStatus(db: DatabaseInstance): BudgetStatus {
+  const { dayStart, monthStart } = getBudgetPeriodStarts();
 
   return {
-    provider,
+    todayUsd: queries.getApiCostSince(db, dayStart),
+    monthUsd: queries.getApiCostSince(db, monthStart),
+    dailyLimitUsd: parseFloat(queries.getSetting(db, 'dailyBudgetUsd') || '0'),
+    monthlyLimitUsd: parseFloat(queries.getSetting(db, 'monthlyBudgetUsd') || '0'),
+  };
+}
+
+// Refuse requests over a cap and warn once per period when 80% is reached
+function createBudgetGuard(db: DatabaseInstance, mainWindow?: BrowserWindow): (estimatedCostUsd: number) => void {
+  return (estimatedCostUsd) => {
+    const status = getBudgetStatus(db);
+    assertWithinBudget(status, estimatedCostUsd);
+
+    const warning = getBudgetWarning(status, estimatedCostUsd);
+    if (!warning || !mainWindow) return;
+
+    // Local dates like getBudgetStatus, so the warning period matches the counted one
+    const { dayStart } = getBudgetPeriodStarts();
+    const month = `${dayStart.getFullYear()}-${String(dayStart.getMonth() + 1).padStart(2, '0')}`;
+    const periodKey = warning.period === 'daily' ? `${month}-${String(dayStart.getDate()).padStart(2, '0')}` : month;
+    if (markBudgetWarningShown(`${warning.period}:${periodKey}`)) {
+      mainWindow.webContents.send(IPC_CHANNELS.BUDGET_WARNING, warning);
+    }
+  };
+}
+
+function getDefaultProviderId(db: DatabaseInstance): string {
+  return queries.getSetting(db, 'aiProvider') || 'openai';
+}
+
+// Settings of the built-in providers, shared by all routes
+function getBaseAIConfig(db: DatabaseInstance, mainWindow?: BrowserWindow): AIProviderConfig {
+  return {
+    provider: 'openai',
     // OpenAI settings
     openaiApiKey: queries.getSetting(db, 'openaiApiKey'),
     openaiModel: (queries.getSetting(db, 'openaiModel') as OpenAIModel) || 'gpt-5-mini',
     // Ollama settings
     ollamaModel: queries.getSetting(db, 'ollamaModel') || 'llama3.1',
     ollamaBaseUrl: queries.getSetting(db, 'ollamaBaseUrl') || 'http://localhost:11434',
+    // Embedding models
+    openaiEmbeddingModel: queries.getSetting(db, 'openaiEmbeddingModel') || undefined,
+    ollamaEmbeddingModel: queries.getSetting(db, 'ollamaEmbeddingModel') || undefined,
+    checkBudget: createBudgetGuard(db, mainWindow),
+  };
+}
+
+/**
+ * Get the user-defined OpenAI-compatible providers
+ */
+export function getCustomProviders(db: DatabaseInstance): CustomAIProvider[] {
+  return safeJsonParse<CustomAIProvider[]>(queries.getSetting(db, 'customProviders'), []);
+}
+
+/**
+ * Get the global daily study limits (decks may override them)
+ */
+export function getStudyLimits(db: DatabaseInstance): StudyLimits {
+  return {
+    newCards: parseInt(queries.getSetting(db, 'dailyNewCards') || '20', 10),
+    reviewCards: parseInt(queries.getSetting(db, 'dailyReviewCards') || '100', 10),
+  };
+}
+
+export function getLeechSettings(db: DatabaseInstance): { threshold: number; action: LeechAction } {
+  return {
+    threshold: parseInt(queries.getSetting(db, 'leechThreshold') || String(DEFAULT_LEECH_THRESHOLD), 10),
+    action: (queries.getSetting(db, 'leechAction') as LeechAction) || 'tag',
   };
 }
+
+/**
+ * Get the stored FSRS optimization of a deck, or the global one without a deck
+ */
+export function getFsrsOptimization(db: DatabaseInstance, deckId?: number): FsrsOptimization | null {
+  const json = deckId !== undefined
+    ? flashcardQueries.getDeckFsrsOptimization(db, deckId)
+    : queries.getSetting(db, 'fsrsOptimization');
+  return safeJsonParse<FsrsOptimization | null>(json, null);
+}
+
+/**
+ * Get the scheduler options for a deck: its own weights, else the global ones
+ */
+export function getSchedulerOptions(db: DatabaseInstance, deckId: number): SchedulerOptions {
+  const optimization = getFsrsOptimization(db, deckId) ?? getFsrsOptimization(db);
+  return {
+    parameters: optimization?.parameters ?? null,
+    desiredRetention: parseFloat(queries.getSetting(db, 'desiredRetention') || String(DEFAULT_DESIRED_RETENTION)),
+  };
+}
+
+/**
+ * Rate a card now: schedule it, record the review with the state before it
+ * (for undo) and handle a new leech. Used by study sessions and practice exams.
+ */
+export function recordReview(
+  db: DatabaseInstance,
+  card: FlashcardWithFSRS,
+  rating: FSRSRating,
+  durationMs?: number
+): { reviewId: number; leech: boolean } {
+  const { card: nextCard } = getNextReview(dbToFsrsCard(card.fsrs), rating, new Date(), getSchedulerOptions(db, card.deckId));
+  const nextFsrsData = fsrsCardToDb(nextCard);
+
+  flashcardQueries.updateFSRS(db, card.id, nextFsrsData);
+  const reviewId = flashcardQueries.addReview(
+    db,
+    card.id,
+    rating,
+    nextFsrsData.scheduledDays,
+    nextFsrsData.elapsedDays,
+    nextFsrsData.state,
+    undefined,
+    flashcardQueries.getReviewUndoSnapshot(card),
+    durationMs
+  );
+
+  // Leech detection on lapses
+  const leechSettings = getLeechSettings(db);
+  const leech = nextFsrsData.lapses > card.fsrs.lapses && isLeechLapse(nextFsrsData.lapses, leechSettings.threshold);
+  if (leech) {
+    flashcardQueries.markLeech(db, card.id, leechSettings.action === 'suspend');
+  }
+
+  return { reviewId, leech };
+}
+
+/**
+ * Resolve the first wiki-link in a text (e.g. [[Book.pdf#p12]]) to a PDF and page.
+ * Out-of-range page numbers fall back to page 1.
+ */
+export function resolveWikiLinkText(db: DatabaseInstance, linkText: string): LinkResolution | null {
+  const parsedLinks = parseWikiLinks(linkText);
+
+  if (parsedLinks.length === 0) {
+    return null;
+  }
+
+  const parsed = parsedLinks[0];
+  const pdf = queries.getPdfByFileName(db, parsed.fileName);
+
+  if (!pdf) {
+    return null;
+  }
+
+  // Validate page number is within range
+  const pageNum = parsed.pageNum && parsed.pageNum >= 1 && parsed.pageNum <= pdf.pageCount
+    ? parsed.pageNum
+    : 1;
+
+  return {
+    pdf,
+    pageNum,
+  };
+}
+
+/**
+ * Create stream options that forward deltas to the renderer under the given request id.
+ * Returns undefined if the renderer did not ask for streaming.
+ * The controller comes from registerAIStream(requestId), called when the handler starts
+ * so that a cancel arriving while the input is prepared is not lost.
+ * Callers must unregisterAIStream(requestId) when the request has finished.
+ */
+export function createStreamForwarder(
+  mainWindow: BrowserWindow,
+  requestId: string | undefined,
+  controller: AbortController | null
+): ChatStreamOptions | undefined {
+  if (!requestId || !controller) return undefined;
+
+  return {
+    signal: controller.signal,
+    onDelta: (delta) => {
+      mainWindow.webContents.send(IPC_CHANNELS.AI_STREAM_DELTA, { requestId, delta });
+    },
+  };
+}
+
+/**
+ * Track the partial usage of a cancelled streamed request.
+ * Returns false if the error is not a cancellation.
+ */
+export function trackCancelledUsage(db: DatabaseInstance, error: unknown, operation: string): boolean {
+  if (!(error instanceof ChatCancelledError)) return false;
+
+  queries.addApiUsage(
+    db,
+    error.usage.model,
+    operation,
+    error.usage.promptTokens,
+    error.usage.completionTokens,
+    error.usage.costUsd,
+    error.usage.provider,
+    error.usage.fallback
+  );
+  return true;
+}
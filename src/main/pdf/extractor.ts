@@ -72,15 +72,15 @@ export async function extractTextFromPDF(filePath: string): Promise<PDFInfo> {
 }
 
 /**
- * Extract text from specific pages of a PDF
+ * Extract the text of specific pages of a PDF, page by page
  * @param filePath Path to the PDF file
  * @param pageNumbers Array of page numbers to extract (1-indexed)
- * @returns Combined text from the specified pages
+ * @returns Pages with text (empty pages are skipped) and the total page count
  */
-export async function extractTextFromPages(
+export async function extractPages(
   filePath: string,
   pageNumbers: number[]
-): Promise<{ text: string; pageCount: number }> {
+): Promise<{ pages: ExtractedPage[]; pageCount: number }> {
   const dataBuffer = await fs.readFile(filePath);
   const uint8Array = new Uint8Array(dataBuffer);
 
@@ -95,7 +95,7 @@ export async function extractTextFromPages(
   // Filter valid page numbers
   const validPageNumbers = pageNumbers.filter(n => n >= 1 && n <= pageCount);
 
-  const textParts: string[] = [];
+  const pages: ExtractedPage[] = [];
 
   for (const pageNum of validPageNumbers) {
     try {
@@ -110,15 +110,30 @@ export async function extractTextFromPages(
         .trim();
 
       if (pageText) {
-        textParts.push(`[Seite ${pageNum}]\n${pageText}`);
+        pages.push({ pageNum, content: pageText });
       }
     } catch (err) {
       console.error(`Error extracting text from page ${pageNum}:`, err);
     }
   }
 
+  return { pages, pageCount };
+}
+
+/**
+ * Extract text from specific pages of a PDF
+ * @param filePath Path to the PDF file
+ * @param pageNumbers Array of page numbers to extract (1-indexed)
+ * @returns Combined text from the specified pages
+ */
+export async function extractTextFromPages(
+  filePath: string,
+  pageNumbers: number[]
+): Promise<{ text: string; pageCount: number }> {
+  const { pages, pageCount } = await extractPages(filePath, pageNumbers);
+
   return {
-    text: textParts.join('\n\n'),
+    text: pages.map(page => `[Seite ${page.pageNum}]\n${page.content}`).join('\n\n'),
     pageCount,
   };
 }
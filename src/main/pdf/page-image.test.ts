@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getCropBox } from './page-image';
+
+describe('getCropBox', () => {
+  it('should convert percentages to whole pixels covering the region', () => {
+    expect(getCropBox({ x: 10, y: 25, width: 50.5, height: 20 }, 1000, 800)).toEqual({
+      left: 100,
+      top: 200,
+      width: 505,
+      height: 160,
+    });
+  });
+
+  it('should clamp regions that reach past the page', () => {
+    expect(getCropBox({ x: -5, y: 90, width: 20, height: 30 }, 200, 100)).toEqual({
+      left: 0,
+      top: 90,
+      width: 30,
+      height: 10,
+    });
+  });
+
+  it('should reject regions outside the page', () => {
+    expect(() => getCropBox({ x: 120, y: 0, width: 10, height: 10 }, 200, 100)).toThrow('ausserhalb');
+  });
+});
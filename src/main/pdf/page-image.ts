@@ -0,0 +1,44 @@
+import type { HighlightRect } from '../../shared/types';
+
+export interface CropBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Convert a percentage region to a pixel box inside an image of the given size
+export function getCropBox(region: HighlightRect, imageWidth: number, imageHeight: number): CropBox {
+  const left = Math.max(0, Math.floor((region.x / 100) * imageWidth));
+  const top = Math.max(0, Math.floor((region.y / 100) * imageHeight));
+  const right = Math.min(imageWidth, Math.ceil(((region.x + region.width) / 100) * imageWidth));
+  const bottom = Math.min(imageHeight, Math.ceil(((region.y + region.height) / 100) * imageHeight));
+
+  if (right - left < 1 || bottom - top < 1) {
+    throw new Error('Bereich liegt ausserhalb der Seite');
+  }
+
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// Render a region of a PDF page (percentages of the page) to a PNG
+export async function renderPDFRegionToImage(
+  pdfData: Buffer,
+  pageNum: number,
+  region: HighlightRect,
+  scale: number = 2.0
+): Promise<Buffer> {
+  // Loaded on demand - the OCR module pulls in tesseract and electron
+  const { renderPDFPageToImage } = await import('./ocr');
+  const pageImage = await renderPDFPageToImage(pdfData, pageNum, scale);
+
+  const { createCanvas, loadImage } = await import('canvas');
+  const image = await loadImage(pageImage);
+  const box = getCropBox(region, image.width, image.height);
+
+  const canvas = createCanvas(box.width, box.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, box.left, box.top, box.width, box.height, 0, 0, box.width, box.height);
+
+  return canvas.toBuffer('image/png');
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { SearchResult } from '../../shared/types';
+import { fuseSearchResults } from './hybrid';
+
+function result(id: number, pageNum: number, snippet: string = `${id}:${pageNum}`): SearchResult {
+  return { id, fileName: `${id}.pdf`, filePath: `/${id}.pdf`, pageNum, snippet, rank: 0 };
+}
+
+describe('fuseSearchResults', () => {
+  it('should rank pages found by both signals first', () => {
+    const keyword = [result(1, 1), result(1, 2)];
+    const semantic = [result(2, 1), result(1, 2)];
+
+    const fused = fuseSearchResults(keyword, semantic);
+
+    expect(fused[0]).toMatchObject({ id: 1, pageNum: 2, matchedBy: 'both' });
+    expect(fused).toHaveLength(3);
+  });
+
+  it('should tag each hit with the signal that found it', () => {
+    const fused = fuseSearchResults([result(1, 1)], [result(2, 1)]);
+    const signals = Object.fromEntries(fused.map(r => [r.id, r.matchedBy]));
+
+    expect(signals).toEqual({ 1: 'keyword', 2: 'semantic' });
+  });
+
+  it('should keep the highlighted keyword snippet for shared hits', () => {
+    const fused = fuseSearchResults(
+      [result(1, 1, '<mark>Zelle</mark>')],
+      [result(1, 1, 'plain chunk text')]
+    );
+
+    expect(fused[0].snippet).toBe('<mark>Zelle</mark>');
+  });
+
+  it('should shift the order with the semantic weight', () => {
+    const keyword = [result(1, 1)];
+    const semantic = [result(2, 1)];
+
+    expect(fuseSearchResults(keyword, semantic, 0.2)[0].id).toBe(1);
+    expect(fuseSearchResults(keyword, semantic, 0.8)[0].id).toBe(2);
+  });
+
+  it('should use a lower-is-better rank and respect the limit', () => {
+    const fused = fuseSearchResults([result(1, 1), result(1, 2), result(1, 3)], [], 0.5, 2);
+
+    expect(fused).toHaveLength(2);
+    expect(fused[0].rank).toBeLessThan(fused[1].rank);
+  });
+});
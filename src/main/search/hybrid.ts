@@ -0,0 +1,53 @@
+import type { SearchMatchSignal, SearchResult } from '../../shared/types';
+
+// Standard RRF smoothing constant - dampens the influence of the very top ranks
+export const RRF_K = 60;
+
+export const DEFAULT_SEMANTIC_WEIGHT = 0.5;
+
+/**
+ * Fuse keyword (bm25) and semantic result lists with weighted reciprocal rank fusion.
+ * Each list contributes weight / (k + position), so a page that appears in both
+ * lists outranks pages found by only one signal at a similar position.
+ *
+ * Both input lists must already be sorted best-first.
+ */
+export function fuseSearchResults(
+  keywordResults: SearchResult[],
+  semanticResults: SearchResult[],
+  semanticWeight: number = DEFAULT_SEMANTIC_WEIGHT,
+  limit: number = 100,
+  k: number = RRF_K
+): SearchResult[] {
+  const weight = Math.min(1, Math.max(0, semanticWeight));
+  const fused = new Map<string, { result: SearchResult; score: number; keyword: boolean; semantic: boolean }>();
+
+  keywordResults.forEach((result, index) => {
+    const key = `${result.id}:${result.pageNum}`;
+    if (fused.has(key)) return;
+    fused.set(key, { result, score: (1 - weight) / (k + index + 1), keyword: true, semantic: false });
+  });
+
+  semanticResults.forEach((result, index) => {
+    const key = `${result.id}:${result.pageNum}`;
+    const score = weight / (k + index + 1);
+    const existing = fused.get(key);
+
+    if (!existing) {
+      fused.set(key, { result, score, keyword: false, semantic: true });
+    } else if (!existing.semantic) {
+      // Keep the keyword snippet - it carries the <mark> highlights
+      existing.score += score;
+      existing.semantic = true;
+    }
+  });
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ result, score, keyword, semantic }) => {
+      const matchedBy: SearchMatchSignal = keyword && semantic ? 'both' : keyword ? 'keyword' : 'semantic';
+      // Negated so that, like bm25, a lower rank is a better match
+      return { ...result, rank: -score, matchedBy };
+    });
+}
@@ -11,15 +11,26 @@ import type {
   RecentView,
   SearchHistoryItem,
   OCRStatus,
+  SemanticIndexStatus,
   OllamaStatus,
   OutlineItem,
   Highlight,
   HighlightRect,
+  CardSearchResult,
+  CardSource,
+  FilteredDeck,
   FlashcardDeck,
   FlashcardWithFSRS,
+  FlashcardType,
+  CardFlag,
+  FlashcardImage,
+  ImageOcclusionInput,
   FlashcardStats,
   FSRSRating,
   HeatmapData,
+  AnswerGrading,
+  HeatmapMetric,
+  FlashcardAnalytics,
   ExportOptions,
   ExportResult,
   BatchExportResult,
@@ -33,6 +44,22 @@ import type {
   Summary,
   SummaryResult,
   QuizFromHighlightResult,
+  ExamAttempt,
+  ExamAttemptSummary,
+  ExamGenerationOptions,
+  ExamTopicScore,
+  PracticeExam,
+  ChatConversation,
+  LibraryChatMessage,
+  LibraryChatResult,
+  AIStreamDelta,
+  FlashcardGenerationProgress,
+  FsrsOptimization,
+  FlashcardImportFormat,
+  FlashcardImportOptions,
+  FlashcardImportPreview,
+  BudgetStatus,
+  BudgetWarning,
 } from '../shared/types';
 
 // Extended FlashcardWithFSRS with next intervals preview
@@ -217,6 +244,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
   cancelOCR: (): Promise<boolean> =>
     ipcRenderer.invoke(IPC_CHANNELS.CANCEL_OCR),
 
+  // Semantic Search Index
+  buildSemanticIndex: (): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.BUILD_SEMANTIC_INDEX),
+
+  getSemanticIndexStatus: (): Promise<SemanticIndexStatus> =>
+    ipcRenderer.invoke(IPC_CHANNELS.GET_SEMANTIC_INDEX_STATUS),
+
+  cancelSemanticIndex: (): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.CANCEL_SEMANTIC_INDEX),
+
   // ============ OLLAMA ============
 
   checkOllamaStatus: (): Promise<OllamaStatus> =>
@@ -231,15 +268,37 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getFlashcardDeck: (id: number): Promise<FlashcardDeck | undefined> =>
     ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_DECK, id),
 
-  createFlashcardDeck: (name: string, pdfId?: number, description?: string): Promise<number> =>
-    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_CREATE_DECK, name, pdfId, description),
+  createFlashcardDeck: (name: string, pdfId?: number, description?: string, parentId?: number): Promise<number> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_CREATE_DECK, name, pdfId, description, parentId),
 
   updateFlashcardDeck: (id: number, name: string, description?: string): Promise<boolean> =>
     ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_UPDATE_DECK, id, name, description),
 
+  setFlashcardDeckLimits: (id: number, newCardsPerDay: number | null, reviewsPerDay: number | null): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_SET_DECK_LIMITS, id, newCardsPerDay, reviewsPerDay),
+
   deleteFlashcardDeck: (id: number): Promise<boolean> =>
     ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_DELETE_DECK, id),
 
+  setFlashcardDeckParent: (id: number, parentId: number | null): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_SET_DECK_PARENT, id, parentId),
+
+  // Filtered Decks
+  getFilteredDecks: (): Promise<FilteredDeck[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_FILTERED_DECKS),
+
+  createFilteredDeck: (name: string, query: string, cardLimit: number): Promise<{ success: boolean; error?: string; id?: number }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_CREATE_FILTERED_DECK, name, query, cardLimit),
+
+  updateFilteredDeck: (id: number, name: string, query: string, cardLimit: number): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_UPDATE_FILTERED_DECK, id, name, query, cardLimit),
+
+  deleteFilteredDeck: (id: number): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_DELETE_FILTERED_DECK, id),
+
+  getFilteredFlashcards: (id: number): Promise<FlashcardWithIntervals[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_FILTERED_CARDS, id),
+
   // Card Management
   getFlashcards: (deckId: number): Promise<FlashcardWithFSRS[]> =>
     ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_CARDS, deckId),
@@ -251,7 +310,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
     deckId: number,
     front: string,
     back: string,
-    cardType?: 'basic' | 'cloze',
+    cardType?: FlashcardType,
     highlightId?: number,
     sourcePage?: number,
     clozeData?: string
@@ -271,7 +330,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
     id: number,
     front: string,
     back: string,
-    cardType?: 'basic' | 'cloze',
+    cardType?: FlashcardType,
     clozeData?: string
   ): Promise<boolean> =>
     ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_UPDATE_CARD, id, front, back, cardType, clozeData),
@@ -279,26 +338,84 @@ contextBridge.exposeInMainWorld('electronAPI', {
   deleteFlashcard: (id: number): Promise<boolean> =>
     ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_DELETE_CARD, id),
 
+  setFlashcardsSuspended: (ids: number[], suspended: boolean): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_SET_SUSPENDED, ids, suspended),
+
+  setFlashcardsFlag: (ids: number[], flag: CardFlag): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_SET_FLAG, ids, flag),
+
+  createImageOcclusionCards: (deckId: number, input: ImageOcclusionInput): Promise<{ success: boolean; error?: string; cardIds?: number[] }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_CREATE_IMAGE_OCCLUSION, deckId, input),
+
+  getFlashcardImage: (imageId: number): Promise<FlashcardImage | undefined> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_IMAGE, imageId),
+
+  getFlashcardSource: (flashcardId: number): Promise<CardSource | null> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_SOURCE, flashcardId),
+
+  // Card Browser
+  searchFlashcards: (query: string): Promise<{ success: boolean; error?: string; cards?: CardSearchResult[] }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_SEARCH, query),
+
+  moveFlashcards: (ids: number[], deckId: number): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_MOVE_CARDS, ids, deckId),
+
+  resetFlashcards: (ids: number[]): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_RESET_CARDS, ids),
+
+  deleteFlashcards: (ids: number[]): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_DELETE_CARDS, ids),
+
+  retagFlashcards: (ids: number[], addTags: string[], removeTags: string[]): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_RETAG_CARDS, ids, addTags, removeTags),
+
   // FSRS / Study
   getDueFlashcards: (deckId?: number, limit?: number): Promise<FlashcardWithIntervals[]> =>
     ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_DUE, deckId, limit),
 
-  submitFlashcardReview: (flashcardId: number, rating: FSRSRating): Promise<FlashcardWithIntervals> =>
-    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_SUBMIT_REVIEW, flashcardId, rating),
+  submitFlashcardReview: (flashcardId: number, rating: FSRSRating, filteredSession?: boolean, durationMs?: number): Promise<FlashcardWithIntervals & { reviewId: number | null; leech: boolean }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_SUBMIT_REVIEW, flashcardId, rating, filteredSession, durationMs),
+
+  gradeFlashcardAnswer: (flashcardId: number, userAnswer: string): Promise<{ success: boolean; grading?: AnswerGrading; error?: string }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GRADE_ANSWER, flashcardId, userAnswer),
+  undoFlashcardReview: (reviewId: number): Promise<{ success: boolean; error?: string; flashcardId?: number }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_UNDO_REVIEW, reviewId),
 
   getFlashcardStats: (deckId?: number): Promise<FlashcardStats> =>
     ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_STATS, deckId),
 
+  optimizeFsrs: (deckId?: number): Promise<{ success: boolean; optimization?: FsrsOptimization; error?: string }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_OPTIMIZE_FSRS, deckId),
+
+  getFsrsOptimization: (deckId?: number): Promise<FsrsOptimization | null> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_FSRS_OPTIMIZATION, deckId),
+
+  resetFsrs: (deckId?: number): Promise<{ success: boolean }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_RESET_FSRS, deckId),
+
   // Export
   exportToLearnBuddy: (deckId: number): Promise<{ success: boolean; error?: string; canceled?: boolean; filePath?: string; cardCount?: number }> =>
     ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_EXPORT_LEARNBUDDY, deckId),
+  exportFlashcardsApkg: (deckId: number): Promise<{ success: boolean; error?: string; canceled?: boolean; filePath?: string; cardCount?: number; reviewCount?: number }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_EXPORT_APKG, deckId),
+  importFlashcardsApkg: (pdfId?: number): Promise<{ success: boolean; error?: string; canceled?: boolean; deckCount?: number; cardCount?: number; reviewCount?: number }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_IMPORT_APKG, pdfId),
+  selectFlashcardImportFile: (): Promise<{ success: boolean; error?: string; canceled?: boolean; filePath?: string; content?: string; format?: FlashcardImportFormat }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_IMPORT_SELECT_FILE),
+  previewFlashcardImport: (deckId: number, content: string, options: FlashcardImportOptions): Promise<FlashcardImportPreview> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_IMPORT_PREVIEW, deckId, content, options),
+  importFlashcards: (deckId: number, content: string, options: FlashcardImportOptions, skipDuplicates: boolean): Promise<{ success: boolean; error?: string; imported?: number; skipped?: number }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_IMPORT_CARDS, deckId, content, options, skipDuplicates),
 
   // Heatmap
   getFlashcardHeatmap: (
     timeframe: 'week' | 'month' | 'year',
-    deckId?: number
+    deckId?: number,
+    metric?: HeatmapMetric
   ): Promise<HeatmapData> =>
-    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_HEATMAP, timeframe, deckId),
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_HEATMAP, timeframe, deckId, metric),
+  getFlashcardAnalytics: (forecastDays: number): Promise<FlashcardAnalytics> =>
+    ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GET_ANALYTICS, forecastDays),
 
   // AI Generation
   generateFlashcardsAI: (
@@ -322,12 +439,17 @@ contextBridge.exposeInMainWorld('electronAPI', {
       model: 'gpt-5-nano' | 'gpt-5-mini' | 'gpt-5.2';
       language: 'de' | 'en';
       count: number;
-    }
+      deckId?: number;
+    },
+    requestId?: string
   ): Promise<{
     success: boolean;
-    cards?: Array<{ front: string; back: string; cardType: 'basic' }>;
+    cards?: Array<{ front: string; back: string; cardType: 'basic'; sourcePage?: number }>;
+    duplicatesRemoved?: number;
+    failedChunks?: number;
+    cancelled?: boolean;
     error?: string;
-  }> => ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GENERATE_FROM_PDF, filePath, pageNumbers, options),
+  }> => ipcRenderer.invoke(IPC_CHANNELS.FLASHCARD_GENERATE_FROM_PDF, filePath, pageNumbers, options, requestId),
 
   // PDF Page Text Extraction
   getPdfPageText: (
@@ -343,10 +465,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
     callCount: number;
     costByModel: Record<string, number>;
     costByOperation: Record<string, number>;
+    costByRoute: Array<{
+      operation: string;
+      provider: string | null;
+      model: string;
+      callCount: number;
+      fallbackCount: number;
+      cost: number;
+    }>;
     recentUsage: Array<{
       id: number;
       model: string;
       operation: string;
+      provider: string | null;
+      isFallback: boolean;
       promptTokens: number;
       completionTokens: number;
       totalTokens: number;
@@ -358,15 +490,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
   clearApiUsage: (): Promise<{ success: boolean }> =>
     ipcRenderer.invoke(IPC_CHANNELS.API_CLEAR_USAGE),
 
+  getBudgetStatus: (): Promise<BudgetStatus> =>
+    ipcRenderer.invoke(IPC_CHANNELS.API_GET_BUDGET_STATUS),
+
   // ============ AI EXPLANATIONS ============
 
   explainText: (
     text: string,
     style: ExplanationStyle,
     pdfId: number,
-    pageNum: number
+    pageNum: number,
+    requestId?: string
   ): Promise<ExplainResult> =>
-    ipcRenderer.invoke(IPC_CHANNELS.EXPLAIN_TEXT, text, style, pdfId, pageNum),
+    ipcRenderer.invoke(IPC_CHANNELS.EXPLAIN_TEXT, text, style, pdfId, pageNum, requestId),
 
   getExplanations: (pdfId: number, pageNum?: number): Promise<Explanation[]> =>
     ipcRenderer.invoke(IPC_CHANNELS.GET_EXPLANATIONS, pdfId, pageNum),
@@ -384,15 +520,44 @@ contextBridge.exposeInMainWorld('electronAPI', {
   ): Promise<QuizFromHighlightResult> =>
     ipcRenderer.invoke(IPC_CHANNELS.GENERATE_QUIZ_FROM_HIGHLIGHT, highlightText, deckId, highlightId, pageNum),
 
+  // ============ PRACTICE EXAMS ============
+
+  generateExam: (options: ExamGenerationOptions): Promise<{ success: boolean; exam?: PracticeExam; error?: string }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXAM_GENERATE, options),
+
+  submitExam: (
+    exam: PracticeExam,
+    answers: Array<number | null>,
+    timeLimitSeconds: number | null,
+    durationSeconds: number
+  ): Promise<ExamAttempt | undefined> =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXAM_SUBMIT, exam, answers, timeLimitSeconds, durationSeconds),
+
+  getExamAttempts: (): Promise<ExamAttemptSummary[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXAM_GET_ATTEMPTS),
+
+  getExamAttempt: (id: number): Promise<ExamAttempt | null> =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXAM_GET_ATTEMPT, id),
+
+  deleteExamAttempt: (id: number): Promise<{ success: boolean }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXAM_DELETE_ATTEMPT, id),
+
+  getWeakExamTopics: (deckId?: number): Promise<ExamTopicScore[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXAM_GET_WEAK_TOPICS, deckId),
+
+  applyExamAgain: (attemptId: number): Promise<{ success: boolean; reviewedCount?: number; error?: string }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXAM_APPLY_AGAIN, attemptId),
+
   // ============ AI SUMMARIES ============
 
   generateSummary: (
     pdfId: number,
     filePath: string,
     startPage: number,
-    endPage: number
+    endPage: number,
+    requestId?: string
   ): Promise<SummaryResult & { title?: string }> =>
-    ipcRenderer.invoke(IPC_CHANNELS.GENERATE_SUMMARY, pdfId, filePath, startPage, endPage),
+    ipcRenderer.invoke(IPC_CHANNELS.GENERATE_SUMMARY, pdfId, filePath, startPage, endPage, requestId),
 
   getSummaries: (pdfId: number): Promise<Summary[]> =>
     ipcRenderer.invoke(IPC_CHANNELS.GET_SUMMARIES, pdfId),
@@ -400,6 +565,25 @@ contextBridge.exposeInMainWorld('electronAPI', {
   deleteSummary: (id: number): Promise<{ success: boolean }> =>
     ipcRenderer.invoke(IPC_CHANNELS.DELETE_SUMMARY, id),
 
+  // ============ LIBRARY CHAT ============
+
+  askLibrary: (question: string, conversationId: number | null, requestId?: string): Promise<LibraryChatResult> =>
+    ipcRenderer.invoke(IPC_CHANNELS.LIBRARY_CHAT_ASK, question, conversationId, requestId),
+
+  // ============ AI STREAMING ============
+
+  cancelAIStream: (requestId: string): Promise<boolean> =>
+    ipcRenderer.invoke(IPC_CHANNELS.AI_STREAM_CANCEL, requestId),
+
+  getChatConversations: (): Promise<ChatConversation[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.LIBRARY_CHAT_GET_CONVERSATIONS),
+
+  getChatMessages: (conversationId: number): Promise<LibraryChatMessage[]> =>
+    ipcRenderer.invoke(IPC_CHANNELS.LIBRARY_CHAT_GET_MESSAGES, conversationId),
+
+  deleteChatConversation: (id: number): Promise<{ success: boolean }> =>
+    ipcRenderer.invoke(IPC_CHANNELS.LIBRARY_CHAT_DELETE_CONVERSATION, id),
+
   // ============ READING PROGRESS ============
 
   addReadingSession: (pdfId: number, pagesRead: number): Promise<{ success: boolean }> =>
@@ -465,6 +649,30 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on(IPC_CHANNELS.OCR_PROGRESS, listener);
     return () => ipcRenderer.removeListener(IPC_CHANNELS.OCR_PROGRESS, listener);
   },
+
+  onSemanticIndexProgress: (callback: (status: SemanticIndexStatus) => void) => {
+    const listener = (_: any, status: SemanticIndexStatus) => callback(status);
+    ipcRenderer.on(IPC_CHANNELS.SEMANTIC_INDEX_PROGRESS, listener);
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.SEMANTIC_INDEX_PROGRESS, listener);
+  },
+
+  onAIStreamDelta: (callback: (chunk: AIStreamDelta) => void) => {
+    const listener = (_: any, chunk: AIStreamDelta) => callback(chunk);
+    ipcRenderer.on(IPC_CHANNELS.AI_STREAM_DELTA, listener);
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.AI_STREAM_DELTA, listener);
+  },
+
+  onFlashcardGenerationProgress: (callback: (progress: FlashcardGenerationProgress) => void) => {
+    const listener = (_: any, progress: FlashcardGenerationProgress) => callback(progress);
+    ipcRenderer.on(IPC_CHANNELS.FLASHCARD_GENERATION_PROGRESS, listener);
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.FLASHCARD_GENERATION_PROGRESS, listener);
+  },
+
+  onBudgetWarning: (callback: (warning: BudgetWarning) => void) => {
+    const listener = (_: any, warning: BudgetWarning) => callback(warning);
+    ipcRenderer.on(IPC_CHANNELS.BUDGET_WARNING, listener);
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.BUDGET_WARNING, listener);
+  },
 });
 
 // Type declaration for TypeScript
@@ -523,47 +731,95 @@ declare global {
       startOCRForPdf: (pdfId: number) => Promise<{ success: boolean; error?: string }>;
       getOCRStatus: () => Promise<OCRStatus>;
       cancelOCR: () => Promise<boolean>;
+      // Semantic Search Index
+      buildSemanticIndex: () => Promise<{ success: boolean; error?: string }>;
+      getSemanticIndexStatus: () => Promise<SemanticIndexStatus>;
+      cancelSemanticIndex: () => Promise<boolean>;
       // Ollama
       checkOllamaStatus: () => Promise<OllamaStatus>;
       // Flashcard Decks
       getFlashcardDecks: (pdfId?: number) => Promise<FlashcardDeck[]>;
       getFlashcardDeck: (id: number) => Promise<FlashcardDeck | undefined>;
-      createFlashcardDeck: (name: string, pdfId?: number, description?: string) => Promise<number>;
+      createFlashcardDeck: (name: string, pdfId?: number, description?: string, parentId?: number) => Promise<number>;
       updateFlashcardDeck: (id: number, name: string, description?: string) => Promise<boolean>;
+      setFlashcardDeckLimits: (id: number, newCardsPerDay: number | null, reviewsPerDay: number | null) => Promise<boolean>;
       deleteFlashcardDeck: (id: number) => Promise<boolean>;
+      setFlashcardDeckParent: (id: number, parentId: number | null) => Promise<{ success: boolean; error?: string }>;
+      getFilteredDecks: () => Promise<FilteredDeck[]>;
+      createFilteredDeck: (name: string, query: string, cardLimit: number) => Promise<{ success: boolean; error?: string; id?: number }>;
+      updateFilteredDeck: (id: number, name: string, query: string, cardLimit: number) => Promise<{ success: boolean; error?: string }>;
+      deleteFilteredDeck: (id: number) => Promise<boolean>;
+      getFilteredFlashcards: (id: number) => Promise<FlashcardWithIntervals[]>;
       // Flashcards
       getFlashcards: (deckId: number) => Promise<FlashcardWithFSRS[]>;
       getFlashcard: (id: number) => Promise<FlashcardWithFSRS | undefined>;
-      addFlashcard: (deckId: number, front: string, back: string, cardType?: 'basic' | 'cloze', highlightId?: number, sourcePage?: number, clozeData?: string) => Promise<number>;
-      updateFlashcard: (id: number, front: string, back: string, cardType?: 'basic' | 'cloze', clozeData?: string) => Promise<boolean>;
+      addFlashcard: (deckId: number, front: string, back: string, cardType?: FlashcardType, highlightId?: number, sourcePage?: number, clozeData?: string) => Promise<number>;
+      updateFlashcard: (id: number, front: string, back: string, cardType?: FlashcardType, clozeData?: string) => Promise<boolean>;
       deleteFlashcard: (id: number) => Promise<boolean>;
+      setFlashcardsSuspended: (ids: number[], suspended: boolean) => Promise<boolean>;
+      setFlashcardsFlag: (ids: number[], flag: CardFlag) => Promise<boolean>;
+      createImageOcclusionCards: (deckId: number, input: ImageOcclusionInput) => Promise<{ success: boolean; error?: string; cardIds?: number[] }>;
+      getFlashcardImage: (imageId: number) => Promise<FlashcardImage | undefined>;
+      getFlashcardSource: (flashcardId: number) => Promise<CardSource | null>;
+      searchFlashcards: (query: string) => Promise<{ success: boolean; error?: string; cards?: CardSearchResult[] }>;
+      moveFlashcards: (ids: number[], deckId: number) => Promise<boolean>;
+      resetFlashcards: (ids: number[]) => Promise<boolean>;
+      deleteFlashcards: (ids: number[]) => Promise<boolean>;
+      retagFlashcards: (ids: number[], addTags: string[], removeTags: string[]) => Promise<boolean>;
       // FSRS / Study
       getDueFlashcards: (deckId?: number, limit?: number) => Promise<FlashcardWithIntervals[]>;
-      submitFlashcardReview: (flashcardId: number, rating: FSRSRating) => Promise<FlashcardWithIntervals>;
+      submitFlashcardReview: (flashcardId: number, rating: FSRSRating, filteredSession?: boolean, durationMs?: number) => Promise<FlashcardWithIntervals & { reviewId: number | null; leech: boolean }>;
+      gradeFlashcardAnswer: (flashcardId: number, userAnswer: string) => Promise<{ success: boolean; grading?: AnswerGrading; error?: string }>;
+      undoFlashcardReview: (reviewId: number) => Promise<{ success: boolean; error?: string; flashcardId?: number }>;
       getFlashcardStats: (deckId?: number) => Promise<FlashcardStats>;
+      optimizeFsrs: (deckId?: number) => Promise<{ success: boolean; optimization?: FsrsOptimization; error?: string }>;
+      getFsrsOptimization: (deckId?: number) => Promise<FsrsOptimization | null>;
+      resetFsrs: (deckId?: number) => Promise<{ success: boolean }>;
       // Heatmap
-      getFlashcardHeatmap: (timeframe: 'week' | 'month' | 'year', deckId?: number) => Promise<HeatmapData>;
+      getFlashcardHeatmap: (timeframe: 'week' | 'month' | 'year', deckId?: number, metric?: HeatmapMetric) => Promise<HeatmapData>;
+      getFlashcardAnalytics: (forecastDays: number) => Promise<FlashcardAnalytics>;
       // Export
       exportToLearnBuddy: (deckId: number) => Promise<{ success: boolean; error?: string; canceled?: boolean; filePath?: string; cardCount?: number }>;
+      exportFlashcardsApkg: (deckId: number) => Promise<{ success: boolean; error?: string; canceled?: boolean; filePath?: string; cardCount?: number; reviewCount?: number }>;
+      importFlashcardsApkg: (pdfId?: number) => Promise<{ success: boolean; error?: string; canceled?: boolean; deckCount?: number; cardCount?: number; reviewCount?: number }>;
+      selectFlashcardImportFile: () => Promise<{ success: boolean; error?: string; canceled?: boolean; filePath?: string; content?: string; format?: FlashcardImportFormat }>;
+      previewFlashcardImport: (deckId: number, content: string, options: FlashcardImportOptions) => Promise<FlashcardImportPreview>;
+      importFlashcards: (deckId: number, content: string, options: FlashcardImportOptions, skipDuplicates: boolean) => Promise<{ success: boolean; error?: string; imported?: number; skipped?: number }>;
       // AI Generation
       generateFlashcardsAI: (text: string, options: { model: 'gpt-5-nano' | 'gpt-5-mini' | 'gpt-5.2'; language: 'de' | 'en'; count: number }) => Promise<{ success: boolean; cards?: Array<{ front: string; back: string; cardType: 'basic' }>; error?: string }>;
       // AI Generation from PDF
-      generateFlashcardsFromPDF: (filePath: string, pageNumbers: number[], options: { model: 'gpt-5-nano' | 'gpt-5-mini' | 'gpt-5.2'; language: 'de' | 'en'; count: number }) => Promise<{ success: boolean; cards?: Array<{ front: string; back: string; cardType: 'basic' }>; error?: string }>;
+      generateFlashcardsFromPDF: (filePath: string, pageNumbers: number[], options: { model: 'gpt-5-nano' | 'gpt-5-mini' | 'gpt-5.2'; language: 'de' | 'en'; count: number; deckId?: number }, requestId?: string) => Promise<{ success: boolean; cards?: Array<{ front: string; back: string; cardType: 'basic'; sourcePage?: number }>; duplicatesRemoved?: number; failedChunks?: number; cancelled?: boolean; error?: string }>;
       // PDF Page Text Extraction
       getPdfPageText: (filePath: string, pageNumbers: number[]) => Promise<{ success: boolean; text?: string; pageCount?: number; error?: string }>;
       // API Usage / Cost Tracking
-      getApiUsageStats: () => Promise<{ totalCostUsd: number; totalTokens: number; callCount: number; costByModel: Record<string, number>; costByOperation: Record<string, number>; recentUsage: Array<{ id: number; model: string; operation: string; promptTokens: number; completionTokens: number; totalTokens: number; costUsd: number; createdAt: string }> }>;
+      getApiUsageStats: () => Promise<{ totalCostUsd: number; totalTokens: number; callCount: number; costByModel: Record<string, number>; costByOperation: Record<string, number>; costByRoute: Array<{ operation: string; provider: string | null; model: string; callCount: number; fallbackCount: number; cost: number }>; recentUsage: Array<{ id: number; model: string; operation: string; provider: string | null; isFallback: boolean; promptTokens: number; completionTokens: number; totalTokens: number; costUsd: number; createdAt: string }> }>;
       clearApiUsage: () => Promise<{ success: boolean }>;
+      getBudgetStatus: () => Promise<BudgetStatus>;
       // AI Explanations
-      explainText: (text: string, style: ExplanationStyle, pdfId: number, pageNum: number) => Promise<ExplainResult>;
+      explainText: (text: string, style: ExplanationStyle, pdfId: number, pageNum: number, requestId?: string) => Promise<ExplainResult>;
       getExplanations: (pdfId: number, pageNum?: number) => Promise<Explanation[]>;
       deleteExplanation: (id: number) => Promise<{ success: boolean }>;
       // AI Quiz from Highlight
       generateQuizFromHighlight: (highlightText: string, deckId: number, highlightId: number, pageNum: number) => Promise<QuizFromHighlightResult>;
+      // Practice Exams
+      generateExam: (options: ExamGenerationOptions) => Promise<{ success: boolean; exam?: PracticeExam; error?: string }>;
+      submitExam: (exam: PracticeExam, answers: Array<number | null>, timeLimitSeconds: number | null, durationSeconds: number) => Promise<ExamAttempt | undefined>;
+      getExamAttempts: () => Promise<ExamAttemptSummary[]>;
+      getExamAttempt: (id: number) => Promise<ExamAttempt | null>;
+      deleteExamAttempt: (id: number) => Promise<{ success: boolean }>;
+      getWeakExamTopics: (deckId?: number) => Promise<ExamTopicScore[]>;
+      applyExamAgain: (attemptId: number) => Promise<{ success: boolean; reviewedCount?: number; error?: string }>;
       // AI Summaries
-      generateSummary: (pdfId: number, filePath: string, startPage: number, endPage: number) => Promise<SummaryResult & { title?: string }>;
+      generateSummary: (pdfId: number, filePath: string, startPage: number, endPage: number, requestId?: string) => Promise<SummaryResult & { title?: string }>;
       getSummaries: (pdfId: number) => Promise<Summary[]>;
       deleteSummary: (id: number) => Promise<{ success: boolean }>;
+      // Library Chat
+      askLibrary: (question: string, conversationId: number | null, requestId?: string) => Promise<LibraryChatResult>;
+      // AI Streaming
+      cancelAIStream: (requestId: string) => Promise<boolean>;
+      getChatConversations: () => Promise<ChatConversation[]>;
+      getChatMessages: (conversationId: number) => Promise<LibraryChatMessage[]>;
+      deleteChatConversation: (id: number) => Promise<{ success: boolean }>;
       // Reading Progress
       addReadingSession: (pdfId: number, pagesRead: number) => Promise<{ success: boolean }>;
       getReadingHeatmap: (timeframe: 'week' | 'month' | 'year') => Promise<{ data: { date: string; count: number }[]; maxCount: number; totalPages: number; streak: number; startDate: string; endDate: string }>;
@@ -576,6 +832,10 @@ declare global {
       onPdfAdded: (callback: (pdfs: PDFDocument[]) => void) => () => void;
       onPdfRemoved: (callback: (pdfs: PDFDocument[]) => void) => () => void;
       onOCRProgress: (callback: (status: OCRStatus) => void) => () => void;
+      onSemanticIndexProgress: (callback: (status: SemanticIndexStatus) => void) => () => void;
+      onAIStreamDelta: (callback: (chunk: AIStreamDelta) => void) => () => void;
+      onFlashcardGenerationProgress: (callback: (progress: FlashcardGenerationProgress) => void) => () => void;
+      onBudgetWarning: (callback: (warning: BudgetWarning) => void) => () => void;
     };
   }
 }
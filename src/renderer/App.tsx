@@ -7,7 +7,10 @@ import PDFViewer from './components/pdf/PDFViewer';
 import WelcomeScreen from './components/WelcomeScreen';
 import FlashcardStudyView from './components/flashcards/FlashcardStudyView';
 import StudyDeckSelector from './components/flashcards/StudyDeckSelector';
+import LibraryChatView from './components/chat/LibraryChatView';
 import { ToastProvider } from './components/ui/Toast';
+import BudgetWarningToast from './components/settings/BudgetWarningToast';
+import type { FilteredDeck } from '../shared/types';
 
 function App() {
   const {
@@ -30,8 +33,12 @@ function App() {
     setShowStudyDeckSelector,
     studyDeckId,
     setStudyDeckId,
+    studyFilteredDeck,
+    setStudyFilteredDeck,
     flashcardDecks,
     setFlashcardDecks,
+    pausedStudySession,
+    setPausedStudySession,
   } = useAppStore();
 
   // Track total due cards across all decks
@@ -136,6 +143,8 @@ function App() {
       setCurrentDeck(deck);
       setDueFlashcards(due);
       setStudyDeckId(deckId);
+      setStudyFilteredDeck(null);
+      setPausedStudySession(null);
       setIsStudying(true);
       setMainContentView('study');
     } catch (error) {
@@ -143,22 +152,43 @@ function App() {
     }
   };
 
+  // Handle selecting a filtered deck - its cards come from several decks
+  const handleSelectFilteredDeck = async (deck: FilteredDeck) => {
+    try {
+      const cards = await window.electronAPI.getFilteredFlashcards(deck.id);
+      if (cards.length === 0) return;
+
+      setCurrentDeck(null);
+      setDueFlashcards(cards);
+      setStudyDeckId(null);
+      setStudyFilteredDeck(deck);
+      setPausedStudySession(null);
+      setIsStudying(true);
+      setMainContentView('study');
+    } catch (error) {
+      console.error('Error starting filtered session:', error);
+    }
+  };
+
   // Handle study complete
   const handleStudyComplete = async () => {
     setIsStudying(false);
     setMainContentView('pdf');
     setStudyDeckId(null);
+    setStudyFilteredDeck(null);
     setCurrentDeck(null);
     setDueFlashcards([]);
+    setPausedStudySession(null);
     // Reload due count
     await loadDecksAndDueCount();
   };
 
   // Check if we can show study mode
-  const canShowStudy = currentDeck && dueFlashcards.length > 0;
+  const canShowStudy = (currentDeck || studyFilteredDeck) && dueFlashcards.length > 0;
 
   return (
     <ToastProvider>
+    <BudgetWarningToast />
     <div className="flex flex-col h-screen bg-gray-50 dark:bg-gray-900">
       <Header />
       <div className="flex flex-1 overflow-hidden">
@@ -185,6 +215,21 @@ function App() {
                         PDF Ansicht
                       </span>
                     </button>
+                    <button
+                      onClick={() => setMainContentView('chat')}
+                      className={`px-4 py-2.5 text-sm font-medium border-b-2 transition-colors ${
+                        mainContentView === 'chat'
+                          ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                      }`}
+                    >
+                      <span className="flex items-center gap-2">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                        </svg>
+                        Bibliothek fragen
+                      </span>
+                    </button>
                     {canShowStudy && (
                       <button
                         onClick={() => {
@@ -251,7 +296,7 @@ function App() {
 
               {/* Main Content Area */}
               <div className="flex-1 overflow-hidden">
-                {mainContentView === 'study' && isStudying && currentDeck ? (
+                {mainContentView === 'study' && isStudying && (currentDeck || studyFilteredDeck) ? (
                   <FlashcardStudyView
                     onComplete={handleStudyComplete}
                     onBack={() => {
@@ -259,8 +304,31 @@ function App() {
                       setMainContentView('pdf');
                     }}
                   />
+                ) : mainContentView === 'chat' ? (
+                  <LibraryChatView />
                 ) : currentPdf ? (
-                  <PDFViewer />
+                  <div className="flex flex-col h-full">
+                    {/* Shown after jumping from a card to its source */}
+                    {mainContentView === 'pdf' && isStudying && pausedStudySession && canShowStudy && (
+                      <div className="flex-shrink-0 flex items-center justify-between px-4 py-2 bg-green-50 dark:bg-green-900/20 border-b border-green-200 dark:border-green-800 text-sm">
+                        <span className="text-green-700 dark:text-green-400">
+                          Lernsession pausiert - {pausedStudySession.reviewedCount} von {dueFlashcards.length} Karten bewertet
+                        </span>
+                        <button
+                          onClick={() => {
+                            setMainContentView('study');
+                            setIsStudying(true);
+                          }}
+                          className="px-3 py-1 font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors"
+                        >
+                          Zuruck zur Lernsession
+                        </button>
+                      </div>
+                    )}
+                    <div className="flex-1 overflow-hidden">
+                      <PDFViewer />
+                    </div>
+                  </div>
                 ) : (
                   <div className="flex items-center justify-center h-full text-gray-400 dark:text-gray-500">
                     <div className="text-center">
@@ -285,6 +353,7 @@ function App() {
         isOpen={showStudyDeckSelector}
         onClose={() => setShowStudyDeckSelector(false)}
         onSelectDeck={handleSelectStudyDeck}
+        onSelectFilteredDeck={handleSelectFilteredDeck}
       />
     </div>
     </ToastProvider>
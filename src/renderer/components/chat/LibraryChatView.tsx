@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAppStore } from '../../stores/appStore';
+import { useToast } from '../ui/Toast';
+import { parseWikiLinkContent } from '../../utils/wikiLinks';
+import { useAIStream } from '../../hooks/useAIStream';
+import type { ChatConversation, LibraryChatMessage } from '../../../shared/types';
+
+export default function LibraryChatView() {
+  const { setCurrentPdf, setCurrentPage, setMainContentView } = useAppStore();
+  const { showToast } = useToast();
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<number | null>(null);
+  const [messages, setMessages] = useState<LibraryChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const answerStream = useAIStream();
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const data = await window.electronAPI.getChatConversations();
+      setConversations(data);
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, isAsking, answerStream.text]);
+
+  const handleSelectConversation = async (id: number) => {
+    try {
+      const data = await window.electronAPI.getChatMessages(id);
+      setActiveConversationId(id);
+      setMessages(data);
+    } catch (error) {
+      console.error('Failed to load messages:', error);
+    }
+  };
+
+  const handleNewConversation = () => {
+    setActiveConversationId(null);
+    setMessages([]);
+    setQuestion('');
+  };
+
+  const handleDeleteConversation = async (id: number) => {
+    if (!confirm('Unterhaltung wirklich loschen?')) return;
+    await window.electronAPI.deleteChatConversation(id);
+    if (id === activeConversationId) {
+      handleNewConversation();
+    }
+    loadConversations();
+  };
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text || isAsking) return;
+
+    // Show the question right away, the saved copy replaces it on reload
+    const pendingMessage: LibraryChatMessage = {
+      id: -Date.now(),
+      conversationId: activeConversationId ?? 0,
+      role: 'user',
+      content: text,
+      citations: [],
+      createdAt: new Date().toISOString(),
+    };
+    setMessages((prev) => [...prev, pendingMessage]);
+    setQuestion('');
+    setIsAsking(true);
+    const requestId = answerStream.start();
+
+    try {
+      const result = await window.electronAPI.askLibrary(text, activeConversationId, requestId);
+      if (result.success && result.message && result.conversationId) {
+        setActiveConversationId(result.conversationId);
+        setMessages((prev) => [...prev, result.message!]);
+        loadConversations();
+      } else {
+        // Nothing was saved - put the question back for editing
+        setMessages((prev) => prev.filter((m) => m.id !== pendingMessage.id));
+        setQuestion(text);
+        if (!result.cancelled) {
+          showToast(result.error || 'Fehler bei der Beantwortung der Frage');
+        }
+      }
+    } finally {
+      setIsAsking(false);
+      answerStream.finish();
+    }
+  };
+
+  const handleCitationClick = async (linkText: string) => {
+    try {
+      const result = await window.electronAPI.resolveLink(linkText);
+      if (result) {
+        setCurrentPdf(result.pdf);
+        setCurrentPage(result.pageNum);
+        setMainContentView('pdf');
+      } else {
+        showToast('Quelle nicht gefunden', 'info');
+      }
+    } catch (error) {
+      console.error('Error resolving citation:', error);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleAsk();
+    }
+  };
+
+  const renderAnswer = (content: string) => {
+    return parseWikiLinkContent(content).map((part, index) => {
+      if (part.type === 'text') {
+        return <span key={index}>{part.content}</span>;
+      }
+
+      return (
+        <button
+          key={index}
+          onClick={() => handleCitationClick(part.content)}
+          className="inline px-1 mx-0.5 text-xs font-medium text-primary-700 dark:text-primary-300 bg-primary-50 dark:bg-primary-900/40 rounded hover:underline"
+          title={`Gehe zu ${part.fileName}${part.pageNum ? ` Seite ${part.pageNum}` : ''}`}
+        >
+          {part.fileName?.replace(/\.pdf$/i, '')}{part.pageNum ? ` S.${part.pageNum}` : ''}
+        </button>
+      );
+    });
+  };
+
+  return (
+    <div className="flex h-full bg-white dark:bg-gray-800">
+      {/* Conversation List */}
+      <aside className="w-64 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+        <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+          <button
+            onClick={handleNewConversation}
+            className="w-full px-3 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            Neue Unterhaltung
+          </button>
+        </div>
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+          {conversations.map((conversation) => (
+            <li key={conversation.id} className="group flex items-center">
+              <button
+                onClick={() => handleSelectConversation(conversation.id)}
+                className={`flex-1 min-w-0 text-left px-3 py-2.5 text-sm transition-colors ${
+                  conversation.id === activeConversationId
+                    ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                <p className="truncate">{conversation.title}</p>
+                <p className="text-xs text-gray-400">{conversation.messageCount} Nachrichten</p>
+              </button>
+              <button
+                onClick={() => handleDeleteConversation(conversation.id)}
+                className="px-2 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Unterhaltung loschen"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+          {conversations.length === 0 && (
+            <li className="px-3 py-4 text-xs text-gray-400 text-center">Noch keine Unterhaltungen</li>
+          )}
+        </ul>
+      </aside>
+
+      {/* Messages */}
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.length === 0 && !isAsking && (
+            <div className="flex items-center justify-center h-full text-gray-400 dark:text-gray-500">
+              <div className="text-center max-w-sm">
+                <p className="font-medium">Frag deine Bibliothek</p>
+                <p className="text-sm mt-1">
+                  Antworten stutzen sich auf deine PDFs und verweisen auf die passenden Seiten.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {messages.map((message) => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] px-4 py-2.5 rounded-lg text-sm whitespace-pre-wrap ${
+                  message.role === 'user'
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+                }`}
+              >
+                {message.role === 'assistant' ? renderAnswer(message.content) : message.content}
+              </div>
+            </div>
+          ))}
+
+          {isAsking && (
+            <div className="flex justify-start">
+              {answerStream.text ? (
+                <div className="max-w-[80%] px-4 py-2.5 rounded-lg text-sm whitespace-pre-wrap bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+                  {renderAnswer(answerStream.text)}
+                </div>
+              ) : (
+                <div className="px-4 py-2.5 rounded-lg bg-gray-100 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400 flex items-center gap-2">
+                  <div className="w-4 h-4 border-2 border-primary-500 border-t-transparent rounded-full animate-spin" />
+                  Durchsuche Bibliothek...
+                </div>
+              )}
+            </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {/* Input */}
+        <div className="border-t border-gray-200 dark:border-gray-700 p-3 flex gap-2">
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Stelle eine Frage zu deinen PDFs..."
+            rows={2}
+            className="flex-1 px-3 py-2 text-sm bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-800 dark:text-gray-200 resize-none focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          {isAsking ? (
+            <button
+              onClick={answerStream.cancel}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors"
+            >
+              Abbrechen
+            </button>
+          ) : (
+            <button
+              onClick={handleAsk}
+              disabled={!question.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Fragen
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
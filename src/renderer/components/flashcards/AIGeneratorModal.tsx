@@ -1,6 +1,6 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useAppStore } from '../../stores/appStore';
-import type { OpenAIModel, GeneratedCard, PDFDocument } from '../../../shared/types';
+import type { OpenAIModel, GeneratedCard, FlashcardGenerationProgress } from '../../../shared/types';
 import PageSelector from './PageSelector';
 
 interface AIGeneratorModalProps {
@@ -11,6 +11,7 @@ interface AIGeneratorModalProps {
   pdfPath?: string;
   pdfPageCount?: number;
   pdfName?: string;
+  deckId?: number;    // Cards already in this deck are skipped as duplicates
 }
 
 
@@ -36,6 +37,7 @@ export default function AIGeneratorModal({
   pdfPath: propPdfPath,
   pdfPageCount: propPdfPageCount = 0,
   pdfName: propPdfName,
+  deckId,
 }: AIGeneratorModalProps) {
   const { settings, pdfs, currentPdf } = useAppStore();
 
@@ -83,6 +85,19 @@ export default function AIGeneratorModal({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [generatedCards, setGeneratedCards] = useState<GeneratedCard[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Chunked PDF generation: progress of the running request
+  const [progress, setProgress] = useState<FlashcardGenerationProgress | null>(null);
+  const requestIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    return window.electronAPI.onFlashcardGenerationProgress((update) => {
+      if (update.requestId === requestIdRef.current) {
+        setProgress(update);
+      }
+    });
+  }, []);
 
   // Model recommendation
   const pageRecommendation = useMemo(() => getModelPageRecommendation(model), [model]);
@@ -101,6 +116,7 @@ export default function AIGeneratorModal({
     if (isOpen) {
       setGeneratedCards([]);
       setError(null);
+      setNotice(null);
       setExtractedText(null);
       if (pdfPath && pdfPageCount > 0) {
         // Default to first 10 pages
@@ -141,12 +157,34 @@ export default function AIGeneratorModal({
       let result;
 
       if (inputMode === 'pdf' && pdfPath && selectedPages.length > 0) {
-        // Generate from PDF
-        result = await window.electronAPI.generateFlashcardsFromPDF(
+        // Generate from PDF (chunked, with progress)
+        const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        requestIdRef.current = requestId;
+        setProgress(null);
+        setNotice(null);
+        const pdfResult = await window.electronAPI.generateFlashcardsFromPDF(
           pdfPath,
           selectedPages,
-          { model, language, count }
+          { model, language, count, deckId },
+          requestId
         );
+        requestIdRef.current = null;
+
+        if (pdfResult.success && pdfResult.cards) {
+          const notes: string[] = [];
+          if (pdfResult.cancelled) notes.push('Abgebrochen - bisher generierte Karten werden angezeigt.');
+          if (pdfResult.duplicatesRemoved) notes.push(`${pdfResult.duplicatesRemoved} doppelte Karten entfernt.`);
+          if (pdfResult.failedChunks) notes.push(`${pdfResult.failedChunks} Abschnitte konnten nicht verarbeitet werden.`);
+          setNotice(notes.length > 0 ? notes.join(' ') : null);
+
+          if (pdfResult.cards.length === 0) {
+            if (!pdfResult.cancelled) {
+              setError('Keine neuen Karten - alle generierten Karten sind bereits im Stapel.');
+            }
+            return;
+          }
+        }
+        result = pdfResult;
       } else if (inputMode === 'text' && text.trim()) {
         // Generate from text
         result = await window.electronAPI.generateFlashcardsAI(text, {
@@ -185,6 +223,13 @@ export default function AIGeneratorModal({
       }
     } finally {
       setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (requestIdRef.current) {
+      window.electronAPI.cancelAIStream(requestIdRef.current);
     }
   };
 
@@ -233,6 +278,33 @@ export default function AIGeneratorModal({
             </div>
           )}
 
+          {notice && generatedCards.length > 0 && (
+            <div className="p-3 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 rounded-lg text-sm">
+              {notice}
+            </div>
+          )}
+
+          {/* Chunk Progress */}
+          {loading && progress && (
+            <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+              <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-300 mb-2">
+                <span>
+                  Abschnitt {Math.min(progress.completedChunks + 1, progress.totalChunks)} von {progress.totalChunks}
+                  {progress.currentPages.length > 0 && (
+                    <> (Seite {progress.currentPages[0]}{progress.currentPages.length > 1 && `-${progress.currentPages[progress.currentPages.length - 1]}`})</>
+                  )}
+                </span>
+                <span>{progress.cardCount} Karten</span>
+              </div>
+              <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary-500 transition-all"
+                  style={{ width: `${(progress.completedChunks / progress.totalChunks) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
           {generatedCards.length === 0 ? (
             <>
               {/* Input Mode Tabs */}
@@ -532,10 +604,10 @@ export default function AIGeneratorModal({
           {generatedCards.length === 0 ? (
             <>
               <button
-                onClick={onClose}
+                onClick={loading && inputMode === 'pdf' ? handleCancel : onClose}
                 className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
               >
-                Abbrechen
+                {loading && inputMode === 'pdf' ? 'Generierung abbrechen' : 'Abbrechen'}
               </button>
               <button
                 onClick={handleGenerate}
@@ -0,0 +1,342 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { CardSearchResult, FlashcardDeck } from '../../../shared/types';
+import { CARD_SEARCH_LIMIT, renderCloze } from '../../../shared/constants';
+import { buildDeckTree } from '../../utils/deckTree';
+import { useOpenCardSource } from '../../hooks/useOpenCardSource';
+
+interface CardBrowserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;    // Cards were moved, reset, deleted or re-tagged
+}
+
+type SortColumn = 'front' | 'deck' | 'due' | 'difficulty' | 'stability' | 'retrievability' | 'lapses';
+
+const STATE_LABELS = ['Neu', 'Lernen', 'Review', 'Relearning'];
+
+const SEARCH_EXAMPLES = ['deck:Biologie', 'state:review', 'due:<7', 'lapses>2', 'pdf:"Anatomy.pdf"', 'page:10-20'];
+
+const COLUMNS: Array<{ key: SortColumn; label: string; numeric: boolean }> = [
+  { key: 'front', label: 'Vorderseite', numeric: false },
+  { key: 'deck', label: 'Deck', numeric: false },
+  { key: 'due', label: 'Fallig', numeric: true },
+  { key: 'difficulty', label: 'Schwierigkeit', numeric: true },
+  { key: 'stability', label: 'Stabilitat', numeric: true },
+  { key: 'retrievability', label: 'Abrufbarkeit', numeric: true },
+  { key: 'lapses', label: 'Lapses', numeric: true },
+];
+
+function sortValue(card: CardSearchResult, column: SortColumn): string | number {
+  switch (column) {
+    case 'front': return card.front.toLowerCase();
+    case 'deck': return card.deckName.toLowerCase();
+    case 'due': return new Date(card.fsrs.due).getTime();
+    case 'difficulty': return card.fsrs.difficulty;
+    case 'stability': return card.fsrs.stability;
+    case 'retrievability': return card.fsrs.retrievability;
+    case 'lapses': return card.fsrs.lapses;
+  }
+}
+
+// Split "+wichtig -alt neu" into tags to add (with or without "+") and tags to remove
+function parseTagChanges(input: string): { add: string[]; remove: string[] } {
+  const words = input.split(/[\s,]+/).filter(Boolean);
+  return {
+    add: words.filter(word => !word.startsWith('-')).map(word => word.replace(/^\+/, '')).filter(Boolean),
+    remove: words.filter(word => word.startsWith('-')).map(word => word.slice(1)).filter(Boolean),
+  };
+}
+
+export default function CardBrowserModal({ isOpen, onClose, onChanged }: CardBrowserModalProps) {
+  const openCardSource = useOpenCardSource();
+  const [query, setQuery] = useState('');
+  const [cards, setCards] = useState<CardSearchResult[]>([]);
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [sort, setSort] = useState<{ column: SortColumn; descending: boolean }>({ column: 'due', descending: false });
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [targetDeckId, setTargetDeckId] = useState<number | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      window.electronAPI.getFlashcardDecks().then(setDecks);
+    }
+  }, [isOpen]);
+
+  // Search as the query is typed
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setTimeout(() => search(), 250);
+    return () => clearTimeout(timer);
+  }, [query, isOpen]);
+
+  const search = async () => {
+    setLoading(true);
+    try {
+      const result = await window.electronAPI.searchFlashcards(query);
+      if (result.success) {
+        const found = result.cards ?? [];
+        setCards(found);
+        setError(null);
+        // Keep the selection of cards that are still listed
+        setSelected((current) => new Set(found.filter(card => current.has(card.id)).map(card => card.id)));
+      } else {
+        setError(result.error || 'Suche fehlgeschlagen');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sortedCards = useMemo(() => {
+    const direction = sort.descending ? -1 : 1;
+    return [...cards].sort((a, b) => {
+      const left = sortValue(a, sort.column);
+      const right = sortValue(b, sort.column);
+      return left < right ? -direction : left > right ? direction : 0;
+    });
+  }, [cards, sort]);
+
+  const toggleSort = (column: SortColumn) => {
+    setSort((current) => ({ column, descending: current.column === column ? !current.descending : false }));
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = cards.length > 0 && selected.size === cards.length;
+
+  // Run a bulk action on the selected cards, then refresh the results
+  const runBulkAction = async (action: (ids: number[]) => Promise<unknown>) => {
+    if (selected.size === 0) return;
+    setBusy(true);
+    try {
+      await action([...selected]);
+      onChanged();
+      await search();
+    } catch (err) {
+      console.error('Bulk action failed:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleShowSource = async (id: number) => {
+    if (await openCardSource(id)) {
+      onClose();
+    }
+  };
+
+  const handleMove = () => {
+    if (targetDeckId === null) return;
+    runBulkAction((ids) => window.electronAPI.moveFlashcards(ids, targetDeckId));
+  };
+
+  const handleReset = () => {
+    if (!confirm(`Lernfortschritt von ${selected.size} Karten zurucksetzen? Die Karten werden wieder neu.`)) return;
+    runBulkAction((ids) => window.electronAPI.resetFlashcards(ids));
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`${selected.size} Karten wirklich loschen?`)) return;
+    runBulkAction(async (ids) => {
+      await window.electronAPI.deleteFlashcards(ids);
+      setSelected(new Set());
+    });
+  };
+
+  const handleRetag = () => {
+    const { add, remove } = parseTagChanges(tagInput);
+    if (add.length === 0 && remove.length === 0) return;
+    runBulkAction(async (ids) => {
+      await window.electronAPI.retagFlashcards(ids, add, remove);
+      setTagInput('');
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-6xl h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Karten durchsuchen</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Search */}
+        <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 space-y-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='Text oder Filter, z.B. deck:Biologie lapses>2 "Zellkern"'
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            autoFocus
+          />
+          <div className="flex flex-wrap items-center gap-1">
+            {SEARCH_EXAMPLES.map((example) => (
+              <button
+                key={example}
+                onClick={() => setQuery((current) => `${current} ${example}`.trim())}
+                className="px-2 py-0.5 text-xs font-mono text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                {example}
+              </button>
+            ))}
+            <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">
+              {loading ? 'Suche...' : `${cards.length}${cards.length === CARD_SEARCH_LIMIT ? '+' : ''} Karten`}
+            </span>
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        {/* Bulk Actions */}
+        <div className="px-6 py-2 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-2 text-sm bg-gray-50 dark:bg-gray-900/30">
+          <span className="text-gray-600 dark:text-gray-300 mr-2">{selected.size} ausgewahlt</span>
+          <select
+            value={targetDeckId ?? ''}
+            onChange={(e) => setTargetDeckId(e.target.value === '' ? null : Number(e.target.value))}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+          >
+            <option value="">Deck wahlen...</option>
+            {buildDeckTree(decks).map(({ deck, depth }) => (
+              <option key={deck.id} value={deck.id}>{'  '.repeat(depth)}{deck.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleMove}
+            disabled={busy || selected.size === 0 || targetDeckId === null}
+            className="px-2 py-1 rounded bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 disabled:opacity-50"
+          >
+            Verschieben
+          </button>
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="+tag -tag"
+            className="w-32 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+          />
+          <button
+            onClick={handleRetag}
+            disabled={busy || selected.size === 0 || !tagInput.trim()}
+            className="px-2 py-1 rounded bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 disabled:opacity-50"
+          >
+            Tags andern
+          </button>
+          <button
+            onClick={handleReset}
+            disabled={busy || selected.size === 0}
+            className="px-2 py-1 rounded bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 disabled:opacity-50"
+          >
+            Zurucksetzen
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={busy || selected.size === 0}
+            className="px-2 py-1 rounded text-red-600 bg-white dark:bg-gray-700 border border-red-200 dark:border-red-900/50 disabled:opacity-50"
+          >
+            Loschen
+          </button>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white dark:bg-gray-800 shadow-sm">
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="px-3 py-2 w-8">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => setSelected(allSelected ? new Set() : new Set(cards.map(card => card.id)))}
+                  />
+                </th>
+                {COLUMNS.map(({ key, label, numeric }) => (
+                  <th
+                    key={key}
+                    onClick={() => toggleSort(key)}
+                    className={`px-3 py-2 font-medium cursor-pointer select-none hover:text-gray-800 dark:hover:text-gray-200 ${numeric ? 'text-right' : ''}`}
+                  >
+                    {label}
+                    {sort.column === key && (sort.descending ? ' ▼' : ' ▲')}
+                  </th>
+                ))}
+                <th className="px-3 py-2 w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedCards.map((card) => (
+                <tr
+                  key={card.id}
+                  onClick={() => toggleSelected(card.id)}
+                  className={`border-t border-gray-100 dark:border-gray-700 cursor-pointer ${
+                    selected.has(card.id) ? 'bg-primary-50 dark:bg-primary-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  } ${card.suspended ? 'opacity-60' : ''}`}
+                >
+                  <td className="px-3 py-2">
+                    <input type="checkbox" checked={selected.has(card.id)} readOnly />
+                  </td>
+                  <td className="px-3 py-2 max-w-md">
+                    <div className="truncate text-gray-900 dark:text-gray-100">
+                      {card.cardType === 'cloze' ? renderCloze(card.front, card.clozeIndex, false) : card.front}
+                    </div>
+                    <div className="text-xs text-gray-400 truncate">
+                      {STATE_LABELS[card.fsrs.state]}
+                      {card.tags.length > 0 && ` · ${card.tags.join(', ')}`}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-gray-600 dark:text-gray-300 truncate max-w-[10rem]">{card.deckName}</td>
+                  <td className="px-3 py-2 text-right text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                    {card.fsrs.state === 0 ? '-' : new Date(card.fsrs.due).toLocaleDateString('de-DE')}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-600 dark:text-gray-300">{card.fsrs.difficulty.toFixed(1)}</td>
+                  <td className="px-3 py-2 text-right text-gray-600 dark:text-gray-300">{card.fsrs.stability.toFixed(1)}</td>
+                  <td className="px-3 py-2 text-right text-gray-600 dark:text-gray-300">{Math.round(card.fsrs.retrievability * 100)}%</td>
+                  <td className="px-3 py-2 text-right text-gray-600 dark:text-gray-300">{card.fsrs.lapses}</td>
+                  <td className="px-3 py-2">
+                    {(card.sourcePage !== null || card.highlightId !== null || card.imageId !== null) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleShowSource(card.id);
+                        }}
+                        title="Quelle im PDF anzeigen"
+                        className="p-1 text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                        </svg>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!loading && !error && cards.length === 0 && (
+            <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">Keine Karten gefunden</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
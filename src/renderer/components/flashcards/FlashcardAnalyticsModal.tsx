@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import type { CalibrationBin, DistributionBucket, FlashcardAnalytics } from '../../../shared/types';
+
+interface FlashcardAnalyticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FORECAST_OPTIONS = [30, 90];
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900/30 rounded-lg p-4">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function DistributionChart({ buckets }: { buckets: DistributionBucket[] }) {
+  const max = Math.max(1, ...buckets.map(b => b.count));
+  return (
+    <div className="space-y-1">
+      {buckets.map((bucket) => (
+        <div key={bucket.label} className="flex items-center gap-2 text-xs">
+          <span className="w-14 text-right text-gray-500 dark:text-gray-400">{bucket.label}</span>
+          <div className="flex-1 h-3 bg-gray-200 dark:bg-gray-700 rounded">
+            <div className="h-3 bg-primary-500 rounded" style={{ width: `${(bucket.count / max) * 100}%` }} />
+          </div>
+          <span className="w-10 text-gray-600 dark:text-gray-300">{bucket.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Predicted retrievability (x) against the actual pass rate (y), the diagonal is perfect calibration
+function CalibrationChart({ bins, desiredRetention }: { bins: CalibrationBin[]; desiredRetention: number }) {
+  const size = 200;
+  const maxCount = Math.max(1, ...bins.map(b => b.count));
+  const toX = (value: number) => value * size;
+  const toY = (value: number) => size - value * size;
+
+  return (
+    <svg viewBox={`-24 -8 ${size + 32} ${size + 32}`} className="w-64 h-64 text-gray-400">
+      <rect x={0} y={0} width={size} height={size} fill="none" stroke="currentColor" strokeOpacity={0.4} />
+      <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(1)} stroke="currentColor" strokeDasharray="4 4" />
+      <line x1={toX(desiredRetention)} y1={0} x2={toX(desiredRetention)} y2={size} stroke="#22c55e" strokeOpacity={0.6} />
+      {[0, 0.5, 1].map((tick) => (
+        <g key={tick} fontSize={9} fill="currentColor">
+          <text x={toX(tick)} y={size + 12} textAnchor="middle">{percent(tick)}</text>
+          <text x={-4} y={toY(tick) + 3} textAnchor="end">{percent(tick)}</text>
+        </g>
+      ))}
+      <polyline
+        points={bins.map(b => `${toX(b.predicted)},${toY(b.actual)}`).join(' ')}
+        fill="none"
+        stroke="#6366f1"
+        strokeWidth={1.5}
+      />
+      {bins.map((bin) => (
+        <circle
+          key={bin.from}
+          cx={toX(bin.predicted)}
+          cy={toY(bin.actual)}
+          r={2 + 4 * Math.sqrt(bin.count / maxCount)}
+          fill="#6366f1"
+        >
+          <title>{`Vorhergesagt ${percent(bin.predicted)}, tatsachlich ${percent(bin.actual)} (${bin.count} Wiederholungen)`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+export default function FlashcardAnalyticsModal({ isOpen, onClose }: FlashcardAnalyticsModalProps) {
+  const [forecastDays, setForecastDays] = useState(30);
+  const [analytics, setAnalytics] = useState<FlashcardAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    window.electronAPI.getFlashcardAnalytics(forecastDays)
+      .then(setAnalytics)
+      .catch((error) => console.error('Error loading analytics:', error))
+      .finally(() => setLoading(false));
+  }, [isOpen, forecastDays]);
+
+  if (!isOpen) return null;
+
+  const forecast = analytics?.forecast ?? [];
+  const forecastMax = Math.max(1, ...forecast.map(d => d.count));
+  const forecastTotal = forecast.reduce((sum, d) => sum + d.count, 0);
+
+  const daily = analytics?.answerTime.daily ?? [];
+  const dailyMaxMinutes = Math.max(1, ...daily.map(d => d.minutes));
+  const dailyTotalMinutes = daily.reduce((sum, d) => sum + d.minutes, 0);
+
+  const calibration = analytics?.calibration ?? [];
+  const calibrationCount = calibration.reduce((sum, b) => sum + b.count, 0);
+  const meanPredicted = calibrationCount > 0 ? calibration.reduce((sum, b) => sum + b.predicted * b.count, 0) / calibrationCount : 0;
+  const meanActual = calibrationCount > 0 ? calibration.reduce((sum, b) => sum + b.actual * b.count, 0) / calibrationCount : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Lernstatistik</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          {loading && !analytics ? (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+              <div className="animate-spin w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full mx-auto mb-2" />
+              Lade Statistik...
+            </div>
+          ) : analytics && (
+            <>
+              {/* Forecast */}
+              <Section title="Prognose fallige Wiederholungen">
+                <div className="flex items-center justify-between mb-2 text-xs text-gray-500 dark:text-gray-400">
+                  <span>
+                    {forecastTotal} Wiederholungen in {forecastDays} Tagen, durchschnittlich {(forecastTotal / forecastDays).toFixed(1)} pro Tag
+                  </span>
+                  <div className="flex gap-1">
+                    {FORECAST_OPTIONS.map((days) => (
+                      <button
+                        key={days}
+                        onClick={() => setForecastDays(days)}
+                        className={`px-2 py-1 rounded ${
+                          forecastDays === days
+                            ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-400'
+                            : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400'
+                        }`}
+                      >
+                        {days} Tage
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-end gap-px h-32">
+                  {forecast.map((day, index) => (
+                    <div
+                      key={day.date}
+                      className={`flex-1 rounded-t ${index === 0 ? 'bg-orange-400' : 'bg-primary-500'}`}
+                      style={{ height: `${(day.count / forecastMax) * 100}%`, minHeight: day.count > 0 ? 2 : 0 }}
+                      title={`${new Date(day.date + 'T00:00:00').toLocaleDateString('de-DE')}: ${day.count}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between mt-1 text-xs text-gray-400">
+                  <span>Heute (inkl. uberfallig)</span>
+                  <span>+{forecastDays - 1} Tage</span>
+                </div>
+              </Section>
+
+              {/* Retention */}
+              <Section title="Tatsachliche Behaltensrate">
+                {analytics.retention.length === 0 ? (
+                  <p className="text-sm text-gray-400">Noch keine Wiederholungen nach mindestens einem Tag.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                        <th className="py-1 font-medium">Deck</th>
+                        <th className="py-1 font-medium text-right">Wiederholungen</th>
+                        <th className="py-1 font-medium text-right">Gesamt</th>
+                        <th className="py-1 font-medium text-right">Letzte 30 Tage</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.retention.map((deck) => {
+                        const retention = deck.passed / deck.reviews;
+                        return (
+                          <tr key={deck.deckId} className="border-t border-gray-200 dark:border-gray-700">
+                            <td className="py-1 text-gray-900 dark:text-gray-100">{deck.deckName}</td>
+                            <td className="py-1 text-right text-gray-600 dark:text-gray-300">{deck.reviews}</td>
+                            <td className={`py-1 text-right font-medium ${retention >= analytics.desiredRetention ? 'text-green-600' : 'text-orange-500'}`}>
+                              {percent(retention)}
+                            </td>
+                            <td className="py-1 text-right text-gray-600 dark:text-gray-300">
+                              {deck.recentReviews > 0 ? `${percent(deck.recentPassed / deck.recentReviews)} (${deck.recentReviews})` : '-'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+                <p className="mt-2 text-xs text-gray-400">Ziel: {percent(analytics.desiredRetention)}</p>
+              </Section>
+
+              {/* Distributions */}
+              <div className="grid grid-cols-2 gap-4">
+                <Section title="Stabilitat">
+                  <DistributionChart buckets={analytics.stability} />
+                </Section>
+                <Section title="Schwierigkeit">
+                  <DistributionChart buckets={analytics.difficulty} />
+                </Section>
+              </div>
+
+              {/* Answer time */}
+              <Section title="Antwortzeit">
+                {analytics.answerTime.averageSeconds === null ? (
+                  <p className="text-sm text-gray-400">Noch keine gemessenen Antwortzeiten.</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-6">
+                    <div>
+                      <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                        Durchschnittlich <span className="font-medium">{analytics.answerTime.averageSeconds.toFixed(1)} s</span> pro Karte
+                      </p>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Lernzeit pro Tag (30 Tage)</div>
+                      <div className="space-y-1">
+                        {analytics.answerTime.daily.slice(-10).map((day) => (
+                          <div key={day.date} className="flex items-center gap-2 text-xs">
+                            <span className="w-14 text-right text-gray-500 dark:text-gray-400">
+                              {new Date(day.date + 'T00:00:00').toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' })}
+                            </span>
+                            <div className="flex-1 h-3 bg-gray-200 dark:bg-gray-700 rounded">
+                              <div
+                                className="h-3 bg-primary-500 rounded"
+                                style={{ width: `${(day.minutes / dailyMaxMinutes) * 100}%` }}
+                              />
+                            </div>
+                            <span className="w-14 text-gray-600 dark:text-gray-300">{day.minutes} Min</span>
+                          </div>
+                        ))}
+                      </div>
+                      <p className="mt-2 text-xs text-gray-400">Insgesamt {Math.round(dailyTotalMinutes)} Minuten in 30 Tagen</p>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Langsamste Karten</div>
+                      <ul className="space-y-1 text-sm">
+                        {analytics.answerTime.slowestCards.map((card) => (
+                          <li key={card.id} className="flex items-center gap-2">
+                            <span className="flex-1 truncate text-gray-900 dark:text-gray-100" title={`${card.deckName}: ${card.front}`}>
+                              {card.front}
+                            </span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                              {card.averageSeconds.toFixed(1)} s ({card.reviews}x)
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+              </Section>
+
+              {/* Calibration */}
+              <Section title="Kalibrierung: vorhergesagte Abrufbarkeit gegen tatsachliche Erfolgsquote">
+                {calibration.length === 0 ? (
+                  <p className="text-sm text-gray-400">Noch nicht genug Wiederholungen fur eine Kalibrierung.</p>
+                ) : (
+                  <div className="flex gap-6 items-start">
+                    <CalibrationChart bins={calibration} desiredRetention={analytics.desiredRetention} />
+                    <div className="flex-1 text-sm text-gray-600 dark:text-gray-300 space-y-2">
+                      <p>
+                        Vorhergesagt {percent(meanPredicted)}, tatsachlich {percent(meanActual)} bei {calibrationCount} Wiederholungen.
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {meanActual < meanPredicted - 0.03
+                          ? 'Du vergisst mehr als das Modell erwartet. Eine Optimierung der FSRS-Parameter oder ein niedrigeres Ziel kann helfen.'
+                          : meanActual > meanPredicted + 0.03
+                            ? 'Du behaltst mehr als das Modell erwartet. Ein hoheres Ziel ist wahrscheinlich ohne viel Mehraufwand erreichbar.'
+                            : 'Das Modell passt gut zu deinen Wiederholungen, das Ziel ist realistisch.'}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        Punkte unter der Diagonale: weniger behalten als vorhergesagt. Die grune Linie markiert das Ziel.
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </Section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useAppStore } from '../../stores/appStore';
-import type { FlashcardWithFSRS, GeneratedCard } from '../../../shared/types';
+import type { CardFlag, FlashcardWithFSRS, GeneratedCard } from '../../../shared/types';
+import { LEECH_TAG, renderCloze } from '../../../shared/constants';
 import FlashcardEditor from './FlashcardEditor';
 import AIGeneratorModal from './AIGeneratorModal';
+import FsrsOptimizationPanel from './FsrsOptimizationPanel';
+import ImportWizardModal from './ImportWizardModal';
+import { CARD_FLAGS, getFlagColor } from '../../utils/cardFlags';
+import { getSubdeckIds } from '../../utils/deckTree';
 
 interface FlashcardDeckViewProps {
   onBack: () => void;
@@ -20,6 +25,10 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
     currentPdf,
     pdfs,
     setMainContentView,
+    settings,
+    setCurrentDeck,
+    flashcardDecks,
+    setStudyFilteredDeck,
   } = useAppStore();
 
   // Get the linked PDF for this deck - prioritize deck's linked PDF, fallback to currentPdf
@@ -30,12 +39,20 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
   const [showEditor, setShowEditor] = useState(false);
   const [editingCard, setEditingCard] = useState<FlashcardWithFSRS | null>(null);
   const [showAIGenerator, setShowAIGenerator] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
   const [loading, setLoading] = useState(true);
 
+  // Per-deck daily limits (empty = global setting)
+  const [showLimits, setShowLimits] = useState(false);
+  const [newLimit, setNewLimit] = useState('');
+  const [reviewLimit, setReviewLimit] = useState('');
+
   useEffect(() => {
     if (currentDeck) {
       loadCards();
       loadDueCards();
+      setNewLimit(currentDeck.newCardsPerDay?.toString() ?? '');
+      setReviewLimit(currentDeck.reviewsPerDay?.toString() ?? '');
     }
   }, [currentDeck]);
 
@@ -74,6 +91,26 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
     }
   };
 
+  const handleToggleSuspend = async (card: FlashcardWithFSRS) => {
+    try {
+      await window.electronAPI.setFlashcardsSuspended([card.id], !card.suspended);
+      await loadCards();
+      await loadDueCards();
+    } catch (error) {
+      console.error('Error suspending card:', error);
+    }
+  };
+
+  const handleSetFlag = async (card: FlashcardWithFSRS, flag: CardFlag) => {
+    try {
+      // Choosing the current flag again removes it
+      await window.electronAPI.setFlashcardsFlag([card.id], card.flag === flag ? 0 : flag);
+      await loadCards();
+    } catch (error) {
+      console.error('Error flagging card:', error);
+    }
+  };
+
   const handleExport = async () => {
     if (!currentDeck) return;
 
@@ -89,8 +126,50 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
     }
   };
 
+  const handleExportApkg = async () => {
+    if (!currentDeck) return;
+
+    try {
+      const result = await window.electronAPI.exportFlashcardsApkg(currentDeck.id);
+      if (result.success) {
+        alert(`Anki-Export erfolgreich! ${result.cardCount} Karten und ${result.reviewCount} Wiederholungen exportiert.`);
+      } else if (!result.canceled) {
+        alert(`Export fehlgeschlagen: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Anki export error:', error);
+    }
+  };
+
+  const handleSaveLimits = async () => {
+    if (!currentDeck) return;
+    const parseLimit = (value: string) => (value.trim() === '' ? null : Math.max(0, parseInt(value, 10) || 0));
+    const newCardsPerDay = parseLimit(newLimit);
+    const reviewsPerDay = parseLimit(reviewLimit);
+
+    try {
+      await window.electronAPI.setFlashcardDeckLimits(currentDeck.id, newCardsPerDay, reviewsPerDay);
+      // Reloads the cards and the study queue
+      setCurrentDeck({ ...currentDeck, newCardsPerDay, reviewsPerDay });
+      setShowLimits(false);
+    } catch (error) {
+      console.error('Error saving deck limits:', error);
+    }
+  };
+
+  const handleMoveDeck = async (parentId: number | null) => {
+    if (!currentDeck) return;
+    const result = await window.electronAPI.setFlashcardDeckParent(currentDeck.id, parentId);
+    if (result.success) {
+      setCurrentDeck({ ...currentDeck, parentId });
+    } else {
+      alert(result.error || 'Deck konnte nicht verschoben werden');
+    }
+  };
+
   const handleStartStudy = () => {
     if (dueFlashcards.length > 0) {
+      setStudyFilteredDeck(null);
       setIsStudying(true);
       setMainContentView('study');
     }
@@ -114,7 +193,7 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
           card.back,
           card.cardType,
           undefined, // highlightId
-          undefined, // sourcePage
+          card.sourcePage,
           card.cardType === 'cloze' ? card.front : undefined // clozeData
         );
       }
@@ -167,6 +246,72 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
             {currentDeck.description}
           </p>
         )}
+
+        {/* Daily Limits */}
+        <button
+          onClick={() => setShowLimits(!showLimits)}
+          className="mt-2 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+        >
+          Lerneinstellungen - Tageslimits: {currentDeck.newCardsPerDay ?? settings?.dailyNewCards ?? 20} neu / {currentDeck.reviewsPerDay ?? settings?.dailyReviewCards ?? 100} Wiederholungen
+          {currentDeck.newCardsPerDay === null && currentDeck.reviewsPerDay === null && ' (global)'}
+        </button>
+        {showLimits && (
+          <div className="mt-2 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-xs text-gray-600 dark:text-gray-300">
+                Neue Karten / Tag
+                <input
+                  type="number"
+                  min={0}
+                  value={newLimit}
+                  onChange={(e) => setNewLimit(e.target.value)}
+                  placeholder={`Global (${settings?.dailyNewCards ?? 20})`}
+                  className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                />
+              </label>
+              <label className="text-xs text-gray-600 dark:text-gray-300">
+                Wiederholungen / Tag
+                <input
+                  type="number"
+                  min={0}
+                  value={reviewLimit}
+                  onChange={(e) => setReviewLimit(e.target.value)}
+                  placeholder={`Global (${settings?.dailyReviewCards ?? 100})`}
+                  className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Leer lassen, um die Limits aus den Einstellungen zu verwenden.
+            </p>
+            <div className="flex justify-end">
+              <button
+                onClick={handleSaveLimits}
+                className="px-3 py-1 text-xs font-medium text-white bg-primary-600 rounded hover:bg-primary-700"
+              >
+                Speichern
+              </button>
+            </div>
+            <label className="block pt-2 border-t border-gray-200 dark:border-gray-600 text-xs text-gray-600 dark:text-gray-300">
+              Unterdeck von
+              <select
+                value={currentDeck.parentId ?? ''}
+                onChange={(e) => handleMoveDeck(e.target.value === '' ? null : Number(e.target.value))}
+                className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+              >
+                <option value="">Kein ubergeordnetes Deck</option>
+                {flashcardDecks
+                  .filter(deck => !getSubdeckIds(flashcardDecks, currentDeck.id).includes(deck.id))
+                  .map(deck => (
+                    <option key={deck.id} value={deck.id}>{deck.name}</option>
+                  ))}
+              </select>
+            </label>
+            <div className="pt-2 border-t border-gray-200 dark:border-gray-600">
+              <FsrsOptimizationPanel deckId={currentDeck.id} />
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Actions */}
@@ -210,6 +355,13 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
             </svg>
             KI
           </button>
+          <button
+            onClick={() => setShowImportWizard(true)}
+            title="CSV, TSV, Markdown oder Quizlet importieren"
+            className="flex-1 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 flex items-center justify-center gap-1"
+          >
+            Import
+          </button>
           <button
             onClick={handleExport}
             disabled={flashcards.length === 0}
@@ -220,6 +372,14 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
             </svg>
             Export
           </button>
+          <button
+            onClick={handleExportApkg}
+            disabled={flashcards.length === 0}
+            title="Als Anki-Paket (.apkg) exportieren"
+            className="flex-1 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Anki
+          </button>
         </div>
       </div>
 
@@ -231,6 +391,17 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
         pdfPath={linkedPdf?.path}
         pdfPageCount={linkedPdf?.pageCount}
         pdfName={linkedPdf?.title}
+        deckId={currentDeck.id}
+      />
+
+      <ImportWizardModal
+        isOpen={showImportWizard}
+        onClose={() => setShowImportWizard(false)}
+        onImported={async () => {
+          await loadCards();
+          await loadDueCards();
+        }}
+        deckId={currentDeck.id}
       />
 
       {/* Card List */}
@@ -260,6 +431,8 @@ export default function FlashcardDeckView({ onBack }: FlashcardDeckViewProps) {
                   setShowEditor(true);
                 }}
                 onDelete={() => handleDeleteCard(card.id)}
+                onToggleSuspend={() => handleToggleSuspend(card)}
+                onSetFlag={(flag) => handleSetFlag(card, flag)}
               />
             ))}
           </div>
@@ -273,9 +446,11 @@ interface CardPreviewProps {
   card: FlashcardWithFSRS;
   onEdit: () => void;
   onDelete: () => void;
+  onToggleSuspend: () => void;
+  onSetFlag: (flag: CardFlag) => void;
 }
 
-function CardPreview({ card, onEdit, onDelete }: CardPreviewProps) {
+function CardPreview({ card, onEdit, onDelete, onToggleSuspend, onSetFlag }: CardPreviewProps) {
   const stateLabels = ['Neu', 'Lernen', 'Review', 'Relearning'];
   const stateColors = [
     'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
@@ -286,12 +461,15 @@ function CardPreview({ card, onEdit, onDelete }: CardPreviewProps) {
 
   // Parse cloze text for display
   const displayFront = card.cardType === 'cloze'
-    ? card.front.replace(/\{\{c\d+::([^}:]+)(?:::[^}]+)?\}\}/g, '[...]')
+    ? renderCloze(card.front, card.clozeIndex, false)
     : card.front;
 
   return (
-    <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 group">
+    <div className={`p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 group ${card.suspended ? 'opacity-60' : ''}`}>
       <div className="flex items-start gap-2">
+        {getFlagColor(card.flag) && (
+          <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${getFlagColor(card.flag)}`} />
+        )}
         <div className="flex-1 min-w-0">
           <p className="text-sm text-gray-900 dark:text-gray-100 line-clamp-2">
             {displayFront}
@@ -305,12 +483,48 @@ function CardPreview({ card, onEdit, onDelete }: CardPreviewProps) {
             </span>
             {card.cardType === 'cloze' && (
               <span className="text-[10px] px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400">
-                Cloze
+                {card.clozeIndex !== null ? `Cloze c${card.clozeIndex}` : 'Cloze'}
+              </span>
+            )}
+            {card.cardType === 'image_occlusion' && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400">
+                Bild, Maske {card.clozeIndex}
+              </span>
+            )}
+            {card.suspended && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                Pausiert
+              </span>
+            )}
+            {card.tags.includes(LEECH_TAG) && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" title={`${card.fsrs.lapses} Mal vergessen`}>
+                Leech
               </span>
             )}
           </div>
         </div>
-        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {CARD_FLAGS.map(({ flag, label, color }) => (
+            <button
+              key={flag}
+              onClick={() => onSetFlag(flag)}
+              className={`w-3 h-3 rounded-full ${color} ${card.flag === flag ? 'ring-2 ring-offset-1 ring-gray-400' : 'opacity-40 hover:opacity-100'}`}
+              title={`Markierung: ${label}`}
+            />
+          ))}
+          <button
+            onClick={onToggleSuspend}
+            className="p-1.5 text-gray-400 hover:text-amber-600"
+            title={card.suspended ? 'Fortsetzen' : 'Pausieren'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              {card.suspended ? (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664zM21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              ) : (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              )}
+            </svg>
+          </button>
           <button
             onClick={onEdit}
             className="p-1.5 text-gray-400 hover:text-primary-600"
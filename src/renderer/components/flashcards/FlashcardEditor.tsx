@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useAppStore } from '../../stores/appStore';
 import type { FlashcardWithFSRS, FlashcardType } from '../../../shared/types';
+import { getClozeIndices, renderCloze } from '../../../shared/constants';
+import OcclusionImage from './OcclusionImage';
 
 interface FlashcardEditorProps {
   card?: FlashcardWithFSRS | null;
@@ -23,24 +25,28 @@ export default function FlashcardEditor({
 }: FlashcardEditorProps) {
   const { currentDeck } = useAppStore();
 
-  const [front, setFront] = useState(card?.front || initialFront);
+  const [front, setFront] = useState(card?.clozeData || card?.front || initialFront);
   const [back, setBack] = useState(card?.back || initialBack);
   const [cardType, setCardType] = useState<FlashcardType>(card?.cardType || 'basic');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Preview for cloze cards
-  const clozePreview = cardType === 'cloze'
-    ? front.replace(/\{\{c\d+::([^}:]+)(?:::[^}]+)?\}\}/g, '[...]')
-    : null;
+  // One card per deletion - preview each sibling
+  const clozeIndices = cardType === 'cloze' ? getClozeIndices(front) : [];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!front.trim() || !back.trim()) {
+    // Image occlusion answers are the masks, the back is an optional note
+    if (!front.trim() || (!back.trim() && cardType !== 'image_occlusion')) {
       setError('Vorder- und Ruckseite sind erforderlich');
       return;
     }
 
+    if (cardType === 'cloze' && clozeIndices.length === 0) {
+      setError('Der Text enthalt keine Lucke ({{c1::...}})');
+      return;
+    }
+
     if (!currentDeck) {
       setError('Kein Deck ausgewahlt');
       return;
@@ -128,31 +134,37 @@ export default function FlashcardEditor({
           </div>
         )}
 
-        {/* Card Type Toggle */}
-        <div className="flex gap-2">
-          <button
-            type="button"
-            onClick={() => setCardType('basic')}
-            className={`flex-1 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
-              cardType === 'basic'
-                ? 'bg-primary-600 text-white'
-                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-            }`}
-          >
-            Basic
-          </button>
-          <button
-            type="button"
-            onClick={() => setCardType('cloze')}
-            className={`flex-1 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
-              cardType === 'cloze'
-                ? 'bg-primary-600 text-white'
-                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-            }`}
-          >
-            Cloze
-          </button>
-        </div>
+        {/* Card Type Toggle - image occlusion cards keep their type and show the masked image */}
+        {cardType === 'image_occlusion' ? (
+          card?.imageId != null && (
+            <OcclusionImage imageId={card.imageId} activeMask={null} revealed={false} className="text-center" />
+          )
+        ) : (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setCardType('basic')}
+              className={`flex-1 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                cardType === 'basic'
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              Basic
+            </button>
+            <button
+              type="button"
+              onClick={() => setCardType('cloze')}
+              className={`flex-1 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                cardType === 'cloze'
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              Cloze
+            </button>
+          </div>
+        )}
 
         {/* Front */}
         <div>
@@ -182,10 +194,17 @@ export default function FlashcardEditor({
             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
             rows={4}
           />
-          {cardType === 'cloze' && front.includes('{{c') && (
-            <div className="mt-2 p-2 bg-gray-50 dark:bg-gray-800 rounded text-sm text-gray-600 dark:text-gray-400">
-              <span className="text-xs font-medium uppercase tracking-wide">Vorschau:</span>
-              <p className="mt-1">{clozePreview}</p>
+          {clozeIndices.length > 0 && (
+            <div className="mt-2 p-2 bg-gray-50 dark:bg-gray-800 rounded text-sm text-gray-600 dark:text-gray-400 space-y-1">
+              <span className="text-xs font-medium uppercase tracking-wide">
+                Vorschau ({clozeIndices.length} {clozeIndices.length === 1 ? 'Karte' : 'Karten'}):
+              </span>
+              {clozeIndices.map(index => (
+                <p key={index} className="flex gap-2">
+                  <span className="text-xs font-mono text-primary-600 dark:text-primary-400 shrink-0 mt-0.5">c{index}</span>
+                  <span>{renderCloze(front, index, false)}</span>
+                </p>
+              ))}
             </div>
           )}
         </div>
@@ -211,6 +230,7 @@ export default function FlashcardEditor({
             <ul className="list-disc list-inside space-y-0.5">
               <li><code className="bg-gray-200 dark:bg-gray-700 px-1 rounded">{'{{c1::Text}}'}</code> - Einfache Lucke</li>
               <li><code className="bg-gray-200 dark:bg-gray-700 px-1 rounded">{'{{c1::Text::Hinweis}}'}</code> - Mit Hinweis</li>
+              <li>Jede Nummer (c1, c2, ...) wird eine eigene Karte, gleiche Nummern werden zusammen abgefragt</li>
               <li>Markiere Text und klicke "Lucke einfugen"</li>
             </ul>
           </div>
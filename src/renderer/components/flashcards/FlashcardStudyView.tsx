@@ -1,6 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { useAppStore } from '../../stores/appStore';
-import type { FSRSRating } from '../../../shared/types';
+import { useAppStore, type PausedStudySession, type StudyUndoEntry } from '../../stores/appStore';
+import type { AnswerGrading, FSRSRating } from '../../../shared/types';
+import { diffAnswer, getClozeAnswer, renderCloze } from '../../../shared/constants';
+import OcclusionImage from './OcclusionImage';
+import { useToast } from '../ui/Toast';
+import { useAnswerTimer } from '../../hooks/useAnswerTimer';
+import { useOpenCardSource } from '../../hooks/useOpenCardSource';
 import confetti from 'canvas-confetti';
 
 // Feedback messages for each rating
@@ -11,12 +16,20 @@ const FEEDBACK_MESSAGES: Record<FSRSRating, string[]> = {
   4: ['Perfekt!', 'Klasse!', 'Ausgezeichnet!', 'Genial!'],
 };
 
+const VERDICT_LABELS: Record<AnswerGrading['verdict'], { label: string; className: string }> = {
+  correct: { label: 'Richtig', className: 'text-emerald-600 dark:text-emerald-400' },
+  partial: { label: 'Teilweise richtig', className: 'text-amber-600 dark:text-amber-400' },
+  incorrect: { label: 'Falsch', className: 'text-red-600 dark:text-red-400' },
+};
+
 interface FlashcardStudyViewProps {
   onComplete: () => void;
   onBack: () => void;
 }
 
 export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStudyViewProps) {
+  const { showToast } = useToast();
+  const openCardSource = useOpenCardSource();
   const {
     dueFlashcards,
     setDueFlashcards,
@@ -24,6 +37,10 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
     setCurrentStudyCard,
     studyCardIndex,
     setStudyCardIndex,
+    studyFilteredDeck,
+    studyAnswerMode,
+    setStudyAnswerMode,
+    setPausedStudySession,
   } = useAppStore();
 
   const [isFlipped, setIsFlipped] = useState(false);
@@ -35,8 +52,30 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
   const [lastRating, setLastRating] = useState<FSRSRating | null>(null);
   const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null);
   const [isSessionComplete, setIsSessionComplete] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [grading, setGrading] = useState<AnswerGrading | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
+  const answerInputRef = useRef<HTMLInputElement>(null);
   const previousDeckCardsRef = useRef<number[]>([]);
+  const undoStackRef = useRef<StudyUndoEntry[]>([]);
+  const sessionSnapshotRef = useRef<PausedStudySession | null>(null);
+  const answerTimer = useAnswerTimer();
+
+  // Kept up to date on every render so the unmount cleanup sees the latest state
+  sessionSnapshotRef.current = isSessionComplete ? null : {
+    cardIds: dueFlashcards.map(c => c.id),
+    reviewedCount,
+    streak,
+    easyStreak,
+    isFlipped,
+    undoStack: undoStackRef.current,
+  };
+
+  // Park the session when the view goes away, e.g. to show a card's source in the PDF
+  useEffect(() => {
+    return () => setPausedStudySession(sessionSnapshotRef.current);
+  }, []);
 
   // Initialize first card or reset on deck change
   useEffect(() => {
@@ -50,9 +89,25 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
        currentCardIds[0] !== previousCardIds[0] ||
        currentCardIds.length !== previousCardIds.length);
 
-    if (deckChanged) {
+    const paused = useAppStore.getState().pausedStudySession;
+    if (deckChanged && previousCardIds.length === 0 && paused &&
+        paused.cardIds.length === currentCardIds.length &&
+        paused.cardIds.every((id, i) => id === currentCardIds[i])) {
+      // Back to a parked session - continue where it was left
+      const index = studyCardIndex < dueFlashcards.length ? studyCardIndex : 0;
+      previousDeckCardsRef.current = currentCardIds;
+      undoStackRef.current = paused.undoStack;
+      setPausedStudySession(null);
+      setReviewedCount(paused.reviewedCount);
+      setStreak(paused.streak);
+      setEasyStreak(paused.easyStreak);
+      setIsFlipped(paused.isFlipped);
+      setCurrentStudyCard(dueFlashcards[index]);
+      setStudyCardIndex(index);
+    } else if (deckChanged) {
       // Deck changed - reset everything and start fresh
       previousDeckCardsRef.current = currentCardIds;
+      undoStackRef.current = [];
       setIsSessionComplete(false);
       setReviewedCount(0);
       setStreak(0);
@@ -68,6 +123,23 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
     }
   }, [dueFlashcards, currentStudyCard, isSessionComplete]);
 
+  // Image occlusion cards have nothing to type, they are always flipped
+  const isTypingCard = studyAnswerMode === 'type' && currentStudyCard?.cardType !== 'image_occlusion';
+
+  // Time the answer from the moment the card is shown
+  useEffect(() => {
+    answerTimer.restart();
+    setTypedAnswer('');
+    setGrading(null);
+  }, [currentStudyCard?.id, studyCardIndex]);
+
+  // Focus the answer field for every new card in typing mode
+  useEffect(() => {
+    if (isTypingCard && !isFlipped) {
+      answerInputRef.current?.focus();
+    }
+  }, [isTypingCard, isFlipped, currentStudyCard?.id, studyCardIndex]);
+
   // Card entrance animation
   useEffect(() => {
     if (currentStudyCard) {
@@ -121,8 +193,13 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (isSubmitting) return;
+      // Keys typed into the answer field are not shortcuts
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
-      if (e.code === 'Space' && !isFlipped) {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        handleUndo();
+      } else if (e.code === 'Space' && !isFlipped) {
         e.preventDefault();
         setIsFlipped(true);
       } else if (isFlipped) {
@@ -145,11 +222,12 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isFlipped, isSubmitting, currentStudyCard]);
+  }, [isFlipped, isSubmitting, currentStudyCard, dueFlashcards]);
 
   const handleRating = async (rating: FSRSRating) => {
     if (!currentStudyCard || isSubmitting) return;
 
+    const durationMs = answerTimer.elapsed();
     try {
       setIsSubmitting(true);
       setLastRating(rating);
@@ -160,7 +238,11 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
       setFeedbackMessage(randomMessage);
       setTimeout(() => setFeedbackMessage(null), 1200);
 
-      await window.electronAPI.submitFlashcardReview(currentStudyCard.id, rating);
+      const reviewed = await window.electronAPI.submitFlashcardReview(currentStudyCard.id, rating, studyFilteredDeck !== null, durationMs);
+      undoStackRef.current.push({ reviewId: reviewed.reviewId, cardIndex: studyCardIndex, reviewedCount, streak, easyStreak });
+      if (reviewed.leech) {
+        showToast(reviewed.suspended ? 'Leech erkannt - Karte wurde pausiert' : 'Leech erkannt - Karte wurde markiert', 'info');
+      }
       setReviewedCount(prev => prev + 1);
 
       // Update streak
@@ -202,22 +284,75 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
     }
   };
 
+  // Step back to the previously rated card and restore its scheduling state
+  const handleUndo = async () => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!entry || isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      if (entry.reviewId !== null) {
+        const result = await window.electronAPI.undoFlashcardReview(entry.reviewId);
+        if (!result.success) {
+          showToast(result.error || 'Wiederholung konnte nicht ruckgangig gemacht werden', 'error');
+          return;
+        }
+      }
+
+      undoStackRef.current.pop();
+      setIsSessionComplete(false);
+      setCurrentStudyCard(dueFlashcards[entry.cardIndex]);
+      setStudyCardIndex(entry.cardIndex);
+      setReviewedCount(entry.reviewedCount);
+      setStreak(entry.streak);
+      setEasyStreak(entry.easyStreak);
+      setIsFlipped(false);
+      setLastRating(null);
+    } catch (error) {
+      console.error('Error undoing review:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Let the AI judge the typed answer against the card and its source page
+  const handleGrade = async () => {
+    if (!currentStudyCard || !typedAnswer.trim() || isGrading) return;
+
+    const cardId = currentStudyCard.id;
+    try {
+      setIsGrading(true);
+      const result = await window.electronAPI.gradeFlashcardAnswer(cardId, typedAnswer);
+      if (useAppStore.getState().currentStudyCard?.id !== cardId) return;
+      if (result.success && result.grading) {
+        setGrading(result.grading);
+      } else {
+        showToast(result.error || 'Antwort konnte nicht bewertet werden', 'error');
+      }
+    } catch (error) {
+      console.error('Error grading answer:', error);
+      showToast('Antwort konnte nicht bewertet werden', 'error');
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
   // Parse cloze text for display
   const renderCardContent = (text: string, showAnswer: boolean) => {
     if (!currentStudyCard || currentStudyCard.cardType !== 'cloze') {
       return text;
     }
 
-    // Replace cloze deletions
-    return text.replace(
-      /\{\{c\d+::([^}:]+)(?:::([^}]+))?\}\}/g,
-      (match, answer, hint) => {
-        if (showAnswer) {
-          return `**${answer}**`;
-        }
-        return hint ? `[${hint}]` : '[...]';
-      }
-    );
+    // Hide this card's deletion, the other deletions of the note stay visible
+    return renderCloze(text, currentStudyCard.clozeIndex, showAnswer);
+  };
+
+  // The answer a typed answer is compared with
+  const getExpectedAnswer = () => {
+    if (!currentStudyCard) return '';
+    return currentStudyCard.cardType === 'cloze'
+      ? getClozeAnswer(currentStudyCard.front, currentStudyCard.clozeIndex)
+      : currentStudyCard.back;
   };
 
   // Calculate progress percentage
@@ -287,6 +422,14 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
           >
             Zuruck zum Deck
           </button>
+          {undoStackRef.current.length > 0 && (
+            <button
+              onClick={handleUndo}
+              className="block mx-auto mt-4 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+            >
+              Letzte Bewertung ruckgangig (Strg+Z)
+            </button>
+          )}
         </div>
       </div>
     );
@@ -306,6 +449,48 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
           Beenden
         </button>
 
+        <button
+          onClick={() => setStudyAnswerMode(studyAnswerMode === 'type' ? 'flip' : 'type')}
+          title={studyAnswerMode === 'type' ? 'Zum Aufdecken wechseln' : 'Antworten eintippen und vergleichen'}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-sm transition-colors ${
+            studyAnswerMode === 'type'
+              ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+              : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+          }`}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+          </svg>
+          Eintippen
+        </button>
+
+        {(currentStudyCard.sourcePage !== null || currentStudyCard.highlightId !== null || currentStudyCard.imageId !== null) && (
+          <button
+            onClick={() => openCardSource(currentStudyCard.id)}
+            title="Quelle im PDF anzeigen, die Session bleibt erhalten"
+            className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+            </svg>
+            Quelle
+          </button>
+        )}
+
+        {undoStackRef.current.length > 0 && (
+          <button
+            onClick={handleUndo}
+            disabled={isSubmitting}
+            title="Letzte Bewertung ruckgangig machen (Strg+Z)"
+            className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 transition-colors disabled:opacity-50"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+            </svg>
+            Ruckgangig
+          </button>
+        )}
+
         {/* Streak Counter */}
         {streak > 0 && (
           <div className={`flex items-center gap-1 px-3 py-1.5 rounded-full ${
@@ -395,12 +580,39 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
                   {studyCardIndex + 1} / {dueFlashcards.length}
                 </div>
 
-                <div className="flex-1 flex items-center justify-center">
+                <div className="flex-1 flex flex-col items-center justify-center">
                   <p className="text-2xl text-gray-800 dark:text-gray-100 text-center whitespace-pre-wrap leading-relaxed font-medium">
                     {renderCardContent(currentStudyCard.front, false)}
                   </p>
+                  {currentStudyCard.cardType === 'image_occlusion' && currentStudyCard.imageId !== null && (
+                    <OcclusionImage
+                      imageId={currentStudyCard.imageId}
+                      activeMask={currentStudyCard.clozeIndex}
+                      revealed={false}
+                      className="mt-6 text-center"
+                    />
+                  )}
                 </div>
 
+                {isTypingCard ? (
+                  <div className="text-center" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      ref={answerInputRef}
+                      type="text"
+                      value={typedAnswer}
+                      onChange={(e) => setTypedAnswer(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          e.currentTarget.blur();
+                          setIsFlipped(true);
+                        }
+                      }}
+                      placeholder="Deine Antwort (Enter zum Aufdecken)"
+                      className="w-full max-w-md px-4 py-2.5 text-base bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-xl text-gray-800 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                ) : (
                 <div className="text-center">
                   <div className="inline-flex items-center gap-2 px-5 py-2.5 bg-gradient-to-r from-gray-100 to-gray-200 dark:from-gray-700 dark:to-gray-600 rounded-full text-sm text-gray-600 dark:text-gray-300 shadow-inner">
                     <svg className="w-4 h-4 animate-pulse" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -409,6 +621,7 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
                     Tippen oder Leertaste zum Aufdecken
                   </div>
                 </div>
+                )}
               </div>
             </div>
 
@@ -452,6 +665,15 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
                       : currentStudyCard.front}
                   </p>
 
+                  {currentStudyCard.cardType === 'image_occlusion' && currentStudyCard.imageId !== null && (
+                    <OcclusionImage
+                      imageId={currentStudyCard.imageId}
+                      activeMask={currentStudyCard.clozeIndex}
+                      revealed={true}
+                      className="mb-6 text-center"
+                    />
+                  )}
+
                   {/* Divider */}
                   <div className="w-24 h-px bg-gradient-to-r from-transparent via-emerald-300 dark:via-emerald-600 to-transparent mb-6" />
 
@@ -459,6 +681,33 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
                   <p className="text-2xl text-gray-800 dark:text-gray-100 text-center font-semibold whitespace-pre-wrap leading-relaxed">
                     {currentStudyCard.back}
                   </p>
+
+                  {/* Typed answer compared with the expected one */}
+                  {isTypingCard && (
+                    <div className="mt-6 max-w-md text-center">
+                      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Deine Antwort</div>
+                      {typedAnswer.trim() ? (
+                        <p className="text-lg whitespace-pre-wrap break-words">
+                          {diffAnswer(typedAnswer, getExpectedAnswer()).map((segment, i) => (
+                            <span
+                              key={i}
+                              className={
+                                segment.type === 'equal'
+                                  ? 'text-gray-800 dark:text-gray-100'
+                                  : segment.type === 'extra'
+                                    ? 'text-red-600 dark:text-red-400 line-through bg-red-100/60 dark:bg-red-900/30'
+                                    : 'text-emerald-700 dark:text-emerald-400 bg-emerald-100/60 dark:bg-emerald-900/30'
+                              }
+                            >
+                              {segment.text}
+                            </span>
+                          ))}
+                        </p>
+                      ) : (
+                        <p className="text-sm text-gray-400 dark:text-gray-500 italic">Keine Antwort eingegeben</p>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -478,6 +727,26 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
             </div>
           )}
           <div className="max-w-2xl mx-auto">
+            {isTypingCard && typedAnswer.trim() && (
+              <div className="mb-4 text-center">
+                {grading ? (
+                  <p className="text-sm text-gray-700 dark:text-gray-300">
+                    <span className={`font-semibold ${VERDICT_LABELS[grading.verdict].className}`}>
+                      {VERDICT_LABELS[grading.verdict].label}:
+                    </span>{' '}
+                    {grading.feedback}
+                  </p>
+                ) : (
+                  <button
+                    onClick={handleGrade}
+                    disabled={isGrading}
+                    className="px-4 py-1.5 text-sm font-medium text-primary-700 dark:text-primary-300 bg-primary-50 dark:bg-primary-900/30 rounded-full hover:bg-primary-100 dark:hover:bg-primary-900/50 transition-colors disabled:opacity-50"
+                  >
+                    {isGrading ? 'Wird bewertet...' : 'KI bewerten'}
+                  </button>
+                )}
+              </div>
+            )}
             <div className="text-sm text-center text-gray-600 dark:text-gray-400 mb-4 font-medium">
               Wie gut wusstest du die Antwort?
             </div>
@@ -491,6 +760,7 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
                 disabled={isSubmitting}
                 shortcut="1"
                 isActive={lastRating === 1}
+                isSuggested={grading?.suggestedRating === 1}
               />
               <RatingButton
                 rating={2}
@@ -501,6 +771,7 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
                 disabled={isSubmitting}
                 shortcut="2"
                 isActive={lastRating === 2}
+                isSuggested={grading?.suggestedRating === 2}
               />
               <RatingButton
                 rating={3}
@@ -511,6 +782,7 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
                 disabled={isSubmitting}
                 shortcut="3"
                 isActive={lastRating === 3}
+                isSuggested={grading?.suggestedRating === 3}
               />
               <RatingButton
                 rating={4}
@@ -521,6 +793,7 @@ export default function FlashcardStudyView({ onComplete, onBack }: FlashcardStud
                 disabled={isSubmitting}
                 shortcut="4"
                 isActive={lastRating === 4}
+                isSuggested={grading?.suggestedRating === 4}
               />
             </div>
           </div>
@@ -580,9 +853,10 @@ interface RatingButtonProps {
   disabled: boolean;
   shortcut: string;
   isActive: boolean;
+  isSuggested: boolean;   // Rating proposed by the AI grader
 }
 
-function RatingButton({ label, interval, color, onClick, disabled, shortcut, isActive }: RatingButtonProps) {
+function RatingButton({ label, interval, color, onClick, disabled, shortcut, isActive, isSuggested }: RatingButtonProps) {
   const colorClasses = {
     red: {
       base: 'bg-gradient-to-br from-rose-400 via-red-500 to-rose-600 hover:from-rose-500 hover:via-red-600 hover:to-rose-700',
@@ -618,7 +892,7 @@ function RatingButton({ label, interval, color, onClick, disabled, shortcut, isA
       disabled={disabled}
       className={`relative overflow-hidden ${styles.base} ${styles.shadow} ${styles.glow} text-white py-4 px-3 rounded-2xl transition-all duration-300 shadow-lg transform hover:scale-[1.03] hover:-translate-y-0.5 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:hover:shadow-lg ${
         isActive ? `ring-2 ${styles.ring} ring-offset-2 ring-offset-white dark:ring-offset-gray-800 scale-95` : ''
-      }`}
+      } ${isSuggested && !isActive ? `ring-2 ${styles.ring} ring-offset-2 ring-offset-white dark:ring-offset-gray-800` : ''}`}
     >
       {/* Shine effect */}
       <div className="absolute inset-0 bg-gradient-to-t from-transparent via-white/10 to-white/20 opacity-0 hover:opacity-100 transition-opacity duration-300" />
@@ -627,7 +901,7 @@ function RatingButton({ label, interval, color, onClick, disabled, shortcut, isA
         <div className="text-base font-bold tracking-wide">{label}</div>
         <div className="text-sm opacity-95 font-medium mt-0.5">{interval}</div>
         <div className="text-[11px] opacity-80 mt-2 font-mono bg-black/15 backdrop-blur-sm rounded-lg px-2 py-1 inline-block">
-          {shortcut}
+          {shortcut}{isSuggested && ' · Vorschlag'}
         </div>
       </div>
     </button>
@@ -3,6 +3,10 @@ import { useAppStore } from '../../stores/appStore';
 import type { FlashcardDeck } from '../../../shared/types';
 import FlashcardDeckView from './FlashcardDeckView';
 import LearningHeatmap from './LearningHeatmap';
+import CardBrowserModal from './CardBrowserModal';
+import FlashcardAnalyticsModal from './FlashcardAnalyticsModal';
+import PracticeExamModal from './PracticeExamModal';
+import { buildDeckTree, type DeckTreeEntry } from '../../utils/deckTree';
 
 export default function FlashcardTab() {
   const {
@@ -19,8 +23,12 @@ export default function FlashcardTab() {
 
   const [isCreating, setIsCreating] = useState(false);
   const [newDeckName, setNewDeckName] = useState('');
+  const [newDeckParentId, setNewDeckParentId] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [showAllDecks, setShowAllDecks] = useState(false);
+  const [showBrowser, setShowBrowser] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showExam, setShowExam] = useState(false);
 
   // Load decks on mount
   useEffect(() => {
@@ -59,9 +67,12 @@ export default function FlashcardTab() {
     try {
       await window.electronAPI.createFlashcardDeck(
         newDeckName.trim(),
-        currentPdf?.id // Link to current PDF if open
+        currentPdf?.id, // Link to current PDF if open
+        undefined,
+        newDeckParentId ?? undefined
       );
       setNewDeckName('');
+      setNewDeckParentId(null);
       setIsCreating(false);
       await loadDecks();
     } catch (error) {
@@ -69,8 +80,23 @@ export default function FlashcardTab() {
     }
   };
 
+  const handleImportApkg = async () => {
+    try {
+      const result = await window.electronAPI.importFlashcardsApkg(currentPdf?.id);
+      if (result.success) {
+        alert(`Import erfolgreich! ${result.deckCount} Decks mit ${result.cardCount} Karten und ${result.reviewCount} Wiederholungen importiert.`);
+        await loadDecks();
+        await loadStats();
+      } else if (!result.canceled) {
+        alert(`Import fehlgeschlagen: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Anki import error:', error);
+    }
+  };
+
   const handleDeleteDeck = async (deckId: number) => {
-    if (!confirm('Deck wirklich loschen? Alle Karteikarten werden ebenfalls geloscht.')) {
+    if (!confirm('Deck wirklich loschen? Alle Unterdecks und Karteikarten werden ebenfalls geloscht.')) {
       return;
     }
 
@@ -137,6 +163,11 @@ export default function FlashcardTab() {
               <div className="text-xs text-gray-600 dark:text-gray-400">Gelernt</div>
             </div>
           </div>
+          {(flashcardStats.suspendedCards > 0 || flashcardStats.buriedCards > 0) && (
+            <div className="mt-2 text-xs text-center text-gray-500 dark:text-gray-400">
+              {flashcardStats.suspendedCards} pausiert, {flashcardStats.buriedCards} bis morgen zuruckgestellt
+            </div>
+          )}
         </div>
       )}
 
@@ -145,15 +176,41 @@ export default function FlashcardTab() {
 
       {/* Create Deck Button */}
       {!isCreating ? (
-        <button
-          onClick={() => setIsCreating(true)}
-          className="w-full px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors flex items-center justify-center gap-2"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          Neues Deck erstellen
-        </button>
+        <div className="space-y-2">
+          <button
+            onClick={() => setIsCreating(true)}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Neues Deck erstellen
+          </button>
+          <button
+            onClick={handleImportApkg}
+            className="w-full px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Anki-Paket importieren (.apkg)
+          </button>
+          <button
+            onClick={() => setShowBrowser(true)}
+            className="w-full px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Karten durchsuchen
+          </button>
+          <button
+            onClick={() => setShowAnalytics(true)}
+            className="w-full px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Statistik und Prognose
+          </button>
+          <button
+            onClick={() => setShowExam(true)}
+            className="w-full px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Probeklausur
+          </button>
+        </div>
       ) : (
         <form onSubmit={handleCreateDeck} className="space-y-2">
           <input
@@ -164,6 +221,20 @@ export default function FlashcardTab() {
             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
             autoFocus
           />
+          {flashcardDecks.length > 0 && (
+            <select
+              value={newDeckParentId ?? ''}
+              onChange={(e) => setNewDeckParentId(e.target.value === '' ? null : Number(e.target.value))}
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+            >
+              <option value="">Kein ubergeordnetes Deck</option>
+              {buildDeckTree(flashcardDecks).map(({ deck, depth }) => (
+                <option key={deck.id} value={deck.id}>
+                  {'\u00a0\u00a0'.repeat(depth)}{deck.name}
+                </option>
+              ))}
+            </select>
+          )}
           <div className="flex gap-2">
             <button
               type="submit"
@@ -176,6 +247,7 @@ export default function FlashcardTab() {
               onClick={() => {
                 setIsCreating(false);
                 setNewDeckName('');
+                setNewDeckParentId(null);
               }}
               className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
             >
@@ -224,7 +296,8 @@ export default function FlashcardTab() {
             <p className="text-xs mt-1">Erstelle dein erstes Deck!</p>
           </div>
         ) : (
-          flashcardDecks.map((deck) => {
+          buildDeckTree(flashcardDecks).map((entry) => {
+            const { deck } = entry;
             // Find the PDF name if showing all decks
             const pdfName = showAllDecks && deck.pdfId
               ? pdfs.find(p => p.id === deck.pdfId)?.fileName
@@ -232,7 +305,7 @@ export default function FlashcardTab() {
             return (
               <DeckCard
                 key={deck.id}
-                deck={deck}
+                entry={entry}
                 onClick={() => handleSelectDeck(deck)}
                 onDelete={() => handleDeleteDeck(deck.id)}
                 pdfName={pdfName}
@@ -241,21 +314,43 @@ export default function FlashcardTab() {
           })
         )}
       </div>
+
+      <CardBrowserModal
+        isOpen={showBrowser}
+        onClose={() => setShowBrowser(false)}
+        onChanged={() => {
+          loadDecks();
+          loadStats();
+        }}
+      />
+
+      <FlashcardAnalyticsModal isOpen={showAnalytics} onClose={() => setShowAnalytics(false)} />
+
+      <PracticeExamModal
+        isOpen={showExam}
+        onClose={() => setShowExam(false)}
+        onChanged={() => {
+          loadDecks();
+          loadStats();
+        }}
+      />
     </div>
   );
 }
 
 interface DeckCardProps {
-  deck: FlashcardDeck;
+  entry: DeckTreeEntry;
   onClick: () => void;
   onDelete: () => void;
   pdfName?: string;
 }
 
-function DeckCard({ deck, onClick, onDelete, pdfName }: DeckCardProps) {
+function DeckCard({ entry, onClick, onDelete, pdfName }: DeckCardProps) {
+  const { deck, depth, totalCards, totalDue } = entry;
   return (
     <div
       className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-600 cursor-pointer transition-colors group"
+      style={{ marginLeft: `${depth * 16}px` }}
       onClick={onClick}
     >
       <div className="flex items-start justify-between">
@@ -281,14 +376,14 @@ function DeckCard({ deck, onClick, onDelete, pdfName }: DeckCardProps) {
               <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
               </svg>
-              {deck.cardCount || 0} Karten
+              {totalCards} Karten
             </span>
-            {(deck.dueCount ?? 0) > 0 && (
+            {totalDue > 0 && (
               <span className="flex items-center gap-1 text-orange-600 dark:text-orange-400">
                 <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                {deck.dueCount} fallig
+                {totalDue} fallig
               </span>
             )}
           </div>
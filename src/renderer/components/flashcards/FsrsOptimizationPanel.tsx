@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import type { FsrsOptimization } from '../../../shared/types';
+
+interface FsrsOptimizationPanelProps {
+  deckId?: number;    // Optimize only this deck (global weights if omitted)
+}
+
+export default function FsrsOptimizationPanel({ deckId }: FsrsOptimizationPanelProps) {
+  const [optimization, setOptimization] = useState<FsrsOptimization | null>(null);
+  const [optimizing, setOptimizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getFsrsOptimization(deckId).then(setOptimization);
+  }, [deckId]);
+
+  const handleOptimize = async () => {
+    setOptimizing(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.optimizeFsrs(deckId);
+      if (result.success && result.optimization) {
+        setOptimization(result.optimization);
+      } else {
+        setError(result.error || 'Optimierung fehlgeschlagen');
+      }
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
+  const handleReset = async () => {
+    await window.electronAPI.resetFsrs(deckId);
+    setOptimization(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleOptimize}
+          disabled={optimizing}
+          className="px-3 py-1.5 text-xs font-medium text-primary-600 bg-primary-50 dark:bg-primary-900/30 rounded-lg hover:bg-primary-100 dark:hover:bg-primary-900/50 disabled:opacity-50 flex items-center gap-2"
+        >
+          {optimizing && (
+            <div className="w-3 h-3 border-2 border-primary-500 border-t-transparent rounded-full animate-spin" />
+          )}
+          {optimizing ? 'Optimiere...' : deckId !== undefined ? 'FSRS fur diesen Stapel optimieren' : 'FSRS-Parameter optimieren'}
+        </button>
+        {optimization && !optimizing && (
+          <button
+            onClick={handleReset}
+            className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            Zurucksetzen
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {optimization
+          ? `Optimiert am ${new Date(optimization.optimizedAt).toLocaleDateString('de-DE')} aus ${optimization.reviewCount} Wiederholungen - Log-Loss ${optimization.logLossBefore.toFixed(4)} → ${optimization.logLossAfter.toFixed(4)}`
+          : deckId !== undefined
+            ? 'Nutzt die globalen Parameter.'
+            : 'Nutzt die Standard-Parameter.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState, useEffect, useRef } from 'react';
+import type { FlashcardDeck, HighlightRect, ImageOcclusionMask } from '../../../shared/types';
+
+interface ImageOcclusionModalProps {
+  pdfId: number;
+  pageNum: number;
+  region: HighlightRect;    // Selected region, percentages of the page
+  previewUrl: string;       // Crop of the rendered page, the stored image is rendered in the main process
+  onClose: () => void;
+  onCreated: (cardCount: number) => void;
+}
+
+// Masks smaller than this (percent of the image) are treated as accidental clicks
+const MIN_MASK_SIZE = 2;
+
+function toPercentRect(start: { x: number; y: number }, end: { x: number; y: number }): HighlightRect {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+export default function ImageOcclusionModal({ pdfId, pageNum, region, previewUrl, onClose, onCreated }: ImageOcclusionModalProps) {
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [deckId, setDeckId] = useState<number | null>(null);
+  const [front, setFront] = useState('Was ist verdeckt?');
+  const [back, setBack] = useState('');
+  const [masks, setMasks] = useState<ImageOcclusionMask[]>([]);
+  const [drawing, setDrawing] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const imageRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    window.electronAPI.getFlashcardDecks().then((allDecks) => {
+      setDecks(allDecks);
+      const pdfDeck = allDecks.find((d) => d.pdfId === pdfId);
+      setDeckId(pdfDeck?.id || allDecks[0]?.id || null);
+    });
+  }, [pdfId]);
+
+  const getPoint = (e: React.MouseEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  };
+
+  const handleMouseUp = () => {
+    if (!drawing) return;
+    const mask = toPercentRect(drawing.start, drawing.end);
+    if (mask.width >= MIN_MASK_SIZE && mask.height >= MIN_MASK_SIZE) {
+      setMasks((current) => [...current, { ...mask, label: '' }]);
+    }
+    setDrawing(null);
+  };
+
+  const updateLabel = (index: number, label: string) => {
+    setMasks((current) => current.map((mask, i) => (i === index ? { ...mask, label } : mask)));
+  };
+
+  const handleCreate = async () => {
+    if (!deckId || masks.length === 0) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.createImageOcclusionCards(deckId, {
+        pdfId,
+        pageNum,
+        region,
+        masks,
+        front: front.trim(),
+        back: back.trim(),
+      });
+      if (result.success) {
+        onCreated(result.cardIds?.length ?? 0);
+        onClose();
+      } else {
+        setError(result.error || 'Karten konnten nicht erstellt werden');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const draft = drawing ? toPercentRect(drawing.start, drawing.end) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Bildverdeckung (Seite {pageNum})
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 flex gap-6">
+          {/* Image with masks */}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+              Ziehe Rechtecke uber die Teile, die abgefragt werden sollen. Jede Maske wird eine eigene Karte.
+            </p>
+            <div
+              ref={imageRef}
+              className="relative inline-block select-none cursor-crosshair border border-gray-200 dark:border-gray-700"
+              onMouseDown={(e) => {
+                const point = getPoint(e);
+                setDrawing({ start: point, end: point });
+              }}
+              onMouseMove={(e) => drawing && setDrawing({ ...drawing, end: getPoint(e) })}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+            >
+              <img src={previewUrl} alt="" className="block max-w-full" draggable={false} />
+              {masks.map((mask, index) => (
+                <div
+                  key={index}
+                  className="absolute bg-orange-400/80 border-2 border-orange-600 flex items-center justify-center text-xs font-bold text-white"
+                  style={{ left: `${mask.x}%`, top: `${mask.y}%`, width: `${mask.width}%`, height: `${mask.height}%` }}
+                >
+                  {index + 1}
+                </div>
+              ))}
+              {draft && (
+                <div
+                  className="absolute border-2 border-dashed border-orange-600 bg-orange-200/40"
+                  style={{ left: `${draft.x}%`, top: `${draft.y}%`, width: `${draft.width}%`, height: `${draft.height}%` }}
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Card settings */}
+          <div className="w-72 flex-shrink-0 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Deck</label>
+              <select
+                value={deckId ?? ''}
+                onChange={(e) => setDeckId(Number(e.target.value))}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              >
+                {decks.length === 0 && <option value="">Kein Deck vorhanden</option>}
+                {decks.map((deck) => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Frage</label>
+              <input
+                type="text"
+                value={front}
+                onChange={(e) => setFront(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Notiz (Ruckseite, optional)</label>
+              <textarea
+                value={back}
+                onChange={(e) => setBack(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 resize-none"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Masken ({masks.length})
+              </label>
+              {masks.length === 0 ? (
+                <p className="text-sm text-gray-400">Noch keine Maske gezeichnet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {masks.map((mask, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="w-6 text-xs font-bold text-orange-600">{index + 1}</span>
+                      <input
+                        type="text"
+                        value={mask.label}
+                        onChange={(e) => updateLabel(index, e.target.value)}
+                        placeholder="Antwort (optional)"
+                        className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      />
+                      <button
+                        onClick={() => setMasks((current) => current.filter((_, i) => i !== index))}
+                        className="p-1 text-gray-400 hover:text-red-500"
+                        title="Maske entfernen"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={saving || !deckId || masks.length === 0}
+            className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            {saving ? 'Erstelle...' : `${masks.length} Karte${masks.length === 1 ? '' : 'n'} erstellen`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
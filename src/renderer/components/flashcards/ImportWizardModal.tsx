@@ -0,0 +1,359 @@
+import { useState, useEffect } from 'react';
+import type {
+  FlashcardColumnMapping,
+  FlashcardImportFormat,
+  FlashcardImportOptions,
+  FlashcardImportPreview,
+} from '../../../shared/types';
+
+interface ImportWizardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  deckId: number;
+}
+
+const FORMAT_LABELS: Record<FlashcardImportFormat, string> = {
+  csv: 'CSV (auch LearnBuddy)',
+  tsv: 'TSV (Tabulator)',
+  markdown: 'Markdown (F:/A:, "- Frage :: Antwort", Uberschriften)',
+  quizlet: 'Quizlet-Export',
+};
+
+const SEPARATOR_OPTIONS = [
+  { value: '\t', label: 'Tabulator' },
+  { value: ',', label: 'Komma' },
+  { value: ';', label: 'Semikolon' },
+  { value: '\n', label: 'Neue Zeile' },
+];
+
+const MAPPING_FIELDS: Array<{ key: keyof FlashcardColumnMapping; label: string; optional: boolean }> = [
+  { key: 'front', label: 'Vorderseite', optional: false },
+  { key: 'back', label: 'Ruckseite', optional: false },
+  { key: 'cardType', label: 'Kartentyp', optional: true },
+  { key: 'tags', label: 'Tags', optional: true },
+  { key: 'sourcePage', label: 'Quellseite', optional: true },
+];
+
+const DEFAULT_MAPPING: FlashcardColumnMapping = { front: 0, back: 1, cardType: null, tags: null, sourcePage: null };
+const PREVIEW_LIMIT = 50;
+
+export default function ImportWizardModal({ isOpen, onClose, onImported, deckId }: ImportWizardModalProps) {
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<FlashcardImportFormat>('csv');
+  const [delimiter, setDelimiter] = useState('');
+  const [termSeparator, setTermSeparator] = useState('\t');
+  const [rowSeparator, setRowSeparator] = useState('\n');
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<FlashcardColumnMapping>(DEFAULT_MAPPING);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [preview, setPreview] = useState<FlashcardImportPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options: FlashcardImportOptions = {
+    format,
+    hasHeader,
+    mapping,
+    delimiter: delimiter || undefined,
+    termSeparator,
+    rowSeparator,
+  };
+
+  // Re-parse whenever the input or the mapping changes
+  useEffect(() => {
+    if (!isOpen || !content.trim()) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI.previewFlashcardImport(deckId, content, options).then(result => {
+      if (!cancelled) setPreview(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, deckId, content, format, delimiter, termSeparator, rowSeparator, hasHeader, mapping]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setContent('');
+      setFileName(null);
+      setMapping(DEFAULT_MAPPING);
+      setHasHeader(false);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleSelectFile = async () => {
+    setError(null);
+    const result = await window.electronAPI.selectFlashcardImportFile();
+    if (result.success && result.content !== undefined) {
+      setContent(result.content);
+      setFileName(result.filePath?.split(/[\\/]/).pop() ?? null);
+      if (result.format) setFormat(result.format);
+      setMapping(DEFAULT_MAPPING);
+    } else if (!result.canceled) {
+      setError(result.error || 'Datei konnte nicht gelesen werden');
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.importFlashcards(deckId, content, options, skipDuplicates);
+      if (result.success) {
+        alert(`${result.imported} Karten importiert${result.skipped ? `, ${result.skipped} Duplikate ubersprungen` : ''}.`);
+        onImported();
+        onClose();
+      } else {
+        setError(result.error || 'Import fehlgeschlagen');
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const importCount = preview
+    ? skipDuplicates ? preview.cards.length - preview.duplicateCount : preview.cards.length
+    : 0;
+  const showMapping = preview && (format === 'csv' || format === 'tsv') && preview.columns.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Karteikarten importieren
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Step 1: Source */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-gray-700 dark:text-gray-300">1. Quelle</div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleSelectFile}
+                className="px-3 py-1.5 text-sm font-medium text-primary-600 bg-primary-50 dark:bg-primary-900/30 rounded-lg hover:bg-primary-100 dark:hover:bg-primary-900/50"
+              >
+                Datei wahlen...
+              </button>
+              <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {fileName ?? 'oder Text unten einfugen'}
+              </span>
+            </div>
+            <textarea
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                setFileName(null);
+              }}
+              rows={5}
+              placeholder={'Frage,Antwort\nHauptstadt von Frankreich?,Paris'}
+              className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* Step 2: Format */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-gray-700 dark:text-gray-300">2. Format</div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <select
+                value={format}
+                onChange={(e) => {
+                  setFormat(e.target.value as FlashcardImportFormat);
+                  setMapping(DEFAULT_MAPPING);
+                }}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              >
+                {(Object.keys(FORMAT_LABELS) as FlashcardImportFormat[]).map(value => (
+                  <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+                ))}
+              </select>
+
+              {format === 'csv' && (
+                <label className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+                  Trennzeichen
+                  <select
+                    value={delimiter}
+                    onChange={(e) => setDelimiter(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                  >
+                    <option value="">Automatisch</option>
+                    <option value=",">Komma</option>
+                    <option value=";">Semikolon</option>
+                    <option value={'\t'}>Tabulator</option>
+                  </select>
+                </label>
+              )}
+
+              {format === 'quizlet' && (
+                <>
+                  <label className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+                    Begriff/Definition
+                    <select
+                      value={termSeparator}
+                      onChange={(e) => setTermSeparator(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                    >
+                      {SEPARATOR_OPTIONS.filter(o => o.value !== '\n').map(o => (
+                        <option key={o.label} value={o.value}>{o.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+                    Zeilen
+                    <select
+                      value={rowSeparator}
+                      onChange={(e) => setRowSeparator(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                    >
+                      {SEPARATOR_OPTIONS.filter(o => o.value === '\n' || o.value === ';').map(o => (
+                        <option key={o.label} value={o.value}>{o.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                </>
+              )}
+
+              {(format === 'csv' || format === 'tsv') && (
+                <label className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={hasHeader}
+                    onChange={(e) => setHasHeader(e.target.checked)}
+                  />
+                  Erste Zeile ist Kopfzeile
+                </label>
+              )}
+            </div>
+          </div>
+
+          {/* Step 3: Column mapping */}
+          {showMapping && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-gray-700 dark:text-gray-300">3. Spalten zuordnen</div>
+              <div className="grid grid-cols-5 gap-2">
+                {MAPPING_FIELDS.map(({ key, label, optional }) => (
+                  <label key={key} className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                    <span>{label}</span>
+                    <select
+                      value={mapping[key] ?? ''}
+                      onChange={(e) => setMapping({
+                        ...mapping,
+                        [key]: e.target.value === '' ? null : Number(e.target.value),
+                      })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                    >
+                      {optional && <option value="">-</option>}
+                      {preview.columns.map((column, index) => (
+                        <option key={index} value={index}>{column}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Vorschau ({preview.cards.length} Karten)
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {preview.duplicateCount > 0 && `${preview.duplicateCount} Duplikate`}
+                  {preview.duplicateCount > 0 && preview.skippedRows > 0 && ' - '}
+                  {preview.skippedRows > 0 && `${preview.skippedRows} Zeilen ohne Vorder- oder Ruckseite`}
+                </div>
+              </div>
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 dark:bg-gray-700/50 text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="px-2 py-1 text-left">Vorderseite</th>
+                      <th className="px-2 py-1 text-left">Ruckseite</th>
+                      <th className="px-2 py-1 text-left">Typ</th>
+                      <th className="px-2 py-1 text-left">Tags</th>
+                      <th className="px-2 py-1 text-left">Seite</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.cards.slice(0, PREVIEW_LIMIT).map((card, index) => (
+                      <tr
+                        key={index}
+                        className={`border-t border-gray-100 dark:border-gray-700 ${card.duplicate ? 'bg-yellow-50 dark:bg-yellow-900/20 text-gray-400' : 'text-gray-700 dark:text-gray-300'}`}
+                        title={card.duplicate ? 'Duplikat' : undefined}
+                      >
+                        <td className="px-2 py-1 max-w-[14rem] truncate">{card.front}</td>
+                        <td className="px-2 py-1 max-w-[14rem] truncate">{card.back}</td>
+                        <td className="px-2 py-1">{card.cardType === 'cloze' ? 'Cloze' : 'Basis'}</td>
+                        <td className="px-2 py-1 truncate">{card.tags.join(' ')}</td>
+                        <td className="px-2 py-1">{card.sourcePage ?? ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.cards.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  ... und {preview.cards.length - PREVIEW_LIMIT} weitere
+                </p>
+              )}
+              {preview.duplicateCount > 0 && (
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) => setSkipDuplicates(e.target.checked)}
+                  />
+                  Duplikate uberspringen
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={importing || importCount === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {importing ? 'Importiere...' : `${importCount} Karten importieren`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import type { HeatmapData, HeatmapTimeframe } from '../../../shared/types';
+import type { HeatmapData, HeatmapMetric, HeatmapTimeframe } from '../../../shared/types';
 
 interface LearningHeatmapProps {
   deckId?: number;
@@ -13,17 +13,18 @@ interface CalendarDay {
 
 export default function LearningHeatmap({ deckId }: LearningHeatmapProps) {
   const [timeframe, setTimeframe] = useState<HeatmapTimeframe>('month');
+  const [metric, setMetric] = useState<HeatmapMetric>('reviews');
   const [data, setData] = useState<HeatmapData | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadHeatmapData();
-  }, [timeframe, deckId]);
+  }, [timeframe, deckId, metric]);
 
   const loadHeatmapData = async () => {
     try {
       setLoading(true);
-      const heatmapData = await window.electronAPI.getFlashcardHeatmap(timeframe, deckId);
+      const heatmapData = await window.electronAPI.getFlashcardHeatmap(timeframe, deckId, metric);
       setData(heatmapData);
     } catch (error) {
       console.error('Error loading heatmap data:', error);
@@ -47,9 +48,13 @@ export default function LearningHeatmap({ deckId }: LearningHeatmapProps) {
             Lernaktivitat
           </span>
           {data && (
-            <span className="text-xs text-gray-500 dark:text-gray-400">
-              {data.totalReviews} Reviews
-            </span>
+            <button
+              onClick={() => setMetric(metric === 'reviews' ? 'minutes' : 'reviews')}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400"
+              title="Zwischen Reviews und Lernminuten wechseln"
+            >
+              {metric === 'reviews' ? `${data.totalReviews} Reviews` : `${data.totalMinutes} Min`}
+            </button>
           )}
         </div>
 
@@ -85,7 +90,7 @@ export default function LearningHeatmap({ deckId }: LearningHeatmapProps) {
           <div className="animate-spin w-5 h-5 border-2 border-primary-600 border-t-transparent rounded-full" />
         </div>
       ) : (
-        <HeatmapGrid data={calendarData} maxCount={data?.maxCount || 1} timeframe={timeframe} />
+        <HeatmapGrid data={calendarData} maxCount={data?.maxCount || 1} timeframe={timeframe} unit={metric === 'reviews' ? 'Reviews' : 'Min'} />
       )}
 
       {/* Legend */}
@@ -113,10 +118,11 @@ function FireIcon({ className }: { className?: string }) {
 }
 
 // Heatmap Grid Component
-function HeatmapGrid({ data, maxCount, timeframe }: {
+function HeatmapGrid({ data, maxCount, timeframe, unit }: {
   data: CalendarDay[];
   maxCount: number;
   timeframe: HeatmapTimeframe;
+  unit: string;
 }) {
   if (timeframe === 'year') {
     // GitHub-style: 7 rows (days of week) x N columns (weeks)
@@ -143,6 +149,7 @@ function HeatmapGrid({ data, maxCount, timeframe }: {
                 key={day.date || `${weekIdx}-${dayIdx}`}
                 day={day}
                 maxCount={maxCount}
+                unit={unit}
                 size="small"
               />
             ))}
@@ -165,6 +172,7 @@ function HeatmapGrid({ data, maxCount, timeframe }: {
           key={day.date || idx}
           day={day}
           maxCount={maxCount}
+          unit={unit}
           size="large"
         />
       ))}
@@ -172,9 +180,10 @@ function HeatmapGrid({ data, maxCount, timeframe }: {
   );
 }
 
-function HeatmapCell({ day, maxCount, size }: {
+function HeatmapCell({ day, maxCount, unit, size }: {
   day: CalendarDay;
   maxCount: number;
+  unit: string;
   size: 'small' | 'large';
 }) {
   const level = day.count === 0 ? 0 : Math.min(4, Math.ceil((day.count / maxCount) * 4));
@@ -182,7 +191,7 @@ function HeatmapCell({ day, maxCount, size }: {
 
   // Format date for tooltip
   const formattedDate = day.date ? formatDate(day.date) : '';
-  const tooltip = day.date ? `${formattedDate}: ${day.count} Reviews` : '';
+  const tooltip = day.date ? `${formattedDate}: ${day.count} ${unit}` : '';
 
   return (
     <div
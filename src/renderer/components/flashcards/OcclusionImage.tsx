@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import type { FlashcardImage } from '../../../shared/types';
+
+interface OcclusionImageProps {
+  imageId: number;
+  activeMask: number | null;    // 1-based mask asked by the card, null hides all masks alike
+  revealed: boolean;
+  className?: string;
+}
+
+// Image occlusion card: all masks cover the image, the asked mask is highlighted and removed on reveal
+export default function OcclusionImage({ imageId, activeMask, revealed, className = '' }: OcclusionImageProps) {
+  const [image, setImage] = useState<FlashcardImage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI.getFlashcardImage(imageId).then((result) => {
+      if (!cancelled) setImage(result ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageId]);
+
+  if (!image) {
+    return <div className="h-32 flex items-center justify-center text-sm text-gray-400">Bild wird geladen...</div>;
+  }
+
+  const active = activeMask !== null ? image.masks[activeMask - 1] : undefined;
+
+  return (
+    <div className={className}>
+      <div className="relative inline-block">
+        <img src={image.dataUrl} alt="" className="block max-w-full max-h-[50vh]" draggable={false} />
+        {image.masks.map((mask, index) => {
+          const isActive = index + 1 === activeMask;
+          if (isActive && revealed) {
+            return (
+              <div
+                key={index}
+                className="absolute border-2 border-green-500"
+                style={{ left: `${mask.x}%`, top: `${mask.y}%`, width: `${mask.width}%`, height: `${mask.height}%` }}
+              />
+            );
+          }
+          return (
+            <div
+              key={index}
+              className={`absolute ${isActive ? 'bg-red-400 border-2 border-red-600' : 'bg-orange-300 border border-orange-500'}`}
+              style={{ left: `${mask.x}%`, top: `${mask.y}%`, width: `${mask.width}%`, height: `${mask.height}%` }}
+            />
+          );
+        })}
+      </div>
+      {revealed && active?.label && (
+        <p className="mt-3 text-lg font-semibold text-green-600 dark:text-green-400">{active.label}</p>
+      )}
+    </div>
+  );
+}
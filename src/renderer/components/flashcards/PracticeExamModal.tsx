@@ -0,0 +1,575 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useAppStore } from '../../stores/appStore';
+import { useToast } from '../ui/Toast';
+import { buildDeckTree } from '../../utils/deckTree';
+import type { ExamAttempt, ExamAttemptSummary, ExamQuestionType, ExamTopicScore, PracticeExam } from '../../../shared/types';
+
+interface PracticeExamModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;    // Cards were rated from an attempt
+}
+
+type Phase = 'setup' | 'generating' | 'running' | 'result';
+
+const QUESTION_TYPE_LABELS: Record<ExamQuestionType, string> = {
+  multiple_choice: 'Multiple Choice',
+  true_false: 'Wahr/Falsch',
+};
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function percent(correct: number, total: number): number {
+  return total > 0 ? Math.round((correct / total) * 100) : 0;
+}
+
+function TopicBars({ topics }: { topics: ExamTopicScore[] }) {
+  return (
+    <div className="space-y-1">
+      {topics.map((topic) => {
+        const share = percent(topic.correct, topic.total);
+        return (
+          <div key={topic.topic} className="flex items-center gap-2 text-xs">
+            <span className="w-40 truncate text-gray-600 dark:text-gray-300" title={topic.topic}>{topic.topic}</span>
+            <div className="flex-1 h-3 bg-red-200 dark:bg-red-900/40 rounded">
+              <div className="h-3 bg-green-500 rounded" style={{ width: `${share}%` }} />
+            </div>
+            <span className="w-20 text-right text-gray-500 dark:text-gray-400">
+              {topic.correct}/{topic.total} ({share}%)
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function PracticeExamModal({ isOpen, onClose, onChanged }: PracticeExamModalProps) {
+  const { showToast } = useToast();
+  const { flashcardDecks, pdfs } = useAppStore();
+
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [sourceKind, setSourceKind] = useState<'deck' | 'pages'>('deck');
+  const [deckId, setDeckId] = useState<number | null>(null);
+  const [pdfId, setPdfId] = useState<number | null>(null);
+  const [startPage, setStartPage] = useState(1);
+  const [endPage, setEndPage] = useState(10);
+  const [questionCount, setQuestionCount] = useState(10);
+  const [types, setTypes] = useState<ExamQuestionType[]>(['multiple_choice', 'true_false']);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState(15);
+
+  const [exam, setExam] = useState<PracticeExam | null>(null);
+  const [answers, setAnswers] = useState<Array<number | null>>([]);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [attempt, setAttempt] = useState<ExamAttempt | null>(null);
+  const [attempts, setAttempts] = useState<ExamAttemptSummary[]>([]);
+  const [weakTopics, setWeakTopics] = useState<ExamTopicScore[]>([]);
+  const [applyingAgain, setApplyingAgain] = useState(false);
+  const startedAtRef = useRef(0);
+  const submittingRef = useRef(false);
+
+  const timeLimitSeconds = exam && timeLimitMinutes > 0 ? timeLimitMinutes * 60 : null;
+  const selectedPdf = pdfs.find(p => p.id === pdfId);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const [attemptList, topics] = await Promise.all([
+        window.electronAPI.getExamAttempts(),
+        window.electronAPI.getWeakExamTopics(sourceKind === 'deck' && deckId !== null ? deckId : undefined),
+      ]);
+      setAttempts(attemptList);
+      setWeakTopics(topics);
+    } catch (error) {
+      console.error('Error loading exam history:', error);
+    }
+  }, [sourceKind, deckId]);
+
+  useEffect(() => {
+    if (isOpen && phase === 'setup') {
+      loadHistory();
+    }
+  }, [isOpen, phase, loadHistory]);
+
+  useEffect(() => {
+    if (deckId === null && flashcardDecks.length > 0) {
+      setDeckId(flashcardDecks[0].id);
+    }
+  }, [flashcardDecks, deckId]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!exam || submittingRef.current) return;
+    submittingRef.current = true;
+    try {
+      const durationSeconds = Math.round((Date.now() - startedAtRef.current) / 1000);
+      const result = await window.electronAPI.submitExam(exam, answers, timeLimitSeconds, durationSeconds);
+      if (result) {
+        setAttempt(result);
+        setPhase('result');
+      }
+    } catch (error) {
+      console.error('Error submitting exam:', error);
+      showToast('Klausur konnte nicht gespeichert werden', 'error');
+    } finally {
+      submittingRef.current = false;
+    }
+  }, [exam, answers, timeLimitSeconds, showToast]);
+
+  // Clock of the running exam, handed in automatically when the time is up
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const interval = setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAtRef.current) / 1000));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  useEffect(() => {
+    if (phase === 'running' && timeLimitSeconds !== null && elapsedSeconds >= timeLimitSeconds) {
+      showToast('Die Zeit ist abgelaufen', 'info');
+      handleSubmit();
+    }
+  }, [phase, elapsedSeconds, timeLimitSeconds, handleSubmit, showToast]);
+
+  if (!isOpen) return null;
+
+  const handleGenerate = async () => {
+    const source = sourceKind === 'deck'
+      ? (deckId !== null ? { kind: 'deck' as const, deckId } : null)
+      : (pdfId !== null ? { kind: 'pages' as const, pdfId, startPage: Math.min(startPage, endPage), endPage: Math.max(startPage, endPage) } : null);
+    if (!source) {
+      showToast(sourceKind === 'deck' ? 'Bitte ein Deck auswahlen' : 'Bitte ein PDF auswahlen', 'error');
+      return;
+    }
+
+    setPhase('generating');
+    try {
+      const result = await window.electronAPI.generateExam({ source, questionCount, types });
+      if (!result.success || !result.exam) {
+        showToast(result.error || 'Probeklausur konnte nicht erstellt werden', 'error');
+        setPhase('setup');
+        return;
+      }
+      setExam(result.exam);
+      setAnswers(result.exam.questions.map(() => null));
+      setQuestionIndex(0);
+      setElapsedSeconds(0);
+      startedAtRef.current = Date.now();
+      setPhase('running');
+    } catch (error) {
+      console.error('Error generating exam:', error);
+      showToast('Probeklausur konnte nicht erstellt werden', 'error');
+      setPhase('setup');
+    }
+  };
+
+  const handleFinish = () => {
+    const unanswered = answers.filter(answer => answer === null).length;
+    if (unanswered > 0 && !confirm(`${unanswered} Fragen sind noch unbeantwortet. Trotzdem abgeben?`)) return;
+    handleSubmit();
+  };
+
+  const handleClose = () => {
+    if (phase === 'running' && !confirm('Die laufende Klausur wird verworfen. Wirklich schliessen?')) return;
+    setPhase('setup');
+    setExam(null);
+    setAttempt(null);
+    onClose();
+  };
+
+  const handleOpenAttempt = async (id: number) => {
+    const result = await window.electronAPI.getExamAttempt(id);
+    if (result) {
+      setAttempt(result);
+      setPhase('result');
+    }
+  };
+
+  const handleDeleteAttempt = async (id: number) => {
+    if (!confirm('Diesen Versuch loschen?')) return;
+    await window.electronAPI.deleteExamAttempt(id);
+    loadHistory();
+  };
+
+  const handleApplyAgain = async () => {
+    if (!attempt) return;
+    setApplyingAgain(true);
+    try {
+      const result = await window.electronAPI.applyExamAgain(attempt.id);
+      if (result.success) {
+        showToast(`${result.reviewedCount} Karten mit "Nochmal" bewertet`, 'success');
+        setAttempt({ ...attempt, againApplied: true });
+        onChanged();
+      } else {
+        showToast(result.error || 'Karten konnten nicht bewertet werden', 'error');
+      }
+    } finally {
+      setApplyingAgain(false);
+    }
+  };
+
+  const toggleType = (type: ExamQuestionType) => {
+    setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  // Cards behind wrong answers, each once
+  const wrongCardCount = attempt
+    ? new Set(attempt.questions.flatMap((q, i) => attempt.answers[i] === q.correctIndex ? [] : q.flashcardIds)).size
+    : 0;
+
+  const question = exam?.questions[questionIndex];
+  const remainingSeconds = timeLimitSeconds !== null ? Math.max(0, timeLimitSeconds - elapsedSeconds) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {phase === 'running' && exam ? exam.title : 'Probeklausur'}
+          </h2>
+          <div className="flex items-center gap-4">
+            {phase === 'running' && (
+              <span className={`font-mono text-sm ${remainingSeconds !== null && remainingSeconds < 60 ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300'}`}>
+                {remainingSeconds !== null ? formatDuration(remainingSeconds) : formatDuration(elapsedSeconds)}
+              </span>
+            )}
+            <button
+              onClick={handleClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          {phase === 'setup' && (
+            <div className="space-y-5">
+              {/* Source */}
+              <div className="space-y-2">
+                <div className="flex gap-4 text-sm text-gray-700 dark:text-gray-300">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={sourceKind === 'deck'} onChange={() => setSourceKind('deck')} />
+                    Aus einem Deck
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={sourceKind === 'pages'} onChange={() => setSourceKind('pages')} />
+                    Aus PDF-Seiten
+                  </label>
+                </div>
+
+                {sourceKind === 'deck' ? (
+                  <select
+                    value={deckId ?? ''}
+                    onChange={(e) => setDeckId(e.target.value ? parseInt(e.target.value, 10) : null)}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100"
+                  >
+                    {buildDeckTree(flashcardDecks).map(({ deck, depth }) => (
+                      <option key={deck.id} value={deck.id}>
+                        {'  '.repeat(depth)}{deck.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="flex gap-2 items-center">
+                    <select
+                      value={pdfId ?? ''}
+                      onChange={(e) => {
+                        const id = e.target.value ? parseInt(e.target.value, 10) : null;
+                        setPdfId(id);
+                        setStartPage(1);
+                        setEndPage(Math.min(10, pdfs.find(p => p.id === id)?.pageCount ?? 10));
+                      }}
+                      className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100"
+                    >
+                      <option value="">PDF auswahlen...</option>
+                      {pdfs.map((pdf) => (
+                        <option key={pdf.id} value={pdf.id}>{pdf.fileName}</option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">Seiten</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={selectedPdf?.pageCount}
+                      value={startPage}
+                      onChange={(e) => setStartPage(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                      className="w-20 px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100"
+                    />
+                    <span className="text-gray-400">-</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={selectedPdf?.pageCount}
+                      value={endPage}
+                      onChange={(e) => setEndPage(Math.min(selectedPdf?.pageCount ?? Infinity, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                      className="w-20 px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Options */}
+              <div className="grid grid-cols-3 gap-4 text-sm text-gray-700 dark:text-gray-300">
+                <label className="space-y-1">
+                  <span className="block">Fragen</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={questionCount}
+                    onChange={(e) => setQuestionCount(Math.min(50, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                    className="w-full px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="block">Zeitlimit (Minuten, 0 = keins)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={240}
+                    value={timeLimitMinutes}
+                    onChange={(e) => setTimeLimitMinutes(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                    className="w-full px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                  />
+                </label>
+                <div className="space-y-1">
+                  <span className="block">Fragetypen</span>
+                  {(Object.keys(QUESTION_TYPE_LABELS) as ExamQuestionType[]).map((type) => (
+                    <label key={type} className="flex items-center gap-2">
+                      <input type="checkbox" checked={types.includes(type)} onChange={() => toggleType(type)} />
+                      {QUESTION_TYPE_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                onClick={handleGenerate}
+                disabled={types.length === 0}
+                className="w-full px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+              >
+                Klausur erstellen
+              </button>
+
+              {/* Weak topics */}
+              {weakTopics.length > 0 && (
+                <div className="bg-gray-50 dark:bg-gray-900/30 rounded-lg p-4">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                    Schwachstellen {sourceKind === 'deck' ? 'in diesem Deck' : 'aller Klausuren'}
+                  </h3>
+                  <TopicBars topics={weakTopics.slice(0, 10)} />
+                </div>
+              )}
+
+              {/* Earlier attempts */}
+              {attempts.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Bisherige Versuche</h3>
+                  <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {attempts.map((item) => (
+                      <div key={item.id} className="flex items-center gap-3 py-2 text-sm">
+                        <button
+                          onClick={() => handleOpenAttempt(item.id)}
+                          className="flex-1 text-left text-gray-800 dark:text-gray-200 hover:text-primary-600 dark:hover:text-primary-400 truncate"
+                        >
+                          {item.title}
+                        </button>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {new Date(item.createdAt).toLocaleDateString('de-DE')}
+                        </span>
+                        <span className="w-24 text-right font-medium text-gray-700 dark:text-gray-300">
+                          {item.correctCount}/{item.questionCount} ({percent(item.correctCount, item.questionCount)}%)
+                        </span>
+                        <button
+                          onClick={() => handleDeleteAttempt(item.id)}
+                          title="Versuch loschen"
+                          className="text-gray-400 hover:text-red-500"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {phase === 'generating' && (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+              <div className="animate-spin w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full mx-auto mb-2" />
+              Fragen werden erstellt...
+            </div>
+          )}
+
+          {phase === 'running' && exam && question && (
+            <div className="space-y-5">
+              {/* Question overview */}
+              <div className="flex flex-wrap gap-1">
+                {exam.questions.map((_, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setQuestionIndex(i)}
+                    className={`w-7 h-7 text-xs rounded ${
+                      i === questionIndex
+                        ? 'bg-primary-600 text-white'
+                        : answers[i] !== null
+                          ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    {i + 1}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Frage {questionIndex + 1} von {exam.questions.length} · {QUESTION_TYPE_LABELS[question.type]}
+                </div>
+                <p className="text-lg text-gray-900 dark:text-gray-100 whitespace-pre-wrap">{question.question}</p>
+              </div>
+
+              <div className="space-y-2">
+                {question.options.map((option, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setAnswers(prev => prev.map((answer, j) => j === questionIndex ? i : answer))}
+                    className={`w-full text-left px-4 py-3 rounded-lg border text-sm transition-colors ${
+                      answers[questionIndex] === i
+                        ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30 text-primary-800 dark:text-primary-200'
+                        : 'border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <span className="font-medium mr-2">{String.fromCharCode(65 + i)}</span>
+                    {option}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex justify-between">
+                <button
+                  onClick={() => setQuestionIndex(i => i - 1)}
+                  disabled={questionIndex === 0}
+                  className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  Zuruck
+                </button>
+                {questionIndex < exam.questions.length - 1 ? (
+                  <button
+                    onClick={() => setQuestionIndex(i => i + 1)}
+                    className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+                  >
+                    Weiter
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleFinish}
+                    className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700"
+                  >
+                    Abgeben
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {phase === 'result' && attempt && (
+            <div className="space-y-5">
+              <div className="text-center">
+                <div className="text-4xl font-bold text-gray-900 dark:text-gray-100">
+                  {percent(attempt.correctCount, attempt.questionCount)}%
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  {attempt.correctCount} von {attempt.questionCount} richtig in {formatDuration(attempt.durationSeconds)}
+                  {attempt.timeLimitSeconds !== null && ` (Limit ${formatDuration(attempt.timeLimitSeconds)})`}
+                </div>
+              </div>
+
+              <div className="bg-gray-50 dark:bg-gray-900/30 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Ergebnis nach Thema</h3>
+                <TopicBars topics={attempt.topics} />
+              </div>
+
+              {wrongCardCount > 0 && (
+                <button
+                  onClick={handleApplyAgain}
+                  disabled={attempt.againApplied || applyingAgain}
+                  className="w-full px-4 py-2 text-sm font-medium text-white bg-red-500 rounded-lg hover:bg-red-600 transition-colors disabled:opacity-50"
+                >
+                  {attempt.againApplied
+                    ? 'Falsche Antworten wurden als "Nochmal" bewertet'
+                    : `${wrongCardCount} verknupfte Karten mit "Nochmal" bewerten`}
+                </button>
+              )}
+
+              <div className="space-y-3">
+                {attempt.questions.map((q, i) => {
+                  const answer = attempt.answers[i];
+                  const correct = answer === q.correctIndex;
+                  return (
+                    <div
+                      key={i}
+                      className={`p-4 rounded-lg border ${correct ? 'border-green-200 dark:border-green-900/50' : 'border-red-200 dark:border-red-900/50'}`}
+                    >
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        <p className="text-sm font-medium text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
+                          {i + 1}. {q.question}
+                        </p>
+                        <span className="text-xs text-gray-400 whitespace-nowrap">
+                          {q.topic}{q.pageNum !== null && ` · S. ${q.pageNum}`}
+                        </span>
+                      </div>
+                      <ul className="space-y-1 text-sm">
+                        {q.options.map((option, j) => (
+                          <li
+                            key={j}
+                            className={
+                              j === q.correctIndex
+                                ? 'text-green-700 dark:text-green-400 font-medium'
+                                : j === answer
+                                  ? 'text-red-600 dark:text-red-400 line-through'
+                                  : 'text-gray-600 dark:text-gray-400'
+                            }
+                          >
+                            {String.fromCharCode(65 + j)}) {option}
+                          </li>
+                        ))}
+                      </ul>
+                      {answer === null && (
+                        <p className="mt-1 text-xs text-red-600 dark:text-red-400">Nicht beantwortet</p>
+                      )}
+                      {q.explanation && (
+                        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{q.explanation}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <button
+                onClick={() => {
+                  setAttempt(null);
+                  setExam(null);
+                  setPhase('setup');
+                }}
+                className="w-full px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Neue Klausur
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,32 @@
 import { useState, useEffect } from 'react';
 import { useAppStore } from '../../stores/appStore';
-import type { FlashcardDeck } from '../../../shared/types';
+import type { FilteredDeck } from '../../../shared/types';
+import { buildDeckTree, type DeckTreeEntry } from '../../utils/deckTree';
 
 interface StudyDeckSelectorProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectDeck: (deckId: number) => void;
+  onSelectFilteredDeck: (deck: FilteredDeck) => void;
 }
 
-export default function StudyDeckSelector({ isOpen, onClose, onSelectDeck }: StudyDeckSelectorProps) {
+// Examples shown when creating a filtered deck
+const FILTER_EXAMPLES = ['lapses>3', 'pdftag:Exam', 'due<=3', 'page:40-80', 'deck:Biologie is:review'];
+
+export default function StudyDeckSelector({ isOpen, onClose, onSelectDeck, onSelectFilteredDeck }: StudyDeckSelectorProps) {
   const { pdfs } = useAppStore();
-  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [decks, setDecks] = useState<DeckTreeEntry[]>([]);
+  const [filteredDecks, setFilteredDecks] = useState<FilteredDeck[]>([]);
   const [loading, setLoading] = useState(true);
   const [totalDue, setTotalDue] = useState(0);
 
+  // New filtered deck form
+  const [showFilterForm, setShowFilterForm] = useState(false);
+  const [filterName, setFilterName] = useState('');
+  const [filterQuery, setFilterQuery] = useState('');
+  const [filterLimit, setFilterLimit] = useState('100');
+  const [filterError, setFilterError] = useState<string | null>(null);
+
   // Load all decks with due counts
   useEffect(() => {
     if (isOpen) {
@@ -24,8 +37,12 @@ export default function StudyDeckSelector({ isOpen, onClose, onSelectDeck }: Stu
   const loadDecks = async () => {
     try {
       setLoading(true);
-      const allDecks = await window.electronAPI.getFlashcardDecks();
-      setDecks(allDecks);
+      const [allDecks, allFilteredDecks] = await Promise.all([
+        window.electronAPI.getFlashcardDecks(),
+        window.electronAPI.getFilteredDecks(),
+      ]);
+      setDecks(buildDeckTree(allDecks));
+      setFilteredDecks(allFilteredDecks);
 
       // Calculate total due
       const total = allDecks.reduce((sum, deck) => sum + (deck.dueCount || 0), 0);
@@ -37,14 +54,51 @@ export default function StudyDeckSelector({ isOpen, onClose, onSelectDeck }: Stu
     }
   };
 
-  const handleSelectDeck = async (deck: FlashcardDeck) => {
-    if (!deck.dueCount || deck.dueCount === 0) {
+  const handleSelectDeck = async ({ deck, totalDue: due }: DeckTreeEntry) => {
+    if (due === 0) {
       return;
     }
     onSelectDeck(deck.id);
     onClose();
   };
 
+  const handleSelectFilteredDeck = (deck: FilteredDeck) => {
+    if (!deck.cardCount) {
+      return;
+    }
+    onSelectFilteredDeck(deck);
+    onClose();
+  };
+
+  const handleCreateFilteredDeck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!filterName.trim() || !filterQuery.trim()) return;
+
+    const result = await window.electronAPI.createFilteredDeck(
+      filterName.trim(),
+      filterQuery.trim(),
+      Math.max(1, parseInt(filterLimit, 10) || 100)
+    );
+    if (!result.success) {
+      setFilterError(result.error || 'Gefiltertes Deck konnte nicht erstellt werden');
+      return;
+    }
+    setShowFilterForm(false);
+    setFilterName('');
+    setFilterQuery('');
+    setFilterLimit('100');
+    setFilterError(null);
+    await loadDecks();
+  };
+
+  const handleDeleteFilteredDeck = async (deck: FilteredDeck) => {
+    if (!confirm(`Gefiltertes Deck "${deck.name}" loschen? Die Karten bleiben in ihren Decks.`)) {
+      return;
+    }
+    await window.electronAPI.deleteFilteredDeck(deck.id);
+    await loadDecks();
+  };
+
   // Get PDF name for a deck
   const getPdfName = (pdfId: number | null) => {
     if (!pdfId) return null;
@@ -123,15 +177,17 @@ export default function StudyDeckSelector({ isOpen, onClose, onSelectDeck }: Stu
             </div>
           ) : (
             <div className="space-y-2">
-              {decks.map((deck) => {
-                const hasDueCards = (deck.dueCount || 0) > 0;
+              {decks.map((entry) => {
+                const { deck, depth } = entry;
+                const hasDueCards = entry.totalDue > 0;
                 const pdfName = getPdfName(deck.pdfId || null);
 
                 return (
                   <button
                     key={deck.id}
-                    onClick={() => handleSelectDeck(deck)}
+                    onClick={() => handleSelectDeck(entry)}
                     disabled={!hasDueCards}
+                    style={{ marginLeft: `${depth * 20}px`, width: `calc(100% - ${depth * 20}px)` }}
                     className={`w-full text-left p-4 rounded-xl border transition-all duration-200 ${
                       hasDueCards
                         ? 'bg-white dark:bg-gray-700/50 border-gray-200 dark:border-gray-600 hover:border-primary-300 dark:hover:border-primary-500 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer'
@@ -153,14 +209,14 @@ export default function StudyDeckSelector({ isOpen, onClose, onSelectDeck }: Stu
                         )}
                         <div className="flex items-center gap-4 mt-2 text-sm">
                           <span className="text-gray-500 dark:text-gray-400">
-                            {deck.cardCount || 0} Karten
+                            {entry.totalCards} Karten
                           </span>
                           {hasDueCards ? (
                             <span className="flex items-center gap-1 text-primary-600 dark:text-primary-400 font-medium">
                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                               </svg>
-                              {deck.dueCount} fallig
+                              {entry.totalDue} fallig
                             </span>
                           ) : (
                             <span className="text-green-600 dark:text-green-400">
@@ -185,6 +241,117 @@ export default function StudyDeckSelector({ isOpen, onClose, onSelectDeck }: Stu
               })}
             </div>
           )}
+
+          {/* Filtered Decks */}
+          {!loading && decks.length > 0 && (
+            <div className="mt-6">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Gefilterte Decks</h3>
+                <button
+                  onClick={() => setShowFilterForm(!showFilterForm)}
+                  className="text-xs font-medium text-primary-600 dark:text-primary-400 hover:underline"
+                >
+                  {showFilterForm ? 'Abbrechen' : '+ Neu'}
+                </button>
+              </div>
+
+              {showFilterForm && (
+                <form onSubmit={handleCreateFilteredDeck} className="mb-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-xl space-y-2">
+                  <input
+                    type="text"
+                    value={filterName}
+                    onChange={(e) => setFilterName(e.target.value)}
+                    placeholder="Name, z.B. Klausur-Vorbereitung"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                    autoFocus
+                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={filterQuery}
+                      onChange={(e) => {
+                        setFilterQuery(e.target.value);
+                        setFilterError(null);
+                      }}
+                      placeholder="Suche, z.B. lapses>3 pdftag:Exam"
+                      className="flex-1 px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      value={filterLimit}
+                      onChange={(e) => setFilterLimit(e.target.value)}
+                      title="Maximale Anzahl Karten"
+                      className="w-20 px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {FILTER_EXAMPLES.map((example) => (
+                      <button
+                        key={example}
+                        type="button"
+                        onClick={() => setFilterQuery(example)}
+                        className="px-2 py-0.5 text-xs font-mono text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded"
+                      >
+                        {example}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Noch nicht fallige Karten werden nur geubt, ihr Lernplan bleibt unverandert.
+                  </p>
+                  {filterError && <p className="text-xs text-red-500">{filterError}</p>}
+                  <button
+                    type="submit"
+                    disabled={!filterName.trim() || !filterQuery.trim()}
+                    className="w-full px-3 py-1.5 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    Erstellen
+                  </button>
+                </form>
+              )}
+
+              {filteredDecks.length === 0 && !showFilterForm ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Lerne Karten aus einer Suche, z.B. alle oft vergessenen Karten oder die Seiten 40-80.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {filteredDecks.map((deck) => (
+                    <div
+                      key={deck.id}
+                      onClick={() => handleSelectFilteredDeck(deck)}
+                      className={`group p-3 rounded-xl border flex items-center justify-between gap-3 transition-all duration-200 ${
+                        deck.cardCount
+                          ? 'bg-white dark:bg-gray-700/50 border-gray-200 dark:border-gray-600 hover:border-primary-300 dark:hover:border-primary-500 cursor-pointer'
+                          : 'bg-gray-50 dark:bg-gray-800/50 border-gray-100 dark:border-gray-700 opacity-50 cursor-not-allowed'
+                      }`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-semibold text-gray-900 dark:text-gray-100 truncate">{deck.name}</h4>
+                        <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">{deck.query}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {deck.cardCount} Karten, {deck.dueCount} fallig
+                        </p>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteFilteredDeck(deck);
+                        }}
+                        className="p-1.5 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Gefiltertes Deck loschen"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
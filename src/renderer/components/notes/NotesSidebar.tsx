@@ -1,58 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { Note, PDFDocument } from '../../../shared/types';
-import { createWikiLinkRegex } from '../../../shared/constants';
+import { parseWikiLinkContent } from '../../utils/wikiLinks';
 import LinkAutocomplete from './LinkAutocomplete';
 import BacklinksPanel from './BacklinksPanel';
 
-interface ParsedContent {
-  type: 'text' | 'link';
-  content: string;
-  fileName?: string;
-  pageNum?: number;
-}
-
-function parseNoteContent(content: string): ParsedContent[] {
-  const parts: ParsedContent[] = [];
-  const regex = createWikiLinkRegex();
-  let lastIndex = 0;
-  let match;
-
-  while ((match = regex.exec(content)) !== null) {
-    // Add text before the match
-    if (match.index > lastIndex) {
-      parts.push({
-        type: 'text',
-        content: content.slice(lastIndex, match.index),
-      });
-    }
-
-    // Add the link
-    const fileName = match[1].trim();
-    const normalizedFileName = fileName.toLowerCase().endsWith('.pdf')
-      ? fileName
-      : `${fileName}.pdf`;
-
-    parts.push({
-      type: 'link',
-      content: match[0],
-      fileName: normalizedFileName,
-      pageNum: match[2] ? parseInt(match[2], 10) : undefined,
-    });
-
-    lastIndex = match.index + match[0].length;
-  }
-
-  // Add remaining text
-  if (lastIndex < content.length) {
-    parts.push({
-      type: 'text',
-      content: content.slice(lastIndex),
-    });
-  }
-
-  return parts;
-}
-
 interface NotesSidebarProps {
   pdfId: number;
   pageNum: number;
@@ -209,7 +160,7 @@ export default function NotesSidebar({ pdfId, pageNum, onClose, onNavigate }: No
   }, [onNavigate, onClose]);
 
   const renderNoteContent = (content: string) => {
-    const parts = parseNoteContent(content);
+    const parts = parseWikiLinkContent(content);
 
     if (parts.length === 1 && parts[0].type === 'text') {
       return <span>{content}</span>;
@@ -9,6 +9,8 @@ interface ExplanationSidebarProps {
   onNavigate: (pageNum: number) => void;
   pendingText: string | null;
   isExplaining: boolean;
+  streamingText: string;
+  onCancel: () => void;
   explanationStyle: ExplanationStyle;
   onStyleChange: (style: ExplanationStyle) => void;
 }
@@ -21,6 +23,8 @@ export default function ExplanationSidebar({
   onNavigate,
   pendingText,
   isExplaining,
+  streamingText,
+  onCancel,
   explanationStyle,
   onStyleChange,
 }: ExplanationSidebarProps) {
@@ -139,9 +143,20 @@ export default function ExplanationSidebar({
             <p className="text-sm text-gray-600 dark:text-gray-400 italic line-clamp-2 mb-2">
               "{pendingText.slice(0, 150)}{pendingText.length > 150 ? '...' : ''}"
             </p>
-            <div className="flex items-center gap-2 text-purple-600 dark:text-purple-400">
-              <div className="w-4 h-4 border-2 border-purple-300 border-t-purple-600 rounded-full animate-spin" />
-              <span className="text-sm">Wird erklärt...</span>
+            {streamingText && (
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap mb-2">{streamingText}</p>
+            )}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-purple-600 dark:text-purple-400">
+                <div className="w-4 h-4 border-2 border-purple-300 border-t-purple-600 rounded-full animate-spin" />
+                <span className="text-sm">Wird erklärt...</span>
+              </div>
+              <button
+                onClick={onCancel}
+                className="text-xs text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              >
+                Abbrechen
+              </button>
             </div>
           </div>
         )}
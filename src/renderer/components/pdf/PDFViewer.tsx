@@ -10,9 +10,11 @@ import HighlightsSidebar from './HighlightsSidebar';
 import ExplanationSidebar from './ExplanationSidebar';
 import SummarySidebar from './SummarySidebar';
 import ExportModal from '../export/ExportModal';
+import ImageOcclusionModal from '../flashcards/ImageOcclusionModal';
 import SearchBar from './SearchBar';
 import type { Highlight, HighlightRect, PDFDocument, ExplanationStyle } from '../../../shared/types';
 import { useToast } from '../ui/Toast';
+import { useAIStream } from '../../hooks/useAIStream';
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 import 'react-pdf/dist/Page/TextLayer.css';
 
@@ -22,7 +24,16 @@ pdfjs.GlobalWorkerOptions.workerSrc = pdfjsWorker;
 
 export default function PDFViewer() {
   const { showToast } = useToast();
-  const { currentPdf, currentPage, setCurrentPage, searchQuery, presentationMode, setPresentationMode } = useAppStore();
+  const {
+    currentPdf,
+    currentPage,
+    setCurrentPage,
+    searchQuery,
+    presentationMode,
+    setPresentationMode,
+    flashHighlightId,
+    setFlashHighlightId,
+  } = useAppStore();
   const [numPages, setNumPages] = useState<number>(0);
   const [scale, setScale] = useState(1.2);
   const [loading, setLoading] = useState(true);
@@ -35,12 +46,15 @@ export default function PDFViewer() {
   const [showLaserPointer, setShowLaserPointer] = useState(false);
   const [laserPosition, setLaserPosition] = useState({ x: 0, y: 0 });
   const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [flashingHighlightId, setFlashingHighlightId] = useState<number | null>(null);
+  const flashRectRef = useRef<HTMLDivElement>(null);
 
   // AI Explanation state
   const [showExplanations, setShowExplanations] = useState(false);
   const [explanationStyle, setExplanationStyle] = useState<ExplanationStyle>('short');
   const [isExplaining, setIsExplaining] = useState(false);
   const [pendingExplanation, setPendingExplanation] = useState<string | null>(null);
+  const explanationStream = useAIStream();
 
   // AI Summary state
   const [showSummaries, setShowSummaries] = useState(false);
@@ -59,6 +73,11 @@ export default function PDFViewer() {
   } | null>(null);
   const pageRef = useRef<HTMLDivElement>(null);
 
+  // Image occlusion: drag a region on the page, then mask parts of it
+  const [regionSelectMode, setRegionSelectMode] = useState(false);
+  const [regionDrag, setRegionDrag] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
+  const [occlusionRegion, setOcclusionRegion] = useState<{ region: HighlightRect; previewUrl: string } | null>(null);
+
   // Reading session tracking
   const sessionStartPageRef = useRef<number | null>(null);
   const sessionPdfIdRef = useRef<number | null>(null);
@@ -119,6 +138,21 @@ export default function PDFViewer() {
     loadHighlights();
   }, [currentPdf, currentPage]);
 
+  // A card's source was opened - flash its highlight once the page has it
+  useEffect(() => {
+    if (flashHighlightId !== null && highlights.some(h => h.id === flashHighlightId)) {
+      setFlashingHighlightId(flashHighlightId);
+      setFlashHighlightId(null);
+    }
+  }, [flashHighlightId, highlights, setFlashHighlightId]);
+
+  useEffect(() => {
+    if (flashingHighlightId === null) return;
+    flashRectRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const timer = setTimeout(() => setFlashingHighlightId(null), 2400);
+    return () => clearTimeout(timer);
+  }, [flashingHighlightId]);
+
   // Get page dimensions for calculating relative positions
   const getPageDimensions = useCallback(() => {
     if (!pageRef.current) return null;
@@ -229,6 +263,49 @@ export default function PDFViewer() {
     });
   }, [getPageDimensions, mergeOverlappingRects]);
 
+  // Region selection for image occlusion cards - percentages of the page like highlight rects
+  const getRegionPoint = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  }, []);
+
+  const handleRegionSelected = useCallback(() => {
+    if (!regionDrag) return;
+    setRegionDrag(null);
+
+    const region: HighlightRect = {
+      x: Math.min(regionDrag.start.x, regionDrag.end.x),
+      y: Math.min(regionDrag.start.y, regionDrag.end.y),
+      width: Math.abs(regionDrag.end.x - regionDrag.start.x),
+      height: Math.abs(regionDrag.end.y - regionDrag.start.y),
+    };
+    if (region.width < 2 || region.height < 2) return;
+
+    // Preview from the rendered page - the card image itself is rendered in the main process
+    const canvas = pageRef.current?.querySelector('.react-pdf__Page__canvas') as HTMLCanvasElement | null;
+    if (!canvas) return;
+    const crop = document.createElement('canvas');
+    crop.width = Math.max(1, Math.round((region.width / 100) * canvas.width));
+    crop.height = Math.max(1, Math.round((region.height / 100) * canvas.height));
+    crop.getContext('2d')?.drawImage(
+      canvas,
+      (region.x / 100) * canvas.width,
+      (region.y / 100) * canvas.height,
+      crop.width,
+      crop.height,
+      0,
+      0,
+      crop.width,
+      crop.height
+    );
+
+    setRegionSelectMode(false);
+    setOcclusionRegion({ region, previewUrl: crop.toDataURL('image/png') });
+  }, [regionDrag]);
+
   // Check if two rect arrays overlap (for merging highlights)
   const rectsOverlap = useCallback((rects1: HighlightRect[], rects2: HighlightRect[]): boolean => {
     for (const r1 of rects1) {
@@ -304,16 +381,18 @@ export default function PDFViewer() {
     setShowExplanations(true);
     setIsExplaining(true);
     setPendingExplanation(selectionData.text);
+    const requestId = explanationStream.start();
 
     try {
       const result = await window.electronAPI.explainText(
         selectionData.text,
         explanationStyle,
         currentPdf.id,
-        currentPage
+        currentPage,
+        requestId
       );
 
-      if (!result.success) {
+      if (!result.success && !result.cancelled) {
         const errorMsg = result.error || 'Unbekannter Fehler';
         if (errorMsg.includes('API key') || errorMsg.includes('api_key') || errorMsg.includes('401')) {
           showToast('API-Key fehlt oder ist ungultig. Bitte in den Einstellungen prufen.', 'error');
@@ -331,10 +410,11 @@ export default function PDFViewer() {
     } finally {
       setIsExplaining(false);
       setPendingExplanation(null);
+      explanationStream.finish();
       window.getSelection()?.removeAllRanges();
       setSelectionData(null);
     }
-  }, [selectionData, currentPdf, currentPage, explanationStyle, showToast]);
+  }, [selectionData, currentPdf, currentPage, explanationStyle, showToast, explanationStream]);
 
   const onDocumentLoadSuccess = (pdf: any) => {
     setNumPages(pdf.numPages);
@@ -851,6 +931,17 @@ export default function PDFViewer() {
                 </svg>
               </button>
 
+              {/* Image Occlusion Region Toggle */}
+              <button
+                onClick={() => setRegionSelectMode(!regionSelectMode)}
+                className={`p-1.5 rounded transition-colors ${regionSelectMode ? 'bg-orange-100 dark:bg-orange-900 text-orange-600 dark:text-orange-400' : 'hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-300'}`}
+                title="Bildverdeckung: Bereich auswählen"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7V5a1 1 0 011-1h2m10 0h2a1 1 0 011 1v2m0 10v2a1 1 0 01-1 1h-2M7 20H5a1 1 0 01-1-1v-2m5-8h6v6H9V9z" />
+                </svg>
+              </button>
+
               {/* Explanations Toggle */}
               <button
                 onClick={() => setShowExplanations(!showExplanations)}
@@ -988,6 +1079,8 @@ export default function PDFViewer() {
                     className="shadow-lg"
                     onRenderSuccess={() => {
                       highlightSearchTerms();
+                      // The page may render after the flash started
+                      flashRectRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
                     }}
                   />
                   {/* Highlight Overlays - optimized SVG rendering */}
@@ -1011,6 +1104,42 @@ export default function PDFViewer() {
                       ))}
                     </svg>
                   )}
+                  {/* Source highlight of a card, flashed after jumping here */}
+                  {highlights
+                    .filter(highlight => highlight.id === flashingHighlightId)
+                    .flatMap(highlight => highlight.rects)
+                    .map((rect, rectIndex) => (
+                      <div
+                        key={rectIndex}
+                        ref={rectIndex === 0 ? flashRectRef : undefined}
+                        className="source-highlight-flash absolute pointer-events-none"
+                        style={{ left: `${rect.x}%`, top: `${rect.y}%`, width: `${rect.width}%`, height: `${rect.height}%` }}
+                      />
+                    ))}
+                  {/* Region selection overlay for image occlusion */}
+                  {regionSelectMode && (
+                    <div
+                      className="absolute inset-0 cursor-crosshair bg-black/5"
+                      onMouseDown={(e) => {
+                        const point = getRegionPoint(e);
+                        setRegionDrag({ start: point, end: point });
+                      }}
+                      onMouseMove={(e) => regionDrag && setRegionDrag({ ...regionDrag, end: getRegionPoint(e) })}
+                      onMouseUp={handleRegionSelected}
+                    >
+                      {regionDrag && (
+                        <div
+                          className="absolute border-2 border-dashed border-orange-500 bg-orange-200/30"
+                          style={{
+                            left: `${Math.min(regionDrag.start.x, regionDrag.end.x)}%`,
+                            top: `${Math.min(regionDrag.start.y, regionDrag.end.y)}%`,
+                            width: `${Math.abs(regionDrag.end.x - regionDrag.start.x)}%`,
+                            height: `${Math.abs(regionDrag.end.y - regionDrag.start.y)}%`,
+                          }}
+                        />
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
             </Document>
@@ -1081,6 +1210,8 @@ export default function PDFViewer() {
           onNavigate={goToPage}
           pendingText={pendingExplanation}
           isExplaining={isExplaining}
+          streamingText={explanationStream.text}
+          onCancel={explanationStream.cancel}
           explanationStyle={explanationStyle}
           onStyleChange={setExplanationStyle}
         />
@@ -1111,6 +1242,18 @@ export default function PDFViewer() {
         />
       )}
 
+      {/* Image Occlusion Modal */}
+      {occlusionRegion && (
+        <ImageOcclusionModal
+          pdfId={currentPdf.id}
+          pageNum={currentPage}
+          region={occlusionRegion.region}
+          previewUrl={occlusionRegion.previewUrl}
+          onClose={() => setOcclusionRegion(null)}
+          onCreated={(count) => showToast(`${count} Bildverdeckungs-Karten erstellt`, 'success')}
+        />
+      )}
+
       {/* Export Modal */}
       {showExportModal && (
         <ExportModal
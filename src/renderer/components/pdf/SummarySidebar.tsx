@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useAIStream } from '../../hooks/useAIStream';
 import type { Summary } from '../../../shared/types';
 
 interface SummarySidebarProps {
@@ -27,6 +28,7 @@ export default function SummarySidebar({
   const [startPage, setStartPage] = useState(1);
   const [endPage, setEndPage] = useState(1);
   const [showGenerator, setShowGenerator] = useState(false);
+  const summaryStream = useAIStream();
 
   // Load summaries
   const loadSummaries = useCallback(async () => {
@@ -61,19 +63,21 @@ export default function SummarySidebar({
 
     setIsGenerating(true);
     setError(null);
+    const requestId = summaryStream.start();
 
     try {
       const result = await window.electronAPI.generateSummary(
         pdfId,
         filePath,
         startPage,
-        endPage
+        endPage,
+        requestId
       );
 
       if (result.success) {
         await loadSummaries();
         setShowGenerator(false);
-      } else {
+      } else if (!result.cancelled) {
         const errorMsg = result.error || 'Unbekannter Fehler';
         if (errorMsg.includes('API key') || errorMsg.includes('api_key') || errorMsg.includes('401')) {
           setError('API-Key fehlt oder ist ungültig. Bitte in den Einstellungen prüfen.');
@@ -94,6 +98,7 @@ export default function SummarySidebar({
       }
     } finally {
       setIsGenerating(false);
+      summaryStream.finish();
     }
   };
 
@@ -211,7 +216,7 @@ export default function SummarySidebar({
 
             <div className="flex gap-2 justify-end">
               <button
-                onClick={() => setShowGenerator(false)}
+                onClick={() => (isGenerating ? summaryStream.cancel() : setShowGenerator(false))}
                 className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-colors"
               >
                 Abbrechen
@@ -239,6 +244,13 @@ export default function SummarySidebar({
           </div>
         )}
 
+        {/* Streaming Summary */}
+        {isGenerating && summaryStream.text && (
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700 bg-teal-50 dark:bg-teal-900/20 max-h-64 overflow-y-auto">
+            <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{summaryStream.text}</p>
+          </div>
+        )}
+
         {/* Summaries List */}
         <div className="flex-1 overflow-y-auto">
           {summaries.length === 0 ? (
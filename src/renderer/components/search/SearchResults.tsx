@@ -1,5 +1,23 @@
 import { useAppStore } from '../../stores/appStore';
-import type { SearchResult } from '../../../shared/types';
+import type { SearchMatchSignal, SearchResult } from '../../../shared/types';
+
+const MATCH_SIGNAL_BADGES: Record<SearchMatchSignal, { label: string; title: string; className: string }> = {
+  keyword: {
+    label: 'Begriff',
+    title: 'Treffer uber die Suchbegriffe',
+    className: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+  },
+  semantic: {
+    label: 'Semantisch',
+    title: 'Inhaltlich verwandte Seite',
+    className: 'bg-purple-100 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300',
+  },
+  both: {
+    label: 'Begriff + Semantisch',
+    title: 'Treffer uber Suchbegriffe und inhaltliche Ahnlichkeit',
+    className: 'bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300',
+  },
+};
 
 /**
  * Safely render search snippet with only <mark> tags allowed.
@@ -107,9 +125,19 @@ export default function SearchResults() {
                   S.{result.pageNum}
                 </div>
                 <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
-                    {result.fileName}
-                  </p>
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {result.fileName}
+                    </p>
+                    {result.matchedBy && (
+                      <span
+                        title={MATCH_SIGNAL_BADGES[result.matchedBy].title}
+                        className={`flex-shrink-0 px-1.5 py-0.5 text-[10px] font-medium rounded ${MATCH_SIGNAL_BADGES[result.matchedBy].className}`}
+                      >
+                        {MATCH_SIGNAL_BADGES[result.matchedBy].label}
+                      </span>
+                    )}
+                  </div>
                   <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 line-clamp-2">
                     <SafeSnippet html={result.snippet} />
                   </p>
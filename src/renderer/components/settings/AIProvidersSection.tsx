@@ -0,0 +1,372 @@
+import { useState } from 'react';
+import type { AIModelRoute, AIOperation, AIProviderModel, AppSettings, CustomAIProvider } from '../../../shared/types';
+
+interface AIProvidersSectionProps {
+  settings: AppSettings;
+  onChange: (changes: Partial<AppSettings>) => void;
+}
+
+const OPERATION_LABELS: Record<AIOperation, string> = {
+  outline_generation: 'Inhaltsverzeichnis',
+  explanation: 'Erklarungen',
+  summary: 'Zusammenfassungen',
+  flashcard_generation: 'Karteikarten',
+  quiz_from_highlight: 'Quiz aus Markierung',
+  library_chat: 'Bibliothek-Chat',
+  answer_grading: 'Antwortbewertung',
+  practice_exam: 'Probeklausur',
+};
+
+const OPENAI_MODEL_IDS = ['gpt-5-nano', 'gpt-5-mini', 'gpt-5.2'];
+
+const inputClass = 'w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300';
+
+// Headers and query params are edited as "Name: Wert" lines
+function formatKeyValues(values: Record<string, string>): string {
+  return Object.entries(values).map(([key, value]) => `${key}: ${value}`).join('\n');
+}
+
+function parseKeyValues(text: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim();
+    if (key) result[key] = line.slice(separator + 1).trim();
+  }
+  return result;
+}
+
+export default function AIProvidersSection({ settings, onChange }: AIProvidersSectionProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const providers = settings.customProviders;
+
+  const providerOptions = [
+    { id: 'openai', name: 'OpenAI' },
+    { id: 'ollama', name: 'Ollama' },
+    ...providers.map((p) => ({ id: p.id, name: p.name || p.id })),
+  ];
+  const defaultName = providerOptions.find((p) => p.id === settings.aiProvider)?.name || 'OpenAI';
+
+  const updateProvider = (id: string, changes: Partial<CustomAIProvider>) => {
+    onChange({
+      customProviders: providers.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+    });
+  };
+
+  const updateModel = (provider: CustomAIProvider, index: number, changes: Partial<AIProviderModel>) => {
+    updateProvider(provider.id, {
+      models: provider.models.map((m, i) => (i === index ? { ...m, ...changes } : m)),
+    });
+  };
+
+  const handleAddProvider = () => {
+    const provider: CustomAIProvider = {
+      id: `custom-${Date.now()}`,
+      name: 'Neuer Anbieter',
+      baseUrl: 'http://localhost:1234/v1',
+      apiKey: null,
+      headers: {},
+      query: {},
+      models: [],
+      defaultModel: '',
+      embeddingModel: null,
+    };
+    onChange({ customProviders: [...providers, provider] });
+    setExpandedId(provider.id);
+  };
+
+  const handleRemoveProvider = (id: string) => {
+    if (!confirm('Anbieter wirklich entfernen?')) return;
+    // Route steps using the removed provider are dropped
+    const operationRoutes = Object.fromEntries(
+      Object.entries(settings.operationRoutes)
+        .map(([operation, route]) => [operation, (route || []).filter((step) => step.providerId !== id)])
+        .filter(([, route]) => route.length > 0)
+    );
+    onChange({
+      customProviders: providers.filter((p) => p.id !== id),
+      operationRoutes,
+      aiProvider: settings.aiProvider === id ? 'openai' : settings.aiProvider,
+    });
+  };
+
+  const setRoute = (operation: AIOperation, route: AIModelRoute[]) => {
+    const operationRoutes = { ...settings.operationRoutes };
+    if (route.length > 0) {
+      operationRoutes[operation] = route;
+    } else {
+      delete operationRoutes[operation];
+    }
+    onChange({ operationRoutes });
+  };
+
+  const updateRouteStep = (operation: AIOperation, index: number, changes: Partial<AIModelRoute>) => {
+    const route = settings.operationRoutes[operation] || [];
+    setRoute(operation, route.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const getModelOptions = (providerId: string): string[] => {
+    if (providerId === 'openai') return OPENAI_MODEL_IDS;
+    return providers.find((p) => p.id === providerId)?.models.map((m) => m.id).filter(Boolean) || [];
+  };
+
+  return (
+    <div className="mb-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Eigene Anbieter (OpenAI-kompatibel)
+        </label>
+        <button
+          onClick={handleAddProvider}
+          className="text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400"
+        >
+          + Anbieter hinzufugen
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        LM Studio, llama.cpp, vLLM, Azure OpenAI oder jeder andere Server mit OpenAI-API.
+      </p>
+
+      <div className="space-y-2 mb-4">
+        {providers.map((provider) => (
+          <div key={provider.id} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+            <div className="flex items-center gap-2 px-3 py-2">
+              <button
+                onClick={() => setExpandedId(expandedId === provider.id ? null : provider.id)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 truncate">{provider.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {provider.baseUrl} - {provider.models.length} Modelle
+                </p>
+              </button>
+              <button
+                onClick={() => handleRemoveProvider(provider.id)}
+                className="text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                Entfernen
+              </button>
+            </div>
+
+            {expandedId === provider.id && (
+              <div className="px-3 pb-3 space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={provider.name}
+                      onChange={(e) => updateProvider(provider.id, { name: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">API-Schlussel (optional)</label>
+                    <input
+                      type="password"
+                      value={provider.apiKey || ''}
+                      onChange={(e) => updateProvider(provider.id, { apiKey: e.target.value || null })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Basis-URL</label>
+                  <input
+                    type="text"
+                    value={provider.baseUrl}
+                    onChange={(e) => updateProvider(provider.id, { baseUrl: e.target.value })}
+                    placeholder="http://localhost:1234/v1"
+                    className={inputClass}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Header (Name: Wert)</label>
+                    <textarea
+                      defaultValue={formatKeyValues(provider.headers)}
+                      onBlur={(e) => updateProvider(provider.id, { headers: parseKeyValues(e.target.value) })}
+                      placeholder="api-key: ..."
+                      rows={2}
+                      className={`${inputClass} resize-none font-mono text-xs`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Query-Parameter (Name: Wert)</label>
+                    <textarea
+                      defaultValue={formatKeyValues(provider.query)}
+                      onBlur={(e) => updateProvider(provider.id, { query: parseKeyValues(e.target.value) })}
+                      placeholder="api-version: 2024-10-21"
+                      rows={2}
+                      className={`${inputClass} resize-none font-mono text-xs`}
+                    />
+                  </div>
+                </div>
+
+                {/* Models with pricing */}
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="text-xs text-gray-500 dark:text-gray-400">Modelle (USD pro 1M Tokens)</label>
+                    <button
+                      onClick={() => updateProvider(provider.id, {
+                        models: [...provider.models, { id: '', inputPrice: 0, outputPrice: 0 }],
+                      })}
+                      className="text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400"
+                    >
+                      + Modell
+                    </button>
+                  </div>
+                  <div className="space-y-1">
+                    {provider.models.map((model, index) => (
+                      <div key={index} className="flex gap-1 items-center">
+                        <input
+                          type="text"
+                          value={model.id}
+                          onChange={(e) => updateModel(provider, index, { id: e.target.value })}
+                          placeholder="Modell-ID"
+                          className={`${inputClass} flex-1`}
+                        />
+                        <input
+                          type="number"
+                          value={model.inputPrice}
+                          onChange={(e) => updateModel(provider, index, { inputPrice: parseFloat(e.target.value) || 0 })}
+                          min={0}
+                          step={0.01}
+                          title="Eingabe"
+                          className={`${inputClass} w-20`}
+                        />
+                        <input
+                          type="number"
+                          value={model.outputPrice}
+                          onChange={(e) => updateModel(provider, index, { outputPrice: parseFloat(e.target.value) || 0 })}
+                          min={0}
+                          step={0.01}
+                          title="Ausgabe"
+                          className={`${inputClass} w-20`}
+                        />
+                        <button
+                          onClick={() => updateProvider(provider.id, {
+                            models: provider.models.filter((_, i) => i !== index),
+                          })}
+                          className="px-1 text-gray-400 hover:text-red-500"
+                          title="Modell entfernen"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Standardmodell</label>
+                    <select
+                      value={provider.defaultModel}
+                      onChange={(e) => updateProvider(provider.id, { defaultModel: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Erstes Modell</option>
+                      {provider.models.filter((m) => m.id).map((m) => (
+                        <option key={m.id} value={m.id}>{m.id}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Embedding-Modell (optional)</label>
+                    <input
+                      type="text"
+                      value={provider.embeddingModel || ''}
+                      onChange={(e) => updateProvider(provider.id, { embeddingModel: e.target.value || null })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Model route per operation */}
+      <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+        Modell-Routing pro Funktion
+      </label>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Schlagt ein Modell fehl, wird das nachste in der Liste versucht.
+      </p>
+      <div className="space-y-2">
+        {(Object.keys(OPERATION_LABELS) as AIOperation[]).map((operation) => {
+          const route = settings.operationRoutes[operation] || [];
+          return (
+            <div key={operation} className="p-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                  {OPERATION_LABELS[operation]}
+                </span>
+                <button
+                  onClick={() => setRoute(operation, [...route, { providerId: settings.aiProvider, model: '' }])}
+                  className="text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400"
+                >
+                  {route.length === 0 ? '+ Modell festlegen' : '+ Fallback'}
+                </button>
+              </div>
+              {route.length === 0 && (
+                <p className="text-xs text-gray-400">Standard ({defaultName})</p>
+              )}
+              <div className="space-y-1">
+                {route.map((step, index) => {
+                  const modelOptions = getModelOptions(step.providerId);
+                  return (
+                    <div key={index} className="flex gap-1 items-center">
+                      <span className="w-4 text-xs text-gray-400">{index + 1}.</span>
+                      <select
+                        value={step.providerId}
+                        onChange={(e) => updateRouteStep(operation, index, { providerId: e.target.value, model: '' })}
+                        className={`${inputClass} flex-1`}
+                      >
+                        {providerOptions.map((p) => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                      </select>
+                      {step.providerId === 'ollama' ? (
+                        <input
+                          type="text"
+                          value={step.model}
+                          onChange={(e) => updateRouteStep(operation, index, { model: e.target.value })}
+                          placeholder="Standardmodell"
+                          className={`${inputClass} flex-1`}
+                        />
+                      ) : (
+                        <select
+                          value={step.model}
+                          onChange={(e) => updateRouteStep(operation, index, { model: e.target.value })}
+                          className={`${inputClass} flex-1`}
+                        >
+                          <option value="">Standardmodell</option>
+                          {modelOptions.map((model) => (
+                            <option key={model} value={model}>{model}</option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        onClick={() => setRoute(operation, route.filter((_, i) => i !== index))}
+                        className="px-1 text-gray-400 hover:text-red-500"
+                        title="Aus Route entfernen"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
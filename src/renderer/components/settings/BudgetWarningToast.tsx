@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { useToast } from '../ui/Toast';
+
+/**
+ * Show a toast when API spending reaches 80% of a budget cap
+ */
+export default function BudgetWarningToast() {
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    return window.electronAPI.onBudgetWarning((warning) => {
+      showToast(warning.message, 'info');
+    });
+  }, [showToast]);
+
+  return null;
+}
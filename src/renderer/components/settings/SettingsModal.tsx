@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useAppStore } from '../../stores/appStore';
-import type { AppSettings, OllamaStatus } from '../../../shared/types';
+import AIProvidersSection from './AIProvidersSection';
+import FsrsOptimizationPanel from '../flashcards/FsrsOptimizationPanel';
+import type { AppSettings, BudgetStatus, LeechAction, OllamaStatus, SearchMode, SemanticIndexStatus } from '../../../shared/types';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -21,16 +23,40 @@ const AVAILABLE_LANGUAGES = [
   { code: 'jpn', name: 'Japanisch' },
 ];
 
+const USAGE_OPERATION_LABELS: Record<string, string> = {
+  flashcard_generation: 'Karteikarten (Text)',
+  flashcard_generation_pdf: 'Karteikarten (PDF)',
+  outline_generation: 'Inhaltsverzeichnis',
+  explanation: 'Erklarung',
+  summary: 'Zusammenfassung',
+  quiz_from_highlight: 'Quiz aus Markierung',
+  semantic_index: 'Semantischer Index',
+  search_embedding: 'Semantische Suche',
+  library_chat: 'Bibliothek-Chat',
+  answer_grading: 'Antwortbewertung',
+  practice_exam: 'Probeklausur',
+};
+
 interface ApiUsageStats {
   totalCostUsd: number;
   totalTokens: number;
   callCount: number;
   costByModel: Record<string, number>;
   costByOperation: Record<string, number>;
+  costByRoute: Array<{
+    operation: string;
+    provider: string | null;
+    model: string;
+    callCount: number;
+    fallbackCount: number;
+    cost: number;
+  }>;
   recentUsage: Array<{
     id: number;
     model: string;
     operation: string;
+    provider: string | null;
+    isFallback: boolean;
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
@@ -48,6 +74,9 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const [loadingUsage, setLoadingUsage] = useState(false);
   const [ollamaStatus, setOllamaStatus] = useState<OllamaStatus | null>(null);
   const [loadingOllama, setLoadingOllama] = useState(false);
+  const [semanticStatus, setSemanticStatus] = useState<SemanticIndexStatus | null>(null);
+  const [semanticMessage, setSemanticMessage] = useState<string | null>(null);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null);
 
   useEffect(() => {
     if (settings) {
@@ -60,10 +89,22 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     if (isOpen) {
       setOcrMessage(null);
       loadApiUsage();
+      window.electronAPI.getBudgetStatus().then(setBudgetStatus);
       checkOllamaStatus();
+      setSemanticMessage(null);
+      window.electronAPI.getSemanticIndexStatus().then(setSemanticStatus);
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    return window.electronAPI.onSemanticIndexProgress((status) => {
+      setSemanticStatus(status);
+      if (!status.isIndexing && status.error) {
+        setSemanticMessage(status.error);
+      }
+    });
+  }, []);
+
   const checkOllamaStatus = async () => {
     setLoadingOllama(true);
     try {
@@ -134,6 +175,23 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     }
   };
 
+  const handleBuildSemanticIndex = async () => {
+    if (!localSettings) return;
+    setSemanticMessage(null);
+    // Persist provider and embedding model first - indexing reads the saved settings
+    await window.electronAPI.saveSettings({
+      aiProvider: localSettings.aiProvider,
+      openaiApiKey: localSettings.openaiApiKey,
+      ollamaBaseUrl: localSettings.ollamaBaseUrl,
+      openaiEmbeddingModel: localSettings.openaiEmbeddingModel,
+      ollamaEmbeddingModel: localSettings.ollamaEmbeddingModel,
+    });
+    const result = await window.electronAPI.buildSemanticIndex();
+    if (!result.success && result.error) {
+      setSemanticMessage(result.error);
+    }
+  };
+
   if (!isOpen || !localSettings) return null;
 
   const handleSelectFolder = async () => {
@@ -294,7 +352,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     name="searchMode"
                     value="intelligent"
                     checked={localSettings.searchMode === 'intelligent' || !localSettings.searchMode}
-                    onChange={(e) => setLocalSettings({ ...localSettings, searchMode: e.target.value as 'exact' | 'fuzzy' | 'intelligent' })}
+                    onChange={(e) => setLocalSettings({ ...localSettings, searchMode: e.target.value as SearchMode })}
                     className="mt-0.5"
                   />
                   <div>
@@ -308,7 +366,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     name="searchMode"
                     value="fuzzy"
                     checked={localSettings.searchMode === 'fuzzy'}
-                    onChange={(e) => setLocalSettings({ ...localSettings, searchMode: e.target.value as 'exact' | 'fuzzy' | 'intelligent' })}
+                    onChange={(e) => setLocalSettings({ ...localSettings, searchMode: e.target.value as SearchMode })}
                     className="mt-0.5"
                   />
                   <div>
@@ -322,7 +380,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     name="searchMode"
                     value="exact"
                     checked={localSettings.searchMode === 'exact'}
-                    onChange={(e) => setLocalSettings({ ...localSettings, searchMode: e.target.value as 'exact' | 'fuzzy' | 'intelligent' })}
+                    onChange={(e) => setLocalSettings({ ...localSettings, searchMode: e.target.value as SearchMode })}
                     className="mt-0.5"
                   />
                   <div>
@@ -330,8 +388,112 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     <p className="text-xs text-gray-500 dark:text-gray-400">Nur exakte Phrasen finden</p>
                   </div>
                 </label>
+                <label className="flex items-start gap-3 p-3 border border-gray-200 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <input
+                    type="radio"
+                    name="searchMode"
+                    value="semantic"
+                    checked={localSettings.searchMode === 'semantic'}
+                    onChange={(e) => setLocalSettings({ ...localSettings, searchMode: e.target.value as SearchMode })}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Semantisch</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Findet inhaltlich verwandte Seiten, auch ohne gleiche Begriffe</p>
+                  </div>
+                </label>
+                <label className="flex items-start gap-3 p-3 border border-gray-200 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <input
+                    type="radio"
+                    name="searchMode"
+                    value="hybrid"
+                    checked={localSettings.searchMode === 'hybrid'}
+                    onChange={(e) => setLocalSettings({ ...localSettings, searchMode: e.target.value as SearchMode })}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Hybrid</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Kombiniert exakte Begriffe und inhaltliche Ahnlichkeit</p>
+                  </div>
+                </label>
               </div>
             </div>
+
+            {/* Hybrid Weight */}
+            {localSettings.searchMode === 'hybrid' && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="text-xs text-gray-500 dark:text-gray-400">Gewichtung</label>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {Math.round((1 - localSettings.hybridSemanticWeight) * 100)}% Begriffe / {Math.round(localSettings.hybridSemanticWeight * 100)}% Semantisch
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={localSettings.hybridSemanticWeight}
+                  onChange={(e) => setLocalSettings({ ...localSettings, hybridSemanticWeight: parseFloat(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            {/* Semantic Index */}
+            {(localSettings.searchMode === 'semantic' || localSettings.searchMode === 'hybrid') && (
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Embedding-Modell ({localSettings.aiProvider === 'ollama' ? 'Ollama' : 'OpenAI'})
+                </label>
+                <input
+                  type="text"
+                  value={localSettings.aiProvider === 'ollama' ? localSettings.ollamaEmbeddingModel : localSettings.openaiEmbeddingModel}
+                  onChange={(e) => setLocalSettings(localSettings.aiProvider === 'ollama'
+                    ? { ...localSettings, ollamaEmbeddingModel: e.target.value }
+                    : { ...localSettings, openaiEmbeddingModel: e.target.value })}
+                  className="w-full px-3 py-2 mb-3 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300"
+                />
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Semantischer Index</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {semanticStatus
+                        ? `${semanticStatus.indexedPages}/${semanticStatus.totalPages} Seiten indexiert`
+                        : 'Status wird geladen...'}
+                    </p>
+                  </div>
+                  {semanticStatus?.isIndexing ? (
+                    <button
+                      onClick={() => window.electronAPI.cancelSemanticIndex()}
+                      className="px-3 py-2 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 transition-colors"
+                    >
+                      Abbrechen
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleBuildSemanticIndex}
+                      className="px-3 py-2 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 transition-colors"
+                    >
+                      Index aufbauen
+                    </button>
+                  )}
+                </div>
+                {semanticMessage && (
+                  <p className="text-xs text-red-600 dark:text-red-400 mt-2">{semanticMessage}</p>
+                )}
+                {semanticStatus?.isIndexing && (
+                  <div className="mt-3 h-2 bg-primary-100 dark:bg-primary-900 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-primary-500 transition-all duration-300"
+                      style={{
+                        width: `${semanticStatus.totalPages > 0 ? (semanticStatus.indexedPages / semanticStatus.totalPages) * 100 : 0}%`
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* OCR Settings */}
@@ -483,6 +645,25 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
               </button>
             </div>
 
+            {/* Custom providers as default */}
+            {localSettings.customProviders.length > 0 && (
+              <div className="flex flex-wrap gap-2 -mt-2 mb-4">
+                {localSettings.customProviders.map((provider) => (
+                  <button
+                    key={provider.id}
+                    onClick={() => setLocalSettings({ ...localSettings, aiProvider: provider.id })}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-colors ${
+                      localSettings.aiProvider === provider.id
+                        ? 'border-primary-500 bg-primary-50 dark:bg-primary-900 text-primary-700 dark:text-primary-300'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {provider.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Ollama Settings */}
             {localSettings.aiProvider === 'ollama' && (
               <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
@@ -595,6 +776,11 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
               </>
             )}
 
+            <AIProvidersSection
+              settings={localSettings}
+              onChange={(changes) => setLocalSettings({ ...localSettings, ...changes })}
+            />
+
             {/* Flashcard Language */}
             <div className="mb-4 pt-4 border-t border-gray-200 dark:border-gray-700">
               <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
@@ -640,8 +826,104 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
               </div>
             </div>
 
-            {/* API Cost Tracker - only show for OpenAI */}
-            {localSettings.aiProvider === 'openai' && localSettings.openaiApiKey && (
+            {/* FSRS Scheduling */}
+            <div className="mt-4">
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                Gewunschte Behaltensrate: {Math.round((localSettings.desiredRetention || 0.9) * 100)}%
+              </label>
+              <input
+                type="range"
+                min={0.7}
+                max={0.97}
+                step={0.01}
+                value={localSettings.desiredRetention || 0.9}
+                onChange={(e) => setLocalSettings({ ...localSettings, desiredRetention: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                Hohere Werte bedeuten kurzere Intervalle und mehr Wiederholungen.
+              </p>
+              <FsrsOptimizationPanel />
+            </div>
+
+            {/* Leeches */}
+            <div className="mt-4 grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Leech ab Fehlern
+                </label>
+                <input
+                  type="number"
+                  value={localSettings.leechThreshold || 8}
+                  onChange={(e) => setLocalSettings({ ...localSettings, leechThreshold: parseInt(e.target.value) || 8 })}
+                  min={1}
+                  max={50}
+                  className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Leech-Aktion
+                </label>
+                <select
+                  value={localSettings.leechAction || 'tag'}
+                  onChange={(e) => setLocalSettings({ ...localSettings, leechAction: e.target.value as LeechAction })}
+                  className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300"
+                >
+                  <option value="tag">Nur markieren</option>
+                  <option value="suspend">Markieren und pausieren</option>
+                </select>
+              </div>
+            </div>
+
+            {/* API Budget */}
+            <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                API-Budget
+              </label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                Anfragen uber dem Limit werden abgelehnt, ab 80% gibt es eine Warnung. 0 = kein Limit.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                {([
+                  { key: 'dailyBudgetUsd', label: 'Pro Tag (USD)', spent: budgetStatus?.todayUsd },
+                  { key: 'monthlyBudgetUsd', label: 'Pro Monat (USD)', spent: budgetStatus?.monthUsd },
+                ] as const).map(({ key, label, spent }) => {
+                  const limit = localSettings[key];
+                  return (
+                    <div key={key}>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</label>
+                      <input
+                        type="number"
+                        value={limit}
+                        onChange={(e) => setLocalSettings({ ...localSettings, [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        min={0}
+                        step={0.5}
+                        className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300"
+                      />
+                      {spent !== undefined && (
+                        <>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            ${spent.toFixed(2)} ausgegeben{limit > 0 ? ` von $${limit.toFixed(2)}` : ''}
+                          </p>
+                          {limit > 0 && (
+                            <div className="mt-1 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                              <div
+                                className={`h-full ${spent >= limit ? 'bg-red-500' : spent >= limit * 0.8 ? 'bg-amber-500' : 'bg-green-500'}`}
+                                style={{ width: `${Math.min(100, (spent / limit) * 100)}%` }}
+                              />
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* API Cost Tracker - only show for paid providers */}
+            {((localSettings.aiProvider === 'openai' && localSettings.openaiApiKey) || localSettings.customProviders.length > 0) && (
               <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                 <div className="flex items-center justify-between mb-3">
                   <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -705,6 +987,28 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                       </div>
                     )}
 
+                    {/* Cost by Route */}
+                    {apiUsage.costByRoute.length > 0 && (
+                      <div>
+                        <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Kosten pro Route</div>
+                        <div className="space-y-1">
+                          {apiUsage.costByRoute.map((route) => (
+                            <div
+                              key={`${route.operation}|${route.provider}|${route.model}`}
+                              className="flex justify-between text-sm"
+                            >
+                              <span className="text-gray-600 dark:text-gray-400 truncate flex-1">
+                                {USAGE_OPERATION_LABELS[route.operation] || route.operation}
+                                <span className="text-gray-400"> → {route.provider ? `${route.provider} / ` : ''}{route.model}</span>
+                                <span className="text-xs text-gray-400"> ({route.callCount}x{route.fallbackCount > 0 ? `, ${route.fallbackCount} Fallback` : ''})</span>
+                              </span>
+                              <span className="font-medium text-gray-900 dark:text-gray-100 ml-2">${route.cost.toFixed(4)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Recent Usage */}
                     {apiUsage.recentUsage.length > 0 && (
                       <div>
@@ -715,7 +1019,11 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                               <span className="text-gray-600 dark:text-gray-400 truncate flex-1">
                                 {usage.operation === 'flashcard_generation' ? 'Karteikarten' :
                                  usage.operation === 'flashcard_generation_pdf' ? 'Karteikarten (PDF)' :
-                                 usage.operation === 'outline_generation' ? 'Inhaltsverz.' : usage.operation}
+                                 usage.operation === 'outline_generation' ? 'Inhaltsverz.' :
+                                 usage.operation === 'semantic_index' ? 'Semantischer Index' :
+                                 usage.operation === 'search_embedding' ? 'Semantische Suche' :
+                                 usage.operation === 'library_chat' ? 'Bibliothek-Chat' : usage.operation}
+                                {usage.isFallback && <span className="text-amber-600 dark:text-amber-400"> (Fallback)</span>}
                               </span>
                               <span className="text-gray-500 dark:text-gray-500 mx-2">{usage.totalTokens} tok</span>
                               <span className="font-medium text-gray-900 dark:text-gray-100">${usage.costUsd.toFixed(4)}</span>
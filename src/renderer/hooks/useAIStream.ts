@@ -0,0 +1,45 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+
+interface AIStream {
+  text: string;                 // Content received so far
+  start: () => string;          // Begin a new request, returns its request id
+  cancel: () => void;           // Abort the running request
+  finish: () => void;           // Reset once the request has resolved
+}
+
+/**
+ * Collect streamed AI deltas for one request at a time.
+ * Pass the id from start() to the IPC call that should stream.
+ */
+export function useAIStream(): AIStream {
+  const [text, setText] = useState('');
+  const requestIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    return window.electronAPI.onAIStreamDelta(({ requestId, delta }) => {
+      if (requestId === requestIdRef.current) {
+        setText((prev) => prev + delta);
+      }
+    });
+  }, []);
+
+  const start = useCallback(() => {
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    requestIdRef.current = requestId;
+    setText('');
+    return requestId;
+  }, []);
+
+  const cancel = useCallback(() => {
+    if (requestIdRef.current) {
+      window.electronAPI.cancelAIStream(requestIdRef.current);
+    }
+  }, []);
+
+  const finish = useCallback(() => {
+    requestIdRef.current = null;
+    setText('');
+  }, []);
+
+  return useMemo(() => ({ text, start, cancel, finish }), [text, start, cancel, finish]);
+}
@@ -0,0 +1,53 @@
+import { useEffect, useRef, useCallback } from 'react';
+
+// Gaps without any input longer than this count only up to this length
+const IDLE_TIMEOUT_MS = 30_000;
+
+const ACTIVITY_EVENTS = ['keydown', 'mousedown', 'mousemove', 'wheel', 'touchstart'] as const;
+
+/**
+ * Measure the active time spent on a card: restart() when the card is shown,
+ * elapsed() when it is answered. Time while the window is hidden is not counted
+ * and idle stretches are cut off at the idle timeout.
+ */
+export function useAnswerTimer() {
+  const activeMsRef = useRef(0);
+  const lastActivityRef = useRef(Date.now());
+  const hiddenRef = useRef(document.hidden);
+
+  // Add the time since the last input, at most the idle timeout
+  const flush = useCallback(() => {
+    const now = Date.now();
+    if (!hiddenRef.current) {
+      activeMsRef.current += Math.min(now - lastActivityRef.current, IDLE_TIMEOUT_MS);
+    }
+    lastActivityRef.current = now;
+  }, []);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      flush();
+      hiddenRef.current = document.hidden;
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, flush, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, flush));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [flush]);
+
+  const restart = useCallback(() => {
+    activeMsRef.current = 0;
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  // Active milliseconds since the last restart
+  const elapsed = useCallback(() => {
+    flush();
+    return Math.round(activeMsRef.current);
+  }, [flush]);
+
+  return { restart, elapsed };
+}
@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import { useAppStore } from '../stores/appStore';
+import { useToast } from '../components/ui/Toast';
+
+/**
+ * Open the PDF page a card was made from and flash its highlight there.
+ * Resolves to false when the card has no source or its PDF is not in the library.
+ */
+export function useOpenCardSource() {
+  const { showToast } = useToast();
+
+  return useCallback(async (flashcardId: number): Promise<boolean> => {
+    try {
+      const source = await window.electronAPI.getFlashcardSource(flashcardId);
+      if (!source) {
+        showToast('Fur diese Karte ist keine Quelle bekannt', 'info');
+        return false;
+      }
+
+      const { pdfs, currentPdf, setCurrentPdf, setCurrentPage, setFlashHighlightId, setMainContentView } = useAppStore.getState();
+      const pdf = pdfs.find(p => p.id === source.pdfId);
+      if (!pdf) {
+        showToast('Das PDF der Karte ist nicht mehr in der Bibliothek', 'error');
+        return false;
+      }
+
+      if (currentPdf?.id !== pdf.id) {
+        setCurrentPdf(pdf);
+      }
+      setCurrentPage(source.pageNum);
+      setFlashHighlightId(source.highlightId);
+      setMainContentView('pdf');
+      return true;
+    } catch (error) {
+      console.error('Error opening card source:', error);
+      showToast('Quelle konnte nicht geoffnet werden', 'error');
+      return false;
+    }
+  }, [showToast]);
+}
@@ -6,6 +6,7 @@ import type {
   IndexingStatus,
   OCRStatus,
   Bookmark,
+  FilteredDeck,
   FlashcardDeck,
   FlashcardWithFSRS,
   FlashcardStats,
@@ -16,6 +17,25 @@ interface FlashcardWithIntervals extends FlashcardWithFSRS {
   nextIntervals: { again: string; hard: string; good: string; easy: string };
 }
 
+// Everything needed to step back to a card that was already rated
+export interface StudyUndoEntry {
+  reviewId: number | null;    // Null when the card was only practiced ahead of time
+  cardIndex: number;
+  reviewedCount: number;
+  streak: number;
+  easyStreak: number;
+}
+
+// Progress of a study session while its view is not shown, e.g. while the source of a card is open
+export interface PausedStudySession {
+  cardIds: number[];          // Restored only for the same cards
+  reviewedCount: number;
+  streak: number;
+  easyStreak: number;
+  isFlipped: boolean;
+  undoStack: StudyUndoEntry[];
+}
+
 interface AppState {
   // Settings
   settings: AppSettings | null;
@@ -36,6 +56,8 @@ interface AppState {
   currentPage: number;
   setCurrentPdf: (pdf: PDFDocument | null) => void;
   setCurrentPage: (page: number) => void;
+  flashHighlightId: number | null;     // Highlight the PDF viewer scrolls to and flashes once
+  setFlashHighlightId: (id: number | null) => void;
 
   // Search
   searchQuery: string;
@@ -58,8 +80,8 @@ interface AppState {
   setSidebarView: (view: 'library' | 'search' | 'bookmarks' | 'recent' | 'flashcards' | 'reading') => void;
   mobileSidebarOpen: boolean;
   setMobileSidebarOpen: (open: boolean) => void;
-  mainContentView: 'pdf' | 'study';
-  setMainContentView: (view: 'pdf' | 'study') => void;
+  mainContentView: 'pdf' | 'study' | 'chat';
+  setMainContentView: (view: 'pdf' | 'study' | 'chat') => void;
   presentationMode: boolean;
   setPresentationMode: (mode: boolean) => void;
   libraryViewMode: 'list' | 'grid';
@@ -68,6 +90,12 @@ interface AppState {
   setShowStudyDeckSelector: (show: boolean) => void;
   studyDeckId: number | null;
   setStudyDeckId: (deckId: number | null) => void;
+  studyFilteredDeck: FilteredDeck | null;     // Set while a filtered deck is studied
+  setStudyFilteredDeck: (deck: FilteredDeck | null) => void;
+  studyAnswerMode: 'flip' | 'type';     // 'type' asks for the answer before revealing it
+  setStudyAnswerMode: (mode: 'flip' | 'type') => void;
+  pausedStudySession: PausedStudySession | null;
+  setPausedStudySession: (session: PausedStudySession | null) => void;
 
   // Flashcards
   flashcardDecks: FlashcardDeck[];
@@ -125,6 +153,8 @@ export const useAppStore = create<AppState>((set, get) => ({
       window.electronAPI.updateRecentViewPage(currentPdf.id, currentPage);
     }
   },
+  flashHighlightId: null,
+  setFlashHighlightId: (flashHighlightId) => set({ flashHighlightId }),
 
   // Search
   searchQuery: '',
@@ -171,6 +201,12 @@ export const useAppStore = create<AppState>((set, get) => ({
   setShowStudyDeckSelector: (showStudyDeckSelector) => set({ showStudyDeckSelector }),
   studyDeckId: null,
   setStudyDeckId: (studyDeckId) => set({ studyDeckId }),
+  studyFilteredDeck: null,
+  setStudyFilteredDeck: (studyFilteredDeck) => set({ studyFilteredDeck }),
+  studyAnswerMode: 'flip',
+  setStudyAnswerMode: (studyAnswerMode) => set({ studyAnswerMode }),
+  pausedStudySession: null,
+  setPausedStudySession: (pausedStudySession) => set({ pausedStudySession }),
 
   // Flashcards
   flashcardDecks: [],
@@ -0,0 +1,13 @@
+import type { CardFlag } from '../../shared/types';
+
+// Labels and colors of the card flags (0 = no flag)
+export const CARD_FLAGS: Array<{ flag: CardFlag; label: string; color: string }> = [
+  { flag: 1, label: 'Rot', color: 'bg-red-500' },
+  { flag: 2, label: 'Orange', color: 'bg-orange-500' },
+  { flag: 3, label: 'Grun', color: 'bg-green-500' },
+  { flag: 4, label: 'Blau', color: 'bg-blue-500' },
+];
+
+export function getFlagColor(flag: CardFlag): string | null {
+  return CARD_FLAGS.find(f => f.flag === flag)?.color ?? null;
+}
@@ -0,0 +1,48 @@
+import type { FlashcardDeck } from '../../shared/types';
+
+export interface DeckTreeEntry {
+  deck: FlashcardDeck;
+  depth: number;
+  totalCards: number;   // Including all subdecks
+  totalDue: number;
+}
+
+/**
+ * Flatten decks into tree order (parents before their subdecks) with counts
+ * summed over each subtree. Decks whose parent is not in the list are roots.
+ */
+export function buildDeckTree(decks: FlashcardDeck[]): DeckTreeEntry[] {
+  const ids = new Set(decks.map(deck => deck.id));
+  const children = new Map<number | null, FlashcardDeck[]>();
+  for (const deck of decks) {
+    const parentId = deck.parentId !== null && ids.has(deck.parentId) ? deck.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), deck]);
+  }
+
+  const entries: DeckTreeEntry[] = [];
+  const visit = (deck: FlashcardDeck, depth: number): DeckTreeEntry => {
+    const entry: DeckTreeEntry = { deck, depth, totalCards: deck.cardCount ?? 0, totalDue: deck.dueCount ?? 0 };
+    entries.push(entry);
+    for (const child of children.get(deck.id) ?? []) {
+      const childEntry = visit(child, depth + 1);
+      entry.totalCards += childEntry.totalCards;
+      entry.totalDue += childEntry.totalDue;
+    }
+    return entry;
+  };
+  for (const root of children.get(null) ?? []) {
+    visit(root, 0);
+  }
+  return entries;
+}
+
+/**
+ * Ids of a deck and all of its subdecks
+ */
+export function getSubdeckIds(decks: FlashcardDeck[], id: number): number[] {
+  const result = [id];
+  for (let i = 0; i < result.length; i++) {
+    result.push(...decks.filter(deck => deck.parentId === result[i]).map(deck => deck.id));
+  }
+  return result;
+}
@@ -0,0 +1,53 @@
+import { createWikiLinkRegex } from '../../shared/constants';
+
+export interface ParsedContent {
+  type: 'text' | 'link';
+  content: string;
+  fileName?: string;
+  pageNum?: number;
+}
+
+/**
+ * Split text into plain text parts and [[wiki-link]] parts for rendering
+ */
+export function parseWikiLinkContent(content: string): ParsedContent[] {
+  const parts: ParsedContent[] = [];
+  const regex = createWikiLinkRegex();
+  let lastIndex = 0;
+  let match;
+
+  while ((match = regex.exec(content)) !== null) {
+    // Add text before the match
+    if (match.index > lastIndex) {
+      parts.push({
+        type: 'text',
+        content: content.slice(lastIndex, match.index),
+      });
+    }
+
+    // Add the link
+    const fileName = match[1].trim();
+    const normalizedFileName = fileName.toLowerCase().endsWith('.pdf')
+      ? fileName
+      : `${fileName}.pdf`;
+
+    parts.push({
+      type: 'link',
+      content: match[0],
+      fileName: normalizedFileName,
+      pageNum: match[2] ? parseInt(match[2], 10) : undefined,
+    });
+
+    lastIndex = match.index + match[0].length;
+  }
+
+  // Add remaining text
+  if (lastIndex < content.length) {
+    parts.push({
+      type: 'text',
+      content: content.slice(lastIndex),
+    });
+  }
+
+  return parts;
+}
@@ -1,5 +1,7 @@
 // Shared constants used across main and renderer processes
 
+import type { AnswerDiffSegment } from './types';
+
 /**
  * Wiki-link regex pattern for parsing [[links]] in notes
  * Supported formats:
@@ -15,3 +17,111 @@ export const WIKI_LINK_REGEX = /\[\[([^\]#]+?)(?:\.pdf)?(?:#(?:p|Page)?(\d+))?\]
 export function createWikiLinkRegex(): RegExp {
   return new RegExp(WIKI_LINK_REGEX.source, WIKI_LINK_REGEX.flags);
 }
+
+/**
+ * Cloze deletion pattern: {{c1::answer}} or {{c1::answer::hint}}
+ * Groups: 1 = deletion number, 2 = answer, 3 = hint
+ */
+export const CLOZE_REGEX = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+
+export function createClozeRegex(): RegExp {
+  return new RegExp(CLOZE_REGEX.source, CLOZE_REGEX.flags);
+}
+
+/**
+ * Distinct deletion numbers in a cloze text, ascending. Each one becomes its own card.
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(createClozeRegex())) {
+    indices.add(parseInt(match[1], 10));
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Render a cloze text for one card: the active deletion is hidden ([...] or [hint])
+ * or, once revealed, marked as **answer**. Other deletions show their answer.
+ * Without an active index (legacy single cards) all deletions are treated as active.
+ */
+export function renderCloze(text: string, activeIndex: number | null, revealed: boolean): string {
+  return text.replace(createClozeRegex(), (_, index: string, answer: string, hint?: string) => {
+    if (activeIndex !== null && parseInt(index, 10) !== activeIndex) {
+      return answer;
+    }
+    if (revealed) {
+      return `**${answer}**`;
+    }
+    return hint ? `[${hint}]` : '[...]';
+  });
+}
+
+/**
+ * The answer expected for a cloze card: the text of its deletion(s), joined by ", "
+ */
+export function getClozeAnswer(text: string, activeIndex: number | null): string {
+  const answers: string[] = [];
+  for (const match of text.matchAll(createClozeRegex())) {
+    if (activeIndex === null || parseInt(match[1], 10) === activeIndex) {
+      answers.push(match[2]);
+    }
+  }
+  return answers.join(', ');
+}
+
+// Longer answers are not diffed character by character (the table grows with the product of the lengths)
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Character-level diff of a typed answer against the expected answer, ignoring
+ * case and surplus whitespace. Equal parts are shown as typed.
+ */
+export function diffAnswer(typed: string, expected: string): AnswerDiffSegment[] {
+  const a = typed.trim().replace(/\s+/g, ' ');
+  const b = expected.trim().replace(/\s+/g, ' ');
+  const same = (i: number, j: number) => a[i].toLowerCase() === b[j].toLowerCase();
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (a.toLowerCase() === b.toLowerCase()) return [{ type: 'equal', text: a }];
+    return [
+      ...(a ? [{ type: 'extra' as const, text: a }] : []),
+      ...(b ? [{ type: 'missing' as const, text: b }] : []),
+    ];
+  }
+
+  // Longest common subsequence lengths of the suffixes
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(i, j) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: AnswerDiffSegment[] = [];
+  const push = (type: AnswerDiffSegment['type'], char: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += char;
+    else segments.push({ type, text: char });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(i, j)) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push('missing', b[j++]);
+    } else {
+      push('extra', a[i++]);
+    }
+  }
+  return segments;
+}
+
+// Tag added to cards that lapsed too often (see leech settings)
+export const LEECH_TAG = 'leech';
+
+// Most cards the card browser shows for one search
+export const CARD_SEARCH_LIMIT = 1000;
@@ -18,6 +18,9 @@ export const IPC_CHANNELS = {
 
   // Search
   SEARCH: 'search',
+  BUILD_SEMANTIC_INDEX: 'build-semantic-index',
+  GET_SEMANTIC_INDEX_STATUS: 'get-semantic-index-status',
+  CANCEL_SEMANTIC_INDEX: 'cancel-semantic-index',
 
   // Bookmarks
   GET_BOOKMARKS: 'get-bookmarks',
@@ -82,6 +85,14 @@ export const IPC_CHANNELS = {
   FLASHCARD_CREATE_DECK: 'flashcard-create-deck',
   FLASHCARD_UPDATE_DECK: 'flashcard-update-deck',
   FLASHCARD_DELETE_DECK: 'flashcard-delete-deck',
+  FLASHCARD_SET_DECK_PARENT: 'flashcard-set-deck-parent',
+
+  // Filtered Decks
+  FLASHCARD_GET_FILTERED_DECKS: 'flashcard-get-filtered-decks',
+  FLASHCARD_CREATE_FILTERED_DECK: 'flashcard-create-filtered-deck',
+  FLASHCARD_UPDATE_FILTERED_DECK: 'flashcard-update-filtered-deck',
+  FLASHCARD_DELETE_FILTERED_DECK: 'flashcard-delete-filtered-deck',
+  FLASHCARD_GET_FILTERED_CARDS: 'flashcard-get-filtered-cards',
 
   // Flashcards
   FLASHCARD_GET_CARDS: 'flashcard-get-cards',
@@ -89,11 +100,29 @@ export const IPC_CHANNELS = {
   FLASHCARD_ADD_CARD: 'flashcard-add-card',
   FLASHCARD_UPDATE_CARD: 'flashcard-update-card',
   FLASHCARD_DELETE_CARD: 'flashcard-delete-card',
+  FLASHCARD_SET_SUSPENDED: 'flashcard-set-suspended',
+  FLASHCARD_SET_FLAG: 'flashcard-set-flag',
+  FLASHCARD_CREATE_IMAGE_OCCLUSION: 'flashcard-create-image-occlusion',
+  FLASHCARD_GET_IMAGE: 'flashcard-get-image',
+  FLASHCARD_GET_SOURCE: 'flashcard-get-source',
+
+  // Card Browser
+  FLASHCARD_SEARCH: 'flashcard-search',
+  FLASHCARD_MOVE_CARDS: 'flashcard-move-cards',
+  FLASHCARD_RESET_CARDS: 'flashcard-reset-cards',
+  FLASHCARD_DELETE_CARDS: 'flashcard-delete-cards',
+  FLASHCARD_RETAG_CARDS: 'flashcard-retag-cards',
 
   // FSRS / Study
   FLASHCARD_GET_DUE: 'flashcard-get-due',
+  FLASHCARD_SET_DECK_LIMITS: 'flashcard-set-deck-limits',
   FLASHCARD_SUBMIT_REVIEW: 'flashcard-submit-review',
+  FLASHCARD_UNDO_REVIEW: 'flashcard-undo-review',
+  FLASHCARD_GRADE_ANSWER: 'flashcard-grade-answer',
   FLASHCARD_GET_STATS: 'flashcard-get-stats',
+  FLASHCARD_OPTIMIZE_FSRS: 'flashcard-optimize-fsrs',
+  FLASHCARD_GET_FSRS_OPTIMIZATION: 'flashcard-get-fsrs-optimization',
+  FLASHCARD_RESET_FSRS: 'flashcard-reset-fsrs',
 
   // AI Generation
   FLASHCARD_GENERATE_AI: 'flashcard-generate-ai',
@@ -102,13 +131,20 @@ export const IPC_CHANNELS = {
 
   // Export
   FLASHCARD_EXPORT_LEARNBUDDY: 'flashcard-export-learnbuddy',
+  FLASHCARD_EXPORT_APKG: 'flashcard-export-apkg',
+  FLASHCARD_IMPORT_APKG: 'flashcard-import-apkg',
+  FLASHCARD_IMPORT_SELECT_FILE: 'flashcard-import-select-file',
+  FLASHCARD_IMPORT_PREVIEW: 'flashcard-import-preview',
+  FLASHCARD_IMPORT_CARDS: 'flashcard-import-cards',
 
-  // Heatmap
+  // Heatmap / Analytics
   FLASHCARD_GET_HEATMAP: 'flashcard-get-heatmap',
+  FLASHCARD_GET_ANALYTICS: 'flashcard-get-analytics',
 
   // API Usage / Cost Tracking
   API_GET_USAGE_STATS: 'api-get-usage-stats',
   API_CLEAR_USAGE: 'api-clear-usage',
+  API_GET_BUDGET_STATUS: 'api-get-budget-status',
 
   // AI Explanations
   EXPLAIN_TEXT: 'explain-text',
@@ -118,11 +154,29 @@ export const IPC_CHANNELS = {
   // AI Quiz from Highlight
   GENERATE_QUIZ_FROM_HIGHLIGHT: 'generate-quiz-from-highlight',
 
+  // Practice Exams
+  EXAM_GENERATE: 'exam-generate',
+  EXAM_SUBMIT: 'exam-submit',
+  EXAM_GET_ATTEMPTS: 'exam-get-attempts',
+  EXAM_GET_ATTEMPT: 'exam-get-attempt',
+  EXAM_DELETE_ATTEMPT: 'exam-delete-attempt',
+  EXAM_GET_WEAK_TOPICS: 'exam-get-weak-topics',
+  EXAM_APPLY_AGAIN: 'exam-apply-again',
+
   // AI Summaries
   GENERATE_SUMMARY: 'generate-summary',
   GET_SUMMARIES: 'get-summaries',
   DELETE_SUMMARY: 'delete-summary',
 
+  // AI Streaming
+  AI_STREAM_CANCEL: 'ai-stream-cancel',
+
+  // Library Chat (RAG)
+  LIBRARY_CHAT_ASK: 'library-chat-ask',
+  LIBRARY_CHAT_GET_CONVERSATIONS: 'library-chat-get-conversations',
+  LIBRARY_CHAT_GET_MESSAGES: 'library-chat-get-messages',
+  LIBRARY_CHAT_DELETE_CONVERSATION: 'library-chat-delete-conversation',
+
   // Ollama
   OLLAMA_CHECK_STATUS: 'ollama-check-status',
 
@@ -139,6 +193,10 @@ export const IPC_CHANNELS = {
   PDF_ADDED: 'pdf-added',
   PDF_REMOVED: 'pdf-removed',
   OCR_PROGRESS: 'ocr-progress',
+  SEMANTIC_INDEX_PROGRESS: 'semantic-index-progress',
+  AI_STREAM_DELTA: 'ai-stream-delta',
+  BUDGET_WARNING: 'budget-warning',
+  FLASHCARD_GENERATION_PROGRESS: 'flashcard-generation-progress',
 } as const;
 
 export type IPCChannel = typeof IPC_CHANNELS[keyof typeof IPC_CHANNELS];
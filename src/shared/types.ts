@@ -16,13 +16,29 @@ export interface PDFPage {
 }
 
 // Search Types
+export type SearchMode = 'exact' | 'fuzzy' | 'intelligent' | 'semantic' | 'hybrid';
+
+// Which ranking signal found a search hit
+export type SearchMatchSignal = 'keyword' | 'semantic' | 'both';
+
 export interface SearchResult {
   id: number;
   fileName: string;
   filePath: string;
   pageNum: number;
   snippet: string;
-  rank: number;
+  rank: number;   // lower is better (bm25, negated cosine similarity or negated fusion score)
+  matchedBy?: SearchMatchSignal;
+}
+
+// Semantic Index Status (page embeddings)
+export interface SemanticIndexStatus {
+  isIndexing: boolean;
+  model: string | null;
+  totalPages: number;
+  processedPages: number;
+  indexedPages: number;   // pages with embeddings for the current model
+  error: string | null;
 }
 
 // Tag Types
@@ -78,19 +94,31 @@ export interface AppSettings {
   ocrEnabled: boolean;
   ocrLanguages: string[];
   searchLimit: number;
-  searchMode: 'exact' | 'fuzzy' | 'intelligent';
+  searchMode: SearchMode;
+  hybridSemanticWeight: number;   // 0 = keywords only, 1 = semantic only
   // AI Provider Settings
-  aiProvider: AIProvider;
+  aiProvider: string;             // 'openai', 'ollama' or the id of a custom provider
+  customProviders: CustomAIProvider[];
+  operationRoutes: Partial<Record<AIOperation, AIModelRoute[]>>;   // Primary model first, then fallbacks
+  // API Budget (USD, 0 = no limit)
+  dailyBudgetUsd: number;
+  monthlyBudgetUsd: number;
   // OpenAI Settings
   openaiApiKey: string | null;
   openaiModel: OpenAIModel;
   // Ollama Settings
   ollamaModel: string;
   ollamaBaseUrl: string;
+  // Embedding models for semantic search
+  openaiEmbeddingModel: string;
+  ollamaEmbeddingModel: string;
   // Flashcard Settings
   flashcardLanguage: 'de' | 'en';
   dailyNewCards: number;
   dailyReviewCards: number;
+  desiredRetention: number;   // Target recall probability used for scheduling (0.7-0.97)
+  leechThreshold: number;     // Lapses after which a card is a leech
+  leechAction: LeechAction;
 }
 
 // Indexing Status
@@ -139,6 +167,7 @@ export interface ExplainResult {
   id?: number;
   cost?: number;
   error?: string;
+  cancelled?: boolean;
 }
 
 // AI Summary Types
@@ -158,6 +187,60 @@ export interface SummaryResult {
   id?: number;
   cost?: number;
   error?: string;
+  cancelled?: boolean;
+}
+
+// Library Chat (RAG) Types
+export interface ChatCitation {
+  pdfId: number;
+  fileName: string;
+  pageNum: number;
+}
+
+export interface ChatConversation {
+  id: number;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LibraryChatMessage {
+  id: number;
+  conversationId: number;
+  role: 'user' | 'assistant';
+  content: string;
+  citations: ChatCitation[];
+  createdAt: string;
+}
+
+export interface LibraryChatResult {
+  success: boolean;
+  conversationId?: number;
+  message?: LibraryChatMessage;
+  cost?: number;
+  error?: string;
+  cancelled?: boolean;
+}
+
+// Streamed AI response chunk (Main -> Renderer)
+export interface AIStreamDelta {
+  requestId: string;
+  delta: string;
+}
+
+// API spending against the configured caps
+export interface BudgetStatus {
+  todayUsd: number;
+  monthUsd: number;
+  dailyLimitUsd: number;      // 0 = no limit
+  monthlyLimitUsd: number;    // 0 = no limit
+}
+
+// Sent when spending reaches 80% of a cap (Main -> Renderer)
+export interface BudgetWarning {
+  period: 'daily' | 'monthly';
+  message: string;
 }
 
 // AI Quiz from Highlight Result
@@ -191,15 +274,52 @@ export interface Highlight {
 export interface FlashcardDeck {
   id: number;
   pdfId: number | null;
+  parentId: number | null;          // Studying a deck includes its subdecks
   name: string;
   description: string | null;
   createdAt: string;
   updatedAt: string;
   cardCount?: number;
   dueCount?: number;
+  newCardsPerDay: number | null;    // Overrides the global daily limits (null = use global)
+  reviewsPerDay: number | null;
 }
 
-export type FlashcardType = 'basic' | 'cloze';
+// Saved card search that is studied like a deck. The cards stay in their own decks,
+// cards that are not due yet are only practiced and keep their schedule.
+export interface FilteredDeck {
+  id: number;
+  name: string;
+  query: string;                    // Card search, e.g. "lapses>3 pdftag:Exam"
+  cardLimit: number;
+  createdAt: string;
+  updatedAt: string;
+  cardCount?: number;
+  dueCount?: number;
+}
+
+// FSRS weights fitted to the review history (globally or for one deck)
+export interface FsrsOptimization {
+  parameters: number[];
+  logLossBefore: number;
+  logLossAfter: number;
+  reviewCount: number;
+  optimizedAt: string;
+}
+
+// Daily study limits (new cards introduced / review cards studied per day)
+export interface StudyLimits {
+  newCards: number;
+  reviewCards: number;
+}
+
+export type FlashcardType = 'basic' | 'cloze' | 'image_occlusion';
+
+// Color marker of a card: 0 = none, 1 = red, 2 = orange, 3 = green, 4 = blue
+export type CardFlag = 0 | 1 | 2 | 3 | 4;
+
+// What happens to a card that reaches the leech threshold (it is always tagged "leech")
+export type LeechAction = 'tag' | 'suspend';
 
 export interface Flashcard {
   id: number;
@@ -210,10 +330,46 @@ export interface Flashcard {
   cardType: FlashcardType;
   clozeData: string | null;
   sourcePage: number | null;
+  tags: string[];
+  clozeIndex: number | null;        // Deletion (cloze) or mask (image occlusion) shown as the question
+  siblingGroupId: number | null;    // Id of the first card of the same cloze or image occlusion note
+  imageId: number | null;           // Cropped page image of image occlusion cards
+  suspended: boolean;               // Excluded from studying until unsuspended
+  flag: CardFlag;
   createdAt: string;
   updatedAt: string;
 }
 
+// Image occlusion: a cropped PDF page region with masks over the parts to recall
+export interface ImageOcclusionMask extends HighlightRect {
+  label: string;          // Answer shown when the mask is revealed (optional, may be empty)
+}
+
+export interface FlashcardImage {
+  id: number;
+  pdfId: number | null;
+  pageNum: number;
+  region: HighlightRect;          // Cropped region, percentages of the page
+  masks: ImageOcclusionMask[];    // Percentages of the cropped image, card n hides mask n
+  dataUrl: string;
+}
+
+// Where a card was made from, to open the PDF there
+export interface CardSource {
+  pdfId: number;
+  pageNum: number;
+  highlightId: number | null;   // Highlight to flash on the page, if the card came from one
+}
+
+export interface ImageOcclusionInput {
+  pdfId: number;
+  pageNum: number;
+  region: HighlightRect;
+  masks: ImageOcclusionMask[];
+  front: string;          // Question shown above the image
+  back: string;
+}
+
 // FSRS v4.5 Types
 export type FSRSState = 0 | 1 | 2 | 3; // New, Learning, Review, Relearning
 export type FSRSRating = 1 | 2 | 3 | 4; // Again, Hard, Good, Easy
@@ -237,6 +393,11 @@ export interface FlashcardWithFSRS extends Flashcard {
   fsrs: FlashcardFSRS;
 }
 
+// Card browser row, fsrs.retrievability is computed for the time of the search
+export interface CardSearchResult extends FlashcardWithFSRS {
+  deckName: string;
+}
+
 export interface FlashcardReview {
   id: number;
   flashcardId: number;
@@ -245,6 +406,7 @@ export interface FlashcardReview {
   scheduledDays: number;
   elapsedDays: number;
   state: FSRSState;
+  durationMs: number | null;    // Answer time, null for reviews from before it was measured
 }
 
 export interface FlashcardStats {
@@ -252,13 +414,51 @@ export interface FlashcardStats {
   newCards: number;
   learningCards: number;
   reviewCards: number;
-  dueToday: number;
+  dueToday: number;                 // Without suspended and buried cards
   reviewedToday: number;
   streak: number;
+  suspendedCards: number;
+  buriedCards: number;              // Due, but a sibling was already reviewed today
 }
 
 // AI Provider Types
-export type AIProvider = 'openai' | 'ollama';
+export type AIProvider = 'openai' | 'ollama' | 'openai-compatible';
+
+export interface AIProviderModel {
+  id: string;
+  inputPrice: number;     // USD per 1M tokens
+  outputPrice: number;    // USD per 1M tokens
+}
+
+// User-defined OpenAI-compatible endpoint (LM Studio, llama.cpp, vLLM, Azure, ...)
+export interface CustomAIProvider {
+  id: string;
+  name: string;
+  baseUrl: string;                    // e.g. http://localhost:1234/v1
+  apiKey: string | null;
+  headers: Record<string, string>;    // Extra headers, e.g. api-key for Azure
+  query: Record<string, string>;      // Extra query params, e.g. api-version for Azure
+  models: AIProviderModel[];
+  defaultModel: string;
+  embeddingModel: string | null;
+}
+
+// AI features that can be routed to their own provider
+export type AIOperation =
+  | 'outline_generation'
+  | 'explanation'
+  | 'summary'
+  | 'flashcard_generation'
+  | 'quiz_from_highlight'
+  | 'library_chat'
+  | 'answer_grading'
+  | 'practice_exam';
+
+// One step of an operation's model route
+export interface AIModelRoute {
+  providerId: string;     // 'openai', 'ollama' or a custom provider id
+  model: string;          // Empty = the provider's default model
+}
 
 export interface OllamaStatus {
   available: boolean;
@@ -281,25 +481,202 @@ export interface GeneratedCard {
   front: string;
   back: string;
   cardType: FlashcardType;
+  sourcePage?: number;    // First page of the text chunk the card was generated from
+}
+
+// Progress of a chunked flashcard generation (sent per chunk)
+export interface FlashcardGenerationProgress {
+  requestId: string;
+  completedChunks: number;
+  totalChunks: number;
+  currentPages: number[];   // Pages of the chunk being generated (empty when done)
+  cardCount: number;        // Cards generated so far, before duplicate removal
+}
+
+// Text file import (CSV/TSV, Markdown Q/A lists, Quizlet exports)
+export type FlashcardImportFormat = 'csv' | 'tsv' | 'markdown' | 'quizlet';
+
+// Column index per card field (null = not mapped)
+export interface FlashcardColumnMapping {
+  front: number;
+  back: number;
+  cardType: number | null;
+  tags: number | null;
+  sourcePage: number | null;
+}
+
+export interface FlashcardImportOptions {
+  format: FlashcardImportFormat;
+  hasHeader: boolean;
+  mapping: FlashcardColumnMapping;
+  delimiter?: string;         // CSV only, detected if omitted
+  termSeparator?: string;     // Quizlet only (default: tab)
+  rowSeparator?: string;      // Quizlet only (default: new line)
+}
+
+export interface ImportedFlashcard {
+  front: string;
+  back: string;
+  cardType: FlashcardType;
+  clozeData: string | null;
+  tags: string[];
+  sourcePage: number | null;
+  duplicate: boolean;         // Already in the target deck or earlier in the file
+}
+
+export interface FlashcardImportPreview {
+  columns: string[];          // Header names, or "Spalte n" without header
+  cards: ImportedFlashcard[];
+  duplicateCount: number;
+  skippedRows: number;        // Rows without front or back
+}
+
+// Typed Answer Types
+// Part of a typed answer compared with the expected one
+export interface AnswerDiffSegment {
+  type: 'equal' | 'extra' | 'missing';    // extra = typed but not expected, missing = expected but not typed
+  text: string;
+}
+
+// AI judgement of a typed answer
+export interface AnswerGrading {
+  verdict: 'correct' | 'partial' | 'incorrect';
+  suggestedRating: FSRSRating;
+  feedback: string;     // What is missing or wrong, short
+}
+
+// Practice Exam Types
+export type ExamQuestionType = 'multiple_choice' | 'true_false';
+
+// What an exam is generated from: the cards of a deck (with subdecks) or a page range of a PDF
+export type ExamSource =
+  | { kind: 'deck'; deckId: number }
+  | { kind: 'pages'; pdfId: number; startPage: number; endPage: number };
+
+export interface ExamQuestion {
+  type: ExamQuestionType;
+  question: string;
+  options: string[];          // True/false questions have the two options true, false
+  correctIndex: number;
+  explanation: string;
+  topic: string;
+  flashcardIds: number[];     // Cards the question tests, a wrong answer can rate them "Again"
+  pageNum: number | null;
+}
+
+export interface ExamGenerationOptions {
+  source: ExamSource;
+  questionCount: number;
+  types: ExamQuestionType[];
+}
+
+// A generated exam that has not been taken yet
+export interface PracticeExam {
+  title: string;
+  source: ExamSource;
+  questions: ExamQuestion[];
+}
+
+export interface ExamTopicScore {
+  topic: string;
+  correct: number;
+  total: number;
+}
+
+export interface ExamAttemptSummary {
+  id: number;
+  title: string;
+  deckId: number | null;
+  pdfId: number | null;
+  correctCount: number;
+  questionCount: number;
+  timeLimitSeconds: number | null;   // Null = no time limit
+  durationSeconds: number;
+  againApplied: boolean;             // Wrong answers were already rated "Again"
+  createdAt: string;
+}
+
+export interface ExamAttempt extends ExamAttemptSummary {
+  source: ExamSource;
+  questions: ExamQuestion[];
+  answers: Array<number | null>;     // Chosen option per question, null = unanswered
+  topics: ExamTopicScore[];
 }
 
 // Heatmap Types
 export type HeatmapTimeframe = 'week' | 'month' | 'year';
+export type HeatmapMetric = 'reviews' | 'minutes';
 
 export interface HeatmapDataPoint {
   date: string;   // YYYY-MM-DD
-  count: number;
+  count: number;  // Reviews or minutes, by metric
 }
 
 export interface HeatmapData {
   data: HeatmapDataPoint[];
   maxCount: number;
   totalReviews: number;
+  totalMinutes: number;
   streak: number;
   startDate: string;
   endDate: string;
 }
 
+// Analytics Types
+export interface DueForecastDay {
+  date: string;   // YYYY-MM-DD, overdue cards count for today
+  count: number;
+}
+
+// Pass rate of reviews after at least a day, learning steps on the same day are left out
+export interface DeckRetention {
+  deckId: number;
+  deckName: string;
+  reviews: number;
+  passed: number;
+  recentReviews: number;    // Last 30 days
+  recentPassed: number;
+}
+
+export interface DistributionBucket {
+  label: string;
+  count: number;
+}
+
+// Reviews whose predicted retrievability was in [from, to)
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  predicted: number;  // Mean predicted retrievability
+  actual: number;     // Share of reviews not rated Again
+  count: number;
+}
+
+export interface SlowCard {
+  id: number;
+  front: string;
+  deckName: string;
+  averageSeconds: number;
+  reviews: number;    // Reviews with a measured time
+}
+
+// Only reviews with a measured answer time
+export interface AnswerTimeStats {
+  averageSeconds: number | null;
+  daily: Array<{ date: string; minutes: number }>;   // Last 30 days, YYYY-MM-DD
+  slowestCards: SlowCard[];
+}
+
+export interface FlashcardAnalytics {
+  forecast: DueForecastDay[];
+  retention: DeckRetention[];
+  stability: DistributionBucket[];    // Days, cards that are not new
+  difficulty: DistributionBucket[];
+  calibration: CalibrationBin[];
+  answerTime: AnswerTimeStats;
+  desiredRetention: number;
+}
+
 // Export Types
 export type ExportFormat = 'standard' | 'obsidian';
 